@@ -0,0 +1,171 @@
+/**
+ * Billing for the subscription plans: checkout, plan changes, cancellation and provider
+ * webhooks, behind a provider interface so the payment service can be swapped.
+ *
+ * A provider is an object with:
+ *   name                                   Stored with subscriptions, invoices and events
+ *   createCheckoutSession(options)         -> { url } to send the user to for payment;
+ *                                             options: { userId, email, customerId, plan,
+ *                                             successUrl, cancelUrl, origin }
+ *   changePlan({ subscription, plan })     -> events for the subscription on the new plan
+ *   cancelSubscription({ subscription })   -> events for a cancellation at the period end
+ *   resumeSubscription({ subscription })   -> events for undoing that cancellation
+ *   parseWebhook(rawBody, headers)         -> the verified event; throws when the signature
+ *                                             is wrong
+ *
+ * Events are normalized to { id, type, userId, subscription?, invoice? } and applied by the
+ * apply_billing_event database function; `type` is one of subscription.updated,
+ * subscription.canceled, invoice.paid and invoice.payment_failed.
+ *
+ * Options (environment variables):
+ *   BILLING_PROVIDER            Provider to use; billing is off when unset ("mock" for the
+ *                               local provider in mockBillingProvider.js, which is refused
+ *                               when VERCEL_ENV is "production")
+ *   BILLING_WEBHOOK_SECRET      Verifies the provider's webhooks
+ *   APP_ORIGIN                  Where the app is served; checkout returns there, and billing
+ *                               is off when it is unset
+ *   SUPABASE_SERVICE_ROLE_KEY   Needed to write subscriptions and invoices
+ */
+import { mockBillingProvider } from './mockBillingProvider.js';
+import { getAppOrigin, sendJson } from './request.js';
+
+const PROVIDERS = {
+  mock: mockBillingProvider,
+};
+
+export class BillingError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * The configured provider, or null when billing is off
+ */
+export const getBillingProvider = () => {
+  const name = process.env.BILLING_PROVIDER;
+  if (!name) return null;
+
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown billing provider "${name}"`);
+  }
+  // Free upgrades for anyone must never reach real users; billing stays off instead
+  if (provider === mockBillingProvider && process.env.VERCEL_ENV === 'production') {
+    console.error('The mock billing provider is disabled in production; set BILLING_PROVIDER to a real provider');
+    return null;
+  }
+  // Checkout return links and the mock provider's webhooks go to the configured app only
+  if (!getAppOrigin()) {
+    console.error('Billing needs APP_ORIGIN, the address the app is served from');
+    return null;
+  }
+  return provider;
+};
+
+const getSupabaseConfig = () => {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const anonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !anonKey || !serviceRoleKey) {
+    throw new Error('Missing Supabase environment variables');
+  }
+  return { url: url.replace(/\/$/, ''), anonKey, serviceRoleKey };
+};
+
+const serviceFetch = async (path, init = {}) => {
+  const { url, serviceRoleKey } = getSupabaseConfig();
+  const response = await fetch(`${url}${path}`, {
+    ...init,
+    headers: {
+      apikey: serviceRoleKey,
+      Authorization: `Bearer ${serviceRoleKey}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Supabase request failed with ${response.status}: ${await response.text()}`);
+  }
+  return response.status === 204 ? null : response.json();
+};
+
+/**
+ * The signed-in user behind the request's `Authorization: Bearer <access token>`, or null
+ */
+export const getRequestUser = async (req) => {
+  const token = String(req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { url, anonKey } = getSupabaseConfig();
+  const response = await fetch(`${url}/auth/v1/user`, {
+    headers: { apikey: anonKey, Authorization: `Bearer ${token}` },
+  });
+  if (!response.ok) return null;
+
+  const user = await response.json();
+  return user && user.id ? { id: user.id, email: user.email || null } : null;
+};
+
+export const getPlan = async (planId) => {
+  const rows = await serviceFetch(`/rest/v1/subscription_plans?select=*&id=eq.${encodeURIComponent(planId)}`);
+  return rows[0] || null;
+};
+
+export const getSubscription = async (userId) => {
+  const rows = await serviceFetch(`/rest/v1/billing_subscriptions?select=*&user_id=eq.${encodeURIComponent(userId)}`);
+  return rows[0] || null;
+};
+
+/**
+ * The user's newest unpaid invoice, or null
+ */
+export const getOpenInvoice = async (userId) => {
+  const rows = await serviceFetch(
+    `/rest/v1/billing_invoices?select=*&user_id=eq.${encodeURIComponent(userId)}&status=eq.open&order=created_at.desc&limit=1`
+  );
+  return rows[0] || null;
+};
+
+/**
+ * Whether a subscription still renews, or is past due but within its grace period
+ */
+export const isSubscriptionLive = (subscription) =>
+  Boolean(subscription) && ['active', 'past_due'].includes(subscription.status);
+
+export const isPurchasable = (plan) => Boolean(plan) && plan.price_cents > 0;
+
+/**
+ * Apply provider events in order; events already applied are skipped by the database
+ */
+export const applyBillingEvents = async (provider, events) => {
+  for (const event of events) {
+    await serviceFetch('/rest/v1/rpc/apply_billing_event', {
+      method: 'POST',
+      body: JSON.stringify({
+        p_provider: provider.name,
+        p_event_id: event.id,
+        p_event_type: event.type,
+        p_user_id: event.userId,
+        p_subscription: event.subscription || null,
+        p_invoice: event.invoice || null,
+      }),
+    });
+  }
+};
+
+export const expireBillingSubscriptions = () =>
+  serviceFetch('/rest/v1/rpc/expire_billing_subscriptions', { method: 'POST', body: '{}' });
+
+/**
+ * Answer BillingErrors with their message and anything else with a generic 500
+ */
+export const sendError = (res, error, context) => {
+  if (error instanceof BillingError) {
+    sendJson(res, error.status, { error: error.message });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  sendJson(res, 500, { error: 'Billing request failed' });
+};
@@ -0,0 +1,289 @@
+/**
+ * Link previews for shared card URLs: Open Graph and Twitter Card tags injected into the
+ * SPA's index.html, and a 1200x630 preview image drawn from the card's theme.
+ *
+ * Shared by the Vercel functions in api/ and the local preview server
+ * (scripts/og-preview-server.mjs). Files under api/_lib are not deployed as functions.
+ */
+import { ImageResponse } from '@vercel/og';
+
+export const IMAGE_WIDTH = 1200;
+export const IMAGE_HEIGHT = 630;
+
+const SITE_NAME = 'Digital Business Card';
+
+// Same as the first built-in theme in src/utils/themeUtils.ts
+const DEFAULT_THEME = { primary: '#3B82F6', secondary: '#1E40AF', background: '#FFFFFF', text: '#1F2937' };
+
+const CARD_COLUMNS = 'title,company,position,bio,avatar_url,theme,slug,visibility,updated_at';
+
+// Image types the renderer can embed; anything else falls back to initials
+const EMBEDDABLE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif'];
+
+// A slow or huge avatar falls back to initials rather than holding up the preview
+const AVATAR_TIMEOUT_MS = 3000;
+const MAX_AVATAR_BYTES = 5 * 1024 * 1024;
+
+const getSupabaseConfig = () => {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const anonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+  if (!url || !anonKey) {
+    throw new Error('Missing Supabase environment variables');
+  }
+  return { url: url.replace(/\/$/, ''), anonKey };
+};
+
+const supabaseFetch = async (path, init = {}) => {
+  const { url, anonKey } = getSupabaseConfig();
+  const response = await fetch(`${url}${path}`, {
+    ...init,
+    headers: {
+      apikey: anonKey,
+      Authorization: `Bearer ${anonKey}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Supabase request failed with ${response.status}`);
+  }
+  return response.json();
+};
+
+/**
+ * The public card at `slug`, or the card that used to live there (with `renamed` set),
+ * or null. Runs with the anon key, so protected and organization cards are never found.
+ */
+export const fetchPreviewCard = async (slug) => {
+  const findBySlug = async (value) => {
+    const rows = await supabaseFetch(
+      `/rest/v1/business_cards?select=${CARD_COLUMNS}&slug=eq.${encodeURIComponent(value)}&is_published=eq.true&limit=1`
+    );
+    return rows[0] || null;
+  };
+
+  const card = await findBySlug(slug);
+  if (card) return card;
+
+  const currentSlug = await supabaseFetch('/rest/v1/rpc/resolve_card_slug', {
+    method: 'POST',
+    body: JSON.stringify({ p_slug: slug }),
+  });
+  if (!currentSlug || currentSlug === slug) return null;
+
+  const renamedCard = await findBySlug(currentSlug);
+  return renamedCard ? { ...renamedCard, renamed: true } : null;
+};
+
+/**
+ * Slug from a rewritten request (`?slug=`) or the last path segment, or '' when there is
+ * none. Query values arrive decoded; only the path segment still needs it.
+ */
+export const getRequestSlug = (req) => {
+  const url = new URL(req.url, 'http://localhost');
+  const querySlug = (req.query && req.query.slug) || url.searchParams.get('slug');
+  if (querySlug) return String(querySlug).toLowerCase();
+
+  try {
+    return decodeURIComponent(url.pathname.split('/').pop() || '').toLowerCase();
+  } catch {
+    return '';
+  }
+};
+
+const getTheme = (card) => {
+  const theme = card.theme && typeof card.theme === 'object' ? card.theme : {};
+  const color = (value, fallback) => (/^#[0-9a-f]{6}$/i.test(value || '') ? value : fallback);
+  return {
+    primary: color(theme.primary, DEFAULT_THEME.primary),
+    secondary: color(theme.secondary, DEFAULT_THEME.secondary),
+    background: color(theme.background, DEFAULT_THEME.background),
+    text: color(theme.text, DEFAULT_THEME.text),
+  };
+};
+
+const truncate = (value, length) => {
+  const text = (value || '').replace(/\s+/g, ' ').trim();
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+};
+
+const escapeHtml = (value) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+/**
+ * Title, description and URLs for a card's link preview
+ */
+export const buildCardMeta = (card, origin) => {
+  const name = card.title || 'Business Card';
+  const role = [card.position, card.company].filter(Boolean).join(' at ');
+  const version = card.updated_at ? `?v=${encodeURIComponent(new Date(card.updated_at).getTime())}` : '';
+
+  return {
+    title: role ? `${name} · ${role}` : name,
+    description: truncate(card.bio || role || `${name}'s digital business card`, 200),
+    url: `${origin}/c/${card.slug}`,
+    image: `${origin}/og/c/${card.slug}${version}`,
+    imageAlt: role ? `${name}, ${role}` : name,
+    noIndex: card.visibility !== 'public',
+  };
+};
+
+export const renderMetaTags = (meta) => {
+  const tags = [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(meta.description)}" />`,
+    `<link rel="canonical" href="${escapeHtml(meta.url)}" />`,
+    `<meta property="og:site_name" content="${SITE_NAME}" />`,
+    '<meta property="og:type" content="profile" />',
+    `<meta property="og:title" content="${escapeHtml(meta.title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(meta.description)}" />`,
+    `<meta property="og:url" content="${escapeHtml(meta.url)}" />`,
+    `<meta property="og:image" content="${escapeHtml(meta.image)}" />`,
+    `<meta property="og:image:width" content="${IMAGE_WIDTH}" />`,
+    `<meta property="og:image:height" content="${IMAGE_HEIGHT}" />`,
+    `<meta property="og:image:alt" content="${escapeHtml(meta.imageAlt)}" />`,
+    '<meta name="twitter:card" content="summary_large_image" />',
+    `<meta name="twitter:title" content="${escapeHtml(meta.title)}" />`,
+    `<meta name="twitter:description" content="${escapeHtml(meta.description)}" />`,
+    `<meta name="twitter:image" content="${escapeHtml(meta.image)}" />`,
+  ];
+  if (meta.noIndex) {
+    tags.push('<meta name="robots" content="noindex, nofollow" />');
+  }
+  return tags.join('\n  ');
+};
+
+/**
+ * Replace the site-wide title, description and social tags in index.html with the card's
+ */
+export const injectMetaTags = (html, tags) =>
+  html
+    .replace(/<title>[\s\S]*?<\/title>\s*/i, '')
+    .replace(/<meta\s+name="description"[^>]*>\s*/gi, '')
+    .replace(/<meta\s+property="og:[^"]*"[^>]*>\s*/gi, '')
+    .replace(/<meta\s+name="twitter:[^"]*"[^>]*>\s*/gi, '')
+    .replace(/<!--\s*(Open Graph[^>]*|Twitter)\s*-->\s*/gi, '')
+    .replace(/\s*<\/head>/i, `\n  ${tags}\n  </head>`);
+
+// The response body, or null once it grows past `limit` bytes
+const readLimited = async (response, limit) => {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of response.body) {
+    size += chunk.length;
+    if (size > limit) return null;
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+// Only photos in the project's own public storage are fetched, so a card can't point the
+// server at internal addresses
+const isStorageUrl = (value) => {
+  try {
+    const url = new URL(value);
+    const storage = new URL(getSupabaseConfig().url);
+    return url.origin === storage.origin && url.pathname.startsWith('/storage/v1/object/public/');
+  } catch {
+    return false;
+  }
+};
+
+const loadAvatar = async (url) => {
+  if (!url || !isStorageUrl(url)) return null;
+  try {
+    const response = await fetch(url, { redirect: 'error', signal: AbortSignal.timeout(AVATAR_TIMEOUT_MS) });
+    const type = (response.headers.get('content-type') || '').split(';')[0];
+    if (!response.ok || !EMBEDDABLE_IMAGE_TYPES.includes(type) || !response.body) return null;
+    if (Number(response.headers.get('content-length')) > MAX_AVATAR_BYTES) return null;
+
+    // Content-Length can be missing or wrong, so the body is capped as it is read too
+    const data = await readLimited(response, MAX_AVATAR_BYTES);
+    return data ? `data:${type};base64,${data.toString('base64')}` : null;
+  } catch {
+    return null;
+  }
+};
+
+// Minimal element builder in the shape the renderer expects, so no JSX build step is needed
+const h = (type, style, children = [], extraProps = {}) => ({
+  type,
+  props: { style, children, ...extraProps },
+});
+
+/**
+ * PNG preview image: the card's name, role and photo on its theme colors
+ */
+export const renderCardImage = async (card) => {
+  const theme = getTheme(card);
+  const name = truncate(card.title || 'Business Card', 40);
+  const avatar = await loadAvatar(card.avatar_url);
+  const initials = name
+    .split(' ')
+    .map(word => (word.match(/[\p{L}\p{N}]/u) || [''])[0].toUpperCase())
+    .filter(Boolean)
+    .slice(0, 2)
+    .join('');
+
+  const photo = avatar
+    ? h('img', { width: 240, height: 240, borderRadius: 120, objectFit: 'cover', border: `8px solid ${theme.background}` }, [], {
+      src: avatar,
+      width: 240,
+      height: 240,
+    })
+    : h('div', {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      width: 240,
+      height: 240,
+      borderRadius: 120,
+      backgroundColor: theme.primary,
+      color: '#FFFFFF',
+      fontSize: 96,
+      fontWeight: 700,
+      border: `8px solid ${theme.background}`,
+    }, initials || '?');
+
+  const details = [
+    h('div', { fontSize: 64, fontWeight: 700, color: theme.text, lineHeight: 1.1 }, name),
+  ];
+  if (card.position) {
+    details.push(h('div', { fontSize: 36, color: theme.primary, marginTop: 16 }, truncate(card.position, 50)));
+  }
+  if (card.company) {
+    details.push(h('div', { fontSize: 32, color: theme.text, opacity: 0.7, marginTop: 8 }, truncate(card.company, 50)));
+  }
+  if (card.bio) {
+    details.push(h('div', { fontSize: 26, color: theme.text, opacity: 0.8, marginTop: 28, lineHeight: 1.35 }, truncate(card.bio, 140)));
+  }
+
+  const root = h('div', {
+    display: 'flex',
+    width: '100%',
+    height: '100%',
+    padding: 48,
+    backgroundImage: `linear-gradient(135deg, ${theme.primary}, ${theme.secondary})`,
+    fontFamily: 'sans-serif',
+  }, [
+    h('div', {
+      display: 'flex',
+      alignItems: 'center',
+      width: '100%',
+      height: '100%',
+      padding: '0 64px',
+      borderRadius: 32,
+      backgroundColor: theme.background,
+    }, [
+      photo,
+      h('div', { display: 'flex', flexDirection: 'column', flex: 1, marginLeft: 56 }, details),
+    ]),
+  ]);
+
+  const response = new ImageResponse(root, { width: IMAGE_WIDTH, height: IMAGE_HEIGHT });
+  return Buffer.from(await response.arrayBuffer());
+};
@@ -0,0 +1,212 @@
+/**
+ * Local stand-in for a payment provider, so checkout, plan changes, renewals and the
+ * grace-period downgrade can be exercised end to end without a live payment service.
+ * Nothing is charged.
+ *
+ * Checkout sends the user to /api/billing/mock-checkout, which pays or gives up. Payments
+ * come back through /api/billing/webhook signed the way the app signs its own webhooks:
+ * `X-Billing-Signature: t=<unix time>,v1=<hex HMAC-SHA256 of "<t>.<body>" with the secret>`.
+ * scripts/billing-simulate.mjs sends renewals and failed payments the same way.
+ *
+ * Switching plans starts a new monthly period and charges the new plan in full.
+ *
+ * Lets anyone upgrade for free, so billing.js refuses it on a production deployment.
+ *
+ * Options (environment variables):
+ *   BILLING_WEBHOOK_SECRET  Signs checkout sessions and webhooks (required)
+ */
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+
+const SESSION_TTL_SECONDS = 60 * 60;
+
+// Reject signatures older than this to guard against replayed requests
+const TOLERANCE_SECONDS = 5 * 60;
+
+const getSecret = () => {
+  const secret = process.env.BILLING_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('BILLING_WEBHOOK_SECRET must be set to use the mock billing provider');
+  }
+  return secret;
+};
+
+const sign = (value) => createHmac('sha256', getSecret()).update(value).digest('hex');
+
+const signatureMatches = (expected, actual) =>
+  expected.length === actual.length && timingSafeEqual(Buffer.from(expected), Buffer.from(actual));
+
+const mockId = (prefix) => `${prefix}_mock_${randomUUID().replace(/-/g, '').slice(0, 20)}`;
+
+const addMonth = (date) => {
+  const next = new Date(date);
+  next.setMonth(next.getMonth() + 1);
+  return next;
+};
+
+const buildEvent = (type, userId, data = {}) => ({ id: mockId('evt'), type, userId, ...data });
+
+// The subscription as the provider would now report it
+const subscriptionSnapshot = (subscription, changes = {}) => ({
+  customer_id: subscription.customer_id,
+  subscription_id: subscription.subscription_id,
+  plan_id: subscription.plan_id,
+  status: subscription.status,
+  current_period_end: subscription.current_period_end,
+  cancel_at_period_end: subscription.cancel_at_period_end,
+  ...changes,
+});
+
+const buildInvoice = (plan, periodStart, status) => ({
+  invoice_id: mockId('in'),
+  plan_id: plan.id,
+  amount_cents: plan.price_cents,
+  currency: plan.currency,
+  status,
+  invoice_url: null,
+  period_start: periodStart.toISOString(),
+  period_end: addMonth(periodStart).toISOString(),
+});
+
+// A new period on `plan` starting now, paid
+const startPeriod = (userId, subscription, plan) => {
+  const now = new Date();
+  return [
+    buildEvent('subscription.updated', userId, {
+      subscription: subscriptionSnapshot(subscription, {
+        plan_id: plan.id,
+        status: 'active',
+        current_period_end: addMonth(now).toISOString(),
+        cancel_at_period_end: false,
+      }),
+    }),
+    buildEvent('invoice.paid', userId, { invoice: buildInvoice(plan, now, 'paid') }),
+  ];
+};
+
+export const mockBillingProvider = {
+  name: 'mock',
+
+  createCheckoutSession: async ({ userId, email, customerId, plan, successUrl, cancelUrl, origin }) => {
+    const session = {
+      userId,
+      email,
+      customerId: customerId || mockId('cus'),
+      planId: plan.id,
+      successUrl,
+      cancelUrl,
+      expiresAt: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+    };
+    const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+    const token = `${payload}.${sign(payload)}`;
+    return { url: `${origin}/api/billing/mock-checkout?session=${encodeURIComponent(token)}` };
+  },
+
+  changePlan: async ({ subscription, plan }) => startPeriod(subscription.user_id, subscription, plan),
+
+  cancelSubscription: async ({ subscription }) => [
+    buildEvent('subscription.updated', subscription.user_id, {
+      subscription: subscriptionSnapshot(subscription, { cancel_at_period_end: true }),
+    }),
+  ],
+
+  resumeSubscription: async ({ subscription }) => [
+    buildEvent('subscription.updated', subscription.user_id, {
+      subscription: subscriptionSnapshot(subscription, { cancel_at_period_end: false }),
+    }),
+  ],
+
+  parseWebhook: (rawBody, headers) => {
+    const parts = Object.fromEntries(
+      String(headers['x-billing-signature'] || '').split(',').map(part => part.split('='))
+    );
+    if (!parts.t || !parts.v1) {
+      throw new Error('Missing signature');
+    }
+    if (Math.abs(Date.now() / 1000 - Number(parts.t)) > TOLERANCE_SECONDS) {
+      throw new Error('Signature has expired');
+    }
+    if (!signatureMatches(sign(`${parts.t}.${rawBody}`), parts.v1)) {
+      throw new Error('Signature mismatch');
+    }
+    return JSON.parse(rawBody);
+  },
+};
+
+/**
+ * The checkout session behind a token from createCheckoutSession, or null when the token
+ * was tampered with or has expired
+ */
+export const readCheckoutSession = (token) => {
+  const [payload, signature] = String(token || '').split('.');
+  if (!payload || !signature || !signatureMatches(sign(payload), signature)) return null;
+
+  const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  return session.expiresAt > Date.now() / 1000 ? session : null;
+};
+
+/**
+ * Events for a paid checkout: a new subscription and its first invoice
+ */
+export const completeCheckout = (session, plan) =>
+  startPeriod(session.userId, {
+    customer_id: session.customerId,
+    subscription_id: mockId('sub'),
+    cancel_at_period_end: false,
+  }, plan);
+
+/**
+ * Events for the end of a subscription's current period: the next month paid, or a failed
+ * payment that starts the grace period. Subscriptions set to cancel end instead. Paying
+ * while past due settles `openInvoice`, the renewal that failed.
+ */
+export const renewSubscription = (subscription, plan, { paid, openInvoice = null }) => {
+  if (subscription.cancel_at_period_end) {
+    return [
+      buildEvent('subscription.canceled', subscription.user_id, {
+        subscription: subscriptionSnapshot(subscription, { status: 'canceled', cancel_at_period_end: false }),
+      }),
+    ];
+  }
+
+  const periodStart = new Date(subscription.current_period_end || Date.now());
+  if (!paid) {
+    return [
+      buildEvent('invoice.payment_failed', subscription.user_id, {
+        invoice: buildInvoice(plan, periodStart, 'open'),
+      }),
+    ];
+  }
+
+  const invoice = openInvoice
+    ? { ...openInvoice, status: 'paid' }
+    : buildInvoice(plan, periodStart, 'paid');
+
+  return [
+    buildEvent('subscription.updated', subscription.user_id, {
+      subscription: subscriptionSnapshot(subscription, {
+        status: 'active',
+        current_period_end: addMonth(periodStart).toISOString(),
+      }),
+    }),
+    buildEvent('invoice.paid', subscription.user_id, { invoice }),
+  ];
+};
+
+/**
+ * Deliver an event to the webhook endpoint the way the provider would
+ */
+export const sendWebhook = async (url, event) => {
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Billing-Signature': `t=${timestamp},v1=${sign(`${timestamp}.${body}`)}`,
+    },
+    body,
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook ${url} answered ${response.status}: ${await response.text()}`);
+  }
+};
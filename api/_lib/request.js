@@ -0,0 +1,51 @@
+/**
+ * Request and response helpers shared by the functions in api/
+ */
+
+/**
+ * The app's public origin from APP_ORIGIN, or null when it is not set. Links and fetches
+ * never use the request's Host or X-Forwarded-Host, since the caller chooses those.
+ */
+export const getAppOrigin = () => {
+  try {
+    return process.env.APP_ORIGIN ? new URL(process.env.APP_ORIGIN).origin : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The request body as sent, for checking signatures over it
+ */
+export const readRawBody = async (req) => {
+  const chunks = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+/**
+ * The parsed JSON body, or null when it is missing or not JSON
+ */
+export const readJsonBody = async (req) => {
+  if (req.body && typeof req.body === 'object') return req.body;
+  try {
+    return JSON.parse((await readRawBody(req)) || '{}');
+  } catch {
+    return null;
+  }
+};
+
+export const sendJson = (res, status, body) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(body));
+};
+
+export const redirect = (res, location) => {
+  res.statusCode = 303;
+  res.setHeader('Location', location);
+  res.end();
+};
@@ -0,0 +1,54 @@
+/**
+ * `POST /api/billing/checkout` { planId }: start paying for a plan. Answers { url }, the
+ * provider's checkout page; the subscription is recorded when the provider's webhook arrives.
+ */
+import {
+  BillingError,
+  getBillingProvider,
+  getPlan,
+  getRequestUser,
+  getSubscription,
+  isPurchasable,
+  isSubscriptionLive,
+  sendError,
+} from '../_lib/billing.js';
+import { getAppOrigin, readJsonBody, sendJson } from '../_lib/request.js';
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const provider = getBillingProvider();
+    if (!provider) throw new BillingError('Online billing is not set up', 503);
+
+    const user = await getRequestUser(req);
+    if (!user) throw new BillingError('Sign in to change your plan', 401);
+
+    const body = await readJsonBody(req);
+    const plan = body?.planId ? await getPlan(body.planId) : null;
+    if (!isPurchasable(plan)) throw new BillingError('This plan cannot be bought online');
+
+    const subscription = await getSubscription(user.id);
+    if (isSubscriptionLive(subscription)) {
+      throw new BillingError('You already have a subscription. Change its plan instead.', 409);
+    }
+
+    const origin = getAppOrigin();
+    const { url } = await provider.createCheckoutSession({
+      userId: user.id,
+      email: user.email,
+      customerId: subscription?.customer_id || null,
+      plan,
+      successUrl: `${origin}/admin?billing=success`,
+      cancelUrl: `${origin}/admin?billing=canceled`,
+      origin,
+    });
+
+    sendJson(res, 200, { url });
+  } catch (error) {
+    sendError(res, error, 'creating checkout session');
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * `/api/billing/mock-checkout?session=...`: the mock provider's checkout page. Paying sends
+ * the provider's webhooks to /api/billing/webhook and returns to the app; nothing is charged.
+ * Only answers when BILLING_PROVIDER is "mock".
+ */
+import { getBillingProvider, getPlan } from '../_lib/billing.js';
+import { completeCheckout, readCheckoutSession, sendWebhook } from '../_lib/mockBillingProvider.js';
+import { getAppOrigin, readRawBody, redirect } from '../_lib/request.js';
+
+const escapeHtml = (value) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const formatPrice = (plan) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: plan.currency.toUpperCase() })
+    .format(plan.price_cents / 100);
+
+const renderPage = (token, session, plan) => `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>Checkout · ${escapeHtml(plan.name)}</title>
+  <style>
+    body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; background: #f3f4f6; font-family: system-ui, sans-serif; color: #111827; }
+    main { width: 100%; max-width: 380px; margin: 16px; padding: 32px; background: #fff; border-radius: 16px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1); }
+    .notice { padding: 8px 12px; margin-bottom: 24px; background: #fef3c7; color: #92400e; border-radius: 8px; font-size: 14px; }
+    h1 { margin: 0 0 4px; font-size: 20px; }
+    .price { margin: 16px 0 4px; font-size: 32px; font-weight: 700; }
+    .muted { color: #6b7280; font-size: 14px; }
+    button { width: 100%; padding: 12px; margin-top: 12px; border-radius: 8px; font-size: 16px; cursor: pointer; }
+    .pay { background: #2563eb; color: #fff; border: none; }
+    .cancel { background: #fff; color: #374151; border: 1px solid #d1d5db; }
+  </style>
+</head>
+<body>
+  <main>
+    <div class="notice">Test checkout. No payment is taken.</div>
+    <h1>${escapeHtml(plan.name)} plan</h1>
+    <p class="muted">${escapeHtml(session.email || '')}</p>
+    <p class="price">${escapeHtml(formatPrice(plan))}</p>
+    <p class="muted">per month, renews monthly until cancelled</p>
+    <form method="post">
+      <input type="hidden" name="session" value="${escapeHtml(token)}" />
+      <button class="pay" type="submit" name="outcome" value="pay">Pay ${escapeHtml(formatPrice(plan))}</button>
+      <button class="cancel" type="submit" name="outcome" value="cancel">Cancel</button>
+    </form>
+  </main>
+</body>
+</html>`;
+
+export default async function handler(req, res) {
+  if (getBillingProvider()?.name !== 'mock') {
+    res.statusCode = 404;
+    res.end('Not found');
+    return;
+  }
+
+  const origin = getAppOrigin();
+
+  try {
+    const form = req.method === 'POST'
+      ? new URLSearchParams(await readRawBody(req))
+      : new URL(req.url, origin).searchParams;
+    const token = form.get('session');
+    const session = readCheckoutSession(token);
+    const plan = session ? await getPlan(session.planId) : null;
+
+    if (!session || !plan) {
+      res.statusCode = 400;
+      res.end('This checkout has expired. Start again from the app.');
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-store');
+      res.end(renderPage(token, session, plan));
+      return;
+    }
+
+    if (form.get('outcome') !== 'pay') {
+      redirect(res, session.cancelUrl);
+      return;
+    }
+
+    for (const event of completeCheckout(session, plan)) {
+      await sendWebhook(`${origin}/api/billing/webhook`, event);
+    }
+    redirect(res, session.successUrl);
+  } catch (error) {
+    console.error('Error completing mock checkout:', error);
+    res.statusCode = 500;
+    res.end('Checkout failed');
+  }
+}
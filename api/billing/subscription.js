@@ -0,0 +1,68 @@
+/**
+ * `GET /api/billing/subscription`: { enabled } - whether plans can be bought online.
+ *
+ * `POST /api/billing/subscription` { action, planId? }: change the signed-in user's
+ * subscription. `change` moves it to another paid plan, `cancel` ends it at the end of the
+ * paid period and `resume` undoes a cancellation that has not happened yet.
+ */
+import {
+  BillingError,
+  applyBillingEvents,
+  getBillingProvider,
+  getPlan,
+  getRequestUser,
+  getSubscription,
+  isPurchasable,
+  isSubscriptionLive,
+  sendError,
+} from '../_lib/billing.js';
+import { readJsonBody, sendJson } from '../_lib/request.js';
+
+const getEvents = async (provider, subscription, { action, planId }) => {
+  switch (action) {
+    case 'change': {
+      const plan = planId ? await getPlan(planId) : null;
+      if (!isPurchasable(plan)) throw new BillingError('This plan cannot be bought online');
+      if (plan.id === subscription.plan_id) throw new BillingError('You are already on this plan');
+      return provider.changePlan({ subscription, plan });
+    }
+    case 'cancel':
+      if (subscription.cancel_at_period_end) throw new BillingError('Your subscription is already cancelled');
+      return provider.cancelSubscription({ subscription });
+    case 'resume':
+      if (!subscription.cancel_at_period_end) throw new BillingError('Your subscription is not cancelled');
+      return provider.resumeSubscription({ subscription });
+    default:
+      throw new BillingError('Unknown action');
+  }
+};
+
+export default async function handler(req, res) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const provider = getBillingProvider();
+    if (req.method === 'GET') {
+      sendJson(res, 200, { enabled: Boolean(provider) });
+      return;
+    }
+    if (!provider) throw new BillingError('Online billing is not set up', 503);
+
+    const user = await getRequestUser(req);
+    if (!user) throw new BillingError('Sign in to change your plan', 401);
+
+    const subscription = await getSubscription(user.id);
+    if (!isSubscriptionLive(subscription)) throw new BillingError('You have no subscription to change', 409);
+
+    const body = await readJsonBody(req);
+    const events = await getEvents(provider, subscription, body || {});
+    await applyBillingEvents(provider, events);
+
+    sendJson(res, 200, { success: true });
+  } catch (error) {
+    sendError(res, error, 'updating subscription');
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * `POST /api/billing/webhook`: events from the payment provider. Each event is applied
+ * once, so the provider can safely redeliver.
+ */
+import { applyBillingEvents, getBillingProvider } from '../_lib/billing.js';
+import { readRawBody, sendJson } from '../_lib/request.js';
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  const provider = getBillingProvider();
+  if (!provider) {
+    sendJson(res, 404, { error: 'Online billing is not set up' });
+    return;
+  }
+
+  let event;
+  try {
+    event = provider.parseWebhook(await readRawBody(req), req.headers);
+  } catch (error) {
+    sendJson(res, 400, { error: error.message });
+    return;
+  }
+
+  try {
+    await applyBillingEvents(provider, [event]);
+    sendJson(res, 200, { received: true });
+  } catch (error) {
+    // A failure answer makes the provider retry later
+    console.error('Error applying billing event:', error);
+    sendJson(res, 500, { error: 'Failed to apply event' });
+  }
+}
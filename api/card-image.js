@@ -0,0 +1,27 @@
+/**
+ * `/og/c/:slug`: the card's social preview image, a 1200x630 PNG drawn from its theme
+ */
+import { fetchPreviewCard, getRequestSlug, renderCardImage } from './_lib/cardPreview.js';
+
+export default async function handler(req, res) {
+  try {
+    const slug = getRequestSlug(req);
+    const card = slug ? await fetchPreviewCard(slug) : null;
+    if (!card) {
+      res.statusCode = 404;
+      res.end('Card not found');
+      return;
+    }
+
+    const image = await renderCardImage(card);
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'image/png');
+    // Card edits change the ?v= in og:image, so the image itself can be cached for long
+    res.setHeader('Cache-Control', 'public, s-maxage=86400, stale-while-revalidate=604800');
+    res.end(image);
+  } catch (error) {
+    console.error('Error rendering card preview image:', error);
+    res.statusCode = 500;
+    res.end('Failed to render preview image');
+  }
+}
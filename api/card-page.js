@@ -0,0 +1,64 @@
+/**
+ * `/c/:slug` for link previews: the SPA's index.html with the card's Open Graph and
+ * Twitter Card tags, so chat apps and social networks show the card instead of the site.
+ * Browsers get the same page and the app takes over as usual.
+ */
+import {
+  buildCardMeta,
+  fetchPreviewCard,
+  getRequestSlug,
+  injectMetaTags,
+  renderMetaTags,
+} from './_lib/cardPreview.js';
+import { getAppOrigin } from './_lib/request.js';
+
+export default async function handler(req, res) {
+  const origin = getAppOrigin();
+  if (!origin) {
+    console.error('APP_ORIGIN is not set; card pages need it to load the app');
+    res.statusCode = 500;
+    res.end('Card pages are not configured');
+    return;
+  }
+
+  let html;
+  try {
+    // Static files win over rewrites, so this is the built SPA shell, not this function
+    const response = await fetch(`${origin}/index.html`);
+    html = await response.text();
+  } catch (error) {
+    console.error('Error loading index.html:', error);
+    res.statusCode = 502;
+    res.end('Failed to load the app');
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+
+  try {
+    const slug = getRequestSlug(req);
+    const card = slug ? await fetchPreviewCard(slug) : null;
+
+    // Old slugs keep working, and previews show the current address
+    if (card?.renamed) {
+      const params = new URL(req.url, origin).searchParams;
+      params.delete('slug');
+      const query = params.toString();
+      res.statusCode = 301;
+      res.setHeader('Location', `/c/${card.slug}${query ? `?${query}` : ''}`);
+      res.end();
+      return;
+    }
+
+    if (card) {
+      html = injectMetaTags(html, renderMetaTags(buildCardMeta(card, origin)));
+      res.setHeader('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=3600');
+    }
+  } catch (error) {
+    // The card page still works without a tailored preview
+    console.error('Error building card preview:', error);
+  }
+
+  res.statusCode = 200;
+  res.end(html);
+}
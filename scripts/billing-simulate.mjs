@@ -0,0 +1,59 @@
+/**
+ * Move a mock-provider subscription along without waiting a month: renew it, fail its
+ * renewal payment to start the grace period, or end lapsed subscriptions.
+ *
+ *   npm run billing:simulate -- renew <user id>    # the next month is paid
+ *   npm run billing:simulate -- fail <user id>     # the renewal payment fails
+ *   npm run billing:simulate -- expire             # downgrade what pg_cron would
+ *
+ * Renewals go through the webhook like the provider's would, so the local server
+ * (`npm run og:serve`) must be running with BILLING_PROVIDER=mock. A subscription set to
+ * cancel ends on `renew`. Set billing_grace_period_days to 0 in system_settings to see
+ * `expire` downgrade right after `fail`.
+ *
+ * Options (environment variables):
+ *   WEBHOOK_URL   Where to send events (default http://localhost:4100/api/billing/webhook)
+ *   VITE_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, BILLING_WEBHOOK_SECRET
+ *                 Read from .env when not set
+ */
+import './load-env.mjs';
+import {
+  expireBillingSubscriptions,
+  getOpenInvoice,
+  getPlan,
+  getSubscription,
+  isSubscriptionLive,
+} from '../api/_lib/billing.js';
+import { renewSubscription, sendWebhook } from '../api/_lib/mockBillingProvider.js';
+
+const webhookUrl = process.env.WEBHOOK_URL || 'http://localhost:4100/api/billing/webhook';
+const [command, userId] = process.argv.slice(2);
+
+const fail = (message) => {
+  console.error(message);
+  process.exit(1);
+};
+
+if (command === 'expire') {
+  const count = await expireBillingSubscriptions();
+  console.log(`Ended ${count} subscription${count === 1 ? '' : 's'}`);
+} else if (command === 'renew' || command === 'fail') {
+  if (!userId) fail(`Usage: npm run billing:simulate -- ${command} <user id>`);
+
+  const subscription = await getSubscription(userId);
+  if (!isSubscriptionLive(subscription)) fail('That user has no active subscription');
+  if (subscription.provider !== 'mock') fail(`That subscription belongs to the ${subscription.provider} provider`);
+
+  const plan = await getPlan(subscription.plan_id);
+  const events = renewSubscription(subscription, plan, {
+    paid: command === 'renew',
+    openInvoice: subscription.status === 'past_due' ? await getOpenInvoice(userId) : null,
+  });
+
+  for (const event of events) {
+    await sendWebhook(webhookUrl, event);
+    console.log(`Sent ${event.type} (${event.id})`);
+  }
+} else {
+  fail('Usage: npm run billing:simulate -- renew|fail <user id>, or expire');
+}
@@ -0,0 +1,13 @@
+/**
+ * Load .env the way Vite does, without overriding variables already set
+ */
+import { existsSync, readFileSync } from 'node:fs';
+
+if (existsSync('.env')) {
+  readFileSync('.env', 'utf8').split('\n').forEach(line => {
+    const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*?)\s*$/);
+    if (match && process.env[match[1]] === undefined) {
+      process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * Local server for the Vercel functions in api/: card link previews and billing.
+ *
+ * Serves /c/<slug> with the card's Open Graph and Twitter tags, /og/c/<slug> as the
+ * preview image, /api/billing/* for checkout and subscriptions, and proxies everything
+ * else to the running app, so previews and billing can be checked without deploying:
+ *
+ *   npm run build && npm run preview      # the app, on http://localhost:4173
+ *   npm run og:serve                      # previews, on http://localhost:4100
+ *   curl -s http://localhost:4100/c/<slug> | grep og:
+ *   open http://localhost:4100/og/c/<slug>
+ *
+ * `npm run dev` forwards /api to this server too.
+ *
+ * Options (environment variables):
+ *   PORT                Port to listen on (default 4100)
+ *   APP_ORIGIN          Where the app runs (default http://localhost:4173)
+ *   VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY
+ *                       Read from .env when not set (SUPABASE_URL and SUPABASE_ANON_KEY
+ *                       work too)
+ *   BILLING_PROVIDER, SUPABASE_SERVICE_ROLE_KEY, BILLING_WEBHOOK_SECRET
+ *                       For billing; see api/_lib/billing.js
+ */
+import './load-env.mjs';
+import { createServer } from 'node:http';
+import cardPage from '../api/card-page.js';
+import cardImage from '../api/card-image.js';
+import billingCheckout from '../api/billing/checkout.js';
+import billingMockCheckout from '../api/billing/mock-checkout.js';
+import billingSubscription from '../api/billing/subscription.js';
+import billingWebhook from '../api/billing/webhook.js';
+
+const BILLING_ROUTES = {
+  '/api/billing/checkout': billingCheckout,
+  '/api/billing/mock-checkout': billingMockCheckout,
+  '/api/billing/subscription': billingSubscription,
+  '/api/billing/webhook': billingWebhook,
+};
+
+const port = Number(process.env.PORT || 4100);
+process.env.APP_ORIGIN = process.env.APP_ORIGIN || 'http://localhost:4173';
+
+const proxy = async (req, res) => {
+  try {
+    const response = await fetch(`${process.env.APP_ORIGIN}${req.url}`, {
+      method: req.method,
+      headers: { accept: req.headers.accept || '*/*' },
+    });
+    res.statusCode = response.status;
+    response.headers.forEach((value, key) => {
+      if (!['content-encoding', 'content-length', 'transfer-encoding'].includes(key)) {
+        res.setHeader(key, value);
+      }
+    });
+    res.end(Buffer.from(await response.arrayBuffer()));
+  } catch {
+    res.statusCode = 502;
+    res.end(`Could not reach the app at ${process.env.APP_ORIGIN}. Is it running?`);
+  }
+};
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+  console.log(`${new Date().toISOString()} ${req.method} ${req.url}`);
+
+  if (/^\/c\/[^/]+$/.test(pathname)) return cardPage(req, res);
+  if (/^\/og\/c\/[^/]+$/.test(pathname)) return cardImage(req, res);
+  if (BILLING_ROUTES[pathname]) return BILLING_ROUTES[pathname](req, res);
+  return proxy(req, res);
+});
+
+server.listen(port, () => {
+  console.log(`Card previews on http://localhost:${port}/ (app at ${process.env.APP_ORIGIN})`);
+});
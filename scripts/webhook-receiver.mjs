@@ -0,0 +1,87 @@
+/**
+ * Local stand-in for a webhook receiver.
+ *
+ * Logs every delivery, checks the X-Webhook-Signature header and answers like a real
+ * service would, so endpoints can be exercised without deploying anything.
+ *
+ *   WEBHOOK_SECRET=whsec_... npm run webhooks:listen
+ *
+ * Options (environment variables):
+ *   PORT            Port to listen on (default 4000)
+ *   WEBHOOK_SECRET  Signing secret from Settings; without it signatures are only printed
+ *   FAIL_FIRST      Answer the first N requests with a 500 to watch the retries (default 0)
+ *
+ * Deliveries are sent from the database, so with a local Supabase stack register the
+ * endpoint as http://host.docker.internal:4000/ rather than localhost. Private and local
+ * targets are refused unless webhooks_allow_private_targets is set to true in
+ * system_settings; only do that on a local stack.
+ */
+import { createServer } from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const port = Number(process.env.PORT || 4000);
+const secret = process.env.WEBHOOK_SECRET || '';
+let failuresLeft = Number(process.env.FAIL_FIRST || 0);
+
+// Reject signatures older than this to guard against replayed requests
+const TOLERANCE_SECONDS = 5 * 60;
+
+const verifySignature = (header, body) => {
+  const parts = Object.fromEntries(
+    (header || '').split(',').map(part => part.split('='))
+  );
+  if (!parts.t || !parts.v1) return 'missing signature';
+
+  const age = Math.abs(Date.now() / 1000 - Number(parts.t));
+  if (age > TOLERANCE_SECONDS) return `timestamp is ${Math.round(age)}s old`;
+
+  const expected = createHmac('sha256', secret).update(`${parts.t}.${body}`).digest('hex');
+  const valid = expected.length === parts.v1.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+
+  return valid ? null : 'signature mismatch';
+};
+
+const server = createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const event = req.headers['x-webhook-event'];
+    const id = req.headers['x-webhook-id'];
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url} ${event || ''} ${id || ''}`);
+
+    if (secret) {
+      const problem = verifySignature(req.headers['x-webhook-signature'], body);
+      if (problem) {
+        console.log(`  rejected: ${problem}`);
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: problem }));
+        return;
+      }
+      console.log('  signature verified');
+    } else {
+      console.log(`  signature: ${req.headers['x-webhook-signature']} (set WEBHOOK_SECRET to verify)`);
+    }
+
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft -= 1;
+      console.log(`  answering 500 (${failuresLeft} more failures queued)`);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Simulated failure' }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ received: true }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+});
@@ -3,6 +3,8 @@ import { BrowserRouter as Router, Routes, Route, Navigate, useNavigate, useLocat
 import { AuthPage } from './components/AuthPage';
 import { AdminPanel } from './components/AdminPanel';
 import { PublicCard } from './components/PublicCard';
+import { QRScanRedirect } from './components/QRScanRedirect';
+import { ShortLinkRedirect } from './components/ShortLinkRedirect';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { AdminLogin } from './components/AdminLogin';
 import { AdminDashboard } from './components/AdminDashboard';
@@ -66,6 +68,8 @@ const AppContent: React.FC = () => {
         }
       />
       <Route path="/c/:cardId" element={<PublicCard />} />
+      <Route path="/q/:code" element={<QRScanRedirect />} />
+      <Route path="/s/:code" element={<ShortLinkRedirect />} />
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
@@ -12,12 +12,15 @@ import {
   Building,
   BarChart3
 } from 'lucide-react';
+import { getCardPublishState, CARD_PUBLISH_STATE_LABELS, CARD_PUBLISH_STATE_STYLES } from '../utils/scheduleUtils';
 
 interface BusinessCard {
   id: string;
   title: string | null;
   company: string | null;
   is_published: boolean;
+  publish_at: string | null;
+  expire_at: string | null;
   updated_at: string;
   user_id: string;
   slug: string | null;
@@ -28,6 +31,8 @@ interface BusinessCard {
   };
 }
 
+type StatusFilter = 'all' | 'published' | 'scheduled' | 'expired' | 'draft';
+
 interface AdminCardTableProps {
   cards: BusinessCard[];
   onToggleCardStatus: (cardId: string, currentStatus: boolean) => Promise<{ success: boolean; error?: string }>;
@@ -45,7 +50,7 @@ export const AdminCardTable: React.FC<AdminCardTableProps> = ({
   const [sortField, setSortField] = useState<keyof BusinessCard>('updated_at');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [selectedCards, setSelectedCards] = useState<string[]>([]);
-  const [statusFilter, setStatusFilter] = useState<'all' | 'published' | 'draft'>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
 
   const filteredCards = cards
     .filter(card => {
@@ -55,10 +60,11 @@ export const AdminCardTable: React.FC<AdminCardTableProps> = ({
         card.profiles?.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         card.profiles?.name?.toLowerCase().includes(searchTerm.toLowerCase());
 
+      const state = getCardPublishState(card);
       const matchesStatus = 
         statusFilter === 'all' ||
-        (statusFilter === 'published' && card.is_published) ||
-        (statusFilter === 'draft' && !card.is_published);
+        (statusFilter === 'published' && state === 'live') ||
+        statusFilter === state;
 
       return matchesSearch && matchesStatus;
     })
@@ -184,11 +190,13 @@ export const AdminCardTable: React.FC<AdminCardTableProps> = ({
         
         <select
           value={statusFilter}
-          onChange={(e) => setStatusFilter(e.target.value as 'all' | 'published' | 'draft')}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
           className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
         >
           <option value="all">All Status</option>
           <option value="published">Published</option>
+          <option value="scheduled">Scheduled</option>
+          <option value="expired">Expired</option>
           <option value="draft">Draft</option>
         </select>
       </div>
@@ -279,13 +287,17 @@ export const AdminCardTable: React.FC<AdminCardTableProps> = ({
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${
-                      card.is_published 
-                        ? 'bg-green-100 text-green-800' 
-                        : 'bg-gray-100 text-gray-600'
-                    }`}>
-                      {card.is_published ? 'Published' : 'Draft'}
+                    <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${CARD_PUBLISH_STATE_STYLES[getCardPublishState(card)]}`}>
+                      {CARD_PUBLISH_STATE_LABELS[getCardPublishState(card)]}
                     </span>
+                    {getCardPublishState(card) === 'scheduled' && card.publish_at && (
+                      <p className="text-xs text-gray-500 mt-1">From {formatDate(card.publish_at)}</p>
+                    )}
+                    {card.expire_at && getCardPublishState(card) !== 'draft' && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {getCardPublishState(card) === 'expired' ? 'Ended' : 'Until'} {formatDate(card.expire_at)}
+                      </p>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center gap-2">
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import {
   Users,
@@ -14,19 +14,23 @@ import {
   Eye,
   Calendar,
   Shield,
+  LayoutTemplate,
 } from "lucide-react";
 import { useAdminData } from "../hooks/useAdminData";
+import { useAuth } from "../hooks/useAuth";
 import { AdminUserTable } from "./AdminUserTable";
 import { AdminCardTable } from "./AdminCardTable";
 import { AdminAnalytics } from "./AdminAnalytics";
 import { AdminSettings } from "./AdminSettings";
+import { AdminTemplateManager } from "./AdminTemplateManager";
 
-type ActiveTab = "dashboard" | "users" | "cards" | "analytics" | "settings";
+type ActiveTab = "dashboard" | "users" | "cards" | "templates" | "analytics" | "settings";
 
 export const AdminDashboard: React.FC = () => {
   const [activeTab, setActiveTab] = useState<ActiveTab>("dashboard");
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const navigate = useNavigate();
+  const { signOut } = useAuth();
 
   const {
     users,
@@ -34,22 +38,14 @@ export const AdminDashboard: React.FC = () => {
     analytics,
     loading,
     deleteUser,
+    updateUserPlan,
     toggleCardStatus,
     deleteCard,
     exportToCSV,
   } = useAdminData();
 
-  useEffect(() => {
-    // Check admin session
-    const adminSession = localStorage.getItem("admin_session");
-    if (!adminSession) {
-      navigate("/admin-scc/login");
-      return;
-    }
-  }, [navigate]);
-
-  const handleLogout = () => {
-    localStorage.removeItem("admin_session");
+  const handleLogout = async () => {
+    await signOut();
     navigate("/admin-scc/login");
   };
 
@@ -79,6 +75,7 @@ export const AdminDashboard: React.FC = () => {
     { id: "dashboard", label: "Dashboard", icon: BarChart3 },
     { id: "users", label: "Users", icon: Users },
     { id: "cards", label: "Business Cards", icon: CreditCard },
+    { id: "templates", label: "Templates", icon: LayoutTemplate },
     { id: "analytics", label: "Analytics", icon: TrendingUp },
     { id: "settings", label: "Settings", icon: Settings },
   ];
@@ -344,6 +341,7 @@ export const AdminDashboard: React.FC = () => {
             <AdminUserTable
               users={users}
               onDeleteUser={handleDeleteUser}
+              onUpdateUserPlan={updateUserPlan}
               onExportCSV={exportToCSV}
             />
           )}
@@ -358,6 +356,9 @@ export const AdminDashboard: React.FC = () => {
             />
           )}
 
+          {/* Card Templates */}
+          {activeTab === "templates" && <AdminTemplateManager cards={cards} />}
+
           {/* Analytics */}
           {activeTab === "analytics" && (
             <AdminAnalytics analytics={analytics} />
@@ -1,11 +1,8 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { Mail, Lock, AlertCircle, Eye, EyeOff, Shield } from 'lucide-react';
-
-const ADMIN_CREDENTIALS = {
-  email: 'scc@gmail.com',
-  password: 'scc@123'
-};
+import { supabase } from '../lib/supabase';
+import { ADMIN_ROLE, fetchProfileRole } from '../lib/adminSupabase';
 
 export const AdminLogin: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -13,7 +10,12 @@ export const AdminLogin: React.FC = () => {
     password: ''
   });
   const [showPassword, setShowPassword] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const location = useLocation();
+  const [error, setError] = useState<string | null>(
+    (location.state as { expired?: boolean } | null)?.expired
+      ? 'Your admin session has expired. Please sign in again.'
+      : null
+  );
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
 
@@ -22,26 +24,32 @@ export const AdminLogin: React.FC = () => {
     setLoading(true);
     setError(null);
 
-    // Simulate loading delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    if (
-      formData.email === ADMIN_CREDENTIALS.email &&
-      formData.password === ADMIN_CREDENTIALS.password
-    ) {
-      // Store admin session
-      localStorage.setItem('admin_session', JSON.stringify({
+    try {
+      const { data, error: signInError } = await supabase.auth.signInWithPassword({
         email: formData.email,
-        loginTime: new Date().toISOString(),
-        sessionId: Math.random().toString(36).substr(2, 9)
-      }));
-      
+        password: formData.password
+      });
+
+      if (signInError || !data.user) {
+        setError('Invalid credentials. Please check your email and password.');
+        return;
+      }
+
+      const role = await fetchProfileRole(data.user.id);
+      if (role !== ADMIN_ROLE) {
+        // Valid account without admin rights: don't leave it signed in here
+        await supabase.auth.signOut();
+        setError('This account does not have admin access.');
+        return;
+      }
+
       navigate('/admin-scc/dashboard');
-    } else {
-      setError('Invalid credentials. Please check your email and password.');
+    } catch (err) {
+      console.error('Error signing in admin:', err);
+      setError('Failed to sign in. Please try again.');
+    } finally {
+      setLoading(false);
     }
-
-    setLoading(false);
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -15,47 +15,96 @@ import {
   Copy,
   ExternalLink,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  Building2,
+  Upload,
+  Inbox,
+  CalendarDays,
+  Printer,
+  Link2
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { useOrganization } from '../hooks/useOrganization';
+import { usePlan } from '../hooks/usePlan';
 import { supabase } from '../lib/supabase';
 import { CardEditor } from './CardEditor';
 import { CardPreview } from './CardPreview';
 import { AnalyticsPage } from './AnalyticsPage';
+import { OrganizationSettings } from './OrganizationSettings';
+import { BulkImport } from './BulkImport';
+import { LeadsManager } from './LeadsManager';
+import { BookingsManager } from './BookingsManager';
+import { NotificationBell } from './NotificationBell';
+import { WebhookSettings } from './WebhookSettings';
+import { PrintSheetDialog } from './PrintSheetDialog';
+import { ShortLinksDialog } from './ShortLinksDialog';
+import { TemplateGallery } from './TemplateGallery';
+import { UpgradePrompt } from './UpgradePrompt';
+import { PlanOverview } from './PlanOverview';
+import { getCardPublishState, CARD_PUBLISH_STATE_LABELS, CARD_PUBLISH_STATE_STYLES } from '../utils/scheduleUtils';
+import { getPlanLimitMessage, isWithinLimit } from '../utils/planUtils';
 import type { Database } from '../lib/supabase';
+import type { CardPublishState } from '../utils/scheduleUtils';
+import type { CardTemplate } from '../utils/templateUtils';
 
 type BusinessCard = Database['public']['Tables']['business_cards']['Row'];
 type SocialLink = Database['public']['Tables']['social_links']['Row'];
 
-type ActiveTab = 'cards' | 'create' | 'analytics' | 'settings';
+type ActiveTab = 'cards' | 'create' | 'import' | 'leads' | 'bookings' | 'analytics' | 'team' | 'settings';
+type CardScope = 'all' | 'mine' | 'team';
+type CardStatusFilter = 'all' | CardPublishState;
 
 export const AdminPanel: React.FC = () => {
   const { user, signOut } = useAuth();
+  const organizationState = useOrganization();
+  const { organization, canManage } = organizationState;
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<ActiveTab>('cards');
+  // Returning from billing checkout lands on Settings, where the plan is shown
+  const [activeTab, setActiveTab] = useState<ActiveTab>(() =>
+    new URLSearchParams(window.location.search).has('billing') ? 'settings' : 'cards'
+  );
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [cards, setCards] = useState<BusinessCard[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedCard, setSelectedCard] = useState<BusinessCard | null>(null);
   const [editingCard, setEditingCard] = useState<BusinessCard | null>(null);
+  // Template a new card starts from: undefined until one is picked, null to start blank
+  const [newCardTemplate, setNewCardTemplate] = useState<CardTemplate | null | undefined>(undefined);
+  const [cardScope, setCardScope] = useState<CardScope>('all');
+  const [statusFilter, setStatusFilter] = useState<CardStatusFilter>('all');
+  const [selectedCardIds, setSelectedCardIds] = useState<string[]>([]);
+  const [printCards, setPrintCards] = useState<BusinessCard[] | null>(null);
+  const [shortLinksCard, setShortLinksCard] = useState<BusinessCard | null>(null);
+
+  const { entitlements, loading: planLoading } = usePlan();
+  // Team cards are listed too, but only the user's own count toward their plan
+  const ownCardCount = cards.filter((card) => card.user_id === user?.id).length;
+  const canCreateCard = planLoading || loading || isWithinLimit(entitlements.max_cards, ownCardCount);
+
+  // Owners and admins of an organization also see every member card
+  const teamOrganizationId = canManage && organization ? organization.id : null;
 
   useEffect(() => {
     if (user) {
       loadUserCards();
     }
-  }, [user]);
+  }, [user, teamOrganizationId]);
 
   const loadUserCards = async () => {
     if (!user) return;
 
     try {
       setLoading(true);
-      const { data, error } = await supabase
+      let query = supabase
         .from('business_cards')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('updated_at', { ascending: false });
+        .select('*');
+
+      query = teamOrganizationId
+        ? query.or(`user_id.eq.${user.id},organization_id.eq.${teamOrganizationId}`)
+        : query.eq('user_id', user.id);
+
+      const { data, error } = await query.order('updated_at', { ascending: false });
 
       if (error) {
         console.error('Error loading cards:', error);
@@ -77,6 +126,7 @@ export const AdminPanel: React.FC = () => {
 
   const handleCreateCard = () => {
     setEditingCard(null);
+    setNewCardTemplate(undefined);
     setActiveTab('create');
   };
 
@@ -126,12 +176,15 @@ export const AdminPanel: React.FC = () => {
           ...cardData,
           title: `${card.title} (Copy)`,
           is_published: false,
+          published_at: null,
+          publish_at: null,
+          expire_at: null,
           view_count: 0
         });
 
       if (error) {
         console.error('Error duplicating card:', error);
-        alert('Failed to duplicate card. Please try again.');
+        alert(getPlanLimitMessage(error) || 'Failed to duplicate card. Please try again.');
         return;
       }
 
@@ -154,34 +207,140 @@ export const AdminPanel: React.FC = () => {
   const sidebarItems = [
     { id: 'cards', label: 'My Cards', icon: CreditCard },
     { id: 'create', label: 'Create New Card', icon: Plus },
+    { id: 'import', label: 'Bulk Import', icon: Upload },
+    { id: 'leads', label: 'Leads', icon: Inbox },
+    { id: 'bookings', label: 'Bookings', icon: CalendarDays },
     { id: 'analytics', label: 'Analytics', icon: BarChart3 },
+    { id: 'team', label: 'Team', icon: Building2 },
     { id: 'settings', label: 'Settings', icon: Settings },
   ];
 
+  const scopedCards = cards.filter((card) => {
+    if (cardScope === 'mine') return card.user_id === user?.id;
+    if (cardScope === 'team') return card.user_id !== user?.id;
+    return true;
+  });
+
+  const countByState = (state: CardPublishState) =>
+    scopedCards.filter((card) => getCardPublishState(card) === state).length;
+
+  // Upcoming cards first by go-live time, expired cards most recent first
+  const visibleCards = scopedCards
+    .filter((card) => statusFilter === 'all' || getCardPublishState(card) === statusFilter)
+    .sort((a, b) => {
+      if (statusFilter === 'scheduled') return (a.publish_at || '').localeCompare(b.publish_at || '');
+      if (statusFilter === 'expired') return (b.expire_at || '').localeCompare(a.expire_at || '');
+      return 0;
+    });
+
+  const selectedCards = cards.filter((card) => selectedCardIds.includes(card.id));
+
+  const toggleCardSelected = (cardId: string) => {
+    setSelectedCardIds(selectedCardIds.includes(cardId)
+      ? selectedCardIds.filter((id) => id !== cardId)
+      : [...selectedCardIds, cardId]);
+  };
+
+  const renderScheduleNote = (card: BusinessCard) => {
+    const state = getCardPublishState(card);
+    if (state === 'scheduled' && card.publish_at) {
+      return `Goes live ${new Date(card.publish_at).toLocaleString()}`;
+    }
+    if (state === 'expired' && card.expire_at) {
+      return `Expired ${new Date(card.expire_at).toLocaleString()}`;
+    }
+    if (state === 'live' && card.expire_at) {
+      return `Expires ${new Date(card.expire_at).toLocaleString()}`;
+    }
+    return null;
+  };
+
   const renderCardsGrid = () => (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-gray-900">My Business Cards</h2>
-          <p className="text-gray-600">Manage all your digital business cards</p>
+          <p className="text-gray-600">
+            {teamOrganizationId
+              ? `Manage your cards and every ${organization?.name} member card`
+              : 'Manage all your digital business cards'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {teamOrganizationId && (
+            <div className="flex bg-gray-100 rounded-lg p-1">
+              {([
+                { id: 'all', label: 'All' },
+                { id: 'mine', label: 'Mine' },
+                { id: 'team', label: 'Team' },
+              ] as const).map((scope) => (
+                <button
+                  key={scope.id}
+                  onClick={() => setCardScope(scope.id)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                    cardScope === scope.id
+                      ? 'bg-white text-gray-900 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {scope.label}
+                </button>
+              ))}
+            </div>
+          )}
+          {selectedCards.length > 0 && (
+            <button
+              onClick={() => setPrintCards(selectedCards)}
+              className="flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Printer className="w-4 h-4" />
+              Print Sheet ({selectedCards.length})
+            </button>
+          )}
+          <button
+            onClick={handleCreateCard}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Create New Card
+          </button>
         </div>
-        <button
-          onClick={handleCreateCard}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          Create New Card
-        </button>
       </div>
 
+      {/* Status Filter */}
+      {!loading && scopedCards.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {(['all', 'live', 'scheduled', 'expired', 'draft'] as const).map((status) => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+                statusFilter === status
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              {status === 'all' ? 'All' : CARD_PUBLISH_STATE_LABELS[status]}
+              <span className="ml-1 opacity-75">
+                {status === 'all' ? scopedCards.length : countByState(status)}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Cards Grid */}
       {loading ? (
         <div className="flex items-center justify-center py-12">
           <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
           <span className="ml-3 text-gray-600">Loading your cards...</span>
         </div>
-      ) : cards.length === 0 ? (
+      ) : visibleCards.length === 0 && scopedCards.length > 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-600">No {CARD_PUBLISH_STATE_LABELS[statusFilter as CardPublishState].toLowerCase()} cards.</p>
+        </div>
+      ) : visibleCards.length === 0 ? (
         <div className="text-center py-12">
           <CreditCard className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">No Cards Yet</h3>
@@ -196,102 +355,140 @@ export const AdminPanel: React.FC = () => {
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {cards.map((card) => (
-            <div key={card.id} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow">
-              {/* Card Preview */}
-              <div className="p-4 bg-gray-50">
-                <div className="aspect-[3/2] bg-white rounded-lg shadow-sm border border-gray-100 p-3 flex items-center justify-center">
-                  {card.avatar_url ? (
-                    <img
-                      src={card.avatar_url}
-                      alt="Profile"
-                      className="w-12 h-12 rounded-full object-cover"
-                    />
-                  ) : (
-                    <div className="w-12 h-12 rounded-full bg-blue-100 flex items-center justify-center">
-                      <User className="w-6 h-6 text-blue-600" />
-                    </div>
-                  )}
+          {visibleCards.map((card) => {
+            const isOwnCard = card.user_id === user?.id;
+            return (
+              <div key={card.id} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow">
+                {/* Card Preview */}
+                <div className="relative p-4 bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={selectedCardIds.includes(card.id)}
+                    onChange={() => toggleCardSelected(card.id)}
+                    className="absolute top-6 left-6 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    title="Select for print sheet"
+                  />
+                  <div className="aspect-[3/2] bg-white rounded-lg shadow-sm border border-gray-100 p-3 flex items-center justify-center">
+                    {card.avatar_url ? (
+                      <img
+                        src={card.avatar_url}
+                        alt="Profile"
+                        className="w-12 h-12 rounded-full object-cover"
+                      />
+                    ) : (
+                      <div className="w-12 h-12 rounded-full bg-blue-100 flex items-center justify-center">
+                        <User className="w-6 h-6 text-blue-600" />
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
 
-              {/* Card Info */}
-              <div className="p-4">
-                <div className="flex items-start justify-between mb-3">
-                  <div className="flex-1 min-w-0">
-                    <h3 className="font-semibold text-gray-900 truncate">
-                      {card.title || 'Untitled Card'}
-                    </h3>
-                    <p className="text-sm text-gray-500 truncate">
-                      {card.company || 'No company'}
-                    </p>
+                {/* Card Info */}
+                <div className="p-4">
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-gray-900 truncate">
+                        {card.title || 'Untitled Card'}
+                      </h3>
+                      <p className="text-sm text-gray-500 truncate">
+                        {card.company || 'No company'}
+                      </p>
+                      {!isOwnCard && (
+                        <span className="inline-flex items-center gap-1 mt-1 text-xs text-blue-600">
+                          <Building2 className="w-3 h-3" />
+                          Team member card
+                        </span>
+                      )}
+                    </div>
+                    <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${CARD_PUBLISH_STATE_STYLES[getCardPublishState(card)]}`}>
+                      {CARD_PUBLISH_STATE_LABELS[getCardPublishState(card)]}
+                    </span>
                   </div>
-                  <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${
-                    card.is_published 
-                      ? 'bg-green-100 text-green-800' 
-                      : 'bg-gray-100 text-gray-600'
-                  }`}>
-                    {card.is_published ? 'Published' : 'Draft'}
-                  </span>
-                </div>
 
-                <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
-                  <div className="flex items-center gap-1">
-                    <Eye className="w-4 h-4" />
-                    <span>{card.view_count || 0} views</span>
+                  {renderScheduleNote(card) && (
+                    <p className="text-xs text-gray-500 mb-3">{renderScheduleNote(card)}</p>
+                  )}
+
+                  <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
+                    <div className="flex items-center gap-1">
+                      <Eye className="w-4 h-4" />
+                      <span>{card.view_count || 0} views</span>
+                    </div>
+                    <span>Updated {new Date(card.updated_at).toLocaleDateString()}</span>
                   </div>
-                  <span>Updated {new Date(card.updated_at).toLocaleDateString()}</span>
-                </div>
 
-                {/* Actions */}
-                <div className="flex items-center gap-2">
-                  <button
-                    onClick={() => handleEditCard(card)}
-                    className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors"
-                  >
-                    <Edit3 className="w-4 h-4" />
-                    Edit
-                  </button>
-                  
-                  {card.is_published && card.slug && (
+                  {/* Actions */}
+                  <div className="flex items-center gap-2">
                     <button
-                      onClick={() => window.open(`/c/${card.slug}`, '_blank')}
-                      className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
-                      title="View Card"
+                      onClick={() => handleEditCard(card)}
+                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors"
                     >
-                      <ExternalLink className="w-4 h-4" />
+                      <Edit3 className="w-4 h-4" />
+                      Edit
                     </button>
-                  )}
                   
-                  {card.slug && (
+                    {card.is_published && card.slug && (
+                      <button
+                        onClick={() => window.open(`/c/${card.slug}`, '_blank')}
+                        className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                        title="View Card"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </button>
+                    )}
+                  
+                    {card.slug && (
+                      <button
+                        onClick={() => copyCardUrl(card.slug!)}
+                        className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
+                        title="Copy URL"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                    )}
+
+                    {card.slug && (
+                      <button
+                        onClick={() => setShortLinksCard(card)}
+                        className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
+                        title="Short Links"
+                      >
+                        <Link2 className="w-4 h-4" />
+                      </button>
+                    )}
+
                     <button
-                      onClick={() => copyCardUrl(card.slug!)}
+                      onClick={() => setPrintCards([card])}
                       className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
-                      title="Copy URL"
+                      title="Print Sheet"
                     >
-                      <Copy className="w-4 h-4" />
+                      <Printer className="w-4 h-4" />
                     </button>
-                  )}
-                  
-                  <button
-                    onClick={() => handleDuplicateCard(card)}
-                    className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
-                    title="Duplicate Card"
-                  >
-                    <CreditCard className="w-4 h-4" />
-                  </button>
                   
-                  <button
-                    onClick={() => handleDeleteCard(card.id)}
-                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                    title="Delete Card"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                    {isOwnCard && (
+                      <>
+                        <button
+                          onClick={() => handleDuplicateCard(card)}
+                          className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                          title="Duplicate Card"
+                        >
+                          <CreditCard className="w-4 h-4" />
+                        </button>
+
+                        <button
+                          onClick={() => handleDeleteCard(card.id)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete Card"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
@@ -304,13 +501,9 @@ export const AdminPanel: React.FC = () => {
         <p className="text-gray-600">Manage your account and preferences</p>
       </div>
       
-      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center">
-        <Settings className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-        <h3 className="text-lg font-medium text-gray-900 mb-2">Settings Coming Soon</h3>
-        <p className="text-gray-600">
-          Account settings and preferences will be available here.
-        </p>
-      </div>
+      <PlanOverview cardCount={ownCardCount} />
+
+      <WebhookSettings cards={cards} />
     </div>
   );
 
@@ -384,7 +577,8 @@ export const AdminPanel: React.FC = () => {
                   {user?.email}
                 </p>
                 <p className="text-xs text-gray-500">
-                  {cards.length} card{cards.length !== 1 ? 's' : ''}
+                  {ownCardCount} card{ownCardCount !== 1 ? 's' : ''}
+                  {organization && ` · ${organization.name}`}
                 </p>
               </div>
             )}
@@ -415,34 +609,86 @@ export const AdminPanel: React.FC = () => {
               <h1 className="text-2xl font-bold text-gray-900 capitalize">
                 {activeTab === 'cards' ? 'My Cards' : 
                  activeTab === 'create' ? (editingCard ? 'Edit Card' : 'Create New Card') :
+                 activeTab === 'import' ? 'Bulk Import' :
                  activeTab}
               </h1>
             </div>
+            <NotificationBell
+              onOpenLeads={() => setActiveTab('leads')}
+              onOpenBookings={() => setActiveTab('bookings')}
+            />
           </div>
         </header>
 
         {/* Content Area */}
         <main className="flex-1 overflow-y-auto p-6">
           {activeTab === 'cards' && renderCardsGrid()}
-          {activeTab === 'create' && (
+          {activeTab === 'create' && !editingCard && !canCreateCard && (
+            <div className="max-w-3xl mx-auto">
+              <UpgradePrompt entitlement="max_cards" used={ownCardCount} />
+            </div>
+          )}
+          {activeTab === 'create' && !editingCard && canCreateCard && newCardTemplate === undefined && (
+            <div className="max-w-5xl mx-auto">
+              <h2 className="text-xl font-semibold text-gray-900 mb-1">Choose a template</h2>
+              <p className="text-gray-600 mb-6">Start from a ready-made design, or from a blank card. You can change the design at any time.</p>
+              <TemplateGallery
+                onSelect={setNewCardTemplate}
+                onSkip={() => setNewCardTemplate(null)}
+              />
+            </div>
+          )}
+          {activeTab === 'create' && (editingCard || (canCreateCard && newCardTemplate !== undefined)) && (
             <CardEditor 
               existingCard={editingCard}
+              template={editingCard ? null : newCardTemplate}
+              organization={organization}
               onSave={() => {
                 loadUserCards();
                 setActiveTab('cards');
                 setEditingCard(null);
+                setNewCardTemplate(undefined);
               }}
               onCancel={() => {
                 setActiveTab('cards');
                 setEditingCard(null);
+                setNewCardTemplate(undefined);
               }}
             />
           )}
+          {activeTab === 'import' && (
+            <BulkImport
+              organizationId={organization?.id || null}
+              onImported={loadUserCards}
+            />
+          )}
+          {activeTab === 'leads' && <LeadsManager />}
+          {activeTab === 'bookings' && <BookingsManager />}
           {activeTab === 'analytics' && <AnalyticsPage />}
+          {activeTab === 'team' && (
+            <OrganizationSettings
+              organizationState={organizationState}
+              onBrandChange={loadUserCards}
+            />
+          )}
           {activeTab === 'settings' && renderSettings()}
         </main>
       </div>
 
+      {printCards && (
+        <PrintSheetDialog
+          cards={printCards}
+          onClose={() => setPrintCards(null)}
+        />
+      )}
+
+      {shortLinksCard && (
+        <ShortLinksDialog
+          card={shortLinksCard}
+          onClose={() => setShortLinksCard(null)}
+        />
+      )}
+
       {/* Mobile Sidebar Overlay */}
       {sidebarOpen && (
         <div
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { Crown, Loader2, Save } from 'lucide-react';
+import { usePlan } from '../hooks/usePlan';
+import {
+  ENTITLEMENT_KEYS,
+  ENTITLEMENT_LABELS,
+  FEATURE_ENTITLEMENTS,
+  UNLIMITED_ENTITLEMENTS,
+  getPlanEntitlements,
+  type EntitlementKey,
+  type Entitlements,
+} from '../utils/planUtils';
+
+export const AdminPlanSettings: React.FC = () => {
+  const { plans, loading, updatePlan } = usePlan();
+  const [drafts, setDrafts] = useState<Record<string, Entitlements>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(plans.map(plan => [plan.id, getPlanEntitlements(plan)])));
+  }, [plans]);
+
+  const changedPlans = plans.filter(plan =>
+    drafts[plan.id] && JSON.stringify(drafts[plan.id]) !== JSON.stringify(getPlanEntitlements(plan))
+  );
+
+  const setValue = (planId: string, key: EntitlementKey, value: number | boolean | null) => {
+    setDrafts(current => ({ ...current, [planId]: { ...current[planId], [key]: value } }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const results = await Promise.all(changedPlans.map(plan => updatePlan(plan.id, drafts[plan.id])));
+    setSaving(false);
+
+    if (results.some(result => !result.success)) {
+      alert('Failed to save plan limits. Please try again.');
+    }
+  };
+
+  const inputClass = 'w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-gray-50';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Crown className="w-5 h-5" />
+          Plans & Limits
+        </h3>
+        <button
+          onClick={handleSave}
+          disabled={saving || changedPlans.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 text-sm"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save Plans
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-6">
+        What each plan includes. Limits apply to new cards and media; existing ones are kept.
+        Set limits for a single user from User Management.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" />
+                {plans.map(plan => (
+                  <th key={plan.id} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {plan.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {ENTITLEMENT_KEYS.map(key => (
+                <tr key={key}>
+                  <td className="px-4 py-3 text-gray-900 whitespace-nowrap">{ENTITLEMENT_LABELS[key]}</td>
+                  {plans.map(plan => {
+                    const value = drafts[plan.id]?.[key];
+                    return (
+                      <td key={plan.id} className="px-4 py-3 whitespace-nowrap">
+                        {FEATURE_ENTITLEMENTS.includes(key) ? (
+                          <input
+                            type="checkbox"
+                            checked={value === true}
+                            onChange={(e) => setValue(plan.id, key, e.target.checked)}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="number"
+                              min={key === 'analytics_retention_days' ? 1 : 0}
+                              value={typeof value === 'number' ? value : ''}
+                              onChange={(e) => setValue(plan.id, key, Math.max(key === 'analytics_retention_days' ? 1 : 0, parseInt(e.target.value) || 0))}
+                              disabled={value === null}
+                              className={inputClass}
+                            />
+                            {UNLIMITED_ENTITLEMENTS.includes(key) && (
+                              <label className="flex items-center gap-1 text-xs text-gray-600">
+                                <input
+                                  type="checkbox"
+                                  checked={value === null}
+                                  onChange={(e) => setValue(plan.id, key, e.target.checked ? null : getPlanEntitlements(plan)[key] ?? 1)}
+                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                Unlimited
+                              </label>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,32 +1,26 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
+import { useAdminAuth } from '../hooks/useAdminAuth';
 
 interface AdminProtectedRouteProps {
   children: React.ReactNode;
 }
 
 export const AdminProtectedRoute: React.FC<AdminProtectedRouteProps> = ({ children }) => {
-  const adminSession = localStorage.getItem('admin_session');
-  
-  if (!adminSession) {
-    return <Navigate to="/admin-scc/login" replace />;
-  }
+  const { isAdmin, expired, loading } = useAdminAuth();
 
-  try {
-    const session = JSON.parse(adminSession);
-    const loginTime = new Date(session.loginTime);
-    const now = new Date();
-    const hoursSinceLogin = (now.getTime() - loginTime.getTime()) / (1000 * 60 * 60);
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-400 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
 
-    // Session expires after 24 hours
-    if (hoursSinceLogin > 24) {
-      localStorage.removeItem('admin_session');
-      return <Navigate to="/admin-scc/login" replace />;
-    }
-  } catch (error) {
-    localStorage.removeItem('admin_session');
-    return <Navigate to="/admin-scc/login" replace />;
+  // Session expires after ADMIN_SESSION_MAX_HOURS; non-admin accounts never get through
+  if (!isAdmin) {
+    return <Navigate to="/admin-scc/login" replace state={{ expired }} />;
   }
 
   return <>{children}</>;
-};
\ No newline at end of file
+};
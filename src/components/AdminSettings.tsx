@@ -14,46 +14,69 @@ import {
   Lock,
   BarChart3 // <-- Add this
 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { AdminPlanSettings } from './AdminPlanSettings';
 
 interface SystemSettings {
   maintenance_mode: boolean;
   email_notifications: boolean;
   auto_backup: boolean;
-  max_cards_per_user: number;
   max_file_size_mb: number;
 }
 
+// Card limits moved to subscription plans; these are the remaining system_settings keys
+const SETTING_KEYS: (keyof SystemSettings)[] = ['maintenance_mode', 'email_notifications', 'auto_backup', 'max_file_size_mb'];
+
 export const AdminSettings: React.FC = () => {
+  const { user } = useAuth();
   const [settings, setSettings] = useState<SystemSettings>({
     maintenance_mode: false,
     email_notifications: true,
     auto_backup: true,
-    max_cards_per_user: 10,
     max_file_size_mb: 5
   });
   const [saving, setSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
 
   useEffect(() => {
-    // Load settings from localStorage or API
-    const savedSettings = localStorage.getItem('admin_settings');
-    if (savedSettings) {
-      try {
-        setSettings(JSON.parse(savedSettings));
-      } catch (error) {
-        console.error('Error loading settings:', error);
-      }
-    }
+    loadSettings();
   }, []);
 
+  const loadSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('system_settings')
+        .select('key, value')
+        .in('key', SETTING_KEYS);
+
+      if (error) throw error;
+
+      setSettings(prev => ({
+        ...prev,
+        ...Object.fromEntries((data || []).map(row => [row.key, row.value]))
+      }));
+    } catch (error) {
+      console.error('Error loading settings:', error);
+    }
+  };
+
   const handleSaveSettings = async () => {
     setSaving(true);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Save to localStorage (in production, this would be an API call)
-      localStorage.setItem('admin_settings', JSON.stringify(settings));
+      const { error } = await supabase
+        .from('system_settings')
+        .upsert(
+          SETTING_KEYS.map(key => ({
+            key,
+            value: settings[key],
+            updated_by: user?.email || null,
+            updated_at: new Date().toISOString()
+          })),
+          { onConflict: 'key' }
+        );
+
+      if (error) throw error;
       setLastSaved(new Date());
     } catch (error) {
       console.error('Error saving settings:', error);
@@ -234,6 +257,9 @@ export const AdminSettings: React.FC = () => {
         </div>
       </div>
 
+      {/* Plans */}
+      <AdminPlanSettings />
+
       {/* Limits and Quotas */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-6 flex items-center gap-2">
@@ -242,23 +268,6 @@ export const AdminSettings: React.FC = () => {
         </h3>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Maximum Cards per User
-            </label>
-            <input
-              type="number"
-              min="1"
-              max="100"
-              value={settings.max_cards_per_user}
-              onChange={(e) => handleNumberChange('max_cards_per_user', parseInt(e.target.value))}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            />
-            <p className="text-xs text-gray-500 mt-1">
-              Limit how many business cards each user can create
-            </p>
-          </div>
-
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Maximum File Size (MB)
@@ -0,0 +1,319 @@
+import React, { useState } from 'react';
+import {
+  ArrowUp,
+  ArrowDown,
+  Crown,
+  Edit3,
+  Trash2,
+  Plus,
+  Loader2,
+  ToggleLeft,
+  ToggleRight,
+  LayoutTemplate,
+} from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useCardTemplates } from '../hooks/useCardTemplates';
+import { ImageUpload } from './ImageUpload';
+import { TemplateSwatch } from './TemplateGallery';
+import type { CardTemplate } from '../utils/templateUtils';
+
+interface AdminTemplateManagerProps {
+  cards: { id: string; title: string | null; company: string | null }[];
+}
+
+interface TemplateEdit {
+  name: string;
+  description: string;
+  preview_image: string;
+}
+
+export const AdminTemplateManager: React.FC<AdminTemplateManagerProps> = ({ cards }) => {
+  const { user } = useAuth();
+  const {
+    templates,
+    loading,
+    createTemplateFromCard,
+    updateTemplate,
+    moveTemplate,
+    deleteTemplate,
+  } = useCardTemplates();
+  const [sourceCardId, setSourceCardId] = useState('');
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [edit, setEdit] = useState<TemplateEdit>({ name: '', description: '', preview_image: '' });
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sourceCardId || !newName.trim()) return;
+
+    setCreating(true);
+    const result = await createTemplateFromCard(sourceCardId, newName, newDescription);
+    setCreating(false);
+
+    if (!result.success) {
+      alert('Failed to create template. Please try again.');
+      return;
+    }
+
+    setSourceCardId('');
+    setNewName('');
+    setNewDescription('');
+  };
+
+  const startEditing = (template: CardTemplate) => {
+    setEditingId(template.id);
+    setEdit({
+      name: template.name,
+      description: template.description || '',
+      preview_image: template.preview_image || '',
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !edit.name.trim()) return;
+
+    const result = await updateTemplate(editingId, {
+      name: edit.name.trim(),
+      description: edit.description.trim() || null,
+      preview_image: edit.preview_image || null,
+    });
+    if (!result.success) {
+      alert('Failed to update template. Please try again.');
+      return;
+    }
+    setEditingId(null);
+  };
+
+  const handleToggle = async (template: CardTemplate, field: 'is_active' | 'is_premium') => {
+    const result = await updateTemplate(template.id, { [field]: !template[field] });
+    if (!result.success) {
+      alert('Failed to update template. Please try again.');
+    }
+  };
+
+  const handleMove = async (templateId: string, direction: -1 | 1) => {
+    const result = await moveTemplate(templateId, direction);
+    if (!result.success) {
+      alert('Failed to reorder templates. Please try again.');
+    }
+  };
+
+  const handleDelete = async (template: CardTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template? Cards created from it keep their design.`)) return;
+
+    const result = await deleteTemplate(template.id);
+    if (!result.success) {
+      alert('Failed to delete template. Please try again.');
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Card Templates</h2>
+        <p className="text-gray-600">
+          The designs users can start a card from. Inactive templates are hidden from the gallery.
+        </p>
+      </div>
+
+      {/* New template */}
+      <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">New template from a card</h3>
+        <p className="text-sm text-gray-600">
+          Copies the card's theme, layout and shape. The template starts inactive so you can add a preview first.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Card</label>
+            <select
+              value={sourceCardId}
+              onChange={(e) => setSourceCardId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Choose a card</option>
+              {cards.map(card => (
+                <option key={card.id} value={card.id}>
+                  {card.title || 'Untitled Card'}{card.company ? ` (${card.company})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Template name"
+              maxLength={60}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <input
+              type="text"
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+              placeholder="Optional"
+              maxLength={200}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={creating || !sourceCardId || !newName.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Create Template
+        </button>
+      </form>
+
+      {/* Templates in gallery order */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+        {loading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+          </div>
+        )}
+        {!loading && templates.length === 0 && (
+          <div className="text-center py-8">
+            <LayoutTemplate className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+            <p className="text-sm text-gray-500">No templates yet.</p>
+          </div>
+        )}
+        {templates.map((template, index) => (
+          <div key={template.id} className="flex flex-col md:flex-row gap-4 p-4">
+            <div className="w-full md:w-40 h-28 flex-shrink-0 rounded-lg overflow-hidden border border-gray-200">
+              {template.preview_image ? (
+                <img src={template.preview_image} alt={template.name} className="w-full h-full object-cover" />
+              ) : (
+                <TemplateSwatch template={template} />
+              )}
+            </div>
+
+            {editingId === template.id ? (
+              <div className="flex-1 flex flex-col md:flex-row gap-4">
+                <div className="flex-1 space-y-3">
+                  <input
+                    type="text"
+                    value={edit.name}
+                    onChange={(e) => setEdit({ ...edit, name: e.target.value })}
+                    maxLength={60}
+                    className={inputClass}
+                  />
+                  <textarea
+                    value={edit.description}
+                    onChange={(e) => setEdit({ ...edit, description: e.target.value })}
+                    placeholder="Description"
+                    maxLength={200}
+                    rows={2}
+                    className={inputClass}
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSaveEdit}
+                      disabled={!edit.name.trim()}
+                      className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+                <div className="text-center">
+                  <ImageUpload
+                    currentImageUrl={edit.preview_image || undefined}
+                    onImageChange={(url) => setEdit({ ...edit, preview_image: url || '' })}
+                    userId={user?.id || ''}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Preview image</p>
+                </div>
+              </div>
+            ) : (
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="font-medium text-gray-900">{template.name}</p>
+                  {template.is_premium && (
+                    <span className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-800 rounded-full">
+                      <Crown className="w-3 h-3" />
+                      Premium
+                    </span>
+                  )}
+                  {!template.is_active && (
+                    <span className="px-2 py-0.5 text-xs font-medium bg-gray-100 text-gray-600 rounded-full">
+                      Inactive
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-500">{template.description || 'No description'}</p>
+              </div>
+            )}
+
+            {editingId !== template.id && (
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => handleMove(template.id, -1)}
+                  disabled={index === 0}
+                  className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleMove(template.id, 1)}
+                  disabled={index === templates.length - 1}
+                  className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleToggle(template, 'is_active')}
+                  className="p-2 text-orange-600 hover:bg-orange-50 rounded-lg transition-colors"
+                  title={template.is_active ? 'Hide from gallery' : 'Show in gallery'}
+                >
+                  {template.is_active ? <ToggleRight className="w-4 h-4" /> : <ToggleLeft className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => handleToggle(template, 'is_premium')}
+                  className={`p-2 rounded-lg transition-colors ${
+                    template.is_premium ? 'text-amber-600 hover:bg-amber-50' : 'text-gray-400 hover:bg-gray-100'
+                  }`}
+                  title={template.is_premium ? 'Make free' : 'Make premium'}
+                >
+                  <Crown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => startEditing(template)}
+                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  title="Edit"
+                >
+                  <Edit3 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
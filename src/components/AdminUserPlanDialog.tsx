@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import {
+  ENTITLEMENT_KEYS,
+  ENTITLEMENT_LABELS,
+  FEATURE_ENTITLEMENTS,
+  UNLIMITED_ENTITLEMENTS,
+  formatEntitlement,
+  getEntitlementOverrides,
+  getPlanEntitlements,
+  type EntitlementKey,
+  type EntitlementOverrides,
+  type SubscriptionPlan,
+} from '../utils/planUtils';
+import type { Json } from '../lib/supabase';
+
+interface AdminUserPlanDialogProps {
+  user: {
+    name: string | null;
+    email: string | null;
+    subscription_tier: string;
+    entitlement_overrides: Json;
+  };
+  plans: SubscriptionPlan[];
+  onSave: (tier: string, overrides: EntitlementOverrides) => Promise<{ success: boolean; error?: string }>;
+  onClose: () => void;
+}
+
+export const AdminUserPlanDialog: React.FC<AdminUserPlanDialogProps> = ({
+  user,
+  plans,
+  onSave,
+  onClose
+}) => {
+  const [tier, setTier] = useState(user.subscription_tier);
+  const [overrides, setOverrides] = useState<EntitlementOverrides>(() =>
+    getEntitlementOverrides(user.entitlement_overrides)
+  );
+  const [saving, setSaving] = useState(false);
+  const selectedPlan = plans.find(plan => plan.id === tier);
+
+  // Leaving a field empty (or on "Plan default") drops the override
+  const setOverride = (key: EntitlementKey, value: number | boolean | null | undefined) => {
+    setOverrides(current => {
+      const next = { ...current } as Record<string, unknown>;
+      if (value === undefined) {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+      return next as EntitlementOverrides;
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await onSave(tier, overrides);
+    setSaving(false);
+
+    if (!result.success) {
+      alert('Failed to update the plan. Please try again.');
+      return;
+    }
+    onClose();
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Plan and Limits</h3>
+            <p className="text-sm text-gray-500">{user.name || user.email || 'Unnamed User'}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Plan</label>
+            <div className="flex flex-wrap gap-2">
+              {plans.map(plan => (
+                <button
+                  key={plan.id}
+                  type="button"
+                  onClick={() => setTier(plan.id)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+                    tier === plan.id
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  {plan.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Overrides</label>
+            <p className="text-xs text-gray-500 mb-3">
+              Replace the plan's limits for this user only. Empty fields follow the plan.
+            </p>
+            <div className="space-y-3">
+              {ENTITLEMENT_KEYS.map(key => {
+                const planValue = selectedPlan ? getPlanEntitlements(selectedPlan)[key] : null;
+                const override = overrides[key];
+
+                return (
+                  <div key={key} className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900">{ENTITLEMENT_LABELS[key]}</p>
+                      {selectedPlan && (
+                        <p className="text-xs text-gray-500">
+                          {selectedPlan.name}: {formatEntitlement(key, planValue)}
+                        </p>
+                      )}
+                    </div>
+
+                    {FEATURE_ENTITLEMENTS.includes(key) ? (
+                      <select
+                        value={override === undefined ? '' : String(override)}
+                        onChange={(e) => setOverride(key, e.target.value === '' ? undefined : e.target.value === 'true')}
+                        className={inputClass}
+                      >
+                        <option value="">Plan default</option>
+                        <option value="true">Included</option>
+                        <option value="false">Not included</option>
+                      </select>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min="0"
+                          value={typeof override === 'number' ? override : ''}
+                          onChange={(e) => setOverride(key, e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0))}
+                          disabled={override === null}
+                          placeholder="Plan"
+                          className={`${inputClass} w-24 disabled:bg-gray-50`}
+                        />
+                        {UNLIMITED_ENTITLEMENTS.includes(key) && (
+                          <label className="flex items-center gap-1 text-xs text-gray-600">
+                            <input
+                              type="checkbox"
+                              checked={override === null}
+                              onChange={(e) => setOverride(key, e.target.checked ? null : undefined)}
+                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            Unlimited
+                          </label>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
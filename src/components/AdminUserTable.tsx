@@ -8,8 +8,13 @@ import {
   Calendar,
   Mail,
   UserCheck,
-  AlertTriangle
+  AlertTriangle,
+  Crown
 } from 'lucide-react';
+import { AdminUserPlanDialog } from './AdminUserPlanDialog';
+import { usePlan } from '../hooks/usePlan';
+import { getEntitlementOverrides, type EntitlementOverrides } from '../utils/planUtils';
+import type { Json } from '../lib/supabase';
 
 interface User {
   id: string;
@@ -19,19 +24,25 @@ interface User {
   last_login: string | null;
   avatar_url: string | null;
   role: string;
+  subscription_tier: string;
+  entitlement_overrides: Json;
 }
 
 interface AdminUserTableProps {
   users: User[];
   onDeleteUser: (userId: string) => Promise<{ success: boolean; error?: string }>;
+  onUpdateUserPlan: (userId: string, tier: string, overrides: EntitlementOverrides) => Promise<{ success: boolean; error?: string }>;
   onExportCSV: (data: any[], filename: string) => void;
 }
 
 export const AdminUserTable: React.FC<AdminUserTableProps> = ({
   users,
   onDeleteUser,
+  onUpdateUserPlan,
   onExportCSV
 }) => {
+  const { plans } = usePlan();
+  const [planUser, setPlanUser] = useState<User | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortField, setSortField] = useState<keyof User>('created_at');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
@@ -179,6 +190,12 @@ export const AdminUserTable: React.FC<AdminUserTableProps> = ({
                 >
                   Last Login
                 </th>
+                <th 
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                  onClick={() => handleSort('subscription_tier')}
+                >
+                  Plan
+                </th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Actions
                 </th>
@@ -249,8 +266,25 @@ export const AdminUserTable: React.FC<AdminUserTableProps> = ({
                       )}
                     </div>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center gap-2">
+                      <span className="px-2 py-1 text-xs font-medium bg-gray-100 text-gray-800 rounded-full">
+                        {plans.find(plan => plan.id === user.subscription_tier)?.name || user.subscription_tier}
+                      </span>
+                      {Object.keys(getEntitlementOverrides(user.entitlement_overrides)).length > 0 && (
+                        <span className="text-xs text-amber-700">Custom limits</span>
+                      )}
+                    </div>
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     <div className="flex items-center gap-2 justify-end">
+                      <button
+                        onClick={() => setPlanUser(user)}
+                        className="p-2 text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                        title="Plan and Limits"
+                      >
+                        <Crown className="w-4 h-4" />
+                      </button>
                       <button
                         onClick={() => window.open(`/c/${user.id}`, '_blank')}
                         className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
@@ -284,6 +318,15 @@ export const AdminUserTable: React.FC<AdminUserTableProps> = ({
         )}
       </div>
 
+      {planUser && (
+        <AdminUserPlanDialog
+          user={planUser}
+          plans={plans}
+          onSave={(tier, overrides) => onUpdateUserPlan(planUser.id, tier, overrides)}
+          onClose={() => setPlanUser(null)}
+        />
+      )}
+
       {/* Summary */}
       <div className="bg-blue-50 rounded-lg p-4">
         <div className="flex items-center justify-between">
@@ -19,10 +19,28 @@ import {
   MapPin,
   ExternalLink,
   Star,
-  Zap
+  Zap,
+  MessageCircle,
+  UserPlus
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { usePlan } from '../hooks/usePlan';
+import { UpgradePrompt } from './UpgradePrompt';
+import { formatEntitlement } from '../utils/planUtils';
+import { SOCIAL_PLATFORM_COLORS } from '../utils/socialUtils';
+import {
+  fetchCardEvents,
+  countEvents,
+  growthPercent,
+  buildDailySeries,
+  buildHourlySeries,
+  groupCounts,
+  formatCountry,
+  CONTACT_EVENT_TYPES,
+  CARD_EVENT_LABELS,
+  type CardEventType
+} from '../utils/analyticsUtils';
 
 interface AnalyticsData {
   totalViews: number;
@@ -32,6 +50,16 @@ interface AnalyticsData {
   totalSocialClicks: number;
   totalContactActions: number;
   qrScans: number;
+  qrSourceScans: Array<{
+    id: string;
+    name: string;
+    cardTitle: string;
+    scans: number;
+    scansOverTime: Array<{
+      date: string;
+      views: number;
+    }>;
+  }>;
   viewsGrowth: number;
   topCards: Array<{
     id: string;
@@ -56,7 +84,11 @@ interface AnalyticsData {
     phone: number;
     email: number;
     website: number;
+    whatsapp: number;
+    map: number;
+    vcard: number;
   };
+  totalShares: number;
   recentActivity: Array<{
     id: string;
     action: string;
@@ -74,6 +106,10 @@ export const AnalyticsPage: React.FC = () => {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState('30'); // days
+  const { entitlements } = usePlan();
+  // Events older than the plan keeps are not readable, so longer ranges are offered as an upgrade
+  const retentionDays = entitlements.analytics_retention_days;
+  const isRangeAvailable = (days: number) => retentionDays === null || days <= retentionDays;
   const [selectedCard, setSelectedCard] = useState<string>('all');
   const [activeTab, setActiveTab] = useState<'overview' | 'engagement' | 'performance' | 'growth'>('overview');
 
@@ -83,16 +119,21 @@ export const AnalyticsPage: React.FC = () => {
     }
   }, [user, dateRange, selectedCard]);
 
+  const [cardOptions, setCardOptions] = useState<Array<{ id: string; title: string }>>([]);
+
   const loadAnalytics = async () => {
     if (!user) return;
 
     try {
       setLoading(true);
 
-      // Calculate date range
+      // Current period plus the equally long period before it, for growth
+      const days = parseInt(dateRange);
       const endDate = new Date();
       const startDate = new Date();
-      startDate.setDate(startDate.getDate() - parseInt(dateRange));
+      startDate.setDate(startDate.getDate() - days);
+      const previousStartDate = new Date(startDate);
+      previousStartDate.setDate(previousStartDate.getDate() - days);
 
       // Load user's cards
       const { data: cards, error: cardsError } = await supabase
@@ -103,63 +144,116 @@ export const AnalyticsPage: React.FC = () => {
 
       if (cardsError) throw cardsError;
 
-      // Load analytics data
-      const { data: analyticsData, error: analyticsError } = await supabase
-        .from('card_analytics')
-        .select('*')
-        .in('card_id', cards?.map(c => c.id) || [])
-        .gte('viewed_at', startDate.toISOString())
-        .lte('viewed_at', endDate.toISOString());
-
-      if (analyticsError) throw analyticsError;
-
-      // Process data
-      const totalViews = cards?.reduce((sum, card) => sum + (card.view_count || 0), 0) || 0;
-      const publishedCards = cards?.filter(card => card.is_published).length || 0;
-      const draftCards = (cards?.length || 0) - publishedCards;
-
-      // Generate mock data for demonstration (in production, this would come from real analytics)
-      const mockAnalytics: AnalyticsData = {
+      setCardOptions((cards || []).map(card => ({ id: card.id, title: card.title || 'Untitled Card' })));
+
+      const scopedCards = (cards || []).filter(card => selectedCard === 'all' || card.id === selectedCard);
+      const cardTitles = new Map(scopedCards.map(card => [card.id, card.title || 'Untitled Card']));
+
+      // Load events for the selected cards
+      const allEvents = await fetchCardEvents(
+        scopedCards.map(card => card.id),
+        previousStartDate,
+        endDate
+      );
+      const events = allEvents.filter(event => new Date(event.created_at) >= startDate);
+      const previousEvents = allEvents.filter(event => new Date(event.created_at) < startDate);
+
+      // Named QR sources of the selected cards, listed even before their first scan
+      const { data: qrSources, error: qrSourcesError } = scopedCards.length > 0
+        ? await supabase
+          .from('qr_sources')
+          .select('id, name, card_id')
+          .in('card_id', scopedCards.map(card => card.id))
+          .order('created_at', { ascending: true })
+        : { data: [], error: null };
+
+      if (qrSourcesError) throw qrSourcesError;
+
+      const scanEvents = events.filter(event => event.event_type === 'qr_scan');
+      const sourceScans = (sourceId: string | null) =>
+        scanEvents.filter(event => event.qr_source_id === sourceId);
+      const cardQRScans = sourceScans(null);
+
+      const totalViews = countEvents(events, 'view');
+      const totalSocialClicks = countEvents(events, 'social_click');
+      const totalContactActions = countEvents(events, CONTACT_EVENT_TYPES);
+      const publishedCards = scopedCards.filter(card => card.is_published).length;
+
+      const realAnalytics: AnalyticsData = {
         totalViews,
-        totalCards: cards?.length || 0,
+        totalCards: scopedCards.length,
         publishedCards,
-        draftCards,
-        totalSocialClicks: Math.floor(totalViews * 0.3),
-        totalContactActions: Math.floor(totalViews * 0.15),
-        qrScans: Math.floor(totalViews * 0.6),
-        viewsGrowth: Math.floor(Math.random() * 40) - 10, // -10 to +30
-        topCards: cards?.slice(0, 5).map(card => ({
-          id: card.id,
-          title: card.title || 'Untitled Card',
-          views: card.view_count || 0,
-          clicks: Math.floor((card.view_count || 0) * 0.2)
-        })) || [],
-        viewsOverTime: generateTimeSeriesData(parseInt(dateRange)),
-        socialClicksBreakdown: [
-          { platform: 'LinkedIn', clicks: Math.floor(totalViews * 0.12), color: '#0A66C2' },
-          { platform: 'Instagram', clicks: Math.floor(totalViews * 0.08), color: '#E1306C' },
-          { platform: 'Twitter', clicks: Math.floor(totalViews * 0.05), color: '#1DA1F2' },
-          { platform: 'Facebook', clicks: Math.floor(totalViews * 0.03), color: '#1877F3' },
-          { platform: 'Website', clicks: Math.floor(totalViews * 0.02), color: '#6366F1' }
-        ],
-        locationData: [
-          { country: 'United States', views: Math.floor(totalViews * 0.35) },
-          { country: 'India', views: Math.floor(totalViews * 0.25) },
-          { country: 'United Kingdom', views: Math.floor(totalViews * 0.15) },
-          { country: 'Canada', views: Math.floor(totalViews * 0.10) },
-          { country: 'Australia', views: Math.floor(totalViews * 0.08) },
-          { country: 'Germany', views: Math.floor(totalViews * 0.07) }
-        ],
+        draftCards: scopedCards.length - publishedCards,
+        totalSocialClicks,
+        totalContactActions,
+        qrScans: scanEvents.length,
+        qrSourceScans: [
+          ...(qrSources || []).map(source => ({
+            id: source.id,
+            name: source.name,
+            cardTitle: cardTitles.get(source.card_id) || 'Untitled Card',
+            scans: sourceScans(source.id).length,
+            scansOverTime: buildDailySeries(sourceScans(source.id), days, 'qr_scan')
+          })),
+          // Scans of the card's own QR code, and of sources that were deleted since
+          ...(cardQRScans.length > 0 ? [{
+            id: 'card',
+            name: 'Card QR code',
+            cardTitle: selectedCard === 'all' ? 'All cards' : cardTitles.get(selectedCard) || 'Untitled Card',
+            scans: cardQRScans.length,
+            scansOverTime: buildDailySeries(cardQRScans, days, 'qr_scan')
+          }] : [])
+        ].sort((a, b) => b.scans - a.scans),
+        totalShares: countEvents(events, 'share'),
+        viewsGrowth: growthPercent(totalViews, countEvents(previousEvents, 'view')),
+        topCards: scopedCards
+          .map(card => {
+            const cardEvents = events.filter(event => event.card_id === card.id);
+            return {
+              id: card.id,
+              title: card.title || 'Untitled Card',
+              views: countEvents(cardEvents, 'view'),
+              clicks: countEvents(cardEvents, ['social_click', ...CONTACT_EVENT_TYPES])
+            };
+          })
+          .sort((a, b) => b.views - a.views)
+          .slice(0, 5),
+        viewsOverTime: buildDailySeries(events, days),
+        socialClicksBreakdown: groupCounts(
+          events.filter(event => event.event_type === 'social_click'),
+          event => event.target || 'Other'
+        ).map(({ key, count }) => ({
+          platform: key,
+          clicks: count,
+          color: SOCIAL_PLATFORM_COLORS[key] || '#6366F1'
+        })),
+        locationData: groupCounts(
+          events.filter(event => event.event_type === 'view'),
+          event => formatCountry(event.country)
+        )
+          .slice(0, 6)
+          .map(({ key, count }) => ({ country: key, views: count })),
         contactActions: {
-          phone: Math.floor(totalViews * 0.08),
-          email: Math.floor(totalViews * 0.05),
-          website: Math.floor(totalViews * 0.02)
+          phone: countEvents(events, 'phone_click'),
+          email: countEvents(events, 'email_click'),
+          website: countEvents(events, 'website_click'),
+          whatsapp: countEvents(events, 'whatsapp_click'),
+          map: countEvents(events, 'map_click'),
+          vcard: countEvents(events, 'vcard_save')
         },
-        recentActivity: generateRecentActivity(cards || []),
-        hourlyActivity: generateHourlyActivity()
+        recentActivity: events
+          .slice(-10)
+          .reverse()
+          .map(event => ({
+            id: event.id,
+            action: CARD_EVENT_LABELS[event.event_type as CardEventType] || event.event_type,
+            cardTitle: cardTitles.get(event.card_id) || 'Untitled Card',
+            timestamp: event.created_at
+          })),
+        hourlyActivity: buildHourlySeries(events)
       };
 
-      setAnalytics(mockAnalytics);
+      setAnalytics(realAnalytics);
     } catch (error) {
       console.error('Error loading analytics:', error);
     } finally {
@@ -167,51 +261,6 @@ export const AnalyticsPage: React.FC = () => {
     }
   };
 
-  const generateTimeSeriesData = (days: number) => {
-    const data = [];
-    for (let i = days - 1; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      data.push({
-        date: date.toISOString().split('T')[0],
-        views: Math.floor(Math.random() * 50) + 10
-      });
-    }
-    return data;
-  };
-
-  const generateRecentActivity = (cards: any[]) => {
-    const activities = [];
-    const actions = ['created', 'updated', 'published', 'viewed'];
-    
-    for (let i = 0; i < 10; i++) {
-      const randomCard = cards[Math.floor(Math.random() * cards.length)];
-      const randomAction = actions[Math.floor(Math.random() * actions.length)];
-      const date = new Date();
-      date.setHours(date.getHours() - Math.floor(Math.random() * 48));
-      
-      activities.push({
-        id: `activity-${i}`,
-        action: randomAction,
-        cardTitle: randomCard?.title || 'Untitled Card',
-        timestamp: date.toISOString()
-      });
-    }
-    
-    return activities.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-  };
-
-  const generateHourlyActivity = () => {
-    const data = [];
-    for (let hour = 0; hour < 24; hour++) {
-      data.push({
-        hour,
-        views: Math.floor(Math.random() * 20) + 5
-      });
-    }
-    return data;
-  };
-
   const exportData = () => {
     if (!analytics) return;
 
@@ -223,7 +272,11 @@ export const AnalyticsPage: React.FC = () => {
       ['Draft Cards', analytics.draftCards],
       ['Social Clicks', analytics.totalSocialClicks],
       ['Contact Actions', analytics.totalContactActions],
-      ['QR Scans', analytics.qrScans]
+      ['QR Scans', analytics.qrScans],
+      ...analytics.qrSourceScans.map(source => [`QR Scans: ${source.name} (${source.cardTitle})`, source.scans]),
+      ['Shares', analytics.totalShares],
+      ['vCard Saves', analytics.contactActions.vcard],
+      ['Views Growth %', analytics.viewsGrowth]
     ];
 
     const csvContent = csvData.map(row => row.join(',')).join('\n');
@@ -236,6 +289,9 @@ export const AnalyticsPage: React.FC = () => {
     window.URL.revokeObjectURL(url);
   };
 
+  const percentOf = (part: number, total: number) =>
+    total > 0 ? Math.round((part / total) * 100) : 0;
+
   const formatNumber = (num: number) => {
     if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M';
     if (num >= 1000) return (num / 1000).toFixed(1) + 'K';
@@ -284,15 +340,35 @@ export const AnalyticsPage: React.FC = () => {
         </div>
         
         <div className="flex gap-3">
+          <div className="relative">
+            <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <select
+              value={selectedCard}
+              onChange={(e) => setSelectedCard(e.target.value)}
+              className="pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">All cards</option>
+              {cardOptions.map(card => (
+                <option key={card.id} value={card.id}>{card.title}</option>
+              ))}
+            </select>
+          </div>
+
           <select
             value={dateRange}
             onChange={(e) => setDateRange(e.target.value)}
             className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
-            <option value="7">Last 7 days</option>
-            <option value="30">Last 30 days</option>
-            <option value="90">Last 90 days</option>
-            <option value="365">Last year</option>
+            {[
+              { value: '7', label: 'Last 7 days' },
+              { value: '30', label: 'Last 30 days' },
+              { value: '90', label: 'Last 90 days' },
+              { value: '365', label: 'Last year' },
+            ].map(range => (
+              <option key={range.value} value={range.value} disabled={!isRangeAvailable(parseInt(range.value))}>
+                {range.label}{isRangeAvailable(parseInt(range.value)) ? '' : ' (upgrade)'}
+              </option>
+            ))}
           </select>
           
           <button
@@ -305,6 +381,14 @@ export const AnalyticsPage: React.FC = () => {
         </div>
       </div>
 
+      {retentionDays !== null && retentionDays < 365 && (
+        <UpgradePrompt
+          entitlement="analytics_retention_days"
+          used={retentionDays}
+          message={`Your plan keeps ${formatEntitlement('analytics_retention_days', retentionDays)} of analytics history.`}
+        />
+      )}
+
       {/* Tab Navigation */}
       <div className="border-b border-gray-200">
         <nav className="flex space-x-8">
@@ -373,7 +457,7 @@ export const AnalyticsPage: React.FC = () => {
               <div className="mt-4 flex items-center gap-2">
                 <Zap className="w-4 h-4 text-purple-500" />
                 <span className="text-sm text-purple-600">
-                  {Math.round((analytics.qrScans / analytics.totalViews) * 100)}% of total views
+                  {percentOf(analytics.qrScans, analytics.totalViews)}% of total views
                 </span>
               </div>
             </div>
@@ -391,7 +475,7 @@ export const AnalyticsPage: React.FC = () => {
               <div className="mt-4 flex items-center gap-2">
                 <TrendingUp className="w-4 h-4 text-green-500" />
                 <span className="text-sm text-green-600">
-                  {Math.round((analytics.totalSocialClicks / analytics.totalViews) * 100)}% engagement rate
+                  {percentOf(analytics.totalSocialClicks, analytics.totalViews)}% engagement rate
                 </span>
               </div>
             </div>
@@ -409,7 +493,7 @@ export const AnalyticsPage: React.FC = () => {
               <div className="mt-4 flex items-center gap-2">
                 <Star className="w-4 h-4 text-orange-500" />
                 <span className="text-sm text-orange-600">
-                  {Math.round((analytics.totalContactActions / analytics.totalViews) * 100)}% conversion rate
+                  {percentOf(analytics.totalContactActions, analytics.totalViews)}% conversion rate
                 </span>
               </div>
             </div>
@@ -449,6 +533,9 @@ export const AnalyticsPage: React.FC = () => {
               Top Locations
             </h3>
             <div className="space-y-3">
+              {analytics.locationData.length === 0 && (
+                <p className="text-sm text-gray-500">No views recorded in this period.</p>
+              )}
               {analytics.locationData.map((location, index) => (
                 <div key={location.country} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                   <div className="flex items-center gap-3">
@@ -485,6 +572,9 @@ export const AnalyticsPage: React.FC = () => {
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Social Media Clicks</h3>
               <div className="space-y-4">
+                {analytics.socialClicksBreakdown.length === 0 && (
+                  <p className="text-sm text-gray-500">No social link clicks recorded in this period.</p>
+                )}
                 {analytics.socialClicksBreakdown.map((social) => (
                   <div key={social.platform} className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
@@ -557,10 +647,99 @@ export const AnalyticsPage: React.FC = () => {
                     <p className="text-xs text-gray-500">visits</p>
                   </div>
                 </div>
+
+                <div className="flex items-center justify-between p-4 bg-emerald-50 rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <MessageCircle className="w-8 h-8 text-emerald-600" />
+                    <div>
+                      <p className="font-medium text-gray-900">WhatsApp</p>
+                      <p className="text-sm text-gray-500">Message link clicks</p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-2xl font-bold text-emerald-600">{analytics.contactActions.whatsapp}</p>
+                    <p className="text-xs text-gray-500">clicks</p>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between p-4 bg-orange-50 rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <MapPin className="w-8 h-8 text-orange-600" />
+                    <div>
+                      <p className="font-medium text-gray-900">Map</p>
+                      <p className="text-sm text-gray-500">Address / directions taps</p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-2xl font-bold text-orange-600">{analytics.contactActions.map}</p>
+                    <p className="text-xs text-gray-500">taps</p>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <UserPlus className="w-8 h-8 text-gray-700" />
+                    <div>
+                      <p className="font-medium text-gray-900">Saved Contacts</p>
+                      <p className="text-sm text-gray-500">vCard downloads · {analytics.totalShares} shares</p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-2xl font-bold text-gray-700">{analytics.contactActions.vcard}</p>
+                    <p className="text-xs text-gray-500">saves</p>
+                  </div>
+                </div>
               </div>
             </div>
           </div>
 
+          {/* QR Scans by Source */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+              <QrCode className="w-5 h-5 text-purple-600" />
+              QR Scans by Source
+            </h3>
+            {analytics.qrSourceScans.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No QR scans recorded in this period. Add tracked sources in the card editor's QR Code
+                section to see which flyer, banner or printed card people scan.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {analytics.qrSourceScans.map((source) => {
+                  const maxScans = Math.max(...source.scansOverTime.map(d => d.views));
+
+                  return (
+                    <div key={source.id} className="p-4 bg-gray-50 rounded-lg">
+                      <div className="flex items-center justify-between mb-3">
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate">{source.name}</p>
+                          <p className="text-sm text-gray-500 truncate">{source.cardTitle}</p>
+                        </div>
+                        <div className="text-right flex-shrink-0 ml-4">
+                          <p className="text-2xl font-bold text-purple-600">{formatNumber(source.scans)}</p>
+                          <p className="text-xs text-gray-500">
+                            {percentOf(source.scans, analytics.qrScans)}% of scans
+                          </p>
+                        </div>
+                      </div>
+                      <div className="h-12 flex items-end gap-px">
+                        {source.scansOverTime.map((data) => (
+                          <div
+                            key={data.date}
+                            className={`flex-1 rounded-t-sm ${data.views > 0 ? 'bg-purple-500' : 'bg-gray-200'}`}
+                            style={{ height: `${maxScans > 0 && data.views > 0 ? Math.max((data.views / maxScans) * 100, 8) : 8}%` }}
+                            title={`${data.date}: ${data.views} scans`}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
           {/* Hourly Activity Heatmap */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
@@ -570,7 +749,7 @@ export const AnalyticsPage: React.FC = () => {
             <div className="grid grid-cols-12 gap-2">
               {analytics.hourlyActivity.map((data) => {
                 const maxViews = Math.max(...analytics.hourlyActivity.map(d => d.views));
-                const intensity = data.views / maxViews;
+                const intensity = maxViews > 0 ? data.views / maxViews : 0;
                 
                 return (
                   <div key={data.hour} className="text-center">
@@ -588,11 +767,12 @@ export const AnalyticsPage: React.FC = () => {
               })}
             </div>
             <p className="text-sm text-gray-500 mt-4">
-              Peak activity hours: {analytics.hourlyActivity
+              Peak activity hours: {[...analytics.hourlyActivity]
+                .filter(d => d.views > 0)
                 .sort((a, b) => b.views - a.views)
                 .slice(0, 3)
                 .map(d => `${d.hour}:00`)
-                .join(', ')}
+                .join(', ') || 'No views yet'}
             </p>
           </div>
         </div>
@@ -699,7 +879,7 @@ export const AnalyticsPage: React.FC = () => {
                   <div className="w-64 bg-green-200 rounded-full h-4">
                     <div 
                       className="bg-green-600 h-4 rounded-full transition-all duration-300"
-                      style={{ width: `${(analytics.totalSocialClicks / analytics.totalViews) * 100}%` }}
+                      style={{ width: `${percentOf(analytics.totalSocialClicks, analytics.totalViews)}%` }}
                     />
                   </div>
                   <span className="font-bold text-green-600">{formatNumber(analytics.totalSocialClicks)}</span>
@@ -712,7 +892,7 @@ export const AnalyticsPage: React.FC = () => {
                   <div className="w-64 bg-orange-200 rounded-full h-4">
                     <div 
                       className="bg-orange-600 h-4 rounded-full transition-all duration-300"
-                      style={{ width: `${(analytics.totalContactActions / analytics.totalViews) * 100}%` }}
+                      style={{ width: `${percentOf(analytics.totalContactActions, analytics.totalViews)}%` }}
                     />
                   </div>
                   <span className="font-bold text-orange-600">{formatNumber(analytics.totalContactActions)}</span>
@@ -733,12 +913,15 @@ export const AnalyticsPage: React.FC = () => {
               Recent Activity
             </h3>
             <div className="space-y-3">
+              {analytics.recentActivity.length === 0 && (
+                <p className="text-sm text-gray-500">No visitor activity in this period.</p>
+              )}
               {analytics.recentActivity.map((activity) => (
                 <div key={activity.id} className="flex items-center gap-4 p-3 bg-gray-50 rounded-lg">
                   <div className="w-2 h-2 bg-blue-600 rounded-full" />
                   <div className="flex-1">
                     <p className="text-sm text-gray-900">
-                      Card <span className="font-medium">"{activity.cardTitle}"</span> was {activity.action}
+                      Card <span className="font-medium">"{activity.cardTitle}"</span> {activity.action}
                     </p>
                     <p className="text-xs text-gray-500">{formatTimeAgo(activity.timestamp)}</p>
                   </div>
@@ -759,19 +942,19 @@ export const AnalyticsPage: React.FC = () => {
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Publish Rate</span>
                   <span className="font-bold text-green-600">
-                    {Math.round((analytics.publishedCards / analytics.totalCards) * 100)}%
+                    {percentOf(analytics.publishedCards, analytics.totalCards)}%
                   </span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Avg Views per Card</span>
                   <span className="font-bold text-blue-600">
-                    {Math.round(analytics.totalViews / analytics.totalCards)}
+                    {(analytics.totalCards > 0 ? Math.round(analytics.totalViews / analytics.totalCards) : 0)}
                   </span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Engagement Rate</span>
                   <span className="font-bold text-purple-600">
-                    {Math.round((analytics.totalSocialClicks / analytics.totalViews) * 100)}%
+                    {percentOf(analytics.totalSocialClicks, analytics.totalViews)}%
                   </span>
                 </div>
               </div>
@@ -783,21 +966,21 @@ export const AnalyticsPage: React.FC = () => {
                 <div className="p-3 bg-green-50 rounded-lg border-l-4 border-green-500">
                   <p className="text-sm font-medium text-green-900">Strong Performance</p>
                   <p className="text-xs text-green-700">
-                    Your cards are getting {Math.round(analytics.totalViews / analytics.totalCards)} views on average
+                    Your cards are getting {(analytics.totalCards > 0 ? Math.round(analytics.totalViews / analytics.totalCards) : 0)} views on average
                   </p>
                 </div>
                 
                 <div className="p-3 bg-blue-50 rounded-lg border-l-4 border-blue-500">
                   <p className="text-sm font-medium text-blue-900">Good Engagement</p>
                   <p className="text-xs text-blue-700">
-                    {Math.round((analytics.totalSocialClicks / analytics.totalViews) * 100)}% of viewers interact with your social links
+                    {percentOf(analytics.totalSocialClicks, analytics.totalViews)}% of viewers interact with your social links
                   </p>
                 </div>
 
                 <div className="p-3 bg-purple-50 rounded-lg border-l-4 border-purple-500">
                   <p className="text-sm font-medium text-purple-900">QR Code Usage</p>
                   <p className="text-xs text-purple-700">
-                    {Math.round((analytics.qrScans / analytics.totalViews) * 100)}% of views come from QR code scans
+                    {percentOf(analytics.qrScans, analytics.totalViews)}% of views come from QR code scans
                   </p>
                 </div>
               </div>
@@ -0,0 +1,206 @@
+import React from 'react';
+import { Plus, Trash2, CalendarDays } from 'lucide-react';
+import {
+  BUFFER_MINUTES,
+  MEETING_LENGTHS,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  getTimeZoneOptions,
+  type BookingAvailability,
+  type BookingWindow,
+  type Weekday,
+} from '../utils/bookingUtils';
+
+interface BookingAvailabilityEditorProps {
+  enabled: boolean;
+  availability: BookingAvailability;
+  onEnabledChange: (enabled: boolean) => void;
+  onAvailabilityChange: (availability: BookingAvailability) => void;
+}
+
+const DEFAULT_WINDOW: BookingWindow = { start: '09:00', end: '17:00' };
+
+export const BookingAvailabilityEditor: React.FC<BookingAvailabilityEditorProps> = ({
+  enabled,
+  availability,
+  onEnabledChange,
+  onAvailabilityChange
+}) => {
+  const update = (updates: Partial<BookingAvailability>) => {
+    onAvailabilityChange({ ...availability, ...updates });
+  };
+
+  const setDayWindows = (day: Weekday, windows: BookingWindow[]) => {
+    update({ weekly_hours: { ...availability.weekly_hours, [day]: windows } });
+  };
+
+  const updateWindow = (day: Weekday, index: number, updates: Partial<BookingWindow>) => {
+    setDayWindows(day, availability.weekly_hours[day].map((window, i) =>
+      i === index ? { ...window, ...updates } : window
+    ));
+  };
+
+  const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+  const timeClass = 'px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="mt-1 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <span>
+          <span className="block text-sm font-medium text-gray-700 flex items-center gap-1">
+            <CalendarDays className="w-4 h-4" />
+            Meeting booking
+          </span>
+          <span className="block text-xs text-gray-500">
+            Visitors can book a meeting in your free time. Bookings appear in your Bookings list.
+          </span>
+        </span>
+      </label>
+
+      {enabled && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Time zone</label>
+              <select
+                value={availability.time_zone}
+                onChange={(e) => update({ time_zone: e.target.value })}
+                className={selectClass}
+              >
+                {getTimeZoneOptions(availability.time_zone).map(zone => (
+                  <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Meeting length</label>
+              <select
+                value={availability.meeting_minutes}
+                onChange={(e) => update({ meeting_minutes: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {MEETING_LENGTHS.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} minutes</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Free time before meetings</label>
+              <select
+                value={availability.buffer_before_minutes}
+                onChange={(e) => update({ buffer_before_minutes: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {BUFFER_MINUTES.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes === 0 ? 'None' : `${minutes} minutes`}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Free time after meetings</label>
+              <select
+                value={availability.buffer_after_minutes}
+                onChange={(e) => update({ buffer_after_minutes: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {BUFFER_MINUTES.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes === 0 ? 'None' : `${minutes} minutes`}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Minimum notice (hours)</label>
+              <input
+                type="number"
+                min={0}
+                max={720}
+                value={availability.min_notice_hours}
+                onChange={(e) => update({ min_notice_hours: Math.max(0, Number(e.target.value)) })}
+                className={selectClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Bookable days ahead</label>
+              <input
+                type="number"
+                min={1}
+                max={365}
+                value={availability.max_days_ahead}
+                onChange={(e) => update({ max_days_ahead: Math.max(1, Number(e.target.value)) })}
+                className={selectClass}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Weekly hours</p>
+            {WEEKDAYS.map(day => {
+              const windows = availability.weekly_hours[day];
+              return (
+                <div key={day} className="flex flex-col sm:flex-row sm:items-start gap-2 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                  <label className="flex items-center gap-2 w-32 pt-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={windows.length > 0}
+                      onChange={(e) => setDayWindows(day, e.target.checked ? [DEFAULT_WINDOW] : [])}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    {WEEKDAY_LABELS[day]}
+                  </label>
+
+                  {windows.length === 0 ? (
+                    <p className="pt-1 text-sm text-gray-400">Unavailable</p>
+                  ) : (
+                    <div className="flex-1 space-y-2">
+                      {windows.map((window, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <input
+                            type="time"
+                            value={window.start}
+                            onChange={(e) => updateWindow(day, index, { start: e.target.value })}
+                            className={timeClass}
+                          />
+                          <span className="text-gray-400">–</span>
+                          <input
+                            type="time"
+                            value={window.end}
+                            onChange={(e) => updateWindow(day, index, { end: e.target.value })}
+                            className={timeClass}
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setDayWindows(day, windows.filter((_, i) => i !== index))}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Remove hours"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                          {index === windows.length - 1 && (
+                            <button
+                              type="button"
+                              onClick={() => setDayWindows(day, [...windows, { start: window.end, end: window.end }])}
+                              className="p-1 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                              title="Add hours"
+                            >
+                              <Plus className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Globe, Loader2 } from 'lucide-react';
+import {
+  buildBookingSlots,
+  fetchBusyTimes,
+  formatDateKey,
+  formatSlotTime,
+  getBrowserTimeZone,
+  groupSlotsByDay,
+  type BookingAvailability,
+  type BookingSlot,
+} from '../utils/bookingUtils';
+
+interface BookingSlotPickerProps {
+  cardId: string;
+  availability: BookingAvailability;
+  accentColor: string;
+  selected: BookingSlot | null;
+  onSelect: (slot: BookingSlot) => void;
+  // The booking being moved, so its own time counts as free
+  excludeBookingId?: string;
+}
+
+export const BookingSlotPicker: React.FC<BookingSlotPickerProps> = ({
+  cardId,
+  availability,
+  accentColor,
+  selected,
+  onSelect,
+  excludeBookingId
+}) => {
+  const [slots, setSlots] = useState<BookingSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dayKey, setDayKey] = useState<string | null>(null);
+  const viewerTimeZone = getBrowserTimeZone();
+
+  // Parents rebuild availability on every render, so only reload when its contents change
+  const availabilityKey = JSON.stringify(availability);
+  const slotAvailability = useMemo<BookingAvailability>(() => JSON.parse(availabilityKey), [availabilityKey]);
+
+  useEffect(() => {
+    const loadSlots = async () => {
+      setLoading(true);
+
+      const now = new Date();
+      const until = new Date(now.getTime() + (slotAvailability.max_days_ahead + 1) * 24 * 60 * 60 * 1000);
+      const busyTimes = await fetchBusyTimes(cardId, now, until, excludeBookingId);
+      const freeSlots = buildBookingSlots(slotAvailability, busyTimes, now);
+
+      setSlots(freeSlots);
+      setLoading(false);
+    };
+
+    loadSlots();
+  }, [cardId, excludeBookingId, slotAvailability]);
+
+  const days = groupSlotsByDay(slots, viewerTimeZone);
+  const activeDay = days.find(day => day.dateKey === dayKey) || days[0];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (days.length === 0) {
+    return (
+      <p className="py-8 text-sm text-gray-500 text-center">
+        There are no free times in the next {availability.max_days_ahead} days.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {days.map(day => (
+          <button
+            key={day.dateKey}
+            type="button"
+            onClick={() => setDayKey(day.dateKey)}
+            className={`flex-shrink-0 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+              day === activeDay ? 'text-white' : 'bg-white text-gray-700 border-gray-200 hover:border-gray-300'
+            }`}
+            style={day === activeDay ? { backgroundColor: accentColor, borderColor: accentColor } : undefined}
+          >
+            {formatDateKey(day.dateKey)}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {activeDay.slots.map(slot => {
+          const isSelected = selected?.starts_at === slot.starts_at;
+          return (
+            <button
+              key={slot.starts_at}
+              type="button"
+              onClick={() => onSelect(slot)}
+              className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                isSelected ? 'text-white' : 'bg-white text-gray-700 border-gray-200 hover:border-gray-400'
+              }`}
+              style={isSelected ? { backgroundColor: accentColor, borderColor: accentColor } : undefined}
+            >
+              {formatSlotTime(slot.starts_at)}
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="flex items-center gap-1 text-xs text-gray-500">
+        <Globe className="w-3 h-3" />
+        Times are shown in {viewerTimeZone.replace(/_/g, ' ')}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { X, ArrowLeft, CalendarCheck, CalendarPlus, Loader2 } from 'lucide-react';
+import { BookingSlotPicker } from './BookingSlotPicker';
+import {
+  bookAppointment,
+  buildBookingICS,
+  downloadICSFile,
+  formatBookingTime,
+  validateBookingRequest,
+  type BookingAvailability,
+  type BookingRequest,
+  type BookingResult,
+  type BookingSlot,
+} from '../utils/bookingUtils';
+
+interface BookingWidgetProps {
+  cardId: string;
+  card: { title: string | null; email: string | null; slug: string | null };
+  availability: BookingAvailability;
+  accentColor: string;
+  // Passcode cards only take bookings from visitors who unlocked them
+  unlockToken?: string | null;
+  onClose: () => void;
+}
+
+const EMPTY_REQUEST: BookingRequest = {
+  name: '',
+  email: '',
+  phone: '',
+  note: '',
+};
+
+export const BookingWidget: React.FC<BookingWidgetProps> = ({
+  cardId,
+  card,
+  availability,
+  accentColor,
+  unlockToken = null,
+  onClose
+}) => {
+  const [slot, setSlot] = useState<BookingSlot | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+  const [request, setRequest] = useState<BookingRequest>(EMPTY_REQUEST);
+  // Hidden from people; bots that fill every input give themselves away
+  const [website, setWebsite] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [booked, setBooked] = useState<BookingResult['booking'] | null>(null);
+  // Bumped when a slot is taken in the meantime, so the picker reloads
+  const [pickerKey, setPickerKey] = useState(0);
+  const ownerName = card.title || 'the card owner';
+
+  const updateField = (field: keyof BookingRequest, value: string) => {
+    setRequest({ ...request, [field]: value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!slot) return;
+
+    if (website) {
+      setBooked({ id: '', starts_at: slot.starts_at, ends_at: slot.ends_at, sequence: 0 });
+      return;
+    }
+
+    const validationError = validateBookingRequest(request);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    const result = await bookAppointment(cardId, slot.starts_at, request, unlockToken);
+
+    setSubmitting(false);
+
+    if (result.accepted && result.booking) {
+      setBooked(result.booking);
+    } else if (result.reason === 'unavailable') {
+      setError(`${result.message || 'That time is no longer available'}. Please pick another time.`);
+      setSlot(null);
+      setShowDetails(false);
+      setPickerKey(pickerKey + 1);
+    } else if (result.reason === 'rate_limited') {
+      setError('Too many meetings were booked recently. Please try again later.');
+    } else if (result.reason === 'invalid' && result.message) {
+      setError(result.message);
+    } else {
+      setError('Failed to book the meeting. Please try again.');
+    }
+  };
+
+  const handleAddToCalendar = () => {
+    if (!booked) return;
+    const ics = buildBookingICS(
+      { ...booked, name: request.name, email: request.email, note: request.note },
+      card
+    );
+    downloadICSFile(ics, 'meeting.ics');
+  };
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            {showDetails && !booked && (
+              <button
+                onClick={() => setShowDetails(false)}
+                className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Back"
+              >
+                <ArrowLeft className="w-5 h-5 text-gray-500" />
+              </button>
+            )}
+            <h3 className="text-lg font-semibold text-gray-900">
+              Book a Meeting
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {booked ? (
+          <div className="p-8 text-center">
+            <CalendarCheck className="w-12 h-12 mx-auto mb-4" style={{ color: accentColor }} />
+            <h4 className="text-lg font-semibold text-gray-900 mb-2">You're booked!</h4>
+            <p className="text-gray-600 mb-1">
+              Your meeting with {ownerName} is confirmed for
+            </p>
+            <p className="font-medium text-gray-900 mb-6">{formatBookingTime(booked)}</p>
+            <div className="space-y-3">
+              {booked.id && (
+                <button
+                  onClick={handleAddToCalendar}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2 text-white rounded-lg transition-opacity hover:opacity-90"
+                  style={{ backgroundColor: accentColor }}
+                >
+                  <CalendarPlus className="w-5 h-5" />
+                  Add to Calendar
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="w-full px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        ) : !showDetails ? (
+          <div className="p-6 space-y-4 overflow-y-auto">
+            <p className="text-sm text-gray-600">
+              Pick a time for a {availability.meeting_minutes}-minute meeting with {ownerName}.
+            </p>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            <BookingSlotPicker
+              key={pickerKey}
+              cardId={cardId}
+              availability={availability}
+              accentColor={accentColor}
+              selected={slot}
+              onSelect={setSlot}
+            />
+
+            <button
+              onClick={() => {
+                setError(null);
+                setShowDetails(true);
+              }}
+              disabled={!slot}
+              className="w-full px-4 py-3 text-white rounded-lg transition-opacity hover:opacity-90 disabled:opacity-50"
+              style={{ backgroundColor: accentColor }}
+            >
+              Continue
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+            {slot && (
+              <p className="text-sm font-medium text-gray-900">{formatBookingTime(slot)}</p>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={request.name}
+                onChange={(e) => updateField('name', e.target.value)}
+                className={inputClass}
+                maxLength={200}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email *</label>
+              <input
+                type="email"
+                value={request.email}
+                onChange={(e) => updateField('email', e.target.value)}
+                className={inputClass}
+                maxLength={320}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+              <input
+                type="tel"
+                value={request.phone}
+                onChange={(e) => updateField('phone', e.target.value)}
+                className={inputClass}
+                maxLength={50}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">What would you like to discuss?</label>
+              <textarea
+                value={request.note}
+                onChange={(e) => updateField('note', e.target.value)}
+                className={inputClass}
+                rows={3}
+                maxLength={2000}
+              />
+            </div>
+
+            <input
+              type="text"
+              name="website"
+              value={website}
+              onChange={(e) => setWebsite(e.target.value)}
+              className="hidden"
+              tabIndex={-1}
+              autoComplete="off"
+              aria-hidden="true"
+            />
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 text-white rounded-lg transition-opacity hover:opacity-90 disabled:opacity-50"
+              style={{ backgroundColor: accentColor }}
+            >
+              {submitting ? <Loader2 className="w-5 h-5 animate-spin" /> : <CalendarCheck className="w-5 h-5" />}
+              Confirm Booking
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import { Search, CalendarDays, CalendarPlus, CalendarX, Clock, X, Trash2 } from 'lucide-react';
+import { useBookings } from '../hooks/useBookings';
+import { BookingSlotPicker } from './BookingSlotPicker';
+import {
+  BOOKING_STATE_LABELS,
+  BOOKING_STATE_STYLES,
+  buildBookingICS,
+  downloadICSFile,
+  formatBookingTime,
+  getBookingAvailability,
+  getBookingState,
+  type BookingSlot,
+  type BookingState,
+  type BookingWithCard,
+} from '../utils/bookingUtils';
+
+export const BookingsManager: React.FC = () => {
+  const { bookings, loading, cancelBooking, rescheduleBooking, deleteBooking } = useBookings();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [stateFilter, setStateFilter] = useState<BookingState>('upcoming');
+  const [cardFilter, setCardFilter] = useState('all');
+  const [rescheduling, setRescheduling] = useState<BookingWithCard | null>(null);
+  const [newSlot, setNewSlot] = useState<BookingSlot | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const cardOptions = Array.from(
+    new Map(bookings.map((booking) => [booking.card_id, booking.business_cards?.title || 'Untitled card'])).entries()
+  );
+
+  const search = searchTerm.trim().toLowerCase();
+  const filteredBookings = bookings.filter((booking) => {
+    const matchesSearch = !search || [booking.name, booking.email, booking.phone, booking.note, booking.business_cards?.title]
+      .some((value) => value?.toLowerCase().includes(search));
+    const matchesCard = cardFilter === 'all' || booking.card_id === cardFilter;
+    return matchesSearch && matchesCard;
+  });
+  const countByState = (state: BookingState) =>
+    filteredBookings.filter((booking) => getBookingState(booking) === state).length;
+  // Upcoming meetings soonest first; past and cancelled ones most recent first
+  const visibleBookings = filteredBookings
+    .filter((booking) => getBookingState(booking) === stateFilter)
+    .sort((a, b) => stateFilter === 'upcoming'
+      ? a.starts_at.localeCompare(b.starts_at)
+      : b.starts_at.localeCompare(a.starts_at));
+
+  const downloadCalendarFile = (booking: BookingWithCard) => {
+    const ics = buildBookingICS(
+      booking,
+      booking.business_cards || { title: null, email: null, slug: null },
+      true
+    );
+    downloadICSFile(ics, `meeting-${booking.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.ics`);
+  };
+
+  const handleCancel = async (booking: BookingWithCard) => {
+    if (!confirm(`Cancel the meeting with ${booking.name} on ${formatBookingTime(booking)}?`)) return;
+
+    const result = await cancelBooking(booking.id);
+    if (!result.success) {
+      alert('Failed to cancel booking. Please try again.');
+      return;
+    }
+
+    if (result.booking && confirm(`Download a cancellation to send to ${booking.email}?`)) {
+      downloadCalendarFile(result.booking);
+    }
+  };
+
+  const handleDelete = async (booking: BookingWithCard) => {
+    if (!confirm(`Delete the booking for ${booking.name}? This cannot be undone.`)) return;
+
+    const result = await deleteBooking(booking.id);
+    if (!result.success) {
+      alert('Failed to delete booking. Please try again.');
+    }
+  };
+
+  const handleReschedule = async () => {
+    if (!rescheduling || !newSlot) return;
+
+    setSaving(true);
+    const result = await rescheduleBooking(rescheduling.id, newSlot.starts_at);
+    setSaving(false);
+
+    if (!result.success) {
+      alert('Failed to reschedule booking. The time may have just been taken, please pick another.');
+      return;
+    }
+
+    const moved = { ...rescheduling, starts_at: newSlot.starts_at, ends_at: newSlot.ends_at, sequence: rescheduling.sequence + 1 };
+    setRescheduling(null);
+    setNewSlot(null);
+
+    if (confirm(`Download the updated invitation to send to ${moved.email}?`)) {
+      downloadCalendarFile(moved);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Bookings</h2>
+        <p className="text-gray-600">Meetings visitors booked through your cards</p>
+      </div>
+
+      {/* Search and Filters */}
+      <div className="flex flex-col lg:flex-row gap-4">
+        <div className="relative flex-1 max-w-md">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search by name, email, phone or card..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <select
+          value={cardFilter}
+          onChange={(e) => setCardFilter(e.target.value)}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="all">All Cards</option>
+          {cardOptions.map(([cardId, title]) => (
+            <option key={cardId} value={cardId}>{title}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(['upcoming', 'past', 'cancelled'] as const).map((state) => (
+          <button
+            key={state}
+            onClick={() => setStateFilter(state)}
+            className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+              stateFilter === state
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            {BOOKING_STATE_LABELS[state]}
+            <span className="ml-1 opacity-75">{countByState(state)}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Bookings */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : bookings.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl border border-gray-200">
+          <CalendarDays className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No bookings yet</h3>
+          <p className="text-gray-600">
+            Turn on meeting booking in a card's Contact tab to let visitors book time with you.
+          </p>
+        </div>
+      ) : visibleBookings.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl border border-gray-200">
+          <p className="text-gray-600">No {BOOKING_STATE_LABELS[stateFilter].toLowerCase()} bookings match your filters.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-200">
+          {visibleBookings.map((booking) => {
+            const state = getBookingState(booking);
+
+            return (
+              <div key={booking.id} className="flex flex-col md:flex-row md:items-center gap-4 px-6 py-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-gray-900 truncate">{booking.name}</p>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${BOOKING_STATE_STYLES[state]}`}>
+                      {BOOKING_STATE_LABELS[state]}
+                    </span>
+                  </div>
+                  <p className="flex items-center gap-1 text-sm text-gray-700">
+                    <Clock className="w-4 h-4 text-gray-400" />
+                    {formatBookingTime(booking)}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {[booking.email, booking.phone, booking.business_cards?.title || 'Untitled card'].filter(Boolean).join(' · ')}
+                    {booking.time_zone && ` · Visitor in ${booking.time_zone.replace(/_/g, ' ')}`}
+                  </p>
+                  {booking.note && (
+                    <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">{booking.note}</p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => downloadCalendarFile(booking)}
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                    title="Download calendar file (.ics)"
+                  >
+                    <CalendarPlus className="w-4 h-4" />
+                  </button>
+                  {state === 'upcoming' && (
+                    <>
+                      <button
+                        onClick={() => {
+                          setRescheduling(booking);
+                          setNewSlot(null);
+                        }}
+                        className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                      >
+                        Reschedule
+                      </button>
+                      <button
+                        onClick={() => handleCancel(booking)}
+                        className="flex items-center gap-1 px-3 py-1 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                      >
+                        <CalendarX className="w-4 h-4" />
+                        Cancel
+                      </button>
+                    </>
+                  )}
+                  {state !== 'upcoming' && (
+                    <button
+                      onClick={() => handleDelete(booking)}
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Delete booking"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Reschedule Modal */}
+      {rescheduling && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] flex flex-col overflow-hidden">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Reschedule</h3>
+              <button
+                onClick={() => setRescheduling(null)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Close"
+              >
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4 overflow-y-auto">
+              <p className="text-sm text-gray-600">
+                Move the meeting with {rescheduling.name}, currently {formatBookingTime(rescheduling)}.
+              </p>
+              <BookingSlotPicker
+                cardId={rescheduling.card_id}
+                availability={getBookingAvailability(rescheduling.business_cards?.booking_availability)}
+                accentColor="#2563eb"
+                selected={newSlot}
+                onSelect={setNewSlot}
+                excludeBookingId={rescheduling.id}
+              />
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setRescheduling(null)}
+                  className="flex-1 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Keep Current Time
+                </button>
+                <button
+                  onClick={handleReschedule}
+                  disabled={!newSlot || saving}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  {saving ? 'Saving...' : 'Move Meeting'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { QRCode } from 'react-qrcode-logo';
+import {
+  QR_EYE_RADII,
+  QR_QUIET_ZONE,
+  getEffectiveErrorLevel,
+  getQRMatrix,
+  resolveQRColor,
+  type QRDesign,
+} from '../utils/qrUtils';
+import type { CardTheme } from '../utils/themeUtils';
+
+interface BrandedQRCodeProps {
+  value: string;
+  design: QRDesign;
+  theme: CardTheme;
+  logoUrl: string | null;
+  // Width of the code itself in pixels, without the quiet zone
+  size: number;
+  id: string;
+}
+
+/**
+ * The card's QR code drawn with its saved colors, styles and logo
+ */
+export const BrandedQRCode: React.FC<BrandedQRCodeProps> = ({
+  value,
+  design,
+  theme,
+  logoUrl,
+  size,
+  id
+}) => {
+  const logo = design.show_logo ? logoUrl : null;
+  const { level } = getEffectiveErrorLevel(design, !!logo);
+  const moduleSize = size / getQRMatrix(value, level).count;
+  const radii = QR_EYE_RADII[design.eye_style];
+
+  return (
+    <QRCode
+      id={id}
+      value={value}
+      ecLevel={level}
+      size={size}
+      quietZone={QR_QUIET_ZONE * moduleSize}
+      fgColor={resolveQRColor(design.foreground, theme)}
+      bgColor={resolveQRColor(design.background, theme)}
+      qrStyle={design.dot_style}
+      eyeRadius={{ outer: radii.outer * moduleSize, inner: radii.inner * moduleSize }}
+      logoImage={logo || undefined}
+      logoWidth={logo ? size * design.logo_size : undefined}
+      // Just under a module so the library clears exactly one module around the logo
+      logoPadding={logo ? moduleSize * 0.99 : undefined}
+      removeQrCodeBehindLogo={!!logo}
+      enableCORS
+      style={{ maxWidth: '100%', height: 'auto' }}
+    />
+  );
+};
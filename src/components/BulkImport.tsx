@@ -0,0 +1,397 @@
+import React, { useState, useRef } from 'react';
+import { AlertCircle, ArrowLeft, CheckCircle, Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { SOCIAL_PLATFORMS } from '../utils/socialUtils';
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  parseCSV,
+  guessColumnMapping,
+  buildImportRows,
+  importCards,
+  buildImportReport,
+  buildImportTemplate,
+  downloadCSV,
+} from '../utils/csvImportUtils';
+import type { ColumnTarget, ImportResult, ImportRow } from '../utils/csvImportUtils';
+
+interface BulkImportProps {
+  organizationId?: string | null;
+  onImported: () => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+export const BulkImport: React.FC<BulkImportProps> = ({ organizationId = null, onImported }) => {
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [pastedText, setPastedText] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnTarget[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidRows = rows.length - validRows.length;
+
+  const loadText = (text: string) => {
+    const parsed = parseCSV(text);
+    if (parsed.length < 2) {
+      setError('The file needs a header row and at least one data row.');
+      return;
+    }
+    if (parsed.length - 1 > MAX_IMPORT_ROWS) {
+      setError(`You can import up to ${MAX_IMPORT_ROWS} cards at a time. Split the file and try again.`);
+      return;
+    }
+
+    const [headerRow, ...body] = parsed;
+    setError(null);
+    setHeaders(headerRow.map((header) => header.trim()));
+    setDataRows(body);
+    setMapping(guessColumnMapping(headerRow));
+    setStep('map');
+  };
+
+  const handleFile = async (file: File) => {
+    if (/\.xlsx?$/i.test(file.name)) {
+      setError('Excel files must be saved as CSV first (File → Save As → CSV UTF-8).');
+      return;
+    }
+
+    try {
+      loadText(await file.text());
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError('Failed to read the file. Please try again.');
+    }
+  };
+
+  const handlePreview = () => {
+    if (!mapping.includes('field:title')) {
+      setError('Map a column to Full Name before continuing.');
+      return;
+    }
+    setError(null);
+    setRows(buildImportRows(dataRows, mapping));
+    setStep('preview');
+  };
+
+  const handleImport = async () => {
+    if (!user || validRows.length === 0) return;
+
+    setImporting(true);
+    try {
+      const importResults = await importCards(rows, user.id, organizationId);
+      setResults(importResults);
+      setStep('done');
+      onImported();
+    } catch (err) {
+      console.error('Error importing cards:', err);
+      alert('Failed to import cards. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleReset = () => {
+    setStep('upload');
+    setPastedText('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping([]);
+    setRows([]);
+    setResults([]);
+    setError(null);
+  };
+
+  const createdCount = results.filter((result) => result.status === 'created').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Bulk Import</h2>
+          <p className="text-gray-600">Create cards for your whole team from a spreadsheet</p>
+        </div>
+        <button
+          onClick={() => downloadCSV(buildImportTemplate(), 'card-import-template.csv')}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          CSV Template
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-3 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      {/* Step 1: Upload */}
+      {step === 'upload' && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+          <div
+            onClick={() => fileInputRef.current?.click()}
+            className="border-2 border-dashed border-gray-300 rounded-xl p-10 text-center cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors"
+          >
+            <FileSpreadsheet className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+            <p className="font-medium text-gray-900">Choose a CSV file</p>
+            <p className="text-sm text-gray-500">CSV only: save Excel or Google Sheets files as CSV first · up to {MAX_IMPORT_ROWS} rows</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Or paste rows copied from a spreadsheet
+            </label>
+            <textarea
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              rows={6}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+              placeholder={'Full Name\tEmail\tJob Title\nJane Doe\tjane@acme.com\tSales Manager'}
+            />
+            <div className="flex justify-end mt-3">
+              <button
+                onClick={() => loadText(pastedText)}
+                disabled={!pastedText.trim()}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4" />
+                Continue
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Step 2: Column mapping */}
+      {step === 'map' && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Map Columns</h3>
+            <p className="text-sm text-gray-600">
+              {dataRows.length} row{dataRows.length !== 1 ? 's' : ''} found. Choose which card field each column fills.
+              Social columns take a username and are turned into profile links.
+            </p>
+          </div>
+
+          <div className="divide-y divide-gray-100">
+            {headers.map((header, column) => (
+              <div key={`${header}-${column}`} className="grid grid-cols-1 md:grid-cols-3 gap-3 py-3 items-center">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{header || `Column ${column + 1}`}</p>
+                  <p className="text-xs text-gray-500 truncate">{dataRows[0]?.[column] || '—'}</p>
+                </div>
+                <select
+                  value={mapping[column] || ''}
+                  onChange={(e) => {
+                    const next = [...mapping];
+                    next[column] = e.target.value as ColumnTarget;
+                    setMapping(next);
+                  }}
+                  className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Don't import</option>
+                  <optgroup label="Card fields">
+                    {IMPORT_FIELDS.map((field) => (
+                      <option
+                        key={field.key}
+                        value={`field:${field.key}`}
+                        disabled={mapping.includes(`field:${field.key}`) && mapping[column] !== `field:${field.key}`}
+                      >
+                        {field.label}{field.required ? ' *' : ''}
+                      </option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Social links (username)">
+                    {Object.keys(SOCIAL_PLATFORMS).map((platform) => (
+                      <option
+                        key={platform}
+                        value={`social:${platform}`}
+                        disabled={mapping.includes(`social:${platform}`) && mapping[column] !== `social:${platform}`}
+                      >
+                        {platform}
+                      </option>
+                    ))}
+                  </optgroup>
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between">
+            <button
+              onClick={handleReset}
+              className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Start Over
+            </button>
+            <button
+              onClick={handlePreview}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Preview Cards
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Step 3: Preview */}
+      {step === 'preview' && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Preview</h3>
+              <p className="text-sm text-gray-600">
+                {validRows.length} ready to import
+                {invalidRows > 0 && ` · ${invalidRows} with errors will be skipped`}
+              </p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Name</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Username</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Job Title</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Email</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Social</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map((row) => (
+                  <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                    <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                    <td className="px-3 py-2 text-gray-900">{row.card.title || '—'}</td>
+                    <td className="px-3 py-2 text-gray-600">{row.card.slug || 'auto'}</td>
+                    <td className="px-3 py-2 text-gray-600">{row.card.position || '—'}</td>
+                    <td className="px-3 py-2 text-gray-600">{row.card.email || '—'}</td>
+                    <td className="px-3 py-2 text-gray-600">
+                      {row.socialLinks.map((link) => link.platform).join(', ') || '—'}
+                    </td>
+                    <td className="px-3 py-2">
+                      {row.errors.length > 0 ? (
+                        <span className="text-red-700">{row.errors.join('; ')}</span>
+                      ) : row.warnings.length > 0 ? (
+                        <span className="text-yellow-700">{row.warnings.join('; ')}</span>
+                      ) : (
+                        <span className="text-green-700">Ready</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-between">
+            <button
+              onClick={() => setStep('map')}
+              className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Mapping
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={importing || validRows.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {importing ? (
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4" />
+              )}
+              {importing ? 'Importing...' : `Import ${validRows.length} Card${validRows.length !== 1 ? 's' : ''}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Step 4: Results */}
+      {step === 'done' && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center gap-3">
+            <CheckCircle className="w-6 h-6 text-green-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Import Complete</h3>
+              <p className="text-sm text-gray-600">
+                {createdCount} created · {results.length - createdCount} not imported
+              </p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 rounded-lg max-h-96">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Name</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Card URL</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Notes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {results.map((result) => (
+                  <tr key={result.rowNumber}>
+                    <td className="px-3 py-2 text-gray-500">{result.rowNumber}</td>
+                    <td className="px-3 py-2 text-gray-900">{result.title || '—'}</td>
+                    <td className="px-3 py-2">
+                      {result.url ? (
+                        <a href={result.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                          {result.url}
+                        </a>
+                      ) : (
+                        <span className="text-gray-400 capitalize">{result.status}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">{result.message || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-between">
+            <button
+              onClick={handleReset}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
+            >
+              Import Another File
+            </button>
+            <button
+              onClick={() => downloadCSV(buildImportReport(results), `card-import-report-${new Date().toISOString().split('T')[0]}.csv`)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              Download Report
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from 'react';
-import { Save, Eye, ArrowLeft, Palette, Type, Layout, Share2, Globe, Lock, AlertCircle, Upload, Download, Copy, Trash2, Plus, Settings, Zap, Sparkles, RefreshCw, FolderSync as Sync, Check, ArrowBigRight, Mail, Phone, MapPin, X, ExternalLink } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Save, Eye, ArrowLeft, Palette, Type, Layout, Share2, Globe, Lock, AlertCircle, Upload, Download, Copy, Trash2, Plus, Settings, Zap, Sparkles, RefreshCw, FolderSync as Sync, Check, ArrowBigRight, Mail, Phone, MapPin, X, ExternalLink, History as HistoryIcon, Send } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { usePlan } from '../hooks/usePlan';
 import { supabase } from '../lib/supabase';
 import { ImageUpload } from './ImageUpload';
 import { CardPreview } from './CardPreview';
@@ -8,13 +9,55 @@ import { MediaUpload } from './MediaUpload';
 import { ReviewsManager } from './ReviewsManager';
 import { generateSocialLink, SOCIAL_PLATFORMS, generateAutoSyncedLinks, getSocialIcon, SOCIAL_PLATFORM_COLORS } from '../utils/socialUtils';
 import { SuccessAnimation } from './SuccessAnimation';
+import { RevisionHistory } from './RevisionHistory';
+import { LeadFormBuilder } from './LeadFormBuilder';
+import { BookingAvailabilityEditor } from './BookingAvailabilityEditor';
+import { PrintCardDesigner } from './PrintCardDesigner';
+import { QRCodeStudio } from './QRCodeStudio';
+import { ThemeBuilder } from './ThemeBuilder';
+import { TemplateGallery } from './TemplateGallery';
+import { UpgradePrompt } from './UpgradePrompt';
+import { THEMES, DEFAULT_LAYOUT, CARD_SHAPES, LAYOUT_STYLES, TEXT_ALIGNMENTS, FONT_FAMILIES, getCardTheme } from '../utils/themeUtils';
+import { applyOrganizationBrand, isBrandFieldLocked } from '../utils/organizationUtils';
+import { normalizeSlugInput, validateSlug, checkSlugAvailability, RESERVED_SLUGS } from '../utils/slugUtils';
+import {
+  fetchCardDraft,
+  saveCardDraft,
+  discardCardDraft,
+  publishCard,
+  diffCardFields,
+  getDraftCollections,
+  applyDraftCollections,
+} from '../utils/revisionUtils';
+import { getCardPublishState, CARD_PUBLISH_STATE_LABELS, toDateTimeInputValue, fromDateTimeInputValue, validateSchedule, scheduleChanged } from '../utils/scheduleUtils';
+import { CARD_VISIBILITY_OPTIONS, PASSCODE_MIN_LENGTH, getCardVisibility, setCardPasscode, cardHasPasscode } from '../utils/visibilityUtils';
+import { getLeadFormFields, cleanLeadFormFields } from '../utils/leadUtils';
+import { getBookingAvailability, validateBookingAvailability } from '../utils/bookingUtils';
+import { getPrintDesign } from '../utils/printDesignUtils';
+import { getQRDesign } from '../utils/qrUtils';
+import { getContrastFailures } from '../utils/contrastUtils';
+import { getTemplateDesign } from '../utils/templateUtils';
+import { getPlanLimitMessage } from '../utils/planUtils';
+import type { SlugStatus } from '../utils/slugUtils';
+import type { CardDraft, DraftCollections } from '../utils/revisionUtils';
+import type { CardVisibility } from '../utils/visibilityUtils';
+import type { LeadFormField } from '../utils/leadUtils';
+import type { BookingAvailability } from '../utils/bookingUtils';
+import type { PrintDesign } from '../utils/printDesignUtils';
+import type { QRDesign } from '../utils/qrUtils';
+import type { CardTheme } from '../utils/themeUtils';
+import type { CardTemplate } from '../utils/templateUtils';
 import type { Database } from '../lib/supabase';
+import type { BrandField, Organization } from '../utils/organizationUtils';
 
 type BusinessCard = Database['public']['Tables']['business_cards']['Row'];
 type SocialLink = Database['public']['Tables']['social_links']['Row'];
 
 interface CardEditorProps {
   existingCard?: BusinessCard | null;
+  // Design a new card starts from
+  template?: CardTemplate | null;
+  organization?: Organization | null;
   onSave: () => void;
   onCancel: () => void;
 }
@@ -28,6 +71,7 @@ interface FormData {
   tagline: string;
   profession: string;
   avatar_url: string;
+  logo_url: string;
 
   // Contact Information
   phone: string;
@@ -38,35 +82,26 @@ interface FormData {
   map_link: string;
 
   // Theme and Layout
-  theme: {
-    primary: string;
-    secondary: string;
-    background: string;
-    text: string;
-    name: string;
-  };
+  theme: CardTheme;
   shape: string;
   layout: {
     style: string;
     alignment: string;
     font: string;
+    print?: PrintDesign;
+    qr?: QRDesign;
   };
   is_published: boolean;
+  publish_at: string;
+  expire_at: string;
+  visibility: CardVisibility;
+  lead_capture_enabled: boolean;
+  lead_form_fields: LeadFormField[];
+  booking_enabled: boolean;
+  booking_availability: BookingAvailability;
+  template_id: string | null;
 }
 
-const THEMES = [
-  { name: 'Ocean Blue', primary: '#3B82F6', secondary: '#1E40AF', background: '#FFFFFF', text: '#1F2937' },
-  { name: 'Forest Green', primary: '#10B981', secondary: '#047857', background: '#FFFFFF', text: '#1F2937' },
-  { name: 'Sunset Orange', primary: '#F59E0B', secondary: '#D97706', background: '#FFFFFF', text: '#1F2937' },
-  { name: 'Royal Purple', primary: '#8B5CF6', secondary: '#7C3AED', background: '#FFFFFF', text: '#1F2937' },
-  { name: 'Rose Pink', primary: '#EC4899', secondary: '#DB2777', background: '#FFFFFF', text: '#1F2937' },
-  { name: 'Dark Mode', primary: '#60A5FA', secondary: '#3B82F6', background: '#1F2937', text: '#F9FAFB' },
-  { name: 'Emerald', primary: '#059669', secondary: '#047857', background: '#FFFFFF', text: '#1F2937' },
-  { name: 'Indigo', primary: '#4F46E5', secondary: '#3730A3', background: '#FFFFFF', text: '#1F2937' },
-  { name: 'Teal', primary: '#0D9488', secondary: '#0F766E', background: '#FFFFFF', text: '#1F2937' },
-  { name: 'Amber', primary: '#D97706', secondary: '#B45309', background: '#FFFFFF', text: '#1F2937' },
-];
-
 // Confetti Animation Component
 const ConfettiAnimation: React.FC = () => {
   const [particles, setParticles] = useState<Array<{
@@ -135,8 +170,14 @@ const ConfettiAnimation: React.FC = () => {
   );
 };
 
-export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, onCancel }) => {
+export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, template, organization, onSave, onCancel }) => {
   const { user } = useAuth();
+  const { entitlements, loading: planLoading } = usePlan();
+  // New cards join the user's organization; existing cards keep the one they belong to
+  const cardOrganization = existingCard
+    ? (organization && existingCard.organization_id === organization.id ? organization : null)
+    : organization || null;
+  const isLocked = (field: BrandField) => isBrandFieldLocked(cardOrganization, field);
   const [activeTab, setActiveTab] = useState<'basic' | 'contact' | 'social' | 'media' | 'reviews' | 'design'>('basic');
   const [saving, setSaving] = useState(false);
   const [autoSaving, setAutoSaving] = useState(false);
@@ -147,32 +188,111 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
   const [showConfetti, setShowConfetti] = useState(false);
   const [showCongrats, setShowCongrats] = useState(false);
   const [newSocialLink, setNewSocialLink] = useState({ platform: '', username: '' });
+  const [slugStatus, setSlugStatus] = useState<SlugStatus>('idle');
+  const [slugSuggestion, setSlugSuggestion] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CardDraft | null>(null);
+  const [publishing, setPublishing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [hasPasscode, setHasPasscode] = useState(false);
+  const [passcodeInput, setPasscodeInput] = useState('');
+  const [savingPasscode, setSavingPasscode] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
 
-  const [formData, setFormData] = useState<FormData>({
-    title: existingCard?.title || '',
-    username: existingCard?.slug || '',
+  const toFormData = (card?: BusinessCard | null): FormData => applyOrganizationBrand({
+    title: card?.title || '',
+    username: card?.slug || '',
     globalUsername: '',
-    company: existingCard?.company || '',
-    tagline: existingCard?.bio || '',
-    profession: existingCard?.position || '',
-    avatar_url: existingCard?.avatar_url || '',
-    phone: existingCard?.phone || '',
-    whatsapp: existingCard?.whatsapp || '',
-    email: existingCard?.email || user?.email || '',
-    website: existingCard?.website || '',
-    address: existingCard?.address || '',
-    map_link: existingCard?.map_link || '',
-    theme: (existingCard?.theme as any) || THEMES[0],
-    shape: existingCard?.shape || 'rectangle',
-    layout: (existingCard?.layout as any) || { style: 'modern', alignment: 'center', font: 'Inter' },
-    is_published: existingCard?.is_published || false,
+    company: card?.company || '',
+    tagline: card?.bio || '',
+    profession: card?.position || '',
+    avatar_url: card?.avatar_url || '',
+    logo_url: cardOrganization?.logo_url || card?.logo_url || '',
+    phone: card?.phone || '',
+    whatsapp: card?.whatsapp || '',
+    email: card?.email || user?.email || '',
+    website: card?.website || '',
+    address: card?.address || '',
+    map_link: card?.map_link || '',
+    theme: getCardTheme(card?.theme),
+    shape: card?.shape || 'rectangle',
+    layout: (card?.layout as any) || DEFAULT_LAYOUT,
+    is_published: card?.is_published || false,
+    publish_at: toDateTimeInputValue(card?.publish_at),
+    expire_at: toDateTimeInputValue(card?.expire_at),
+    visibility: card ? getCardVisibility(card) : 'public',
+    lead_capture_enabled: card?.lead_capture_enabled || false,
+    lead_form_fields: getLeadFormFields(card?.lead_form_fields),
+    booking_enabled: card?.booking_enabled || false,
+    booking_availability: getBookingAvailability(card?.booking_availability),
+    template_id: card?.template_id || null,
+  }, cardOrganization);
+
+  // A template's theme, layout and shape, except where the organization's brand locks them
+  const withTemplate = (data: FormData, cardTemplate: CardTemplate): FormData => {
+    const design = getTemplateDesign(cardTemplate);
+    return {
+      ...data,
+      theme: isLocked('theme') ? data.theme : design.theme,
+      layout: isLocked('layout') ? data.layout : { ...data.layout, ...design.layout },
+      shape: isLocked('shape') ? data.shape : design.shape,
+      template_id: cardTemplate.id,
+    };
+  };
+
+  const [formData, setFormData] = useState<FormData>(() =>
+    template && !existingCard ? withTemplate(toFormData(null), template) : toFormData(existingCard)
+  );
+
+  // The draft is loaded once per card, with whatever organization brand applies by then
+  const toFormDataRef = useRef(toFormData);
+  toFormDataRef.current = toFormData;
+
+  // Published cards are edited through a draft; the live row changes only on publish
+  const editingDraft = !!businessCard?.is_published && formData.is_published;
+  const publishState = getCardPublishState({
+    is_published: formData.is_published,
+    publish_at: fromDateTimeInputValue(formData.publish_at),
+    expire_at: fromDateTimeInputValue(formData.expire_at),
   });
 
-  useEffect(() => {
-    if (existingCard) {
-      loadCardData();
+  const loadCardData = useCallback(async (cardId: string, stagedLinks?: SocialLink[]) => {
+    if (stagedLinks) {
+      setSocialLinks(stagedLinks);
+      return;
+    }
+
+    try {
+      // Load social links
+      const { data: socialData } = await supabase
+        .from('social_links')
+        .select('*')
+        .eq('card_id', cardId)
+        .order('display_order');
+
+      if (socialData) {
+        setSocialLinks(socialData);
+      }
+    } catch (error) {
+      console.error('Error loading card data:', error);
     }
-  }, [existingCard]);
+  }, []);
+
+  useEffect(() => {
+    if (!existingCard) return;
+
+    const loadDraft = async () => {
+      const savedDraft = await fetchCardDraft(existingCard.id);
+      setDraft(savedDraft);
+      if (savedDraft) {
+        setFormData(toFormDataRef.current({ ...existingCard, ...savedDraft.data }));
+      }
+      // Social links staged on the draft replace the live ones
+      loadCardData(existingCard.id, savedDraft?.data.social_links);
+    };
+
+    loadDraft();
+    cardHasPasscode(existingCard.id).then(setHasPasscode);
+  }, [existingCard, loadCardData]);
 
   useEffect(() => {
     if (showCongrats) {
@@ -184,32 +304,105 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
     }
   }, [showCongrats]);
 
-  const loadCardData = async () => {
-    if (!existingCard) return;
+  // Live availability check for the card URL, debounced while typing
+  useEffect(() => {
+    const slug = formData.username;
+    setSlugSuggestion(null);
 
-    try {
-      // Load social links
-      const { data: socialData } = await supabase
-        .from('social_links')
-        .select('*')
-        .eq('card_id', existingCard.id)
-        .order('display_order');
+    if (!slug) {
+      setSlugStatus('idle');
+      return;
+    }
+    if (businessCard?.slug === slug) {
+      setSlugStatus('unchanged');
+      return;
+    }
+    if (validateSlug(slug)) {
+      setSlugStatus(RESERVED_SLUGS.includes(slug) ? 'reserved' : 'invalid');
+      return;
+    }
 
-      if (socialData) {
-        setSocialLinks(socialData);
+    setSlugStatus('checking');
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const result = await checkSlugAvailability(slug, businessCard?.id || null);
+      if (cancelled) return;
+
+      if (!result) {
+        setSlugStatus('error');
+      } else if (result.available) {
+        setSlugStatus('available');
+      } else {
+        setSlugStatus(result.reason || 'taken');
+        setSlugSuggestion(result.suggestion || null);
       }
-    } catch (error) {
-      console.error('Error loading card data:', error);
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData.username, businessCard?.id, businessCard?.slug]);
+
+  // Re-read the live row after the database changed it (publish, restore)
+  const reloadCard = async (cardId: string) => {
+    const { data, error } = await supabase
+      .from('business_cards')
+      .select('*')
+      .eq('id', cardId)
+      .single();
+
+    if (error) {
+      console.error('Error reloading card:', error);
+      return null;
     }
+
+    setBusinessCard(data);
+    return data as BusinessCard;
   };
 
-  const handleSave = async () => {
+  // Publishing checks the theme itself and passes themeConfirmed so the warning shows once
+  const handleSave = async (themeConfirmed = false) => {
     if (!user) return;
 
+    if (slugStatus === 'invalid' || slugStatus === 'reserved' || slugStatus === 'taken') {
+      alert(`The card URL "/c/${formData.username}" can't be used. ${validateSlug(formData.username) || 'It is already taken.'}`);
+      setActiveTab('basic');
+      return;
+    }
+
+    // Schedule, visibility, the lead form and booking are card settings rather than content,
+    // so they apply right away even while editing a draft
+    const cardSettings = {
+      publish_at: fromDateTimeInputValue(formData.publish_at),
+      expire_at: fromDateTimeInputValue(formData.expire_at),
+      visibility: formData.visibility,
+      lead_capture_enabled: formData.lead_capture_enabled,
+      lead_form_fields: cleanLeadFormFields(formData.lead_form_fields),
+      booking_enabled: formData.booking_enabled,
+      booking_availability: formData.booking_availability,
+      template_id: formData.template_id,
+    };
+    const scheduleError = validateSchedule(cardSettings.publish_at, cardSettings.expire_at);
+    if (scheduleError) {
+      alert(scheduleError);
+      setActiveTab('basic');
+      return;
+    }
+    const bookingError = formData.booking_enabled
+      ? validateBookingAvailability(formData.booking_availability)
+      : null;
+    if (bookingError) {
+      alert(bookingError);
+      setActiveTab('contact');
+      return;
+    }
+
+    if (!themeConfirmed && formData.is_published && !businessCard?.is_published && !confirmReadableTheme()) return;
+
     setSaving(true);
     try {
       const cardData = {
-        user_id: user.id,
         title: formData.title,
         company: formData.company,
         position: formData.profession,
@@ -224,39 +417,125 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
         theme: formData.theme,
         shape: formData.shape,
         layout: formData.layout,
-        is_published: formData.is_published,
-        slug: formData.username || null,
+        // An empty URL field keeps the current slug rather than clearing it on publish
+        slug: formData.username || businessCard?.slug || null,
       };
 
+      if (businessCard && editingDraft) {
+        let liveCard = businessCard;
+        if (
+          scheduleChanged(businessCard, cardSettings.publish_at, cardSettings.expire_at) ||
+          businessCard.visibility !== cardSettings.visibility ||
+          businessCard.lead_capture_enabled !== cardSettings.lead_capture_enabled ||
+          JSON.stringify(getLeadFormFields(businessCard.lead_form_fields)) !== JSON.stringify(cardSettings.lead_form_fields) ||
+          businessCard.booking_enabled !== cardSettings.booking_enabled ||
+          JSON.stringify(getBookingAvailability(businessCard.booking_availability)) !== JSON.stringify(cardSettings.booking_availability) ||
+          businessCard.template_id !== cardSettings.template_id
+        ) {
+          const { data, error } = await supabase
+            .from('business_cards')
+            .update(cardSettings)
+            .eq('id', businessCard.id)
+            .select()
+            .single();
+
+          if (error) {
+            console.error('Error saving card settings:', error);
+            alert(getPlanLimitMessage(error) || 'Failed to save the card settings. Please try again.');
+            return;
+          }
+
+          liveCard = data;
+          setBusinessCard(data);
+        }
+
+        const stagedCollections = getDraftCollections(draft?.data);
+        if (diffCardFields(liveCard, cardData).length === 0 && Object.keys(stagedCollections).length === 0) {
+          // Edited back to the live version, nothing left to publish
+          if (draft) {
+            await discardCardDraft(liveCard.id);
+            setDraft(null);
+          }
+          return liveCard;
+        }
+
+        const draftResult = await saveCardDraft(liveCard.id, { ...cardData, ...stagedCollections }, user.id);
+        if (!draftResult.success || !draftResult.draft) {
+          alert('Failed to save draft. Please try again.');
+          return;
+        }
+
+        setDraft(draftResult.draft);
+        return liveCard;
+      }
+
+      const goingLive = formData.is_published && !businessCard?.is_published;
+      // When going live, publish_card below flips is_published, so the card goes live (and
+      // card.published webhooks fire) exactly once
+      const isPublished = goingLive ? false : formData.is_published;
+
       let result;
-      if (existingCard) {
+      if (businessCard) {
         // Update existing card
         result = await supabase
           .from('business_cards')
-          .update(cardData)
-          .eq('id', existingCard.id)
+          .update({ ...cardData, ...cardSettings, is_published: isPublished })
+          .eq('id', businessCard.id)
           .select()
           .single();
       } else {
         // Create new card
         result = await supabase
           .from('business_cards')
-          .insert(cardData)
+          .insert({
+            ...cardData,
+            ...cardSettings,
+            is_published: isPublished,
+            user_id: user.id,
+            organization_id: cardOrganization?.id || null,
+          })
           .select()
           .single();
       }
 
       if (result.error) {
         console.error('Error saving card:', result.error);
-        alert('Failed to save card. Please try again.');
+        alert(getPlanLimitMessage(result.error) || 'Failed to save card. Please try again.');
         return;
       }
 
-      if (result.data) {
-        setBusinessCard(result.data);
+      let savedCard: BusinessCard | null = result.data;
+      if (savedCard) {
+        if (draft) {
+          // Unpublishing writes the draft straight to the card, staged lists included
+          const stagedCollections = getDraftCollections(draft.data);
+          if (Object.keys(stagedCollections).length > 0) {
+            const applyResult = await applyDraftCollections(savedCard.id, stagedCollections);
+            if (!applyResult.success) {
+              alert(getPlanLimitMessage(applyResult.error) || 'Card saved, but its draft social links, media and reviews could not be applied. Please try again.');
+              return savedCard;
+            }
+          }
+          await discardCardDraft(savedCard.id);
+          setDraft(null);
+        }
+
+        // Going live records the first revision of this version
+        if (goingLive) {
+          const publishResult = await publishCard(savedCard.id);
+          if (!publishResult.success) {
+            alert('Card saved, but publishing failed. Please try again.');
+          }
+          savedCard = await reloadCard(savedCard.id) || savedCard;
+        }
+
+        setBusinessCard(savedCard);
+        // The slug trigger may have adjusted the slug (e.g. a numeric suffix)
+        const savedSlug = savedCard.slug || '';
+        setFormData((prev) => ({ ...prev, username: savedSlug }));
       }
 
-      return result.data;
+      return savedCard;
     } catch (error) {
       console.error('Error saving card:', error);
       alert('Failed to save card. Please try again.');
@@ -265,6 +544,108 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
     }
   };
 
+  // Publishing a theme that fails WCAG AA needs a second look first
+  const confirmReadableTheme = () => {
+    const failures = getContrastFailures(formData.theme);
+    if (failures.length === 0) return true;
+
+    const pairs = failures.map(check => check.label.toLowerCase()).filter((label, i, all) => all.indexOf(label) === i);
+    if (confirm(`Some colors on this card are hard to read (${pairs.join(', ')}) and fail WCAG AA contrast. Publish anyway?`)) {
+      return true;
+    }
+    setActiveTab('design');
+    return false;
+  };
+
+  const handlePublish = async () => {
+    if (!businessCard || !confirmReadableTheme()) return;
+
+    // Save any edits made since the last draft save first
+    const savedCard = await handleSave(true);
+    if (!savedCard) return;
+
+    setPublishing(true);
+    try {
+      const result = await publishCard(businessCard.id);
+      if (!result.success) {
+        alert(getPlanLimitMessage(result.error) || 'Failed to publish changes. Please try again.');
+        return;
+      }
+
+      setDraft(null);
+      const liveCard = await reloadCard(businessCard.id);
+      if (liveCard) {
+        const liveSlug = liveCard.slug || '';
+        setFormData((prev) => ({ ...prev, username: liveSlug }));
+      }
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const handleSetPasscode = async (passcode: string | null) => {
+    if (!businessCard) return;
+
+    if (passcode && passcode.length < PASSCODE_MIN_LENGTH) {
+      alert(`Use a passcode of at least ${PASSCODE_MIN_LENGTH} characters.`);
+      return;
+    }
+
+    setSavingPasscode(true);
+    try {
+      const result = await setCardPasscode(businessCard.id, passcode);
+      if (!result.success) {
+        alert('Failed to update the passcode. Please try again.');
+        return;
+      }
+
+      setHasPasscode(!!passcode);
+      setPasscodeInput('');
+    } finally {
+      setSavingPasscode(false);
+    }
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!businessCard || !confirm('Discard your unpublished changes? The card will go back to its live version.')) return;
+
+    const result = await discardCardDraft(businessCard.id);
+    if (!result.success) {
+      alert('Failed to discard changes. Please try again.');
+      return;
+    }
+
+    setDraft(null);
+    setFormData((prev) => ({ ...toFormData(businessCard), globalUsername: prev.globalUsername }));
+    loadCardData(businessCard.id);
+  };
+
+  // While editing a draft, list changes are staged on it and reach the live card on publish
+  const stageDraftCollections = async (collections: DraftCollections) => {
+    if (!businessCard || !user) return false;
+
+    const result = await saveCardDraft(businessCard.id, { ...draft?.data, ...collections }, user.id);
+    if (!result.success || !result.draft) {
+      alert('Failed to save draft. Please try again.');
+      return false;
+    }
+
+    setDraft(result.draft);
+    return true;
+  };
+
+  const handleRevisionRestored = async () => {
+    if (!businessCard) return;
+
+    setShowHistory(false);
+    setDraft(null);
+    const liveCard = await reloadCard(businessCard.id);
+    if (liveCard) {
+      setFormData((prev) => ({ ...toFormData(liveCard), globalUsername: prev.globalUsername }));
+    }
+    loadCardData(businessCard.id);
+  };
+
   const handleGlobalUsernameChange = (username: string) => {
     setFormData({ ...formData, globalUsername: username });
   };
@@ -275,7 +656,30 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
     try {
       // Generate auto-synced links
       const autoSyncedLinks = generateAutoSyncedLinks(formData.globalUsername);
-      
+
+      if (editingDraft) {
+        const customLinks = socialLinks.filter(link => !link.is_auto_synced);
+        const newLinks = [
+          ...customLinks,
+          ...autoSyncedLinks.map((link, index) => ({
+            id: crypto.randomUUID(),
+            card_id: businessCard.id,
+            platform: link.platform,
+            username: link.username,
+            url: link.url,
+            display_order: customLinks.length + index,
+            is_active: true,
+            is_auto_synced: true,
+            created_at: new Date().toISOString(),
+          })),
+        ];
+        if (await stageDraftCollections({ social_links: newLinks })) {
+          setSocialLinks(newLinks);
+          alert('Social links auto-synced successfully!');
+        }
+        return;
+      }
+
       // Remove existing auto-synced links
       await supabase
         .from('social_links')
@@ -321,6 +725,29 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
 
     try {
       const url = generateSocialLink(newSocialLink.platform, newSocialLink.username);
+
+      if (editingDraft) {
+        const newLinks = [
+          ...socialLinks,
+          {
+            id: crypto.randomUUID(),
+            card_id: businessCard.id,
+            platform: newSocialLink.platform,
+            username: newSocialLink.username,
+            url,
+            display_order: socialLinks.length,
+            is_active: true,
+            is_auto_synced: false,
+            created_at: new Date().toISOString(),
+          },
+        ];
+        if (await stageDraftCollections({ social_links: newLinks })) {
+          setSocialLinks(newLinks);
+          setNewSocialLink({ platform: '', username: '' });
+        }
+        return;
+      }
+
       const { data, error } = await supabase
         .from('social_links')
         .insert({
@@ -353,7 +780,19 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
       if (!link) return;
 
       const newUrl = generateSocialLink(link.platform, newUsername);
-      
+      const updatedLinks = socialLinks.map(l =>
+        l.id === linkId 
+          ? { ...l, username: newUsername, url: newUrl, is_auto_synced: false }
+          : l
+      );
+
+      if (editingDraft) {
+        if (await stageDraftCollections({ social_links: updatedLinks })) {
+          setSocialLinks(updatedLinks);
+        }
+        return;
+      }
+
       const { error } = await supabase
         .from('social_links')
         .update({ 
@@ -368,11 +807,6 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
         return;
       }
 
-      const updatedLinks = socialLinks.map(l =>
-        l.id === linkId 
-          ? { ...l, username: newUsername, url: newUrl, is_auto_synced: false }
-          : l
-      );
       setSocialLinks(updatedLinks);
     } catch (error) {
       console.error('Error updating social link:', error);
@@ -381,6 +815,14 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
 
   const handleRemoveSocialLink = async (linkId: string) => {
     try {
+      if (editingDraft) {
+        const remainingLinks = socialLinks.filter(link => link.id !== linkId);
+        if (await stageDraftCollections({ social_links: remainingLinks })) {
+          setSocialLinks(remainingLinks);
+        }
+        return;
+      }
+
       const { error } = await supabase
         .from('social_links')
         .delete()
@@ -397,6 +839,14 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
     }
   };
 
+  const renderLockedNote = (field: BrandField) =>
+    isLocked(field) && (
+      <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+        <Lock className="w-3 h-3" />
+        Set by {cardOrganization?.name}
+      </p>
+    );
+
   const tabs = [
     { id: 'basic', label: 'Basic Info', icon: Type },
     { id: 'contact', label: 'Contact', icon: Globe },
@@ -411,6 +861,73 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Left Column - Form */}
         <div className="lg:col-span-2 space-y-6">
+          {/* Publish Status */}
+          {businessCard && (
+            <div
+              className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 py-3 rounded-xl border ${
+                draft
+                  ? "bg-amber-50 border-amber-200"
+                  : "bg-white border-gray-200"
+              }`}
+            >
+              <div className="text-sm">
+                {draft ? (
+                  <>
+                    <p className="font-medium text-amber-800">Unpublished changes</p>
+                    <p className="text-amber-700">
+                      Saved {new Date(draft.updated_at).toLocaleString()}. Your live card still shows the last published version.
+                    </p>
+                  </>
+                ) : businessCard.is_published ? (
+                  <>
+                    <p className="font-medium text-gray-900">{CARD_PUBLISH_STATE_LABELS[getCardPublishState(businessCard)]}</p>
+                    <p className="text-gray-500">
+                      {businessCard.published_at
+                        ? `Published ${new Date(businessCard.published_at).toLocaleString()}. Saving keeps your edits as a draft until you publish them.`
+                        : "Saving keeps your edits as a draft until you publish them."}
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <p className="font-medium text-gray-900">Not published</p>
+                    <p className="text-gray-500">Only you can see this card.</p>
+                  </>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowHistory(true)}
+                  className="px-3 py-2 flex items-center gap-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <HistoryIcon className="w-4 h-4" />
+                  History
+                </button>
+                {draft && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={handleDiscardDraft}
+                      className="px-3 py-2 text-sm text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                    >
+                      Discard
+                    </button>
+                    {editingDraft && (
+                    <button
+                      type="button"
+                      onClick={handlePublish}
+                      disabled={publishing || saving}
+                      className="px-3 py-2 flex items-center gap-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      <Send className="w-4 h-4" />
+                      {publishing ? "Publishing..." : "Publish changes"}
+                    </button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          )}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
             {/* Tab Navigation */}
             <div className="border-b border-gray-200">
@@ -483,19 +1000,54 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                             onChange={(e) =>
                               setFormData({
                                 ...formData,
-                                username: e.target.value
-                                  .toLowerCase()
-                                  .replace(/[^a-z0-9]/g, ""),
+                                username: normalizeSlugInput(e.target.value),
                               })
                             }
                             className="flex-1 px-3 py-2 border border-gray-300 rounded-r-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                             placeholder="yourname"
                           />
                         </div>
-                        <p className="text-xs text-gray-500 mt-1">
-                          This will be your card's URL: /c/
-                          {formData.username || "yourname"}
-                        </p>
+                        {slugStatus === "checking" && (
+                          <p className="text-xs text-gray-500 mt-1">Checking availability...</p>
+                        )}
+                        {slugStatus === "available" && (
+                          <p className="text-xs text-green-600 mt-1 flex items-center gap-1">
+                            <Check className="w-3 h-3" />
+                            /c/{formData.username} is available
+                          </p>
+                        )}
+                        {(slugStatus === "invalid" || slugStatus === "reserved") && (
+                          <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                            <AlertCircle className="w-3 h-3" />
+                            {validateSlug(formData.username)}
+                          </p>
+                        )}
+                        {slugStatus === "taken" && (
+                          <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                            <AlertCircle className="w-3 h-3" />
+                            This URL is already taken
+                            {slugSuggestion && (
+                              <button
+                                type="button"
+                                onClick={() => setFormData({ ...formData, username: slugSuggestion })}
+                                className="ml-1 text-blue-600 underline"
+                              >
+                                Use {slugSuggestion}
+                              </button>
+                            )}
+                          </p>
+                        )}
+                        {(slugStatus === "idle" || slugStatus === "unchanged" || slugStatus === "error") && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            This will be your card's URL: /c/
+                            {formData.username || "yourname"}
+                          </p>
+                        )}
+                        {businessCard?.slug && formData.username && businessCard.slug !== formData.username && slugStatus === "available" && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            Your old link /c/{businessCard.slug} and printed QR codes will keep redirecting here.
+                          </p>
+                        )}
                       </div>
                       <div className="w-full">
                         <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -536,9 +1088,11 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                             company: e.target.value,
                           })
                         }
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        disabled={isLocked("company")}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
                         placeholder="Your company name"
                       />
+                      {renderLockedNote("company")}
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -603,6 +1157,127 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                       </label>
                     </div>
                   </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Go live at (optional)
+                      </label>
+                      <input
+                        type="datetime-local"
+                        value={formData.publish_at}
+                        onChange={(e) =>
+                          setFormData({ ...formData, publish_at: e.target.value })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Unpublish at (optional)
+                      </label>
+                      <input
+                        type="datetime-local"
+                        value={formData.expire_at}
+                        min={formData.publish_at || undefined}
+                        onChange={(e) =>
+                          setFormData({ ...formData, expire_at: e.target.value })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+                  {validateSchedule(fromDateTimeInputValue(formData.publish_at), fromDateTimeInputValue(formData.expire_at)) ? (
+                    <p className="text-xs text-red-600 flex items-center gap-1">
+                      <AlertCircle className="w-3 h-3" />
+                      {validateSchedule(fromDateTimeInputValue(formData.publish_at), fromDateTimeInputValue(formData.expire_at))}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-gray-500">
+                      {publishState === "draft" &&
+                        "The schedule takes effect once the card is published."}
+                      {publishState === "scheduled" &&
+                        `Your card will go live on ${new Date(formData.publish_at).toLocaleString()}.`}
+                      {publishState === "live" &&
+                        (formData.expire_at
+                          ? `Your card is live until ${new Date(formData.expire_at).toLocaleString()}.`
+                          : "Your card stays live until you unpublish it.")}
+                      {publishState === "expired" &&
+                        "This card has expired and visitors see an expired notice. Clear or move the unpublish time to bring it back."}
+                    </p>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Who can see this card
+                    </label>
+                    <select
+                      value={formData.visibility}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          visibility: e.target.value as CardVisibility,
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {(Object.keys(CARD_VISIBILITY_OPTIONS) as CardVisibility[])
+                        .filter((visibility) => visibility !== "organization" || cardOrganization || formData.visibility === "organization")
+                        .map((visibility) => (
+                          <option key={visibility} value={visibility}>
+                            {CARD_VISIBILITY_OPTIONS[visibility].label}
+                          </option>
+                        ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {CARD_VISIBILITY_OPTIONS[formData.visibility].description}
+                    </p>
+                    {formData.visibility === "password" && (
+                      <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+                        {businessCard ? (
+                          <>
+                            <p className={`text-xs flex items-center gap-1 ${hasPasscode ? "text-green-600" : "text-amber-700"}`}>
+                              <Lock className="w-3 h-3" />
+                              {hasPasscode
+                                ? "A passcode is set. Share it with the people who should see this card."
+                                : "No passcode set yet. Visitors can't open this card until you set one."}
+                            </p>
+                            <div className="flex gap-2">
+                              <input
+                                type="password"
+                                value={passcodeInput}
+                                onChange={(e) => setPasscodeInput(e.target.value)}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                placeholder={hasPasscode ? "New passcode" : "Passcode"}
+                              />
+                              <button
+                                type="button"
+                                onClick={() => handleSetPasscode(passcodeInput)}
+                                disabled={!passcodeInput || savingPasscode}
+                                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                              >
+                                {hasPasscode ? "Change" : "Set passcode"}
+                              </button>
+                              {hasPasscode && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleSetPasscode(null)}
+                                  disabled={savingPasscode}
+                                  className="px-3 py-2 text-sm text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                                >
+                                  Remove
+                                </button>
+                              )}
+                            </div>
+                          </>
+                        ) : (
+                          <p className="text-xs text-gray-500">
+                            Save the card first, then set its passcode here.
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
                   {/* Next button moved to bottom right */}
                   <div className="flex justify-end mt-10">
                     <button
@@ -674,9 +1349,11 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                             website: e.target.value,
                           })
                         }
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        disabled={isLocked("website")}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
                         placeholder="https://yourwebsite.com"
                       />
+                      {renderLockedNote("website")}
                     </div>
                   </div>
 
@@ -691,9 +1368,11 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                         setFormData({ ...formData, address: e.target.value })
                       }
                       rows={2}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      disabled={isLocked("address")}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
                       placeholder="Your business address"
                     />
+                    {renderLockedNote("address")}
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -716,6 +1395,32 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                     </div>
                   </div>
 
+                  {planLoading || entitlements.lead_capture || formData.lead_capture_enabled ? (
+                    <LeadFormBuilder
+                      enabled={formData.lead_capture_enabled}
+                      fields={formData.lead_form_fields}
+                      onEnabledChange={(enabled) =>
+                        setFormData({ ...formData, lead_capture_enabled: enabled })
+                      }
+                      onFieldsChange={(fields) =>
+                        setFormData({ ...formData, lead_form_fields: fields })
+                      }
+                    />
+                  ) : (
+                    <UpgradePrompt entitlement="lead_capture" />
+                  )}
+
+                  <BookingAvailabilityEditor
+                    enabled={formData.booking_enabled}
+                    availability={formData.booking_availability}
+                    onEnabledChange={(enabled) =>
+                      setFormData({ ...formData, booking_enabled: enabled })
+                    }
+                    onAvailabilityChange={(availability) =>
+                      setFormData({ ...formData, booking_availability: availability })
+                    }
+                  />
+
                   <div className="flex justify-end mt-10">
                     <button
                       type="button"
@@ -925,6 +1630,8 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                     mediaItems={mediaItems}
                     onMediaChange={setMediaItems}
                     userId={user?.id || ""}
+                    stagedRows={editingDraft ? draft?.data.media_items : undefined}
+                    onStage={editingDraft ? (rows) => stageDraftCollections({ media_items: rows }) : undefined}
                   />
                   <div className="flex justify-end mt-10">
                     <button
@@ -949,6 +1656,8 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                     cardId={businessCard.id}
                     reviews={reviews}
                     onReviewsChange={setReviews}
+                    stagedRows={editingDraft ? draft?.data.review_links : undefined}
+                    onStage={editingDraft ? (rows) => stageDraftCollections({ review_links: rows }) : undefined}
                   />
                   <div className="flex justify-end mt-10">
                     <button
@@ -1021,17 +1730,61 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                       `}</style>
                     </div>
                   )}
+                  {/* Templates */}
+                  <div className="w-full max-w-2xl mx-auto flex items-center justify-between gap-4 p-4 bg-blue-50 border border-blue-100 rounded-lg">
+                    <div>
+                      <h3 className="font-medium text-gray-900">Start from a template</h3>
+                      <p className="text-sm text-gray-600">
+                        Replaces the theme, layout and card shape. Your details stay as they are.
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setShowTemplates(true)}
+                      disabled={isLocked("theme") && isLocked("layout") && isLocked("shape")}
+                      className="flex-shrink-0 flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm"
+                    >
+                      <Layout className="w-4 h-4" />
+                      Browse Templates
+                    </button>
+                  </div>
+                  {showTemplates && (
+                    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                      <div className="bg-white rounded-2xl max-w-4xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+                        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                          <h3 className="text-lg font-semibold text-gray-900">Apply a Template</h3>
+                          <button
+                            onClick={() => setShowTemplates(false)}
+                            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="Close"
+                          >
+                            <X className="w-5 h-5 text-gray-500" />
+                          </button>
+                        </div>
+                        <div className="p-6 overflow-y-auto">
+                          <TemplateGallery
+                            onSelect={(cardTemplate) => {
+                              setFormData(withTemplate(formData, cardTemplate));
+                              setShowTemplates(false);
+                            }}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  )}
                   {/* Theme Selection */}
                   <div className="w-full max-w-2xl mx-auto">
                     <h3 className="text-lg font-medium text-gray-900 mb-4">
                       Choose Theme
                     </h3>
+                    {renderLockedNote("theme")}
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
                       {THEMES.map((theme) => (
                         <button
                           key={theme.name}
                           onClick={() => setFormData({ ...formData, theme })}
-                          className={`p-4 rounded-lg border-2 transition-all flex items-center justify-between w-full ${
+                          disabled={isLocked("theme")}
+                          className={`p-4 rounded-lg border-2 transition-all flex items-center justify-between w-full disabled:opacity-50 disabled:cursor-not-allowed ${
                             formData.theme.name === theme.name
                               ? "border-blue-500 ring-2 ring-blue-200"
                               : "border-gray-200 hover:border-gray-300"
@@ -1054,23 +1807,36 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                       ))}
                     </div>
                   </div>
+                  {/* Theme Builder */}
+                  <div className="w-full max-w-2xl mx-auto">
+                    <h3 className="text-lg font-medium text-gray-900 mb-1">
+                      Customize Theme
+                    </h3>
+                    <p className="text-sm text-gray-500 mb-4">
+                      Fine-tune colors, background, buttons and dark mode, then save the result to reuse on your other cards.
+                    </p>
+                    <ThemeBuilder
+                      theme={formData.theme}
+                      onChange={(theme) => setFormData({ ...formData, theme })}
+                      userId={user?.id || ""}
+                      disabled={isLocked("theme")}
+                    />
+                  </div>
                   {/* Card Shape */}
                   <div className="w-full max-w-2xl mx-auto">
                     <h3 className="text-lg font-medium text-gray-900 mb-4">
                       Card Shape
                     </h3>
+                    {renderLockedNote("shape")}
                     <div className="grid grid-cols-3 gap-4">
-                      {[
-                        { value: "rectangle", label: "Rectangle" },
-                        { value: "rounded", label: "Rounded" },
-                        { value: "circle", label: "Circle" },
-                      ].map((shape) => (
+                      {CARD_SHAPES.map((shape) => (
                         <button
                           key={shape.value}
                           onClick={() =>
                             setFormData({ ...formData, shape: shape.value })
                           }
-                          className={`p-4 rounded-lg border-2 transition-all ${
+                          disabled={isLocked("shape")}
+                          className={`p-4 rounded-lg border-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
                             formData.shape === shape.value
                               ? "border-blue-500 ring-2 ring-blue-200"
                               : "border-gray-200 hover:border-gray-300"
@@ -1088,13 +1854,9 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                     <h3 className="text-lg font-medium text-gray-900 mb-4">
                       Layout Style
                     </h3>
+                    {renderLockedNote("layout")}
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                      {[
-                        { value: "modern", label: "Modern" },
-                        { value: "classic", label: "Classic" },
-                        { value: "minimal", label: "Minimal" },
-                        { value: "creative", label: "Creative" },
-                      ].map((style) => (
+                      {LAYOUT_STYLES.map((style) => (
                         <button
                           key={style.value}
                           onClick={() =>
@@ -1106,7 +1868,8 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                               },
                             })
                           }
-                          className={`p-4 rounded-lg border-2 transition-all ${
+                          disabled={isLocked("layout")}
+                          className={`p-4 rounded-lg border-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
                             formData.layout.style === style.value
                               ? "border-blue-500 ring-2 ring-blue-200"
                               : "border-gray-200 hover:border-gray-300"
@@ -1125,11 +1888,7 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                       Text Alignment
                     </h3>
                     <div className="grid grid-cols-3 gap-4">
-                      {[
-                        { value: "left", label: "Left" },
-                        { value: "center", label: "Center" },
-                        { value: "right", label: "Right" },
-                      ].map((alignment) => (
+                      {TEXT_ALIGNMENTS.map((alignment) => (
                         <button
                           key={alignment.value}
                           onClick={() =>
@@ -1141,7 +1900,8 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                               },
                             })
                           }
-                          className={`p-4 rounded-lg border-2 transition-all ${
+                          disabled={isLocked("layout")}
+                          className={`p-4 rounded-lg border-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
                             formData.layout.alignment === alignment.value
                               ? "border-blue-500 ring-2 ring-blue-200"
                               : "border-gray-200 hover:border-gray-300"
@@ -1160,14 +1920,7 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                       Font Family
                     </h3>
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                      {[
-                        { value: "Inter", label: "Inter" },
-                        { value: "Roboto", label: "Roboto" },
-                        { value: "Open Sans", label: "Open Sans" },
-                        { value: "Lato", label: "Lato" },
-                        { value: "Montserrat", label: "Montserrat" },
-                        { value: "Poppins", label: "Poppins" },
-                      ].map((font) => (
+                      {FONT_FAMILIES.map((font) => (
                         <button
                           key={font.value}
                           onClick={() =>
@@ -1179,7 +1932,8 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                               },
                             })
                           }
-                          className={`p-4 rounded-lg border-2 transition-all ${
+                          disabled={isLocked("layout")}
+                          className={`p-4 rounded-lg border-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
                             formData.layout.font === font.value
                               ? "border-blue-500 ring-2 ring-blue-200"
                               : "border-gray-200 hover:border-gray-300"
@@ -1193,6 +1947,62 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                       ))}
                     </div>
                   </div>
+                  {/* Printed Card */}
+                  <div className="w-full max-w-2xl mx-auto">
+                    <h3 className="text-lg font-medium text-gray-900 mb-1">
+                      Printed Card
+                    </h3>
+                    <p className="text-sm text-gray-500 mb-4">
+                      Lay out the front and back of the paper card used for print sheets and PNG downloads.
+                    </p>
+                    {renderLockedNote("layout")}
+                    <PrintCardDesigner
+                      card={{
+                        title: formData.title,
+                        position: formData.profession,
+                        company: formData.company,
+                        phone: formData.phone,
+                        email: formData.email,
+                        website: formData.website,
+                        address: formData.address,
+                        slug: formData.username || businessCard?.slug || null,
+                        theme: formData.theme,
+                        logo_url: formData.logo_url || null,
+                      }}
+                      design={getPrintDesign(formData.layout)}
+                      onChange={(print) =>
+                        setFormData({
+                          ...formData,
+                          layout: { ...formData.layout, print },
+                        })
+                      }
+                      disabled={isLocked("layout")}
+                    />
+                  </div>
+                  {/* QR Code */}
+                  <div className="w-full max-w-2xl mx-auto">
+                    <h3 className="text-lg font-medium text-gray-900 mb-1">
+                      QR Code
+                    </h3>
+                    <p className="text-sm text-gray-500 mb-4">
+                      Style the code people scan to open your card. It is also shown on the card page.
+                    </p>
+                    {renderLockedNote("layout")}
+                    <QRCodeStudio
+                      cardId={businessCard?.id || null}
+                      slug={formData.username || null}
+                      theme={formData.theme}
+                      avatarUrl={formData.avatar_url || null}
+                      design={getQRDesign(formData.layout)}
+                      onChange={(qr) =>
+                        setFormData({
+                          ...formData,
+                          layout: { ...formData.layout, qr },
+                        })
+                      }
+                      disabled={isLocked("layout")}
+                    />
+                  </div>
                   <div className="flex justify-end mt-10">
                     <button
                       type="button"
@@ -1211,7 +2021,7 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
                       ) : (
                         <Save className="w-4 h-4" />
                       )}
-                      {saving ? "Saving..." : "Save Changes"}
+                      {saving ? "Saving..." : editingDraft ? "Save Draft" : "Save Changes"}
                     </button>
                   </div>
                 </div>
@@ -1220,6 +2030,15 @@ export const CardEditor: React.FC<CardEditorProps> = ({ existingCard, onSave, on
           </div>
         </div>
 
+        {showHistory && businessCard && (
+          <RevisionHistory
+            card={businessCard}
+            draft={draft?.data || null}
+            onClose={() => setShowHistory(false)}
+            onRestored={handleRevisionRestored}
+          />
+        )}
+
         {/* Right Column - Preview */}
         <div className="lg:col-span-1">
           <div className="sticky top-6">
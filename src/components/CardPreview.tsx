@@ -21,10 +21,20 @@ import {
   X,
   Maximize2,
   Download,
+  UserPlus,
 } from "lucide-react";
 import type { Database } from "../lib/supabase";
 import html2canvas from "html2canvas";
 import { generateSocialLink } from "../utils/socialUtils";
+import { downloadVCard } from "../utils/vcardUtils";
+import {
+  getThemeColors,
+  getThemeSurfaceStyle,
+  isDarkTheme,
+  resolveCardTheme,
+  type CardTheme,
+} from "../utils/themeUtils";
+import { usePrefersDarkMode } from "../hooks/usePrefersDarkMode";
 
 type SocialLink = Database["public"]["Tables"]["social_links"]["Row"];
 
@@ -54,6 +64,7 @@ interface FormData {
   tagline: string;
   profession: string;
   avatar_url: string;
+  logo_url?: string;
 
   // Contact Information
   phone: string;
@@ -64,13 +75,7 @@ interface FormData {
   map_link: string;
 
   // Theme and Layout
-  theme: {
-    primary: string;
-    secondary: string;
-    background: string;
-    text: string;
-    name: string;
-  };
+  theme: CardTheme;
   shape: string;
   layout: {
     style: string;
@@ -110,6 +115,9 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
   isFullPage = false,
 }) => {
   const [showFullPreview, setShowFullPreview] = useState(false);
+  const prefersDark = usePrefersDarkMode();
+  const theme = resolveCardTheme(formData.theme);
+  const colors = getThemeColors(theme, isDarkTheme(theme, prefersDark));
 
   // Download handler
   const handleDownload = async () => {
@@ -139,6 +147,28 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
     link.click();
   };
 
+  const handleSaveContact = async () => {
+    await downloadVCard(
+      {
+        title: formData.title,
+        company: formData.company,
+        position: formData.profession,
+        phone: formData.phone,
+        whatsapp: formData.whatsapp,
+        email: formData.email,
+        website: formData.website,
+        address: formData.address,
+        avatar_url: formData.avatar_url,
+        bio: formData.tagline,
+        slug: formData.username,
+      },
+      socialLinks,
+      formData.username
+        ? { cardUrl: `${window.location.origin}/c/${formData.username}` }
+        : {}
+    );
+  };
+
   const getCardShapeClasses = () => {
     if (isFullPage) return "rounded-3xl";
 
@@ -230,25 +260,33 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                   <div
                     className={`p-8 ${getCardShapeClasses()} ${getStyleClasses()} ${getLayoutClasses()}`}
                     style={{
-                      backgroundColor: formData.theme.background,
-                      color: formData.theme.text,
+                      ...getThemeSurfaceStyle(theme, colors),
                       fontFamily: `'${formData.layout.font}', sans-serif`,
                     }}
                   >
+                    {/* Organization Logo */}
+                    {formData.logo_url && (
+                      <img
+                        src={formData.logo_url}
+                        alt={formData.company || "Company logo"}
+                        className="h-10 max-w-[160px] object-contain mx-auto mb-4"
+                      />
+                    )}
+
                     {/* Avatar */}
                     {formData.avatar_url ? (
                       <img
                         src={formData.avatar_url}
                         alt="Profile"
                         className="w-36 h-36 rounded-full object-cover mb-6 border-4"
-                        style={{ borderColor: formData.theme.primary }}
+                        style={{ borderColor: colors.primary }}
                       />
                     ) : (
                       <div
                         className="w-32 h-32 rounded-full mb-6 flex items-center justify-center text-white font-bold text-3xl border-4"
                         style={{
-                          backgroundColor: formData.theme.primary,
-                          borderColor: formData.theme.secondary,
+                          backgroundColor: colors.primary,
+                          borderColor: colors.secondary,
                         }}
                       >
                         {formData.title ? (
@@ -263,14 +301,14 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                     <div className="mb-6">
                       <h2
                         className="text-2xl font-bold mb-2"
-                        style={{ color: formData.theme.text }}
+                        style={{ color: colors.text }}
                       >
                         {formData.title || "Your Name"}
                       </h2>
                       {formData.profession && (
                         <p
                           className="text-lg font-medium mb-1"
-                          style={{ color: formData.theme.secondary }}
+                          style={{ color: colors.secondary }}
                         >
                           {formData.profession}
                         </p>
@@ -278,15 +316,15 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                       {formData.company && (
                         <p
                           className="text-base opacity-80 mb-2"
-                          style={{ color: formData.theme.text }}
+                          style={{ color: colors.text }}
                         >
                           {formData.company}
                         </p>
                       )}
                       {formData.tagline && (
                         <p
-                          className="text-sm opacity-70"
-                          style={{ color: formData.theme.text }}
+                          className="text-sm"
+                          style={{ color: colors.muted }}
                         >
                           {formData.tagline}
                         </p>
@@ -302,7 +340,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                         >
                           <Mail
                             className="w-5 h-5"
-                            style={{ color: formData.theme.primary }}
+                            style={{ color: colors.primary }}
                           />
                           <span className="text-sm">{formData.email}</span>
                         </a>
@@ -314,7 +352,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                         >
                           <Phone
                             className="w-5 h-5"
-                            style={{ color: formData.theme.primary }}
+                            style={{ color: colors.primary }}
                           />
                           <span className="text-sm">{formData.phone}</span>
                         </a>
@@ -331,7 +369,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                         >
                           <MessageCircle
                             className="w-5 h-5"
-                            style={{ color: formData.theme.primary }}
+                            style={{ color: colors.primary }}
                           />
                           <span className="text-sm">WhatsApp</span>
                         </a>
@@ -349,7 +387,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                         >
                           <Globe
                             className="w-5 h-5"
-                            style={{ color: formData.theme.primary }}
+                            style={{ color: colors.primary }}
                           />
                           <span className="text-sm">{formData.website}</span>
                         </a>
@@ -358,7 +396,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                         <div className="flex items-start gap-3 p-3 rounded-lg">
                           <MapPin
                             className="w-5 h-5 mt-0.5"
-                            style={{ color: formData.theme.primary }}
+                            style={{ color: colors.primary }}
                           />
                           <span className="text-sm">{formData.address}</span>
                         </div>
@@ -378,7 +416,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                               rel="noopener noreferrer"
                               className="w-10 h-10 rounded-full flex items-center justify-center"
                               style={{
-                                backgroundColor: formData.theme.primary,
+                                backgroundColor: colors.primary,
                                 transition: "transform 0.15s",
                               }}
                               title={link.platform}
@@ -503,25 +541,33 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
               <div
                 className={`p-8 ${getCardShapeClasses()} ${getStyleClasses()} ${getLayoutClasses()}`}
                 style={{
-                  backgroundColor: formData.theme.background,
-                  color: formData.theme.text,
+                  ...getThemeSurfaceStyle(theme, colors),
                   fontFamily: `'${formData.layout.font}', sans-serif`,
                 }}
               >
+                {/* Organization Logo */}
+                {formData.logo_url && (
+                  <img
+                    src={formData.logo_url}
+                    alt={formData.company || "Company logo"}
+                    className="h-10 max-w-[160px] object-contain mb-4"
+                  />
+                )}
+
                 {/* Avatar */}
                 {formData.avatar_url ? (
                   <img
                     src={formData.avatar_url}
                     alt="Profile"
                     className="w-32 h-32 rounded-full object-cover mb-6 border-4"
-                    style={{ borderColor: formData.theme.primary }}
+                    style={{ borderColor: colors.primary }}
                   />
                 ) : (
                   <div
                     className="w-32 h-32 rounded-full mb-6 flex items-center justify-center text-white font-bold text-3xl border-4"
                     style={{
-                      backgroundColor: formData.theme.primary,
-                      borderColor: formData.theme.secondary,
+                      backgroundColor: colors.primary,
+                      borderColor: colors.secondary,
                     }}
                   >
                     {formData.title ? (
@@ -536,14 +582,14 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                 <div className="mb-6">
                   <h2
                     className="text-2xl font-bold mb-2"
-                    style={{ color: formData.theme.text }}
+                    style={{ color: colors.text }}
                   >
                     {formData.title || "Your Name"}
                   </h2>
                   {formData.profession && (
                     <p
                       className="text-lg font-medium mb-1"
-                      style={{ color: formData.theme.secondary }}
+                      style={{ color: colors.secondary }}
                     >
                       {formData.profession}
                     </p>
@@ -551,15 +597,15 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                   {formData.company && (
                     <p
                       className="text-base opacity-80 mb-2"
-                      style={{ color: formData.theme.text }}
+                      style={{ color: colors.text }}
                     >
                       {formData.company}
                     </p>
                   )}
                   {formData.tagline && (
                     <p
-                      className="text-sm opacity-70"
-                      style={{ color: formData.theme.text }}
+                      className="text-sm"
+                      style={{ color: colors.muted }}
                     >
                       {formData.tagline}
                     </p>
@@ -575,7 +621,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                     >
                       <Mail
                         className="w-5 h-5"
-                        style={{ color: formData.theme.primary }}
+                        style={{ color: colors.primary }}
                       />
                       <span className="text-sm">{formData.email}</span>
                     </a>
@@ -587,7 +633,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                     >
                       <Phone
                         className="w-5 h-5"
-                        style={{ color: formData.theme.primary }}
+                        style={{ color: colors.primary }}
                       />
                       <span className="text-sm">{formData.phone}</span>
                     </a>
@@ -604,7 +650,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                     >
                       <MessageCircle
                         className="w-5 h-5"
-                        style={{ color: formData.theme.primary }}
+                        style={{ color: colors.primary }}
                       />
                       <span className="text-sm">WhatsApp</span>
                     </a>
@@ -622,7 +668,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                     >
                       <Globe
                         className="w-5 h-5"
-                        style={{ color: formData.theme.primary }}
+                        style={{ color: colors.primary }}
                       />
                       <span className="text-sm">{formData.website}</span>
                     </a>
@@ -631,7 +677,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                     <div className="flex items-start gap-3 p-3 rounded-lg">
                       <MapPin
                         className="w-5 h-5 mt-0.5"
-                        style={{ color: formData.theme.primary }}
+                        style={{ color: colors.primary }}
                       />
                       <span className="text-sm">{formData.address}</span>
                     </div>
@@ -651,7 +697,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                           rel="noopener noreferrer"
                           className="w-10 h-10 rounded-full flex items-center justify-center"
                           style={{
-                            backgroundColor: formData.theme.primary,
+                            backgroundColor: colors.primary,
                             transition: "transform 0.15s",
                           }}
                           title={link.platform}
@@ -768,6 +814,13 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
             >
               {formData.is_published ? "Published" : "Draft"}
             </div>
+            <button
+              onClick={handleSaveContact}
+              className="px-3 py-1 rounded-lg bg-orange-500 text-white text-xs font-medium hover:bg-orange-600 transition-colors"
+              title="Save Contact"
+            >
+              <UserPlus className="w-5 h-5" />
+            </button>
             <button
               onClick={handleDownload}
               className="px-3 py-1 rounded-lg bg-blue-500 text-white text-xs font-medium hover:bg-blue-600 transition-colors"
@@ -784,8 +837,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
             <div
               className={`w-full p-4 flex items-start gap-4 ${getCardShapeClasses()} ${getStyleClasses()}`}
               style={{
-                backgroundColor: formData.theme.background,
-                color: formData.theme.text,
+                ...getThemeSurfaceStyle(theme, colors),
                 fontFamily: `'${formData.layout.font}', sans-serif`,
               }}
             >
@@ -796,14 +848,14 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                     src={formData.avatar_url}
                     alt="Profile"
                     className="w-20 h-20 rounded-full object-cover border-2"
-                    style={{ borderColor: formData.theme.primary }}
+                    style={{ borderColor: colors.primary }}
                   />
                 ) : (
                   <div
                     className="w-14 h-14 rounded-full flex items-center justify-center text-white font-bold text-xl border-2"
                     style={{
-                      backgroundColor: formData.theme.primary,
-                      borderColor: formData.theme.secondary,
+                      backgroundColor: colors.primary,
+                      borderColor: colors.secondary,
                     }}
                   >
                     {formData.title ? (
@@ -820,7 +872,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                     style={{
                       display: "inline-block",
                       backdropFilter: "blur(2px)",
-                      backgroundColor: formData.theme.primary,
+                      backgroundColor: colors.primary,
                     }}
                   >
                     <img
@@ -845,7 +897,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                 {/* Name */}
                 <h3
                   className="font-bold text-lg leading-tight"
-                  style={{ color: formData.theme.text }}
+                  style={{ color: colors.text }}
                 >
                   {formData.title || "Your Name"}
                 </h3>
@@ -853,7 +905,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                 {(formData.profession || formData.company) && (
                   <p
                     className="text-xs opacity-80 mb-3"
-                    style={{ color: formData.theme.secondary }}
+                    style={{ color: colors.secondary }}
                   >
                     {formData.profession}
                     {formData.profession && formData.company ? " at " : ""}
@@ -866,7 +918,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                     <div className="flex items-center gap-2 text-xs break-all">
                       <Mail
                         className="w-3 h-3 break-all"
-                        style={{ color: formData.theme.primary }}
+                        style={{ color: colors.primary }}
                       />
                       <span>{formData.email}</span>
                     </div>
@@ -875,7 +927,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                     <div className="flex items-center gap-2 text-xs break-all">
                       <Phone
                         className="w-3 h-3 break-all"
-                        style={{ color: formData.theme.primary }}
+                        style={{ color: colors.primary }}
                       />
                       <span>{formData.phone}</span>
                     </div>
@@ -884,7 +936,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                     <div className="flex items-center gap-2 text-xs break-all">
                       <MapPin
                         className="w-3 h-3 break-all"
-                        style={{ color: formData.theme.primary }}
+                        style={{ color: colors.primary }}
                       />
                       <span>{formData.address}</span>
                     </div>
@@ -902,7 +954,7 @@ export const CardPreview: React.FC<CardPreviewProps> = ({
                           target="_blank"
                           rel="noopener noreferrer"
                           className="w-6 h-6 rounded-full flex items-center justify-center"
-                          style={{ backgroundColor: formData.theme.primary }}
+                          style={{ backgroundColor: colors.primary }}
                           title={link.platform}
                         >
                           <Icon className="w-3 h-3 text-white" />
@@ -1,6 +1,12 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Camera, Upload, X, Loader2 } from 'lucide-react';
-import { uploadAvatar, deleteAvatar, compressImage } from '../utils/uploadUtils';
+import {
+  uploadAvatar,
+  deleteAvatar,
+  compressImage,
+  getMaxUploadSizeMb,
+  DEFAULT_MAX_UPLOAD_SIZE_MB
+} from '../utils/uploadUtils';
 
 interface ImageUploadProps {
   currentImageUrl?: string;
@@ -17,8 +23,13 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
 }) => {
   const [uploading, setUploading] = useState(false);
   const [dragOver, setDragOver] = useState(false);
+  const [maxSizeMb, setMaxSizeMb] = useState(DEFAULT_MAX_UPLOAD_SIZE_MB);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    getMaxUploadSizeMb().then(setMaxSizeMb);
+  }, []);
+
   const handleFileSelect = async (file: File) => {
     if (!file) return;
 
@@ -165,7 +176,7 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
           Supports JPEG, PNG, WebP, GIF
         </p>
         <p className="text-xs text-gray-400">
-          Max size: 5MB
+          Max size: {maxSizeMb}MB
         </p>
       </div>
     </div>
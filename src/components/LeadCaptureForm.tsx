@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { X, Send, CheckCircle, Loader2 } from 'lucide-react';
+import {
+  submitLead,
+  validateLeadSubmission,
+  getVisitSource,
+  type LeadFormField,
+  type LeadSubmission,
+} from '../utils/leadUtils';
+
+interface LeadCaptureFormProps {
+  cardId: string;
+  ownerName: string;
+  fields: LeadFormField[];
+  accentColor: string;
+  // Passcode cards only accept leads from visitors who unlocked them
+  unlockToken?: string | null;
+  onClose: () => void;
+}
+
+const EMPTY_SUBMISSION: LeadSubmission = {
+  name: '',
+  email: '',
+  phone: '',
+  company: '',
+  note: '',
+  custom_fields: {},
+};
+
+export const LeadCaptureForm: React.FC<LeadCaptureFormProps> = ({
+  cardId,
+  ownerName,
+  fields,
+  accentColor,
+  unlockToken = null,
+  onClose
+}) => {
+  const [submission, setSubmission] = useState<LeadSubmission>(EMPTY_SUBMISSION);
+  // Hidden from people; bots that fill every input give themselves away
+  const [website, setWebsite] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const updateField = (field: keyof Omit<LeadSubmission, 'custom_fields'>, value: string) => {
+    setSubmission({ ...submission, [field]: value });
+  };
+
+  const updateCustomField = (fieldId: string, value: string) => {
+    setSubmission({
+      ...submission,
+      custom_fields: { ...submission.custom_fields, [fieldId]: value },
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (website) {
+      setSent(true);
+      return;
+    }
+
+    const validationError = validateLeadSubmission(submission, fields);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    const result = await submitLead(cardId, submission, getVisitSource(), unlockToken);
+
+    setSubmitting(false);
+
+    if (result.accepted) {
+      setSent(true);
+    } else if (result.reason === 'rate_limited') {
+      setError('You have already shared your details recently. Please try again later.');
+    } else if (result.reason === 'invalid' && result.message) {
+      setError(result.message);
+    } else {
+      setError('Failed to send your details. Please try again.');
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Exchange Contact
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {sent ? (
+          <div className="p-8 text-center">
+            <CheckCircle className="w-12 h-12 mx-auto mb-4" style={{ color: accentColor }} />
+            <h4 className="text-lg font-semibold text-gray-900 mb-2">Thanks!</h4>
+            <p className="text-gray-600 mb-6">
+              Your details have been shared with {ownerName}.
+            </p>
+            <button
+              onClick={onClose}
+              className="w-full px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+            <p className="text-sm text-gray-600">
+              Share your details with {ownerName} so they can get back to you.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={submission.name}
+                onChange={(e) => updateField('name', e.target.value)}
+                className={inputClass}
+                maxLength={200}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+              <input
+                type="email"
+                value={submission.email}
+                onChange={(e) => updateField('email', e.target.value)}
+                className={inputClass}
+                maxLength={320}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+              <input
+                type="tel"
+                value={submission.phone}
+                onChange={(e) => updateField('phone', e.target.value)}
+                className={inputClass}
+                maxLength={50}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Company</label>
+              <input
+                type="text"
+                value={submission.company}
+                onChange={(e) => updateField('company', e.target.value)}
+                className={inputClass}
+                maxLength={200}
+              />
+            </div>
+
+            {fields.map(field => (
+              <div key={field.id}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {field.label}{field.required && ' *'}
+                </label>
+                {field.type === 'textarea' ? (
+                  <textarea
+                    value={submission.custom_fields[field.id] || ''}
+                    onChange={(e) => updateCustomField(field.id, e.target.value)}
+                    className={inputClass}
+                    rows={3}
+                    required={field.required}
+                  />
+                ) : field.type === 'select' ? (
+                  <select
+                    value={submission.custom_fields[field.id] || ''}
+                    onChange={(e) => updateCustomField(field.id, e.target.value)}
+                    className={inputClass}
+                    required={field.required}
+                  >
+                    <option value="">Select...</option>
+                    {field.options.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    value={submission.custom_fields[field.id] || ''}
+                    onChange={(e) => updateCustomField(field.id, e.target.value)}
+                    className={inputClass}
+                    required={field.required}
+                  />
+                )}
+              </div>
+            ))}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Message</label>
+              <textarea
+                value={submission.note}
+                onChange={(e) => updateField('note', e.target.value)}
+                className={inputClass}
+                rows={3}
+                maxLength={2000}
+              />
+            </div>
+
+            <input
+              type="text"
+              name="website"
+              value={website}
+              onChange={(e) => setWebsite(e.target.value)}
+              className="hidden"
+              tabIndex={-1}
+              autoComplete="off"
+              aria-hidden="true"
+            />
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Please add an email address or phone number.
+            </p>
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 text-white rounded-lg transition-opacity hover:opacity-90 disabled:opacity-50"
+              style={{ backgroundColor: accentColor }}
+            >
+              {submitting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
+              Send My Details
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
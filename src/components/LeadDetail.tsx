@@ -0,0 +1,334 @@
+import React, { useState } from 'react';
+import { X, Mail, Phone, Building2, Trash2, Plus, Bell, Check, ArrowRight, UserPlus, MessageSquare } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { fromDateTimeInputValue } from '../utils/scheduleUtils';
+import {
+  LEAD_STATUSES,
+  LEAD_STATUS_LABELS,
+  LEAD_SOURCE_LABELS,
+  REMINDER_STATE_LABELS,
+  REMINDER_STATE_STYLES,
+  getLeadStatus,
+  getLeadSource,
+  getLeadFormFields,
+  getReminderState,
+  sortLeadTimeline,
+  buildLeadsVCard,
+  downloadVCardFile,
+  type LeadStatus,
+  type LeadWithCard,
+} from '../utils/leadUtils';
+
+type ActionResult = Promise<{ success: boolean; error?: string }>;
+
+interface LeadDetailProps {
+  lead: LeadWithCard;
+  onClose: () => void;
+  onStatusChange: (leadId: string, status: LeadStatus) => ActionResult;
+  onDelete: (leadId: string) => ActionResult;
+  onAddNote: (leadId: string, body: string) => ActionResult;
+  onDeleteNote: (leadId: string, noteId: string) => ActionResult;
+  onAddReminder: (leadId: string, dueAt: string, note: string) => ActionResult;
+  onCompleteReminder: (leadId: string, reminderId: string, completed: boolean) => ActionResult;
+  onDeleteReminder: (leadId: string, reminderId: string) => ActionResult;
+}
+
+export const LeadDetail: React.FC<LeadDetailProps> = ({
+  lead,
+  onClose,
+  onStatusChange,
+  onDelete,
+  onAddNote,
+  onDeleteNote,
+  onAddReminder,
+  onCompleteReminder,
+  onDeleteReminder
+}) => {
+  const { user } = useAuth();
+  const [noteInput, setNoteInput] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+  const [reminderDue, setReminderDue] = useState('');
+  const [reminderNote, setReminderNote] = useState('');
+  const [savingReminder, setSavingReminder] = useState(false);
+
+  const status = getLeadStatus(lead);
+  const customFields = (lead.custom_fields as Record<string, string>) || {};
+  const fieldLabels = Object.fromEntries(
+    getLeadFormFields(lead.business_cards?.lead_form_fields).map((field) => [field.id, field.label])
+  );
+  const reminders = [...lead.lead_reminders].sort((a, b) => a.due_at.localeCompare(b.due_at));
+
+  const handleStatusChange = async (newStatus: LeadStatus) => {
+    const result = await onStatusChange(lead.id, newStatus);
+    if (!result.success) {
+      alert('Failed to update lead stage. Please try again.');
+    }
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!noteInput.trim()) return;
+
+    setSavingNote(true);
+    const result = await onAddNote(lead.id, noteInput);
+    setSavingNote(false);
+
+    if (result.success) {
+      setNoteInput('');
+    } else {
+      alert('Failed to add note. Please try again.');
+    }
+  };
+
+  const handleAddReminder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const dueAt = fromDateTimeInputValue(reminderDue);
+    if (!dueAt) return;
+
+    setSavingReminder(true);
+    const result = await onAddReminder(lead.id, dueAt, reminderNote);
+    setSavingReminder(false);
+
+    if (result.success) {
+      setReminderDue('');
+      setReminderNote('');
+    } else {
+      alert('Failed to add reminder. Please try again.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete the lead from ${lead.name}? This cannot be undone.`)) return;
+
+    const result = await onDelete(lead.id);
+    if (result.success) {
+      onClose();
+    } else {
+      alert('Failed to delete lead. Please try again.');
+    }
+  };
+
+  const handleSaveContact = () => {
+    downloadVCardFile(buildLeadsVCard([lead]), `${lead.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'lead'}.vcf`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-3xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900 truncate">{lead.name}</h3>
+            <p className="text-sm text-gray-500">
+              Via {LEAD_SOURCE_LABELS[getLeadSource(lead)]} on {lead.business_cards?.title || 'Untitled card'} · {new Date(lead.created_at).toLocaleString()}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Contact Details */}
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Stage</label>
+              <select
+                value={status}
+                onChange={(e) => handleStatusChange(e.target.value as LeadStatus)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {LEAD_STATUSES.map((option) => (
+                  <option key={option} value={option}>{LEAD_STATUS_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-3 text-sm">
+              {lead.email && (
+                <a href={`mailto:${lead.email}`} className="flex items-center gap-2 text-blue-600 hover:underline">
+                  <Mail className="w-4 h-4" />
+                  {lead.email}
+                </a>
+              )}
+              {lead.phone && (
+                <a href={`tel:${lead.phone}`} className="flex items-center gap-2 text-blue-600 hover:underline">
+                  <Phone className="w-4 h-4" />
+                  {lead.phone}
+                </a>
+              )}
+              {lead.company && (
+                <p className="flex items-center gap-2 text-gray-700">
+                  <Building2 className="w-4 h-4" />
+                  {lead.company}
+                </p>
+              )}
+              {lead.note && (
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase">Message</p>
+                  <p className="text-gray-700 whitespace-pre-wrap">{lead.note}</p>
+                </div>
+              )}
+              {Object.entries(customFields).map(([fieldId, value]) => (
+                <div key={fieldId}>
+                  <p className="text-xs font-medium text-gray-500 uppercase">{fieldLabels[fieldId] || fieldId}</p>
+                  <p className="text-gray-700 whitespace-pre-wrap">{value}</p>
+                </div>
+              ))}
+            </div>
+
+            {/* Follow-up Reminders */}
+            <div className="border-t border-gray-200 pt-4 space-y-3">
+              <h4 className="font-medium text-gray-900 flex items-center gap-2">
+                <Bell className="w-4 h-4" />
+                Follow-ups
+              </h4>
+
+              {reminders.map((reminder) => {
+                const state = getReminderState(reminder);
+                return (
+                  <div key={reminder.id} className="flex items-start gap-3 p-3 bg-gray-50 rounded-lg">
+                    <button
+                      onClick={() => onCompleteReminder(lead.id, reminder.id, !reminder.completed_at)}
+                      className={`mt-0.5 w-5 h-5 rounded border flex items-center justify-center flex-shrink-0 ${
+                        reminder.completed_at ? 'bg-green-600 border-green-600 text-white' : 'border-gray-300 bg-white'
+                      }`}
+                      title={reminder.completed_at ? 'Mark as not done' : 'Mark as done'}
+                    >
+                      {reminder.completed_at && <Check className="w-3 h-3" />}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className={`text-sm ${reminder.completed_at ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                          {new Date(reminder.due_at).toLocaleString()}
+                        </p>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${REMINDER_STATE_STYLES[state]}`}>
+                          {REMINDER_STATE_LABELS[state]}
+                        </span>
+                      </div>
+                      {reminder.note && <p className="text-sm text-gray-600">{reminder.note}</p>}
+                    </div>
+                    <button
+                      onClick={() => onDeleteReminder(lead.id, reminder.id)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Delete reminder"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+
+              <form onSubmit={handleAddReminder} className="space-y-2">
+                <input
+                  type="datetime-local"
+                  value={reminderDue}
+                  onChange={(e) => setReminderDue(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  required
+                />
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={reminderNote}
+                    onChange={(e) => setReminderNote(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                    placeholder="What to follow up on (optional)"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!reminderDue || savingReminder}
+                    className="flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Remind me
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+
+          {/* Notes Timeline */}
+          <div className="space-y-4">
+            <h4 className="font-medium text-gray-900 flex items-center gap-2">
+              <MessageSquare className="w-4 h-4" />
+              Timeline
+            </h4>
+
+            <form onSubmit={handleAddNote} className="space-y-2">
+              <textarea
+                value={noteInput}
+                onChange={(e) => setNoteInput(e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                placeholder="Add a note, e.g. what you talked about"
+              />
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={!noteInput.trim() || savingNote}
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Add Note
+                </button>
+              </div>
+            </form>
+
+            <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+              {sortLeadTimeline(lead.lead_notes).map((note) => (
+                <li key={note.id} className="relative pl-4">
+                  <span className="absolute -left-1.5 top-1.5 w-3 h-3 rounded-full bg-white border-2 border-blue-600" />
+                  <div className="flex items-start justify-between gap-2">
+                    {note.kind === 'stage' ? (
+                      <p className="text-sm text-gray-600 flex items-center gap-1">
+                        <ArrowRight className="w-3 h-3" />
+                        Moved to {LEAD_STATUS_LABELS[getLeadStatus({ status: note.body })]}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-800 whitespace-pre-wrap">{note.body}</p>
+                    )}
+                    {note.kind === 'note' && note.author_id === user?.id && (
+                      <button
+                        onClick={() => onDeleteNote(lead.id, note.id)}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors flex-shrink-0"
+                        title="Delete note"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-400">{new Date(note.created_at).toLocaleString()}</p>
+                </li>
+              ))}
+              <li className="relative pl-4">
+                <span className="absolute -left-1.5 top-1.5 w-3 h-3 rounded-full bg-blue-600" />
+                <p className="text-sm text-gray-600">Shared their details</p>
+                <p className="text-xs text-gray-400">{new Date(lead.created_at).toLocaleString()}</p>
+              </li>
+            </ol>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200">
+          <button
+            onClick={handleDelete}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete Lead
+          </button>
+          <button
+            onClick={handleSaveContact}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <UserPlus className="w-4 h-4" />
+            Save as Contact
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React from 'react';
+import { Plus, Trash2, Inbox } from 'lucide-react';
+import {
+  createLeadFormField,
+  LEAD_FIELD_TYPES,
+  LEAD_FIELD_TYPE_LABELS,
+  MAX_LEAD_FORM_FIELDS,
+  type LeadFieldType,
+  type LeadFormField,
+} from '../utils/leadUtils';
+
+interface LeadFormBuilderProps {
+  enabled: boolean;
+  fields: LeadFormField[];
+  onEnabledChange: (enabled: boolean) => void;
+  onFieldsChange: (fields: LeadFormField[]) => void;
+}
+
+export const LeadFormBuilder: React.FC<LeadFormBuilderProps> = ({
+  enabled,
+  fields,
+  onEnabledChange,
+  onFieldsChange
+}) => {
+  const updateField = (fieldId: string, updates: Partial<LeadFormField>) => {
+    onFieldsChange(fields.map(field =>
+      field.id === fieldId ? { ...field, ...updates } : field
+    ));
+  };
+
+  const removeField = (fieldId: string) => {
+    onFieldsChange(fields.filter(field => field.id !== fieldId));
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="mt-1 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <span>
+          <span className="block text-sm font-medium text-gray-700 flex items-center gap-1">
+            <Inbox className="w-4 h-4" />
+            Exchange contact form
+          </span>
+          <span className="block text-xs text-gray-500">
+            Visitors can leave their name, email, phone, company and a message. New leads appear in your Leads inbox.
+          </span>
+        </span>
+      </label>
+
+      {enabled && (
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-gray-700">Extra questions</p>
+
+          {fields.length === 0 && (
+            <p className="text-xs text-gray-500">
+              Add your own questions, such as "How did we meet?" or "What are you interested in?".
+            </p>
+          )}
+
+          {fields.map(field => (
+            <div key={field.id} className="p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={field.label}
+                  onChange={(e) => updateField(field.id, { label: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  placeholder="Question"
+                  maxLength={100}
+                />
+                <select
+                  value={field.type}
+                  onChange={(e) => updateField(field.id, { type: e.target.value as LeadFieldType })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                >
+                  {LEAD_FIELD_TYPES.map(type => (
+                    <option key={type} value={type}>{LEAD_FIELD_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => removeField(field.id)}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Remove question"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              {field.type === 'select' && (
+                <input
+                  type="text"
+                  value={field.options.join(', ')}
+                  onChange={(e) => updateField(field.id, { options: e.target.value.split(',') })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  placeholder="Options, separated by commas"
+                />
+              )}
+
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={field.required}
+                  onChange={(e) => updateField(field.id, { required: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Required
+              </label>
+            </div>
+          ))}
+
+          {fields.length < MAX_LEAD_FORM_FIELDS && (
+            <button
+              type="button"
+              onClick={() => onFieldsChange([...fields, createLeadFormField()])}
+              className="flex items-center gap-2 px-3 py-2 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add question
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Bell } from 'lucide-react';
+import {
+  LEAD_STATUSES,
+  LEAD_STATUS_LABELS,
+  LEAD_STATUS_STYLES,
+  LEAD_SOURCE_LABELS,
+  REMINDER_STATE_STYLES,
+  getLeadStatus,
+  getLeadSource,
+  getNextReminder,
+  getReminderState,
+  type LeadStatus,
+  type LeadWithCard,
+} from '../utils/leadUtils';
+
+interface LeadPipelineBoardProps {
+  leads: LeadWithCard[];
+  onSelect: (lead: LeadWithCard) => void;
+  onMove: (leadId: string, status: LeadStatus) => void;
+}
+
+export const LeadPipelineBoard: React.FC<LeadPipelineBoardProps> = ({ leads, onSelect, onMove }) => {
+  const [dragOverStatus, setDragOverStatus] = useState<LeadStatus | null>(null);
+
+  const handleDrop = (e: React.DragEvent, status: LeadStatus) => {
+    e.preventDefault();
+    setDragOverStatus(null);
+
+    const leadId = e.dataTransfer.getData('text/plain');
+    const lead = leads.find((item) => item.id === leadId);
+    if (lead && getLeadStatus(lead) !== status) {
+      onMove(leadId, status);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+      {LEAD_STATUSES.map((status) => {
+        const columnLeads = leads.filter((lead) => getLeadStatus(lead) === status);
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOverStatus(status);
+            }}
+            onDragLeave={() => setDragOverStatus(null)}
+            onDrop={(e) => handleDrop(e, status)}
+            className={`rounded-xl p-3 min-h-[200px] transition-colors ${
+              dragOverStatus === status ? 'bg-blue-50 ring-2 ring-blue-300' : 'bg-gray-100'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3 px-1">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${LEAD_STATUS_STYLES[status]}`}>
+                {LEAD_STATUS_LABELS[status]}
+              </span>
+              <span className="text-sm text-gray-500">{columnLeads.length}</span>
+            </div>
+
+            <div className="space-y-2">
+              {columnLeads.map((lead) => {
+                const nextReminder = getNextReminder(lead);
+                return (
+                  <div
+                    key={lead.id}
+                    draggable
+                    onDragStart={(e) => e.dataTransfer.setData('text/plain', lead.id)}
+                    onClick={() => onSelect(lead)}
+                    className="bg-white rounded-lg p-3 shadow-sm border border-gray-200 cursor-pointer hover:shadow-md transition-shadow"
+                  >
+                    <p className="font-medium text-gray-900 truncate">{lead.name}</p>
+                    {lead.company && <p className="text-sm text-gray-500 truncate">{lead.company}</p>}
+                    <p className="text-xs text-gray-400 mt-1 truncate">
+                      {LEAD_SOURCE_LABELS[getLeadSource(lead)]} · {lead.business_cards?.title || 'Untitled card'}
+                    </p>
+                    {nextReminder && (
+                      <span className={`inline-flex items-center gap-1 mt-2 px-2 py-0.5 rounded-full text-xs font-medium ${REMINDER_STATE_STYLES[getReminderState(nextReminder)]}`}>
+                        <Bell className="w-3 h-3" />
+                        {new Date(nextReminder.due_at).toLocaleDateString()}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { Search, Download, Inbox, List, Columns, UserPlus, Bell } from 'lucide-react';
+import { useLeads } from '../hooks/useLeads';
+import { downloadCSV } from '../utils/csvImportUtils';
+import { LeadDetail } from './LeadDetail';
+import { LeadPipelineBoard } from './LeadPipelineBoard';
+import {
+  LEAD_STATUSES,
+  LEAD_STATUS_LABELS,
+  LEAD_STATUS_STYLES,
+  LEAD_SOURCES,
+  LEAD_SOURCE_LABELS,
+  REMINDER_STATE_STYLES,
+  getLeadStatus,
+  getLeadSource,
+  getNextReminder,
+  getReminderState,
+  buildLeadsCSV,
+  buildLeadsVCard,
+  downloadVCardFile,
+  type LeadSource,
+  type LeadStatus,
+} from '../utils/leadUtils';
+
+type LeadView = 'list' | 'pipeline';
+type LeadStatusFilter = 'all' | LeadStatus;
+type LeadSourceFilter = 'all' | LeadSource;
+
+export const LeadsManager: React.FC = () => {
+  const {
+    leads,
+    loading,
+    updateLeadStatus,
+    deleteLead,
+    addNote,
+    deleteNote,
+    addReminder,
+    setReminderCompleted,
+    deleteReminder,
+  } = useLeads();
+  const [view, setView] = useState<LeadView>('list');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<LeadStatusFilter>('all');
+  const [cardFilter, setCardFilter] = useState('all');
+  const [sourceFilter, setSourceFilter] = useState<LeadSourceFilter>('all');
+  const [followUpsDue, setFollowUpsDue] = useState(false);
+  const [selectedLeadId, setSelectedLeadId] = useState<string | null>(null);
+
+  const cardOptions = Array.from(
+    new Map(leads.map((lead) => [lead.card_id, lead.business_cards?.title || 'Untitled card'])).entries()
+  );
+
+  const isFollowUpDue = (lead: typeof leads[number]) => {
+    const nextReminder = getNextReminder(lead);
+    return !!nextReminder && getReminderState(nextReminder) !== 'upcoming';
+  };
+
+  const search = searchTerm.trim().toLowerCase();
+  // Stage filtering only applies to the list; the pipeline already splits leads by stage
+  const filteredLeads = leads.filter((lead) => {
+    const matchesSearch = !search || [lead.name, lead.email, lead.phone, lead.company, lead.note, lead.business_cards?.title]
+      .some((value) => value?.toLowerCase().includes(search));
+    const matchesCard = cardFilter === 'all' || lead.card_id === cardFilter;
+    const matchesSource = sourceFilter === 'all' || getLeadSource(lead) === sourceFilter;
+    const matchesFollowUp = !followUpsDue || isFollowUpDue(lead);
+    return matchesSearch && matchesCard && matchesSource && matchesFollowUp;
+  });
+  const visibleLeads = view === 'list'
+    ? filteredLeads.filter((lead) => statusFilter === 'all' || getLeadStatus(lead) === statusFilter)
+    : filteredLeads;
+
+  const countByStatus = (status: LeadStatus) =>
+    filteredLeads.filter((lead) => getLeadStatus(lead) === status).length;
+  const dueCount = leads.filter(isFollowUpDue).length;
+  const selectedLead = leads.find((lead) => lead.id === selectedLeadId) || null;
+  const exportName = `leads-${new Date().toISOString().slice(0, 10)}`;
+
+  const handleMove = async (leadId: string, status: LeadStatus) => {
+    const result = await updateLeadStatus(leadId, status);
+    if (!result.success) {
+      alert('Failed to update lead stage. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Leads</h2>
+          <p className="text-gray-600">People who shared their details through your cards</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {([
+              { id: 'list', label: 'List', icon: List },
+              { id: 'pipeline', label: 'Pipeline', icon: Columns },
+            ] as const).map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setView(option.id)}
+                className={`flex items-center gap-1 px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  view === option.id
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                <option.icon className="w-4 h-4" />
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => downloadVCardFile(buildLeadsVCard(visibleLeads), `${exportName}.vcf`)}
+            disabled={visibleLeads.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <UserPlus className="w-4 h-4" />
+            vCard
+          </button>
+          <button
+            onClick={() => downloadCSV(buildLeadsCSV(visibleLeads), `${exportName}.csv`)}
+            disabled={visibleLeads.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      {/* Search and Filters */}
+      <div className="flex flex-col lg:flex-row gap-4">
+        <div className="relative flex-1 max-w-md">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search by name, email, phone, company or card..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <select
+          value={cardFilter}
+          onChange={(e) => setCardFilter(e.target.value)}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="all">All Cards</option>
+          {cardOptions.map(([cardId, title]) => (
+            <option key={cardId} value={cardId}>{title}</option>
+          ))}
+        </select>
+        <select
+          value={sourceFilter}
+          onChange={(e) => setSourceFilter(e.target.value as LeadSourceFilter)}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="all">All Sources</option>
+          {LEAD_SOURCES.map((source) => (
+            <option key={source} value={source}>{LEAD_SOURCE_LABELS[source]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setFollowUpsDue(!followUpsDue)}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+            followUpsDue
+              ? 'bg-red-600 text-white border-red-600'
+              : 'bg-white text-gray-600 border-gray-300 hover:border-gray-400'
+          }`}
+        >
+          <Bell className="w-4 h-4" />
+          Follow-ups due
+          <span className="opacity-75">{dueCount}</span>
+        </button>
+      </div>
+
+      {view === 'list' && (
+        <div className="flex flex-wrap gap-2">
+          {(['all', ...LEAD_STATUSES] as const).map((status) => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+                statusFilter === status
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              {status === 'all' ? 'All' : LEAD_STATUS_LABELS[status]}
+              <span className="ml-1 opacity-75">
+                {status === 'all' ? filteredLeads.length : countByStatus(status)}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Leads */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : leads.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl border border-gray-200">
+          <Inbox className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No leads yet</h3>
+          <p className="text-gray-600">
+            Turn on the exchange contact form in a card's Contact tab to start collecting leads.
+          </p>
+        </div>
+      ) : view === 'pipeline' ? (
+        <LeadPipelineBoard
+          leads={visibleLeads}
+          onSelect={(lead) => setSelectedLeadId(lead.id)}
+          onMove={handleMove}
+        />
+      ) : visibleLeads.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl border border-gray-200">
+          <p className="text-gray-600">No leads match your filters.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-200">
+          {visibleLeads.map((lead) => {
+            const status = getLeadStatus(lead);
+            const nextReminder = getNextReminder(lead);
+
+            return (
+              <button
+                key={lead.id}
+                onClick={() => setSelectedLeadId(lead.id)}
+                className="w-full flex items-center gap-4 px-6 py-4 text-left hover:bg-gray-50 transition-colors"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-gray-900 truncate">{lead.name}</p>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${LEAD_STATUS_STYLES[status]}`}>
+                      {LEAD_STATUS_LABELS[status]}
+                    </span>
+                    {nextReminder && (
+                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${REMINDER_STATE_STYLES[getReminderState(nextReminder)]}`}>
+                        <Bell className="w-3 h-3" />
+                        {new Date(nextReminder.due_at).toLocaleDateString()}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500 truncate">
+                    {[lead.email, lead.phone, lead.company].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <div className="hidden md:block text-right text-sm text-gray-500">
+                  <p className="truncate max-w-[200px]">
+                    {lead.business_cards?.title || 'Untitled card'} · {LEAD_SOURCE_LABELS[getLeadSource(lead)]}
+                  </p>
+                  <p>{new Date(lead.created_at).toLocaleString()}</p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {selectedLead && (
+        <LeadDetail
+          lead={selectedLead}
+          onClose={() => setSelectedLeadId(null)}
+          onStatusChange={updateLeadStatus}
+          onDelete={deleteLead}
+          onAddNote={addNote}
+          onDeleteNote={deleteNote}
+          onAddReminder={addReminder}
+          onCompleteReminder={setReminderCompleted}
+          onDeleteReminder={deleteReminder}
+        />
+      )}
+    </div>
+  );
+};
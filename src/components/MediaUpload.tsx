@@ -1,7 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { X, Loader2, Video, Plus, ExternalLink, Play } from 'lucide-react';
 import ReactModal from 'react-modal';
 import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/supabase';
+import { UpgradePrompt } from './UpgradePrompt';
+import { usePlan } from '../hooks/usePlan';
+import { getPlanLimitMessage, isWithinLimit } from '../utils/planUtils';
+
+type MediaItemRow = Database['public']['Tables']['media_items']['Row'];
 
 interface MediaItem {
   id: string;
@@ -16,58 +22,97 @@ interface MediaUploadProps {
   mediaItems: MediaItem[];
   onMediaChange: (items: MediaItem[]) => void;
   userId: string;
+  // Editing a published card: the draft's media list (once it has one) and where changes
+  // are staged instead of the live card
+  stagedRows?: MediaItemRow[];
+  onStage?: (rows: MediaItemRow[]) => Promise<boolean>;
 }
 
+const toMediaItems = (rows: MediaItemRow[]): MediaItem[] =>
+  rows
+    .filter(item => item.type === 'video' && item.is_active)
+    .map(item => ({
+      id: item.id,
+      type: 'video',
+      url: item.url,
+      title: item.title,
+      description: item.description || undefined
+    }));
+
 export const MediaUpload: React.FC<MediaUploadProps> = ({
   cardId,
   mediaItems,
   onMediaChange,
-  userId
+  userId,
+  stagedRows,
+  onStage
 }) => {
   const [uploading, setUploading] = useState(false);
   const [newVideoUrl, setNewVideoUrl] = useState('');
   const [loading, setLoading] = useState(true);
   const [showVideoModal, setShowVideoModal] = useState(false);
   const [activeVideo, setActiveVideo] = useState<number>(0);
+  const [rows, setRows] = useState<MediaItemRow[]>([]);
+  const { entitlements } = usePlan();
+  const canAddMedia = isWithinLimit(entitlements.max_media_items, mediaItems.length);
 
-  // Load media items from database on component mount
-  useEffect(() => {
-    loadMediaItems();
-  }, [cardId]);
+  // The parent passes a new callback on every render; loading should not follow it
+  const onMediaChangeRef = useRef(onMediaChange);
+  onMediaChangeRef.current = onMediaChange;
 
-  const loadMediaItems = async () => {
-    if (!cardId) return;
+  const showRows = (nextRows: MediaItemRow[]) => {
+    setRows(nextRows);
+    onMediaChange(toMediaItems(nextRows));
+  };
 
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('media_items')
-        .select('*')
-        .eq('card_id', cardId)
-        .eq('type', 'video')
-        .eq('is_active', true)
-        .order('display_order', { ascending: true });
+  // Staged changes replace the draft's whole list, so keep every row, not just the shown ones
+  const saveRows = async (nextRows: MediaItemRow[]) => {
+    const previousRows = rows;
+    showRows(nextRows);
+    if (onStage && await onStage(nextRows)) return true;
+    showRows(previousRows);
+    return false;
+  };
 
-      if (error) {
-        console.error('Error loading media items:', error);
+  // Load media items from the draft or the database on component mount
+  useEffect(() => {
+    const showLoadedRows = (loadedRows: MediaItemRow[]) => {
+      setRows(loadedRows);
+      onMediaChangeRef.current(toMediaItems(loadedRows));
+    };
+
+    const loadMediaItems = async () => {
+      if (!cardId) return;
+
+      if (stagedRows) {
+        showLoadedRows(stagedRows);
+        setLoading(false);
         return;
       }
 
-      const formattedItems: MediaItem[] = (data || []).map(item => ({
-        id: item.id,
-        type: 'video',
-        url: item.url,
-        title: item.title,
-        description: item.description || undefined
-      }));
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from('media_items')
+          .select('*')
+          .eq('card_id', cardId)
+          .order('display_order', { ascending: true });
 
-      onMediaChange(formattedItems);
-    } catch (error) {
-      console.error('Error loading media items:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+        if (error) {
+          console.error('Error loading media items:', error);
+          return;
+        }
+
+        showLoadedRows(data || []);
+      } catch (error) {
+        console.error('Error loading media items:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMediaItems();
+  }, [cardId, stagedRows]);
 
   const getVideoThumbnail = (url: string) => {
     if (url.includes('youtube.com/watch?v=')) {
@@ -111,6 +156,30 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
         title = 'Vimeo Video';
       }
       
+      if (onStage) {
+        const now = new Date().toISOString();
+        const staged = await saveRows([
+          ...rows,
+          {
+            id: crypto.randomUUID(),
+            card_id: cardId,
+            type: 'video',
+            title,
+            description: '',
+            url: newVideoUrl,
+            thumbnail_url: null,
+            file_size: null,
+            mime_type: null,
+            display_order: rows.length,
+            is_active: true,
+            created_at: now,
+            updated_at: now
+          }
+        ]);
+        if (staged) setNewVideoUrl('');
+        return;
+      }
+
       // Save to database first
       const { data, error } = await supabase
         .from('media_items')
@@ -128,19 +197,11 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
 
       if (error) {
         console.error('Database error:', error);
-        alert('Failed to add video link. Please try again.');
+        alert(getPlanLimitMessage(error) || 'Failed to add video link. Please try again.');
         return;
       }
 
-      const mediaItem: MediaItem = {
-        id: data.id,
-        type: 'video',
-        url: data.url,
-        title: data.title,
-        description: data.description || undefined
-      };
-
-      onMediaChange([...mediaItems, mediaItem]);
+      showRows([...rows, data]);
       setNewVideoUrl('');
     } catch (error) {
       console.error('Error adding video:', error);
@@ -152,6 +213,11 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
 
   const removeMediaItem = async (id: string) => {
     try {
+      if (onStage) {
+        await saveRows(rows.filter(item => item.id !== id));
+        return;
+      }
+
       // Remove from database
       const { error } = await supabase
         .from('media_items')
@@ -165,7 +231,7 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
       }
 
       // Update local state
-      onMediaChange(mediaItems.filter(item => item.id !== id));
+      showRows(rows.filter(item => item.id !== id));
     } catch (error) {
       console.error('Error removing video:', error);
       alert('Failed to remove video link. Please try again.');
@@ -173,7 +239,16 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
   };
 
   const updateMediaTitle = async (id: string, newTitle: string) => {
+    const updatedRows = rows.map(media =>
+      media.id === id ? { ...media, title: newTitle } : media
+    );
+
     try {
+      if (onStage) {
+        await saveRows(updatedRows);
+        return;
+      }
+
       const { error } = await supabase
         .from('media_items')
         .update({ title: newTitle })
@@ -185,10 +260,7 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
       }
 
       // Update local state
-      const updatedItems = mediaItems.map(media =>
-        media.id === id ? { ...media, title: newTitle } : media
-      );
-      onMediaChange(updatedItems);
+      showRows(updatedRows);
     } catch (error) {
       console.error('Error updating title:', error);
     }
@@ -206,32 +278,36 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
   return (
     <div className="space-y-6">
       {/* Video URL Input */}
-      <div className="bg-gray-50 rounded-lg p-4">
-        <h4 className="font-medium text-gray-900 mb-3">Add Video Link</h4>
-        <div className="flex gap-2">
-          <input
-            type="url"
-            value={newVideoUrl}
-            onChange={(e) => setNewVideoUrl(e.target.value)}
-            placeholder="Paste YouTube, Vimeo, or other video URL"
-            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          />
-          <button
-            onClick={handleVideoUrlAdd}
-            disabled={!newVideoUrl.trim() || uploading}
-            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            {uploading ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
-              <Plus className="w-4 h-4" />
-            )}
-          </button>
+      {canAddMedia ? (
+        <div className="bg-gray-50 rounded-lg p-4">
+          <h4 className="font-medium text-gray-900 mb-3">Add Video Link</h4>
+          <div className="flex gap-2">
+            <input
+              type="url"
+              value={newVideoUrl}
+              onChange={(e) => setNewVideoUrl(e.target.value)}
+              placeholder="Paste YouTube, Vimeo, or other video URL"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={handleVideoUrlAdd}
+              disabled={!newVideoUrl.trim() || uploading}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {uploading ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4" />
+              )}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Supports YouTube, Vimeo, Dailymotion, Twitch, and other video platforms
+          </p>
         </div>
-        <p className="text-xs text-gray-500 mt-2">
-          Supports YouTube, Vimeo, Dailymotion, Twitch, and other video platforms
-        </p>
-      </div>
+      ) : (
+        <UpgradePrompt entitlement="max_media_items" used={mediaItems.length} />
+      )}
 
       {/* Video Links Grid */}
       {mediaItems.length > 0 ? (
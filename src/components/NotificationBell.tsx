@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Bell, Inbox, Clock, CalendarDays } from 'lucide-react';
+import { useNotifications } from '../hooks/useNotifications';
+import type { Notification } from '../hooks/useNotifications';
+
+interface NotificationBellProps {
+  onOpenLeads: () => void;
+  onOpenBookings: () => void;
+}
+
+export const NotificationBell: React.FC<NotificationBellProps> = ({ onOpenLeads, onOpenBookings }) => {
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.read_at) {
+      markRead(notification.id);
+    }
+    if (notification.type.startsWith('lead.')) {
+      onOpenLeads();
+    } else if (notification.type.startsWith('booking.')) {
+      onOpenBookings();
+    }
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-lg hover:bg-gray-100 transition-colors"
+        title="Notifications"
+      >
+        <Bell className="w-5 h-5 text-gray-600" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 bg-red-600 text-white text-xs font-medium rounded-full flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-lg border border-gray-200 z-50 overflow-hidden">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+              <p className="font-semibold text-gray-900">Notifications</p>
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => markAllRead()}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                >
+                  Mark all read
+                </button>
+              )}
+            </div>
+
+            {notifications.length === 0 ? (
+              <p className="px-4 py-8 text-sm text-gray-500 text-center">You're all caught up.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                {notifications.map((notification) => (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleSelect(notification)}
+                    className={`w-full flex gap-3 px-4 py-3 text-left hover:bg-gray-50 transition-colors ${
+                      notification.read_at ? '' : 'bg-blue-50'
+                    }`}
+                  >
+                    {notification.type === 'lead.reminder' ? (
+                      <Clock className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                    ) : notification.type.startsWith('booking.') ? (
+                      <CalendarDays className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+                    ) : (
+                      <Inbox className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{notification.title}</p>
+                      {notification.body && (
+                        <p className="text-sm text-gray-600 truncate">{notification.body}</p>
+                      )}
+                      <p className="text-xs text-gray-400 mt-1">
+                        {new Date(notification.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,444 @@
+import React, { useState, useEffect } from 'react';
+import { Building2, Lock, Mail, Save, Trash2, UserPlus, Users } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useOrganization } from '../hooks/useOrganization';
+import { ImageUpload } from './ImageUpload';
+import {
+  THEMES,
+  DEFAULT_LAYOUT,
+  CARD_SHAPES,
+  LAYOUT_STYLES,
+  TEXT_ALIGNMENTS,
+  FONT_FAMILIES,
+} from '../utils/themeUtils';
+import {
+  BRAND_FIELDS,
+  BRAND_FIELD_LABELS,
+  ORGANIZATION_ROLE_LABELS,
+} from '../utils/organizationUtils';
+import type { CardLayout, CardTheme } from '../utils/themeUtils';
+import type { BrandField, OrganizationRole } from '../utils/organizationUtils';
+
+interface OrganizationSettingsProps {
+  organizationState: ReturnType<typeof useOrganization>;
+  onBrandChange?: () => void;
+}
+
+interface BrandDraft {
+  name: string;
+  company: string;
+  website: string;
+  address: string;
+  logo_url: string;
+  theme: CardTheme;
+  layout: CardLayout;
+  shape: string;
+  locked_fields: string[];
+}
+
+export const OrganizationSettings: React.FC<OrganizationSettingsProps> = ({ organizationState, onBrandChange }) => {
+  const { user } = useAuth();
+  const {
+    organization,
+    membership,
+    members,
+    loading,
+    canManage,
+    createOrganization,
+    updateOrganization,
+    inviteMember,
+    updateMemberRole,
+    removeMember,
+  } = organizationState;
+
+  const [newOrg, setNewOrg] = useState({ name: '', company: '' });
+  const [invite, setInvite] = useState<{ email: string; role: OrganizationRole }>({ email: '', role: 'member' });
+  const [brand, setBrand] = useState<BrandDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!organization) {
+      setBrand(null);
+      return;
+    }
+
+    setBrand({
+      name: organization.name,
+      company: organization.company || '',
+      website: organization.website || '',
+      address: organization.address || '',
+      logo_url: organization.logo_url || '',
+      theme: (organization.theme as unknown as CardTheme) || THEMES[0],
+      layout: (organization.layout as unknown as CardLayout) || DEFAULT_LAYOUT,
+      shape: organization.shape || 'rectangle',
+      locked_fields: organization.locked_fields,
+    });
+  }, [organization]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newOrg.name.trim()) return;
+
+    setSaving(true);
+    const result = await createOrganization(newOrg.name.trim(), newOrg.company.trim());
+    setSaving(false);
+
+    if (!result.success) {
+      alert('Failed to create organization. Please try again.');
+      return;
+    }
+    onBrandChange?.();
+  };
+
+  const handleSaveBrand = async () => {
+    if (!brand) return;
+
+    setSaving(true);
+    const result = await updateOrganization({
+      name: brand.name.trim() || organization?.name,
+      company: brand.company.trim() || null,
+      website: brand.website.trim() || null,
+      address: brand.address.trim() || null,
+      logo_url: brand.logo_url || null,
+      theme: brand.theme as unknown as Record<string, string>,
+      layout: brand.layout as unknown as Record<string, string>,
+      shape: brand.shape,
+      locked_fields: brand.locked_fields,
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      alert('Failed to save brand template. Please try again.');
+      return;
+    }
+    onBrandChange?.();
+    alert('Brand template saved. Member cards have been updated.');
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite.email.trim()) return;
+
+    const result = await inviteMember(invite.email, invite.role);
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+    setInvite({ email: '', role: 'member' });
+  };
+
+  const handleRemove = async (memberId: string, isSelf: boolean) => {
+    const message = isSelf
+      ? 'Leave this organization? Your cards will no longer use the company brand.'
+      : 'Remove this member? Their cards will be detached from the organization.';
+    if (!confirm(message)) return;
+
+    const result = await removeMember(memberId);
+    if (!result.success) {
+      alert('Failed to remove member. Please try again.');
+      return;
+    }
+    onBrandChange?.();
+  };
+
+  const toggleLocked = (field: BrandField) => {
+    if (!brand) return;
+    setBrand({
+      ...brand,
+      locked_fields: brand.locked_fields.includes(field)
+        ? brand.locked_fields.filter((locked) => locked !== field)
+        : [...brand.locked_fields, field],
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        <span className="ml-3 text-gray-600">Loading organization...</span>
+      </div>
+    );
+  }
+
+  if (!organization || !membership) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Building2 className="w-6 h-6 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Create an Organization</h3>
+        </div>
+        <p className="text-sm text-gray-600">
+          Run cards for your whole team with one shared brand. If your company invited you,
+          sign in with the invited email and you will join automatically.
+        </p>
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <input
+            type="text"
+            value={newOrg.name}
+            onChange={(e) => setNewOrg({ ...newOrg, name: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Organization name"
+            required
+          />
+          <input
+            type="text"
+            value={newOrg.company}
+            onChange={(e) => setNewOrg({ ...newOrg, company: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Company name on cards"
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Building2 className="w-4 h-4" />
+            Create Organization
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Organization Header */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          {organization.logo_url ? (
+            <img src={organization.logo_url} alt={organization.name} className="w-12 h-12 rounded-lg object-contain" />
+          ) : (
+            <div className="w-12 h-12 rounded-lg bg-blue-100 flex items-center justify-center">
+              <Building2 className="w-6 h-6 text-blue-600" />
+            </div>
+          )}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">{organization.name}</h3>
+            <p className="text-sm text-gray-500">
+              {ORGANIZATION_ROLE_LABELS[membership.role as OrganizationRole]} · {members.filter((m) => m.status === 'active').length} active members
+            </p>
+          </div>
+        </div>
+        {membership.role !== 'owner' && (
+          <button
+            onClick={() => handleRemove(membership.id, true)}
+            className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors text-sm"
+          >
+            Leave Organization
+          </button>
+        )}
+      </div>
+
+      {/* Brand Template */}
+      {brand && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Brand Template</h3>
+            <p className="text-sm text-gray-600">
+              {canManage
+                ? 'Locked fields are applied to every member card and cannot be changed in the card editor.'
+                : 'These fields are set by your organization and applied to your cards.'}
+            </p>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-6">
+            <div className="flex-shrink-0 text-center">
+              {canManage ? (
+                <ImageUpload
+                  currentImageUrl={brand.logo_url}
+                  onImageChange={(url) => setBrand({ ...brand, logo_url: url || '' })}
+                  userId={user?.id || ''}
+                />
+              ) : brand.logo_url ? (
+                <img src={brand.logo_url} alt={brand.name} className="w-32 h-32 rounded-lg object-contain mx-auto" />
+              ) : null}
+              <p className="text-xs text-gray-500 mt-2">Company logo</p>
+            </div>
+            <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
+              {([
+                { key: 'name', label: 'Organization Name' },
+                { key: 'company', label: 'Company Name' },
+                { key: 'website', label: 'Website' },
+                { key: 'address', label: 'Address' },
+              ] as const).map((field) => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                  <input
+                    type="text"
+                    value={brand[field.key]}
+                    onChange={(e) => setBrand({ ...brand, [field.key]: e.target.value })}
+                    disabled={!canManage}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Theme</h4>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {THEMES.map((theme) => (
+                <button
+                  key={theme.name}
+                  onClick={() => setBrand({ ...brand, theme })}
+                  disabled={!canManage}
+                  className={`p-3 rounded-lg border-2 transition-all flex items-center gap-2 ${
+                    brand.theme.name === theme.name
+                      ? 'border-blue-500 ring-2 ring-blue-200'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="w-4 h-4 rounded-full" style={{ backgroundColor: theme.primary }} />
+                  <div className="w-4 h-4 rounded-full" style={{ backgroundColor: theme.secondary }} />
+                  <span className="text-xs font-medium text-gray-900 truncate">{theme.name}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Shape', value: brand.shape, options: CARD_SHAPES, onChange: (value: string) => setBrand({ ...brand, shape: value }) },
+              { label: 'Layout Style', value: brand.layout.style, options: LAYOUT_STYLES, onChange: (value: string) => setBrand({ ...brand, layout: { ...brand.layout, style: value } }) },
+              { label: 'Alignment', value: brand.layout.alignment, options: TEXT_ALIGNMENTS, onChange: (value: string) => setBrand({ ...brand, layout: { ...brand.layout, alignment: value } }) },
+              { label: 'Font', value: brand.layout.font, options: FONT_FAMILIES, onChange: (value: string) => setBrand({ ...brand, layout: { ...brand.layout, font: value } }) },
+            ].map((select) => (
+              <div key={select.label}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{select.label}</label>
+                <select
+                  value={select.value}
+                  onChange={(e) => select.onChange(e.target.value)}
+                  disabled={!canManage}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                >
+                  {select.options.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+              <Lock className="w-4 h-4" />
+              Locked on member cards
+            </h4>
+            <div className="flex flex-wrap gap-4">
+              {BRAND_FIELDS.map((field) => (
+                <label key={field} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={brand.locked_fields.includes(field)}
+                    onChange={() => toggleLocked(field)}
+                    disabled={!canManage}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  {BRAND_FIELD_LABELS[field]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {canManage && (
+            <div className="flex justify-end">
+              <button
+                onClick={handleSaveBrand}
+                disabled={saving}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                {saving ? 'Saving...' : 'Save Brand Template'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Members */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Users className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Members</h3>
+        </div>
+
+        {canManage && (
+          <form onSubmit={handleInvite} className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="email"
+                value={invite.email}
+                onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="colleague@company.com"
+                required
+              />
+            </div>
+            <select
+              value={invite.role}
+              onChange={(e) => setInvite({ ...invite, role: e.target.value as OrganizationRole })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="member">Member</option>
+              <option value="admin">Admin</option>
+            </select>
+            <button
+              type="submit"
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <UserPlus className="w-4 h-4" />
+              Invite
+            </button>
+          </form>
+        )}
+
+        <div className="divide-y divide-gray-100">
+          {members.map((member) => {
+            const isSelf = member.id === membership.id;
+            return (
+              <div key={member.id} className="flex items-center justify-between py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {member.email}{isSelf && ' (you)'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {member.status === 'active'
+                      ? `Joined ${new Date(member.joined_at || member.created_at).toLocaleDateString()}`
+                      : 'Invite pending'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {canManage && member.role !== 'owner' && !isSelf ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => updateMemberRole(member.id, e.target.value as OrganizationRole)}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-lg"
+                    >
+                      <option value="member">Member</option>
+                      <option value="admin">Admin</option>
+                    </select>
+                  ) : (
+                    <span className="inline-flex px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                      {ORGANIZATION_ROLE_LABELS[member.role as OrganizationRole]}
+                    </span>
+                  )}
+                  {canManage && member.role !== 'owner' && !isSelf && (
+                    <button
+                      onClick={() => handleRemove(member.id, false)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Remove Member"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { Crown, Loader2, AlertTriangle, CheckCircle, ExternalLink } from 'lucide-react';
+import { PlansDialog } from './PlansDialog';
+import { usePlan } from '../hooks/usePlan';
+import { useBilling } from '../hooks/useBilling';
+import {
+  ENTITLEMENT_KEYS,
+  ENTITLEMENT_LABELS,
+  formatEntitlement,
+} from '../utils/planUtils';
+import {
+  BILLING_STATUS_LABELS,
+  BILLING_STATUS_STYLES,
+  INVOICE_STATUS_LABELS,
+  INVOICE_STATUS_STYLES,
+  formatPrice,
+  isSubscriptionLive,
+  type BillingStatus,
+  type InvoiceStatus,
+} from '../utils/billingUtils';
+
+interface PlanOverviewProps {
+  cardCount: number;
+}
+
+type CheckoutResult = 'success' | 'canceled';
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '');
+
+export const PlanOverview: React.FC<PlanOverviewProps> = ({ cardCount }) => {
+  const { plans, plan, entitlements, loading } = usePlan();
+  const {
+    subscription,
+    invoices,
+    enabled: billingEnabled,
+    loading: billingLoading,
+    cancelSubscription,
+    resumeSubscription,
+  } = useBilling();
+  const [showPlans, setShowPlans] = useState(false);
+  const [updating, setUpdating] = useState(false);
+  const [checkoutResult, setCheckoutResult] = useState<CheckoutResult | null>(null);
+
+  // Checkout comes back to /admin?billing=success or ?billing=canceled
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const result = url.searchParams.get('billing');
+    if (result === 'success' || result === 'canceled') {
+      setCheckoutResult(result);
+      url.searchParams.delete('billing');
+      window.history.replaceState(null, '', url.toString());
+    }
+  }, []);
+
+  const subscribedPlan = subscription ? plans.find(item => item.id === subscription.plan_id) : null;
+  const hasSubscription = isSubscriptionLive(subscription);
+
+  const handleCancel = async () => {
+    const until = formatDate(subscription?.current_period_end ?? null);
+    if (!confirm(`Cancel your subscription? You keep ${subscribedPlan?.name || 'your plan'}${until ? ` until ${until}` : ''}, then move to Free.`)) return;
+
+    setUpdating(true);
+    const result = await cancelSubscription();
+    setUpdating(false);
+
+    if (!result.success) {
+      alert(result.error || 'Failed to cancel your subscription. Please try again.');
+    }
+  };
+
+  const handleResume = async () => {
+    setUpdating(true);
+    const result = await resumeSubscription();
+    setUpdating(false);
+
+    if (!result.success) {
+      alert(result.error || 'Failed to resume your subscription. Please try again.');
+    }
+  };
+
+  const renderSubscription = () => {
+    if (!subscription) return null;
+    const status = subscription.status as BillingStatus;
+
+    return (
+      <div className="mt-6 pt-6 border-t border-gray-200 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <h4 className="font-medium text-gray-900">Subscription</h4>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${BILLING_STATUS_STYLES[status]}`}>
+            {BILLING_STATUS_LABELS[status]}
+          </span>
+          {subscribedPlan && subscribedPlan.price_cents !== null && (
+            <span className="text-sm text-gray-600">
+              {subscribedPlan.name} · {formatPrice(subscribedPlan.price_cents, subscribedPlan.currency)} / month
+            </span>
+          )}
+        </div>
+
+        {status === 'past_due' && (
+          <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <p>
+              Your last payment failed. Unless it goes through by {formatDate(subscription.grace_period_ends_at)},
+              your account moves to the Free plan.
+            </p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            {status === 'canceled'
+              ? 'Your subscription has ended.'
+              : subscription.cancel_at_period_end
+                ? `Cancels on ${formatDate(subscription.current_period_end)}. You move to the Free plan after that.`
+                : `Renews on ${formatDate(subscription.current_period_end)}.`}
+          </p>
+
+          {hasSubscription && billingEnabled && (
+            <button
+              onClick={subscription.cancel_at_period_end ? handleResume : handleCancel}
+              disabled={updating}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {updating && <Loader2 className="w-4 h-4 animate-spin" />}
+              {subscription.cancel_at_period_end ? 'Resume Subscription' : 'Cancel Subscription'}
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderInvoices = () => {
+    if (invoices.length === 0) return null;
+
+    return (
+      <div className="mt-6 pt-6 border-t border-gray-200">
+        <h4 className="font-medium text-gray-900 mb-3">Billing History</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Plan</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invoices.map(invoice => {
+                const status = invoice.status as InvoiceStatus;
+                return (
+                  <tr key={invoice.id}>
+                    <td className="px-4 py-2 text-gray-900 whitespace-nowrap">{formatDate(invoice.created_at)}</td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {plans.find(item => item.id === invoice.plan_id)?.name || invoice.plan_id || '—'}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                      {invoice.period_start ? `${formatDate(invoice.period_start)} – ${formatDate(invoice.period_end)}` : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900 whitespace-nowrap">
+                      {formatPrice(invoice.amount_cents, invoice.currency)}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${INVOICE_STATUS_STYLES[status]}`}>
+                        {INVOICE_STATUS_LABELS[status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {invoice.invoice_url && (
+                        <a
+                          href={invoice.invoice_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700"
+                        >
+                          View <ExternalLink className="w-3 h-3" />
+                        </a>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Crown className="w-5 h-5 text-amber-600" />
+          Your Plan
+        </h3>
+        <button
+          onClick={() => setShowPlans(true)}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+        >
+          {billingEnabled ? 'Change Plan' : 'Compare Plans'}
+        </button>
+      </div>
+
+      {checkoutResult === 'success' && (
+        <div className="flex items-center gap-2 p-3 mb-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          Payment received. Your plan changes as soon as the payment provider confirms it.
+        </div>
+      )}
+      {checkoutResult === 'canceled' && (
+        <div className="p-3 mb-4 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+          Checkout was cancelled. Your plan has not changed.
+        </div>
+      )}
+
+      {loading || billingLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <p className="text-2xl font-bold text-gray-900">{plan?.name || 'Free'}</p>
+          {plan?.description && <p className="text-sm text-gray-500 mb-4">{plan.description}</p>}
+
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4">
+            {ENTITLEMENT_KEYS.map(key => (
+              <div key={key} className="flex justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                <dt className="text-gray-600">{ENTITLEMENT_LABELS[key]}</dt>
+                <dd className="font-medium text-gray-900">
+                  {key === 'max_cards' && entitlements.max_cards !== null
+                    ? `${cardCount} of ${entitlements.max_cards}`
+                    : formatEntitlement(key, entitlements[key])}
+                </dd>
+              </div>
+            ))}
+          </dl>
+
+          {renderSubscription()}
+          {renderInvoices()}
+        </>
+      )}
+
+      {showPlans && <PlansDialog onClose={() => setShowPlans(false)} />}
+    </div>
+  );
+};
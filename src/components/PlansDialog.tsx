@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { X, Check, Minus, Loader2 } from 'lucide-react';
+import { usePlan } from '../hooks/usePlan';
+import { useBilling } from '../hooks/useBilling';
+import {
+  ENTITLEMENT_KEYS,
+  ENTITLEMENT_LABELS,
+  formatEntitlement,
+  getPlanEntitlements,
+  type SubscriptionPlan,
+} from '../utils/planUtils';
+import { formatPrice, isSubscriptionLive } from '../utils/billingUtils';
+
+interface PlansDialogProps {
+  onClose: () => void;
+}
+
+export const PlansDialog: React.FC<PlansDialogProps> = ({ onClose }) => {
+  const { plans, plan: currentPlan, loading } = usePlan();
+  const {
+    subscription,
+    enabled: billingEnabled,
+    loading: billingLoading,
+    startCheckout,
+    changePlan,
+    cancelSubscription,
+  } = useBilling();
+  const [busyPlanId, setBusyPlanId] = useState<string | null>(null);
+  const hasSubscription = isSubscriptionLive(subscription);
+
+  const isPaid = (plan: SubscriptionPlan) => (plan.price_cents ?? 0) > 0;
+
+  const getAction = (plan: SubscriptionPlan) => {
+    if (!billingEnabled || plan.id === currentPlan?.id) return null;
+    const label = currentPlan && plan.sort_order < currentPlan.sort_order ? 'Downgrade' : 'Upgrade';
+
+    if (isPaid(plan)) return label;
+    // Moving to a free plan means letting the subscription run out
+    if (plan.price_cents === 0 && hasSubscription && !subscription.cancel_at_period_end) return label;
+    return null;
+  };
+
+  const handleSelect = async (plan: SubscriptionPlan) => {
+    let result;
+
+    if (!isPaid(plan)) {
+      const until = subscription?.current_period_end
+        ? ` You keep ${currentPlan?.name || 'your plan'} until ${new Date(subscription.current_period_end).toLocaleDateString()}.`
+        : '';
+      if (!confirm(`Cancel your subscription and move to ${plan.name}?${until}`)) return;
+
+      setBusyPlanId(plan.id);
+      result = await cancelSubscription();
+    } else if (hasSubscription) {
+      const price = formatPrice(plan.price_cents ?? 0, plan.currency);
+      if (!confirm(`Switch to ${plan.name} for ${price} a month? You are charged now and a new monthly period starts today.`)) return;
+
+      setBusyPlanId(plan.id);
+      result = await changePlan(plan.id);
+    } else {
+      // Success leaves the page for checkout
+      setBusyPlanId(plan.id);
+      result = await startCheckout(plan.id);
+      if (result.success) return;
+    }
+
+    setBusyPlanId(null);
+    if (!result.success) {
+      alert(result.error || 'Failed to change your plan. Please try again.');
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-3xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Compare Plans</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {loading || billingLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th />
+                    {plans.map(plan => (
+                      <th
+                        key={plan.id}
+                        className={`px-4 py-3 text-left align-top rounded-t-lg ${
+                          plan.id === currentPlan?.id ? 'bg-blue-50' : ''
+                        }`}
+                      >
+                        <p className="text-base font-semibold text-gray-900">{plan.name}</p>
+                        {plan.description && (
+                          <p className="text-xs font-normal text-gray-500">{plan.description}</p>
+                        )}
+                        {plan.price_cents !== null && (
+                          <p className="mt-2 text-sm font-medium text-gray-900">
+                            {isPaid(plan) ? `${formatPrice(plan.price_cents, plan.currency)} / month` : 'Free'}
+                          </p>
+                        )}
+                        {plan.id === currentPlan?.id && (
+                          <span className="inline-block mt-2 px-2 py-0.5 text-xs font-medium bg-blue-600 text-white rounded-full">
+                            Current plan
+                          </span>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {ENTITLEMENT_KEYS.map(key => (
+                    <tr key={key}>
+                      <td className="py-3 pr-4 text-gray-600 whitespace-nowrap">{ENTITLEMENT_LABELS[key]}</td>
+                      {plans.map(plan => {
+                        const value = getPlanEntitlements(plan)[key];
+                        return (
+                          <td
+                            key={plan.id}
+                            className={`px-4 py-3 font-medium text-gray-900 ${
+                              plan.id === currentPlan?.id ? 'bg-blue-50' : ''
+                            }`}
+                          >
+                            {typeof value === 'boolean' ? (
+                              value
+                                ? <Check className="w-4 h-4 text-green-600" />
+                                : <Minus className="w-4 h-4 text-gray-300" />
+                            ) : (
+                              formatEntitlement(key, value)
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+                {billingEnabled && (
+                  <tfoot>
+                    <tr>
+                      <td />
+                      {plans.map(plan => {
+                        const action = getAction(plan);
+                        return (
+                          <td
+                            key={plan.id}
+                            className={`px-4 py-3 rounded-b-lg ${plan.id === currentPlan?.id ? 'bg-blue-50' : ''}`}
+                          >
+                            {action && (
+                              <button
+                                onClick={() => handleSelect(plan)}
+                                disabled={busyPlanId !== null}
+                                className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 ${
+                                  action === 'Upgrade'
+                                    ? 'bg-blue-600 text-white hover:bg-blue-700'
+                                    : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                                }`}
+                              >
+                                {busyPlanId === plan.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                                {action}
+                              </button>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  </tfoot>
+                )}
+              </table>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-500 mt-6">
+            {billingEnabled
+              ? 'Paid plans renew monthly until you cancel. Invoices are under Settings.'
+              : 'To change your plan, contact your administrator.'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
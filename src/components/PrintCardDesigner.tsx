@@ -0,0 +1,330 @@
+import React, { useState, useRef } from 'react';
+import { Download, RotateCcw, AlignLeft, AlignCenter, AlignRight } from 'lucide-react';
+import { PrintCardSide } from './PrintCardSide';
+import { exportToPNG } from '../utils/exportUtils';
+import { BLEED_MM, CARD_SIZES, type CardSize } from '../utils/printUtils';
+import {
+  DEFAULT_PRINT_DESIGN,
+  PRINT_BACKGROUND_LABELS,
+  PRINT_ELEMENTS,
+  PRINT_ELEMENT_LABELS,
+  PRINT_GRID,
+  PRINT_SAFE_MM,
+  PRINT_SIDE_LABELS,
+  fitPrintElement,
+  getPrintElementBox,
+  type PrintAlign,
+  type PrintBackground,
+  type PrintDesign,
+  type PrintDesignCard,
+  type PrintElement,
+  type PrintElementId,
+  type PrintSide,
+} from '../utils/printDesignUtils';
+
+interface PrintCardDesignerProps {
+  card: PrintDesignCard & { logo_url: string | null };
+  design: PrintDesign;
+  onChange: (design: PrintDesign) => void;
+  disabled?: boolean;
+}
+
+// Pixels per mm for the on-screen preview and for the PNG export
+const PREVIEW_SCALE = 5;
+const EXPORT_SCALE = 6;
+
+const ALIGN_OPTIONS: { value: PrintAlign; label: string; icon: typeof AlignLeft }[] = [
+  { value: 'left', label: 'Left', icon: AlignLeft },
+  { value: 'center', label: 'Center', icon: AlignCenter },
+  { value: 'right', label: 'Right', icon: AlignRight },
+];
+
+const range = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+export const PrintCardDesigner: React.FC<PrintCardDesignerProps> = ({
+  card,
+  design,
+  onChange,
+  disabled = false
+}) => {
+  const [side, setSide] = useState<PrintSide>('front');
+  const [selectedId, setSelectedId] = useState<PrintElementId | null>(null);
+  const [cardSize, setCardSize] = useState<CardSize>('eu');
+  const [showGuides, setShowGuides] = useState(true);
+  const frontRef = useRef<HTMLDivElement>(null);
+  const backRef = useRef<HTMLDivElement>(null);
+  const size = CARD_SIZES[cardSize];
+
+  const updateElement = (id: PrintElementId, updates: Partial<PrintElement>) => {
+    onChange({
+      ...design,
+      elements: { ...design.elements, [id]: fitPrintElement({ ...design.elements[id], ...updates }) },
+    });
+  };
+
+  const handleCellClick = (column: number, row: number) => {
+    if (disabled || !selectedId) return;
+    updateElement(selectedId, { side, column, row });
+  };
+
+  const handleExport = async (exportSide: PrintSide) => {
+    const element = exportSide === 'front' ? frontRef.current : backRef.current;
+    if (!element) return;
+    await exportToPNG(element, `${card.slug || 'business-card'}-${exportSide}.png`);
+  };
+
+  const backgroundKey = side === 'front' ? 'front_background' : 'back_background';
+  const selectClass = 'w-full px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:opacity-50';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {(['front', 'back'] as const).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setSide(value)}
+            className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+              side === value
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            {PRINT_SIDE_LABELS[value]}
+          </button>
+        ))}
+        <select
+          value={cardSize}
+          onChange={(e) => setCardSize(e.target.value as CardSize)}
+          className="ml-auto px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          title="Preview size"
+        >
+          {(Object.keys(CARD_SIZES) as CardSize[]).map(value => (
+            <option key={value} value={value}>{CARD_SIZES[value].label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showGuides}
+            onChange={(e) => setShowGuides(e.target.checked)}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          Guides
+        </label>
+      </div>
+
+      {/* Preview */}
+      <div className="overflow-x-auto">
+        <div className="inline-block p-4 bg-gray-100 rounded-lg">
+          <PrintCardSide
+            card={card}
+            design={design}
+            side={side}
+            size={size}
+            scale={PREVIEW_SCALE}
+            bleed={BLEED_MM}
+          >
+            {showGuides && (
+              <>
+                {/* Fades the bleed, which is trimmed off */}
+                <div
+                  className="absolute inset-0 border border-red-500 pointer-events-none"
+                  style={{ boxShadow: `0 0 0 ${BLEED_MM * PREVIEW_SCALE}px rgba(255, 255, 255, 0.5)` }}
+                />
+                <div
+                  className="absolute border border-dashed border-blue-500 grid"
+                  style={{
+                    inset: PRINT_SAFE_MM * PREVIEW_SCALE,
+                    gridTemplateColumns: `repeat(${PRINT_GRID.columns}, 1fr)`,
+                    gridTemplateRows: `repeat(${PRINT_GRID.rows}, 1fr)`,
+                  }}
+                >
+                  {range(PRINT_GRID.rows).flatMap(row => range(PRINT_GRID.columns).map(column => (
+                    <button
+                      key={`${column}-${row}`}
+                      type="button"
+                      onClick={() => handleCellClick(column, row)}
+                      disabled={disabled || !selectedId}
+                      className="border border-dotted border-blue-200 enabled:hover:bg-blue-500 enabled:hover:bg-opacity-20"
+                      title={selectedId ? `Move ${PRINT_ELEMENT_LABELS[selectedId].toLowerCase()} here` : undefined}
+                    />
+                  )))}
+                </div>
+              </>
+            )}
+            {PRINT_ELEMENTS.filter(id => design.elements[id].side === side).map(id => {
+              const area = getPrintElementBox(design.elements[id], size);
+              return (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => setSelectedId(id === selectedId ? null : id)}
+                  className={`absolute border-2 transition-colors ${
+                    id === selectedId ? 'border-blue-600' : showGuides ? 'border-transparent hover:border-blue-300' : 'border-transparent'
+                  }`}
+                  style={{
+                    left: area.x * PREVIEW_SCALE,
+                    top: area.y * PREVIEW_SCALE,
+                    width: area.width * PREVIEW_SCALE,
+                    height: area.height * PREVIEW_SCALE,
+                  }}
+                  title={PRINT_ELEMENT_LABELS[id]}
+                />
+              );
+            })}
+          </PrintCardSide>
+        </div>
+      </div>
+      {showGuides && (
+        <p className="text-xs text-gray-500">
+          The red line is where the card is cut; the faded edge outside it is {BLEED_MM} mm bleed.
+          Everything sits inside the dashed safe zone. Select an element, then click a grid cell to move it.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {PRINT_SIDE_LABELS[side]} background
+          </label>
+          <select
+            value={design[backgroundKey]}
+            onChange={(e) => onChange({ ...design, [backgroundKey]: e.target.value as PrintBackground })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            {(Object.keys(PRINT_BACKGROUND_LABELS) as PrintBackground[]).map(value => (
+              <option key={value} value={value}>{PRINT_BACKGROUND_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Elements */}
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+        {PRINT_ELEMENTS.map(id => {
+          const element = design.elements[id];
+          const isSelected = id === selectedId;
+
+          return (
+            <div key={id} className={`p-3 space-y-3 ${isSelected ? 'bg-blue-50' : ''}`}>
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSelectedId(isSelected ? null : id);
+                    if (element.side !== 'hidden') setSide(element.side);
+                  }}
+                  className="flex-1 text-left text-sm font-medium text-gray-900"
+                >
+                  {PRINT_ELEMENT_LABELS[id]}
+                </button>
+                <select
+                  value={element.side}
+                  onChange={(e) => updateElement(id, { side: e.target.value as PrintElement['side'] })}
+                  disabled={disabled}
+                  className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:opacity-50"
+                >
+                  <option value="front">Front</option>
+                  <option value="back">Back</option>
+                  <option value="hidden">Hidden</option>
+                </select>
+              </div>
+
+              {isSelected && element.side !== 'hidden' && (
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                  {([
+                    { key: 'column', label: 'Column', count: PRINT_GRID.columns },
+                    { key: 'row', label: 'Row', count: PRINT_GRID.rows },
+                    { key: 'width', label: 'Width', count: PRINT_GRID.columns },
+                    { key: 'height', label: 'Height', count: PRINT_GRID.rows },
+                  ] as const).map(({ key, label, count }) => {
+                    const isPosition = key === 'column' || key === 'row';
+                    return (
+                      <div key={key}>
+                        <label className="block text-xs text-gray-500 mb-1">{label}</label>
+                        <select
+                          value={element[key]}
+                          onChange={(e) => updateElement(id, { [key]: Number(e.target.value) })}
+                          disabled={disabled}
+                          className={selectClass}
+                        >
+                          {range(count).map(i => (
+                            <option key={i} value={isPosition ? i : i + 1}>{i + 1}</option>
+                          ))}
+                        </select>
+                      </div>
+                    );
+                  })}
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Align</label>
+                    <div className="flex gap-1">
+                      {ALIGN_OPTIONS.map(({ value, label, icon: Icon }) => (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => updateElement(id, { align: value })}
+                          disabled={disabled}
+                          className={`p-1.5 rounded-lg border transition-colors disabled:opacity-50 ${
+                            element.align === value
+                              ? 'bg-blue-600 text-white border-blue-600'
+                              : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                          }`}
+                          title={label}
+                        >
+                          <Icon className="w-4 h-4" />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => handleExport('front')}
+          className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          Front PNG
+        </button>
+        <button
+          type="button"
+          onClick={() => handleExport('back')}
+          className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          Back PNG
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            onChange(DEFAULT_PRINT_DESIGN);
+            setSelectedId(null);
+          }}
+          disabled={disabled}
+          className="ml-auto flex items-center gap-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50 transition-colors"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Reset Layout
+        </button>
+      </div>
+
+      {/* Full-size renders for the PNG export, trimmed without bleed and kept off screen */}
+      <div className="fixed top-0 -left-[10000px]" aria-hidden="true">
+        <div ref={frontRef} className="inline-block">
+          <PrintCardSide card={card} design={design} side="front" size={size} scale={EXPORT_SCALE} />
+        </div>
+        <div ref={backRef} className="inline-block">
+          <PrintCardSide card={card} design={design} side="back" size={size} scale={EXPORT_SCALE} />
+        </div>
+      </div>
+    </div>
+  );
+};
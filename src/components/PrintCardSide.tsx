@@ -0,0 +1,131 @@
+import React from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import {
+  PT_TO_MM,
+  getPrintCardUrl,
+  getPrintElementBox,
+  getPrintElementLines,
+  getPrintSideColors,
+  getPrintTextSize,
+  getPrintTheme,
+  PRINT_ELEMENTS,
+  type PrintDesign,
+  type PrintDesignCard,
+  type PrintSide,
+} from '../utils/printDesignUtils';
+
+interface PrintCardSideProps {
+  card: PrintDesignCard & { logo_url: string | null };
+  design: PrintDesign;
+  side: PrintSide;
+  // Trim size in mm
+  size: { width: number; height: number };
+  // Pixels per mm
+  scale: number;
+  // Extra room around the trim box, in mm, filled with the background as bleed
+  bleed?: number;
+  // Overlays positioned in the trim box, such as guides
+  children?: React.ReactNode;
+}
+
+/**
+ * HTML rendering of one side of the printed card, matching the PDF print sheet.
+ * Used for the designer preview and the PNG export.
+ */
+export const PrintCardSide: React.FC<PrintCardSideProps> = ({
+  card,
+  design,
+  side,
+  size,
+  scale,
+  bleed = 0,
+  children
+}) => {
+  const theme = getPrintTheme(card);
+  const colors = getPrintSideColors(theme, side === 'front' ? design.front_background : design.back_background);
+  const cardUrl = getPrintCardUrl(card);
+
+  return (
+    <div
+      className="relative overflow-hidden"
+      style={{
+        width: (size.width + bleed * 2) * scale,
+        height: (size.height + bleed * 2) * scale,
+        backgroundColor: colors.fill,
+        fontFamily: 'Helvetica, Arial, sans-serif',
+      }}
+    >
+      <div
+        className="absolute"
+        style={{ left: bleed * scale, top: bleed * scale, width: size.width * scale, height: size.height * scale }}
+      >
+        {PRINT_ELEMENTS.map(id => {
+          const element = design.elements[id];
+          if (element.side !== side) return null;
+
+          const area = getPrintElementBox(element, size);
+          const justify = element.align === 'center' ? 'center' : element.align === 'right' ? 'flex-end' : 'flex-start';
+          const style: React.CSSProperties = {
+            left: area.x * scale,
+            top: area.y * scale,
+            width: area.width * scale,
+            height: area.height * scale,
+          };
+
+          if (id === 'logo') {
+            if (!card.logo_url) return null;
+            return (
+              <img
+                key={id}
+                src={card.logo_url}
+                alt=""
+                crossOrigin="anonymous"
+                className="absolute object-contain"
+                style={{ ...style, objectPosition: `${element.align} center` }}
+              />
+            );
+          }
+
+          if (id === 'qr') {
+            if (!cardUrl) return null;
+            return (
+              <div key={id} className="absolute flex items-center" style={{ ...style, justifyContent: justify }}>
+                <QRCodeSVG
+                  value={cardUrl}
+                  size={Math.min(area.width, area.height) * scale}
+                  level="M"
+                  marginSize={2}
+                />
+              </div>
+            );
+          }
+
+          const lines = getPrintElementLines(card, id);
+          if (lines.length === 0) return null;
+          const fontSize = getPrintTextSize(id, lines.length, area.height) * PT_TO_MM * scale;
+
+          return (
+            <div
+              key={id}
+              className="absolute overflow-hidden whitespace-nowrap"
+              style={{
+                ...style,
+                fontSize,
+                lineHeight: 1.25,
+                fontWeight: id === 'name' ? 700 : 400,
+                color: id === 'position' ? colors.accent : colors.text,
+                textAlign: element.align,
+              }}
+            >
+              {lines.map((line, index) => (
+                <div key={index} className="overflow-hidden">{line}</div>
+              ))}
+            </div>
+          );
+        })}
+
+        {children}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { X, Printer, Loader2 } from 'lucide-react';
+import {
+  BLEED_MM,
+  CARD_SIZES,
+  DEFAULT_PRINT_OPTIONS,
+  PAPER_SIZES,
+  SHEET_LAYOUT_LABELS,
+  exportPrintSheet,
+  getSheetImposition,
+  type CardSize,
+  type PaperSize,
+  type PrintCard,
+  type PrintSheetOptions,
+  type SheetLayout,
+} from '../utils/printUtils';
+
+interface PrintSheetDialogProps {
+  cards: PrintCard[];
+  onClose: () => void;
+}
+
+export const PrintSheetDialog: React.FC<PrintSheetDialogProps> = ({ cards, onClose }) => {
+  // A single card fills a whole sheet by default; a selection prints one of each
+  const [options, setOptions] = useState<PrintSheetOptions>(() => ({
+    ...DEFAULT_PRINT_OPTIONS,
+    copies: cards.length === 1 ? getSheetImposition(DEFAULT_PRINT_OPTIONS).perSheet : 1,
+  }));
+  const [exporting, setExporting] = useState(false);
+
+  const imposition = getSheetImposition(options);
+  const totalCards = cards.length * Math.max(1, options.copies);
+  const sheetCount = Math.ceil(totalCards / imposition.perSheet);
+
+  const update = (updates: Partial<PrintSheetOptions>) => {
+    setOptions({ ...options, ...updates });
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    const filename = cards.length === 1
+      ? `${cards[0].slug || 'business-card'}-print.pdf`
+      : 'business-cards-print.pdf';
+    const result = await exportPrintSheet(cards, options, filename);
+    setExporting(false);
+
+    if (!result.success) {
+      alert('Failed to export print sheet. Please try again.');
+      return;
+    }
+    onClose();
+  };
+
+  const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+  const checkboxClass = 'w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Print Sheet</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-gray-600">
+            {cards.length === 1
+              ? `Print-ready PDF for ${cards[0].title || 'Untitled Card'}`
+              : `Print-ready PDF for ${cards.length} cards`}
+            , with {BLEED_MM} mm bleed for your print shop to trim.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Paper</label>
+              <select
+                value={options.paper}
+                onChange={(e) => update({ paper: e.target.value as PaperSize })}
+                className={selectClass}
+              >
+                {(Object.keys(PAPER_SIZES) as PaperSize[]).map(paper => (
+                  <option key={paper} value={paper}>{PAPER_SIZES[paper].label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Card size</label>
+              <select
+                value={options.cardSize}
+                onChange={(e) => update({ cardSize: e.target.value as CardSize })}
+                className={selectClass}
+              >
+                {(Object.keys(CARD_SIZES) as CardSize[]).map(size => (
+                  <option key={size} value={size}>{CARD_SIZES[size].label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Layout</label>
+              <select
+                value={options.layout}
+                onChange={(e) => update({ layout: e.target.value as SheetLayout })}
+                className={selectClass}
+              >
+                {(Object.keys(SHEET_LAYOUT_LABELS) as SheetLayout[]).map(layout => (
+                  <option key={layout} value={layout}>{SHEET_LAYOUT_LABELS[layout]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Copies {cards.length > 1 && 'of each card'}
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={500}
+                value={options.copies}
+                onChange={(e) => update({ copies: Math.min(500, Math.max(1, Number(e.target.value) || 1)) })}
+                className={selectClass}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.doubleSided}
+                onChange={(e) => update({ doubleSided: e.target.checked })}
+                className={checkboxClass}
+              />
+              Double-sided (adds a back page after each front page)
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.cropMarks}
+                onChange={(e) => update({ cropMarks: e.target.checked })}
+                className={checkboxClass}
+              />
+              Crop marks
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.includeQR}
+                onChange={(e) => update({ includeQR: e.target.checked })}
+                className={checkboxClass}
+              />
+              QR code linking to the card
+            </label>
+          </div>
+
+          <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-600">
+            {imposition.perSheet} cards per sheet ({imposition.columns} × {imposition.rows}) ·{' '}
+            {totalCards} {totalCards === 1 ? 'card' : 'cards'} on {sheetCount} {sheetCount === 1 ? 'sheet' : 'sheets'}
+            {options.doubleSided && `, ${sheetCount * 2} pages`}
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={exporting || imposition.perSheet === 0}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />}
+              Download PDF
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from "react";
-import { useParams } from "react-router-dom";
+import { useParams, useSearchParams, useNavigate, useLocation } from "react-router-dom";
 import {
   Mail,
   Phone,
@@ -23,16 +23,54 @@ import {
   Download,
   QrCode,
   ArrowLeft,
+  UserPlus,
+  CalendarClock,
+  CalendarX,
+  Lock,
+  Users,
+  Send,
+  CalendarDays,
 } from "lucide-react";
 import { supabase } from "../lib/supabase";
 import type { Database } from "../lib/supabase";
 import { getSocialIcon, SOCIAL_PLATFORM_COLORS } from "../utils/socialUtils";
+import { downloadVCard } from "../utils/vcardUtils";
+import { resolveSlugRedirect } from "../utils/slugUtils";
+import {
+  fetchCardAvailability,
+  getCardPublishState,
+  type CardAvailability,
+} from "../utils/scheduleUtils";
+import { unlockCard, openUnlockedCard, getUnlockToken, isIndexable } from "../utils/visibilityUtils";
+import { getLeadFormFields } from "../utils/leadUtils";
+import { getBookingAvailability } from "../utils/bookingUtils";
+import { getUtmParams } from "../utils/shortLinkUtils";
+import {
+  getCardTheme,
+  getThemeButtonStyle,
+  getThemeColors,
+  getThemeSurfaceStyle,
+  isDarkTheme,
+  resolveCardTheme,
+} from "../utils/themeUtils";
+import { usePrefersDarkMode } from "../hooks/usePrefersDarkMode";
+import {
+  trackCardEvent,
+  recordCardView,
+  type CardEventType,
+} from "../utils/analyticsUtils";
+
+import { LeadCaptureForm } from "./LeadCaptureForm";
+import { BookingWidget } from "./BookingWidget";
 
 import html2canvas from "html2canvas";
-import { QRCodeSVG } from "qrcode.react";
+import { BrandedQRCode } from "./BrandedQRCode";
+import { getCardQRUrl, getQRDesign } from "../utils/qrUtils";
 
 type BusinessCard = Database["public"]["Tables"]["business_cards"]["Row"];
 type SocialLink = Database["public"]["Tables"]["social_links"]["Row"];
+type MediaItemRow = Database["public"]["Tables"]["media_items"]["Row"];
+type ReviewLinkRow = Database["public"]["Tables"]["review_links"]["Row"];
 
 interface MediaItem {
   id: string;
@@ -66,6 +104,10 @@ const SOCIAL_ICONS: Record<string, React.ComponentType<any>> = {
 
 export const PublicCard: React.FC = () => {
   const { cardId } = useParams<{ cardId: string }>();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const prefersDark = usePrefersDarkMode();
   const [card, setCard] = useState<BusinessCard | null>(null);
   const [profile, setProfile] = useState<any>(null);
   const [socialLinks, setSocialLinks] = useState<SocialLink[]>([]);
@@ -73,8 +115,14 @@ export const PublicCard: React.FC = () => {
   const [reviewLinks, setReviewLinks] = useState<ReviewLink[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [availability, setAvailability] = useState<CardAvailability | null>(null);
+  const [passcode, setPasscode] = useState("");
+  const [passcodeError, setPasscodeError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
   const [showQR, setShowQR] = useState(false);
   const [showShareMenu, setShowShareMenu] = useState(false);
+  const [showLeadForm, setShowLeadForm] = useState(false);
+  const [showBooking, setShowBooking] = useState(false);
   const cardRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -83,12 +131,32 @@ export const PublicCard: React.FC = () => {
     }
   }, [cardId]);
 
+  // Unlisted, protected and organization cards ask search engines not to index them
+  const noIndex =
+    (card && !isIndexable(card)) ||
+    availability?.status === "locked" ||
+    availability?.status === "organization";
+
+  useEffect(() => {
+    if (!noIndex) return;
+
+    const meta = document.createElement("meta");
+    meta.name = "robots";
+    meta.content = "noindex, nofollow";
+    document.head.appendChild(meta);
+    return () => {
+      document.head.removeChild(meta);
+    };
+  }, [noIndex]);
+
   const loadCard = async () => {
     if (!cardId) return;
+    let redirecting = false;
 
     try {
       setLoading(true);
       setError(null);
+      setAvailability(null);
 
       // Load card by slug (not by user ID)
       const { data: cardData, error: cardError } = await supabase
@@ -98,36 +166,60 @@ export const PublicCard: React.FC = () => {
         .eq("is_published", true) // Only show published cards
         .single();
 
-      if (cardError) {
-        console.error("Card error:", cardError);
+      if (cardError || !cardData) {
+        // The card may have been renamed; old slugs keep working
+        const currentSlug = await resolveSlugRedirect(cardId);
+        if (currentSlug && currentSlug !== cardId) {
+          const query = searchParams.toString();
+          redirecting = true;
+          navigate(`/c/${currentSlug}${query ? `?${query}` : ""}`, { replace: true });
+          return;
+        }
+
+        // Scheduled, expired and protected cards get their own page instead of "not found"
+        const cardAvailability = await fetchCardAvailability(cardId);
+        if (cardAvailability?.status === "locked") {
+          // Unlocked earlier in this browser session
+          const unlocked = await openUnlockedCard(cardId);
+          if (unlocked) {
+            await showCard(
+              unlocked.card,
+              unlocked.social_links,
+              unlocked.media_items,
+              unlocked.review_links
+            );
+            return;
+          }
+          setAvailability(cardAvailability);
+          return;
+        }
+        if (
+          cardAvailability?.status === "scheduled" ||
+          cardAvailability?.status === "expired" ||
+          cardAvailability?.status === "organization"
+        ) {
+          setAvailability(cardAvailability);
+          return;
+        }
+
+        if (cardError) {
+          console.error("Card error:", cardError);
+        }
         setError("Card not found or not published");
         return;
       }
 
-      if (!cardData) {
-        setError("Card not found");
+      // Owners can read their own cards outside the schedule window
+      const publishState = getCardPublishState(cardData);
+      if (publishState === "scheduled" || publishState === "expired") {
+        setAvailability({
+          status: publishState,
+          publish_at: cardData.publish_at || undefined,
+          expire_at: cardData.expire_at || undefined,
+        });
         return;
       }
 
-      setCard(cardData);
-
-      // Load profile information
-      const { data: profileData, error: profileError } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("id", cardData.user_id); // Removed .single()
-
-      if (profileError) {
-        console.error("Profile error:", profileError);
-      } else {
-        if (profileData && profileData.length > 0) {
-          setProfile(profileData[0]);
-        } else {
-          console.warn("No profile found for user_id:", cardData.user_id);
-          setProfile(null);
-        }
-      }
-
       // Load social links
       const { data: socialData, error: socialError } = await supabase
         .from("social_links")
@@ -138,8 +230,6 @@ export const PublicCard: React.FC = () => {
 
       if (socialError) {
         console.error("Social links error:", socialError);
-      } else {
-        setSocialLinks(socialData || []);
       }
 
       // Load media items
@@ -152,16 +242,6 @@ export const PublicCard: React.FC = () => {
 
       if (mediaError) {
         console.error("Media error:", mediaError);
-      } else {
-        const formattedMedia: MediaItem[] = (mediaData || []).map((item) => ({
-          id: item.id,
-          type: item.type as "image" | "video" | "document",
-          url: item.url,
-          title: item.title,
-          description: item.description || undefined,
-          thumbnail_url: item.thumbnail_url || undefined,
-        }));
-        setMediaItems(formattedMedia);
       }
 
       // Load review links
@@ -174,60 +254,108 @@ export const PublicCard: React.FC = () => {
 
       if (reviewError) {
         console.error("Review links error:", reviewError);
-      } else {
-        const formattedReviews: ReviewLink[] = (reviewData || []).map(
-          (item) => ({
-            id: item.id,
-            title: item.title,
-            review_url: item.review_url,
-            created_at: item.created_at,
-          })
-        );
-        setReviewLinks(formattedReviews);
       }
 
-      // Track view (increment view count)
-      await trackCardView(cardData.id);
+      await showCard(cardData, socialData || [], mediaData || [], reviewData || []);
     } catch (error) {
       console.error("Error loading card:", error);
       setError("Failed to load card");
     } finally {
-      setLoading(false);
+      // Keep the spinner up while the redirected slug loads
+      if (!redirecting) {
+        setLoading(false);
+      }
     }
   };
 
-  const trackCardView = async (cardId: string) => {
-    try {
-      // Increment view count
-      const { error: updateError } = await supabase
-        .from("business_cards")
-        .update({
-          view_count: card ? (card.view_count || 0) + 1 : 1,
-        })
-        .eq("id", cardId);
+  const showCard = async (
+    cardData: BusinessCard,
+    socialData: SocialLink[],
+    mediaData: MediaItemRow[],
+    reviewData: ReviewLinkRow[]
+  ) => {
+    setCard(cardData);
+    setSocialLinks(socialData);
+
+    const formattedMedia: MediaItem[] = mediaData.map((item) => ({
+      id: item.id,
+      type: item.type as "image" | "video" | "document",
+      url: item.url,
+      title: item.title,
+      description: item.description || undefined,
+      thumbnail_url: item.thumbnail_url || undefined,
+    }));
+    setMediaItems(formattedMedia);
+
+    const formattedReviews: ReviewLink[] = reviewData.map((item) => ({
+      id: item.id,
+      title: item.title,
+      review_url: item.review_url,
+      created_at: item.created_at,
+    }));
+    setReviewLinks(formattedReviews);
+
+    // Load profile information
+    const { data: profileData, error: profileError } = await supabase
+      .from("profiles")
+      .select("*")
+      .eq("id", cardData.user_id); // Removed .single()
 
-      if (updateError) {
-        console.error("Error updating view count:", updateError);
+    if (profileError) {
+      console.error("Profile error:", profileError);
+    } else {
+      if (profileData && profileData.length > 0) {
+        setProfile(profileData[0]);
+      } else {
+        console.warn("No profile found for user_id:", cardData.user_id);
+        setProfile(null);
       }
+    }
 
-      // Add analytics record
-      const { error: analyticsError } = await supabase
-        .from("card_analytics")
-        .insert({
-          card_id: cardId,
-          visitor_ip: null, // Would need server-side implementation for real IP
-          user_agent: navigator.userAgent,
-          referrer: document.referrer || null,
-          device_type: /Mobile|Android|iPhone|iPad/.test(navigator.userAgent)
-            ? "mobile"
-            : "desktop",
-        });
+    // Track view (counted and deduplicated server-side)
+    const viewResult = await recordCardView(
+      cardData.id,
+      location.state?.shortLinkId || null,
+      getUtmParams(searchParams)
+    );
+    if (viewResult?.counted && viewResult.view_count !== undefined) {
+      setCard({ ...cardData, view_count: viewResult.view_count });
+    }
+    // Scans of tracked QR sources are recorded by the /q/ redirect
+    if (searchParams.get("src") === "qr" && !location.state?.qrScanRecorded) {
+      trackCardEvent(cardData.id, "qr_scan");
+    }
+  };
 
-      if (analyticsError) {
-        console.error("Error tracking analytics:", analyticsError);
+  // Passcode check happens server-side; nothing is loaded until it matches
+  const handlePasscodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passcode || !cardId) return;
+
+    setUnlocking(true);
+    setPasscodeError(null);
+    try {
+      const result = await unlockCard(cardId, passcode);
+      if (!result.unlocked) {
+        setPasscodeError(
+          result.reason === "locked"
+            ? "Too many incorrect passcodes. Please wait 15 minutes and try again."
+            : result.reason === "error"
+              ? "Could not check the passcode. Please try again."
+              : "That passcode is not correct. Please try again."
+        );
+        return;
       }
-    } catch (error) {
-      console.error("Error tracking view:", error);
+
+      setAvailability(null);
+      await showCard(
+        result.content.card,
+        result.content.social_links,
+        result.content.media_items,
+        result.content.review_links
+      );
+    } finally {
+      setUnlocking(false);
     }
   };
 
@@ -251,6 +379,20 @@ export const PublicCard: React.FC = () => {
     }
   };
 
+  const trackEvent = (eventType: CardEventType, target: string | null = null) => {
+    if (card) {
+      trackCardEvent(card.id, eventType, target);
+    }
+  };
+
+  const handleSaveContact = async () => {
+    if (!card) return;
+    trackEvent("vcard_save");
+    await downloadVCard(card, socialLinks, {
+      cardUrl: `${window.location.origin}/c/${card.slug}`,
+    });
+  };
+
   const handleShare = async () => {
     const url = window.location.href;
 
@@ -263,6 +405,7 @@ export const PublicCard: React.FC = () => {
           text: `Check out ${card?.title || "this"}'s digital business card`,
           url: url,
         });
+        trackEvent("share");
       } catch (error) {
         console.error("Error sharing:", error);
         copyToClipboard(url);
@@ -276,6 +419,7 @@ export const PublicCard: React.FC = () => {
     navigator.clipboard
       .writeText(text)
       .then(() => {
+        trackEvent("share");
         alert("Link copied to clipboard!");
       })
       .catch(() => {
@@ -333,6 +477,110 @@ export const PublicCard: React.FC = () => {
     );
   }
 
+  if (availability?.status === "locked") {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <div className="text-center max-w-md w-full mx-auto p-8">
+          <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Lock className="w-8 h-8 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Protected Card
+          </h1>
+          <p className="text-gray-600 mb-6">
+            Enter the passcode you were given to view this business card.
+          </p>
+          <form onSubmit={handlePasscodeSubmit} className="space-y-3">
+            <input
+              type="password"
+              value={passcode}
+              onChange={(e) => setPasscode(e.target.value)}
+              autoFocus
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Passcode"
+            />
+            {passcodeError && (
+              <p className="text-sm text-red-600">{passcodeError}</p>
+            )}
+            <button
+              type="submit"
+              disabled={!passcode || unlocking}
+              className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {unlocking ? "Checking..." : "View Card"}
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  if (availability?.status === "organization") {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto p-8">
+          <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Users className="w-8 h-8 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Members Only
+          </h1>
+          <p className="text-gray-600 mb-6">
+            This business card is only visible to members of its organization.
+            Sign in with your organization account to view it.
+          </p>
+          <button
+            onClick={() => (window.location.href = "/")}
+            className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Sign In
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (availability) {
+    const isScheduled = availability.status === "scheduled";
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto p-8">
+          <div
+            className={`w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4 ${
+              isScheduled ? "bg-blue-100" : "bg-amber-100"
+            }`}
+          >
+            {isScheduled ? (
+              <CalendarClock className="w-8 h-8 text-blue-600" />
+            ) : (
+              <CalendarX className="w-8 h-8 text-amber-600" />
+            )}
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            {isScheduled ? "Coming Soon" : "This Card Has Expired"}
+          </h1>
+          <p className="text-gray-600 mb-6">
+            {isScheduled
+              ? availability.publish_at
+                ? `This business card will be available on ${new Date(
+                    availability.publish_at
+                  ).toLocaleString()}.`
+                : "This business card isn't available yet."
+              : "This business card was only available for a limited time and is no longer active."}
+          </p>
+          <button
+            onClick={() => (window.location.href = "/")}
+            className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Go Home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (error || !card) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
@@ -363,13 +611,9 @@ export const PublicCard: React.FC = () => {
     );
   }
 
-  const theme = (card.theme as any) || {
-    primary: "#3B82F6",
-    secondary: "#1E40AF",
-    background: "#FFFFFF",
-    text: "#1F2937",
-    name: "Default",
-  };
+  const theme = resolveCardTheme(card.theme);
+  const darkTheme = isDarkTheme(theme, prefersDark);
+  const colors = getThemeColors(theme, darkTheme);
 
   const layout = (card.layout as any) || {
     style: "modern",
@@ -415,10 +659,14 @@ export const PublicCard: React.FC = () => {
     }
   };
 
-  const cardUrl = window.location.href;
+  const cardUrl = getCardQRUrl(card.slug || "");
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+    <div
+      className={`min-h-screen bg-gradient-to-br ${
+        darkTheme ? "from-gray-900 to-gray-800" : "from-gray-50 to-gray-100"
+      }`}
+    >
       {/* Header with Actions */}
       {/* <div className="sticky top-0 bg-white/80 backdrop-blur-lg border-b border-gray-200 z-40">
         <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
@@ -469,11 +717,13 @@ export const PublicCard: React.FC = () => {
                 Scan to View Card
               </h3>
               <div className="flex justify-center mb-4">
-                <QRCodeSVG
+                <BrandedQRCode
+                  id="card-qr-code"
                   value={cardUrl}
+                  design={getQRDesign(card.layout)}
+                  theme={getCardTheme(card.theme)}
+                  logoUrl={card.avatar_url}
                   size={200}
-                  level="M"
-                  includeMargin={true}
                 />
               </div>
               <p className="text-sm text-gray-600 mb-4">
@@ -490,6 +740,30 @@ export const PublicCard: React.FC = () => {
         </div>
       )}
 
+      {/* Lead Capture Modal */}
+      {showLeadForm && (
+        <LeadCaptureForm
+          cardId={card.id}
+          ownerName={card.title || "the card owner"}
+          fields={getLeadFormFields(card.lead_form_fields)}
+          accentColor={colors.primary}
+          unlockToken={cardId ? getUnlockToken(cardId) : null}
+          onClose={() => setShowLeadForm(false)}
+        />
+      )}
+
+      {/* Booking Modal */}
+      {showBooking && (
+        <BookingWidget
+          cardId={card.id}
+          card={card}
+          availability={getBookingAvailability(card.booking_availability)}
+          accentColor={colors.primary}
+          unlockToken={cardId ? getUnlockToken(cardId) : null}
+          onClose={() => setShowBooking(false)}
+        />
+      )}
+
       {/* Main Content */}
       <div className="py-8 px-4" id="public-card-content">
         <div className="max-w-6xl mx-auto">
@@ -501,26 +775,34 @@ export const PublicCard: React.FC = () => {
                 ref={cardRef}
                 className={`w-full p-8 ${getCardShapeClasses()} ${getStyleClasses()} ${getLayoutClasses()}`}
                 style={{
-                  backgroundColor: theme.background,
-                  color: theme.text,
+                  ...getThemeSurfaceStyle(theme, colors),
                   fontFamily: `'${layout.font}', sans-serif`,
-                  borderColor: theme.primary + "50",
+                  borderColor: colors.primary + "50",
                 }}
               >
+                {/* Organization Logo */}
+                {card.logo_url && (
+                  <img
+                    src={card.logo_url}
+                    alt={card.company || "Company logo"}
+                    className="h-10 max-w-[160px] object-contain mx-auto mb-4"
+                  />
+                )}
+
                 {/* Avatar */}
                 {card.avatar_url ? (
                   <img
                     src={card.avatar_url}
                     alt="Profile"
                     className="w-36 h-36 rounded-full object-cover mx-auto mb-6 border-4"
-                    style={{ borderColor: theme.primary }}
+                    style={{ borderColor: colors.primary }}
                   />
                 ) : (
                   <div
                     className="w-36 h-36 rounded-full mx-auto mb-6 flex items-center justify-center text-white font-bold text-3xl border-4"
                     style={{
-                      backgroundColor: theme.primary,
-                      borderColor: theme.secondary,
+                      backgroundColor: colors.primary,
+                      borderColor: colors.secondary,
                     }}
                   >
                     {card.title ? (
@@ -535,14 +817,14 @@ export const PublicCard: React.FC = () => {
                 <div className="mb-6">
                   <h2
                     className="text-2xl font-bold mb-2"
-                    style={{ color: theme.text }}
+                    style={{ color: colors.text }}
                   >
                     {card.title || "Professional"}
                   </h2>
                   {card.position && card.company && (
                     <p
                       className="text-lg font-medium mb-1"
-                      style={{ color: theme.secondary }}
+                      style={{ color: colors.secondary }}
                     >
                       {card.position} at {card.company}
                     </p>
@@ -550,7 +832,7 @@ export const PublicCard: React.FC = () => {
                   {card.position && !card.company && (
                     <p
                       className="text-lg font-medium mb-1"
-                      style={{ color: theme.secondary }}
+                      style={{ color: colors.secondary }}
                     >
                       {card.position}
                     </p>
@@ -558,7 +840,7 @@ export const PublicCard: React.FC = () => {
                   {!card.position && card.company && (
                     <p
                       className="text-lg font-medium mb-1"
-                      style={{ color: theme.secondary }}
+                      style={{ color: colors.secondary }}
                     >
                       {card.company}
                     </p>
@@ -566,7 +848,7 @@ export const PublicCard: React.FC = () => {
                   {/* {card.position && (
                     <p
                       className="text-lg font-medium mb-1"
-                      style={{ color: theme.secondary }}
+                      style={{ color: colors.secondary }}
                     >
                       {card.position}
                     </p>
@@ -575,15 +857,15 @@ export const PublicCard: React.FC = () => {
                   {card.company && (
                     <p
                       className="text-base opacity-80 mb-2"
-                      style={{ color: theme.text }}
+                      style={{ color: colors.text }}
                     >
                       {card.company}
                     </p>
                   )} */}                  
                     {card.bio && (
                     <p
-                      className="text-sm opacity-70"
-                      style={{ color: theme.text }}
+                      className="text-sm"
+                      style={{ color: colors.muted }}
                     >
                       {card.bio}
                     </p>
@@ -594,6 +876,7 @@ export const PublicCard: React.FC = () => {
                 <div className="space-y-3 mb-6">
                   <a
                     href={`mailto:${card.email}`}
+                    onClick={() => trackEvent("email_click")}
                     className="flex items-center gap-3 p-2 border border-gray-200 rounded-xl hover:shadow-md transition-shadow group"
                   >
                     <div className="w-10 h-10 bg-blue-50 rounded-lg flex items-center justify-center">
@@ -608,6 +891,7 @@ export const PublicCard: React.FC = () => {
                     (card.map_link && typeof card.map_link === "string" && card.map_link.trim() !== "" ? (
                       <a
                         href={card.map_link as string}
+                        onClick={() => trackEvent("map_click")}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="flex items-center gap-3 p-2 border border-gray-200 rounded-xl hover:shadow-md transition-shadow group"
@@ -627,6 +911,7 @@ export const PublicCard: React.FC = () => {
                   {card.phone && (
                     <a
                       href={`tel:${card.phone}`}
+                      onClick={() => trackEvent("phone_click")}
                       className="flex items-center gap-3 p-2 border border-gray-200 rounded-xl hover:shadow-md transition-shadow group"
                     >
                       <div className="w-10 h-10 bg-green-50 rounded-lg flex items-center justify-center">
@@ -644,6 +929,7 @@ export const PublicCard: React.FC = () => {
                         /[^0-9]/g,
                         ""
                       )}`}
+                      onClick={() => trackEvent("whatsapp_click")}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="flex items-center gap-3 p-2 border border-gray-200 rounded-xl hover:shadow-md transition-shadow group"
@@ -664,6 +950,7 @@ export const PublicCard: React.FC = () => {
                           ? card.website
                           : `https://${card.website}`
                       }
+                      onClick={() => trackEvent("website_click")}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="flex items-center gap-3 p-2 border border-gray-200 rounded-xl hover:shadow-md transition-shadow group"
@@ -677,6 +964,32 @@ export const PublicCard: React.FC = () => {
                     </a>
                   )}
                 </div>
+
+                {/* Lead Capture */}
+                {card.lead_capture_enabled && (
+                  <button
+                    onClick={() => setShowLeadForm(true)}
+                    data-html2canvas-ignore="true"
+                    className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl shadow-md hover:opacity-90 transition-opacity"
+                    style={getThemeButtonStyle(theme, colors)}
+                  >
+                    <Send className="w-5 h-5" />
+                    Exchange Contact
+                  </button>
+                )}
+
+                {/* Booking */}
+                {card.booking_enabled && (
+                  <button
+                    onClick={() => setShowBooking(true)}
+                    data-html2canvas-ignore="true"
+                    className="w-full flex items-center justify-center gap-2 px-4 py-3 mt-3 rounded-xl hover:opacity-90 transition-opacity"
+                    style={getThemeButtonStyle(theme, colors, "secondary")}
+                  >
+                    <CalendarDays className="w-5 h-5" />
+                    Book a Meeting
+                  </button>
+                )}
               </div>
             </div>
 
@@ -687,13 +1000,12 @@ export const PublicCard: React.FC = () => {
                 ref={cardRef}
                 className={`w-full p-6 ${getCardShapeClasses()} ${getStyleClasses()} ${getLayoutClasses()}`}
                 style={{
-                  backgroundColor: theme.background,
-                  color: theme.text,
+                  ...getThemeSurfaceStyle(theme, colors),
                   fontFamily: `'${layout.font}', sans-serif`,
-                  borderColor: theme.primary + "50",
+                  borderColor: colors.primary + "50",
                 }}
               >
-                <h3 className="text-xl font-semibold mb-4" style={{ color: theme.text }}>
+                <h3 className="text-xl font-semibold mb-4" style={{ color: colors.text }}>
                   Get In Touch
                 </h3>
                
@@ -705,6 +1017,7 @@ export const PublicCard: React.FC = () => {
                       <a
                         key={link.id}
                         href={link.url}
+                        onClick={() => trackEvent("social_click", link.platform)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="flex items-center gap-2 p-3 rounded-lg transition-all duration-200 hover:bg-black hover:bg-opacity-10 hover:scale-105"
@@ -737,15 +1050,14 @@ export const PublicCard: React.FC = () => {
                   ref={cardRef}
                   className={`w-full p-6 ${getCardShapeClasses()} ${getStyleClasses()} ${getLayoutClasses()}`}
                   style={{
-                    backgroundColor: theme.background,
-                    color: theme.text,
+                    ...getThemeSurfaceStyle(theme, colors),
                     fontFamily: `'${layout.font}', sans-serif`,
-                    borderColor: theme.primary + "50",
+                    borderColor: colors.primary + "50",
                   }}
                 >
                   <h3
                     className="text-xl font-semibold mb-4 flex items-center gap-2"
-                    style={{ color: theme.text }}
+                    style={{ color: colors.text }}
                   >
                     <Play className="w-5 h-5 text-blue-600" />
                     Media Gallery
@@ -805,15 +1117,14 @@ export const PublicCard: React.FC = () => {
                   ref={cardRef}
                   className={`w-full p-6 ${getCardShapeClasses()} ${getStyleClasses()} ${getLayoutClasses()}`}
                   style={{
-                    backgroundColor: theme.background,
-                    color: theme.text,
+                    ...getThemeSurfaceStyle(theme, colors),
                     fontFamily: `'${layout.font}', sans-serif`,
-                    borderColor: theme.primary + "50",
+                    borderColor: colors.primary + "50",
                   }}
                 >
                   <h3
                     className="text-xl font-semibold mb-4 flex items-center gap-2"
-                    style={{ color: theme.text }}
+                    style={{ color: colors.text }}
                   >
                     <Star className="w-5 h-5 text-yellow-600" />
                     Reviews
@@ -823,6 +1134,7 @@ export const PublicCard: React.FC = () => {
                       <a
                         key={review.id}
                         href={review.review_url}
+                        onClick={() => trackEvent("review_click", review.title)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="block p-4 border border-gray-200 rounded-xl hover:shadow-md transition-shadow group"
@@ -835,7 +1147,7 @@ export const PublicCard: React.FC = () => {
                             <h4 className="font-medium text-gray-600 group-hover:text-blue-600 transition-colors" >
                               {review.title}
                             </h4>
-                            <p className="text-sm" style={{ color: theme.text }}>
+                            <p className="text-sm" style={{ color: colors.text }}>
                               View our customer reviews
                             </p>
                           </div>
@@ -860,6 +1172,13 @@ export const PublicCard: React.FC = () => {
 
       {/* Desktop Action Buttons */}
       <div className="fixed bottom-8 right-8 flex-col gap-3 hidden lg:flex">
+        <button
+          onClick={handleSaveContact}
+          className="w-14 h-14 bg-orange-600 text-white rounded-full shadow-lg hover:bg-orange-700 hover:scale-110 transition-all duration-200 flex items-center justify-center"
+          title="Save Contact"
+        >
+          <UserPlus className="w-6 h-6" />
+        </button>
         <button
           onClick={() => setShowQR(!showQR)}
           className="w-14 h-14 bg-purple-600 text-white rounded-full shadow-lg hover:bg-purple-700 hover:scale-110 transition-all duration-200 flex items-center justify-center"
@@ -884,7 +1203,14 @@ export const PublicCard: React.FC = () => {
       </div>
 
       {/* Mobile Action Buttons */}
-      <div className="grid grid-cols-3 gap-2 p-4 mt-5 flex lg:hidden">
+      <div className="grid grid-cols-4 gap-2 p-4 mt-5 flex lg:hidden">
+        <button
+          onClick={handleSaveContact}
+          className="flex flex-col items-center gap-2 p-4 bg-orange-600 text-white rounded-xl hover:bg-orange-700 transition-colors shadow-lg"
+          title="Save Contact"
+        >
+          <UserPlus className="w-8 h-8" />
+        </button>
         <button
           onClick={handleDownload}
           className="flex flex-col items-center gap-2 p-4 bg-green-600 text-white rounded-xl hover:bg-green-700 transition-colors shadow-lg"
@@ -0,0 +1,379 @@
+import React, { useRef, useState } from 'react';
+import { Download, AlertTriangle, CheckCircle, QrCode, Copy, Plus, Trash2 } from 'lucide-react';
+import { BrandedQRCode } from './BrandedQRCode';
+import { useQRSources } from '../hooks/useQRSources';
+import {
+  QR_COLOR_LABELS,
+  QR_DOT_STYLE_LABELS,
+  QR_ERROR_LEVELS,
+  QR_ERROR_LEVEL_LABELS,
+  QR_EXPORT_FORMAT_LABELS,
+  QR_EYE_STYLE_LABELS,
+  QR_LOGO_SIZE_RANGE,
+  QR_PNG_SIZE,
+  QR_THEME_COLORS,
+  checkQRContrast,
+  downloadQRCodeVector,
+  getCardQRUrl,
+  getEffectiveErrorLevel,
+  getQRSourceUrl,
+  resolveQRColor,
+  type QRColor,
+  type QRDesign,
+  type QRDotStyle,
+  type QRErrorLevel,
+  type QRExportFormat,
+  type QREyeStyle,
+} from '../utils/qrUtils';
+import { isHexColor, type CardTheme } from '../utils/themeUtils';
+
+interface QRCodeStudioProps {
+  // Id of the saved card; tracked sources can only be added once it exists
+  cardId: string | null;
+  slug: string | null;
+  theme: CardTheme;
+  avatarUrl: string | null;
+  design: QRDesign;
+  onChange: (design: QRDesign) => void;
+  disabled?: boolean;
+}
+
+const CONTRAST_STYLES: Record<'good' | 'warning' | 'poor', string> = {
+  good: 'bg-green-50 text-green-800 border-green-200',
+  warning: 'bg-amber-50 text-amber-800 border-amber-200',
+  poor: 'bg-red-50 text-red-800 border-red-200',
+};
+
+export const QRCodeStudio: React.FC<QRCodeStudioProps> = ({
+  cardId,
+  slug,
+  theme,
+  avatarUrl,
+  design,
+  onChange,
+  disabled = false
+}) => {
+  const [exporting, setExporting] = useState<QRExportFormat | null>(null);
+  const [selectedSourceId, setSelectedSourceId] = useState<string>('');
+  const [newSourceName, setNewSourceName] = useState('');
+  const [addingSource, setAddingSource] = useState(false);
+  const exportRef = useRef<HTMLDivElement>(null);
+  const { sources, createSource, deleteSource } = useQRSources(cardId);
+
+  if (!slug) {
+    return (
+      <div className="text-center py-8 border border-dashed border-gray-300 rounded-lg">
+        <QrCode className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+        <p className="text-sm text-gray-500">Set a card URL in the Basic Info tab to design its QR code.</p>
+      </div>
+    );
+  }
+
+  const selectedSource = sources.find(source => source.id === selectedSourceId) || null;
+  const value = selectedSource ? getQRSourceUrl(selectedSource.code) : getCardQRUrl(slug);
+  const logoUrl = avatarUrl || null;
+  const hasLogo = design.show_logo && !!logoUrl;
+  const { level, raised } = getEffectiveErrorLevel(design, hasLogo);
+  const colors = {
+    foreground: resolveQRColor(design.foreground, theme),
+    background: resolveQRColor(design.background, theme),
+  };
+  const contrast = checkQRContrast(colors.foreground, colors.background);
+  const filename = selectedSource ? `${slug}-${selectedSource.code}-qr` : `${slug}-qr`;
+
+  const update = (updates: Partial<QRDesign>) => {
+    onChange({ ...design, ...updates });
+  };
+
+  const handleDownload = async (format: QRExportFormat) => {
+    if (contrast.status === 'poor' && !confirm('This QR code may not scan. Download it anyway?')) return;
+
+    if (format === 'png') {
+      const canvas = exportRef.current?.querySelector('canvas');
+      try {
+        if (!canvas) throw new Error('QR code canvas is not ready');
+        const link = document.createElement('a');
+        link.download = `${filename}.png`;
+        link.href = canvas.toDataURL('image/png');
+        link.click();
+      } catch (error) {
+        console.error('Error exporting QR code:', error);
+        alert('Failed to export QR code. Please try again.');
+      }
+      return;
+    }
+
+    setExporting(format);
+    const result = await downloadQRCodeVector(format, value, design, colors, hasLogo ? logoUrl : null, filename);
+    setExporting(null);
+
+    if (!result.success) {
+      alert('Failed to export QR code. Please try again.');
+    }
+  };
+
+  const handleAddSource = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSourceName.trim()) return;
+
+    setAddingSource(true);
+    const result = await createSource(newSourceName);
+    setAddingSource(false);
+
+    if (result.success && result.source) {
+      setNewSourceName('');
+      setSelectedSourceId(result.source.id);
+    } else {
+      alert('Failed to add QR source. Please try again.');
+    }
+  };
+
+  const handleDeleteSource = async (sourceId: string, name: string) => {
+    if (!confirm(`Delete the "${name}" source? Printed codes for it will stop working. Its past scans stay in your analytics.`)) return;
+
+    const result = await deleteSource(sourceId);
+    if (!result.success) {
+      alert('Failed to delete QR source. Please try again.');
+    }
+  };
+
+  const copySourceUrl = (code: string) => {
+    navigator.clipboard.writeText(getQRSourceUrl(code)).then(() => {
+      alert('QR link copied to clipboard!');
+    });
+  };
+
+  const renderColorChoice = (label: string, color: QRColor, onSelect: (color: QRColor) => void) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      <div className="flex flex-wrap items-center gap-2">
+        {QR_THEME_COLORS.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onSelect(option)}
+            disabled={disabled}
+            className={`w-8 h-8 rounded-full border-2 transition-all disabled:opacity-50 ${
+              color === option ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200 hover:border-gray-300'
+            }`}
+            style={{ backgroundColor: resolveQRColor(option, theme) }}
+            title={QR_COLOR_LABELS[option]}
+          />
+        ))}
+        <input
+          type="color"
+          value={isHexColor(color) && color.length === 7 ? color : resolveQRColor(color, theme)}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={disabled}
+          className={`w-8 h-8 rounded cursor-pointer disabled:opacity-50 ${isHexColor(color) ? 'ring-2 ring-blue-200' : ''}`}
+          title="Custom color"
+        />
+      </div>
+    </div>
+  );
+
+  const renderPills = <T extends string>(label: string, options: Record<T, string>, selected: T, onSelect: (value: T) => void) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(options) as T[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onSelect(option)}
+            disabled={disabled}
+            className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors disabled:opacity-50 ${
+              selected === option
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            {options[option]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6">
+      {/* Preview */}
+      <div className="md:w-56 flex-shrink-0 space-y-3">
+        {sources.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Code for</label>
+            <select
+              value={selectedSource?.id || ''}
+              onChange={(e) => setSelectedSourceId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            >
+              <option value="">Card page</option>
+              {sources.map(source => (
+                <option key={source.id} value={source.id}>{source.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg flex justify-center">
+          <BrandedQRCode
+            id="qr-studio-preview"
+            value={value}
+            design={design}
+            theme={theme}
+            logoUrl={logoUrl}
+            size={180}
+          />
+        </div>
+        <div className={`flex items-start gap-2 p-2 border rounded-lg text-xs ${CONTRAST_STYLES[contrast.status]}`}>
+          {contrast.status === 'good'
+            ? <CheckCircle className="w-4 h-4 flex-shrink-0" />
+            : <AlertTriangle className="w-4 h-4 flex-shrink-0" />}
+          <span>
+            Contrast {contrast.ratio.toFixed(1)}:1. {contrast.message}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          {(['svg', 'png', 'eps'] as const).map(format => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleDownload(format)}
+              disabled={exporting !== null}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              title={`Download ${QR_EXPORT_FORMAT_LABELS[format]}`}
+            >
+              <Download className="w-4 h-4" />
+              {QR_EXPORT_FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          SVG and EPS are vector and print at any size. PNG is {QR_PNG_SIZE} pixels wide.
+        </p>
+      </div>
+
+      {/* Options */}
+      <div className="flex-1 space-y-4">
+        {renderColorChoice('Code color', design.foreground, (foreground) => update({ foreground }))}
+        {renderColorChoice('Background', design.background, (background) => update({ background }))}
+        {renderPills<QRDotStyle>('Dots', QR_DOT_STYLE_LABELS, design.dot_style, (dot_style) => update({ dot_style }))}
+        {renderPills<QREyeStyle>('Corner eyes', QR_EYE_STYLE_LABELS, design.eye_style, (eye_style) => update({ eye_style }))}
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={design.show_logo}
+              onChange={(e) => update({ show_logo: e.target.checked })}
+              disabled={disabled || !logoUrl}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            Profile photo in the middle
+            {!logoUrl && <span className="text-xs text-gray-400">(add a profile photo first)</span>}
+          </label>
+          {hasLogo && (
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                min={QR_LOGO_SIZE_RANGE.min * 100}
+                max={QR_LOGO_SIZE_RANGE.max * 100}
+                value={Math.round(design.logo_size * 100)}
+                onChange={(e) => update({ logo_size: Number(e.target.value) / 100 })}
+                disabled={disabled}
+                className="flex-1"
+              />
+              <span className="text-sm text-gray-600 w-10 text-right">{Math.round(design.logo_size * 100)}%</span>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Error correction</label>
+          <select
+            value={design.error_correction}
+            onChange={(e) => update({ error_correction: e.target.value as QRErrorLevel })}
+            disabled={disabled}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:opacity-50"
+          >
+            {QR_ERROR_LEVELS.map(option => (
+              <option key={option} value={option}>{QR_ERROR_LEVEL_LABELS[option]}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            {raised
+              ? `Raised to ${QR_ERROR_LEVEL_LABELS[level]} so the code still scans with the photo covering part of it.`
+              : 'Higher levels survive more damage and dirt but make the code denser.'}
+          </p>
+        </div>
+
+        <div className="pt-4 border-t border-gray-200">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tracked sources</label>
+          <p className="text-xs text-gray-500 mb-3">
+            Give each place you put the code, such as a flyer or a booth banner, its own source.
+            Its code opens a short link, and Analytics shows how often each one is scanned.
+          </p>
+          {!cardId ? (
+            <p className="text-sm text-gray-500">Save the card to add tracked sources.</p>
+          ) : (
+            <div className="space-y-2">
+              {sources.map(source => (
+                <div key={source.id} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{source.name}</p>
+                    <p className="text-xs text-gray-500 truncate">{getQRSourceUrl(source.code)}</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => copySourceUrl(source.code)}
+                    className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                    title="Copy link"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteSource(source.id, source.name)}
+                    className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                    title="Delete source"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <form onSubmit={handleAddSource} className="flex gap-2">
+                <input
+                  type="text"
+                  value={newSourceName}
+                  onChange={(e) => setNewSourceName(e.target.value)}
+                  placeholder="e.g. Trade show banner"
+                  maxLength={80}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={addingSource || !newSourceName.trim()}
+                  className="flex items-center gap-1 px-3 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add
+                </button>
+              </form>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Print-resolution render for the PNG download, kept off screen */}
+      <div ref={exportRef} className="fixed top-0 -left-[10000px]" aria-hidden="true">
+        <BrandedQRCode
+          id="qr-studio-export"
+          value={value}
+          design={design}
+          theme={theme}
+          logoUrl={logoUrl}
+          size={QR_PNG_SIZE}
+        />
+      </div>
+    </div>
+  );
+};
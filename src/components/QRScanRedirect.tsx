@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, QrCode } from 'lucide-react';
+import { recordQRScan } from '../utils/analyticsUtils';
+
+/**
+ * Landing page for a tracked QR source (`/q/:code`). Records the scan against the
+ * source, then replaces itself with the card page.
+ */
+export const QRScanRedirect: React.FC = () => {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    if (!code) return;
+
+    let cancelled = false;
+    recordQRScan(code).then(result => {
+      if (cancelled) return;
+      if (result?.found && result.slug) {
+        // The scan is already recorded, so the card page must not count it again
+        navigate(`/c/${result.slug}?src=qr`, { replace: true, state: { qrScanRecorded: true } });
+      } else {
+        setNotFound(true);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, navigate]);
+
+  if (!notFound) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Opening card...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+      <div className="text-center max-w-md mx-auto p-8">
+        <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <QrCode className="w-8 h-8 text-red-600" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">QR Code Not Found</h1>
+        <p className="text-gray-600 mb-6">
+          This QR code is no longer linked to a business card, or the card has been unpublished.
+        </p>
+        <button
+          onClick={() => (window.location.href = '/')}
+          className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Go Home
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, X, ExternalLink, Star, Loader2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/supabase';
+
+type ReviewLinkRow = Database['public']['Tables']['review_links']['Row'];
 
 interface Review {
   id: string;
@@ -13,12 +16,28 @@ interface ReviewsManagerProps {
   cardId: string;
   reviews: Review[];
   onReviewsChange: (reviews: Review[]) => void;
+  // Editing a published card: the draft's review links (once it has them) and where
+  // changes are staged instead of the live card
+  stagedRows?: ReviewLinkRow[];
+  onStage?: (rows: ReviewLinkRow[]) => Promise<boolean>;
 }
 
+const toReviews = (rows: ReviewLinkRow[]): Review[] =>
+  rows
+    .filter(item => item.is_active)
+    .map(item => ({
+      id: item.id,
+      review_url: item.review_url,
+      title: item.title,
+      created_at: item.created_at
+    }));
+
 export const ReviewsManager: React.FC<ReviewsManagerProps> = ({
   cardId,
   reviews,
-  onReviewsChange
+  onReviewsChange,
+  stagedRows,
+  onStage
 }) => {
   const [showAddForm, setShowAddForm] = useState(false);
   const [newReview, setNewReview] = useState({
@@ -27,23 +46,43 @@ export const ReviewsManager: React.FC<ReviewsManagerProps> = ({
   });
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
+  const [rows, setRows] = useState<ReviewLinkRow[]>([]);
 
-  // Load reviews from database on component mount
+  // Load reviews from the draft or the database on component mount
   useEffect(() => {
     loadReviews();
     // eslint-disable-next-line
-  }, [cardId]);
+  }, [cardId, stagedRows]);
+
+  const showRows = (nextRows: ReviewLinkRow[]) => {
+    setRows(nextRows);
+    onReviewsChange(toReviews(nextRows));
+  };
+
+  // Staged changes replace the draft's whole list, so keep every row, not just the shown ones
+  const saveRows = async (nextRows: ReviewLinkRow[]) => {
+    const previousRows = rows;
+    showRows(nextRows);
+    if (onStage && await onStage(nextRows)) return true;
+    showRows(previousRows);
+    return false;
+  };
 
   const loadReviews = async () => {
     if (!cardId) return;
 
+    if (stagedRows) {
+      showRows(stagedRows);
+      setLoading(false);
+      return;
+    }
+
     try {
       setLoading(true);
       const { data, error } = await supabase
         .from('review_links')
         .select('*')
         .eq('card_id', cardId)
-        .eq('is_active', true)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -51,14 +90,7 @@ export const ReviewsManager: React.FC<ReviewsManagerProps> = ({
         return;
       }
 
-      const formattedReviews: Review[] = (data || []).map(item => ({
-        id: item.id,
-        review_url: item.review_url,
-        title: item.title,
-        created_at: item.created_at
-      }));
-
-      onReviewsChange(formattedReviews);
+      showRows(data || []);
     } catch (error) {
       console.error('Error loading reviews:', error);
     } finally {
@@ -75,6 +107,30 @@ export const ReviewsManager: React.FC<ReviewsManagerProps> = ({
     try {
       setUploading(true);
 
+      if (onStage) {
+        const now = new Date().toISOString();
+        const staged = await saveRows([
+          {
+            id: crypto.randomUUID(),
+            card_id: cardId,
+            title: newReview.title,
+            review_url: newReview.review_url,
+            is_active: true,
+            created_at: now,
+            updated_at: now
+          },
+          ...rows
+        ]);
+        if (staged) {
+          setNewReview({
+            title: '',
+            review_url: ''
+          });
+          setShowAddForm(false);
+        }
+        return;
+      }
+
       const reviewData = {
         card_id: cardId,
         title: newReview.title,
@@ -90,14 +146,7 @@ export const ReviewsManager: React.FC<ReviewsManagerProps> = ({
 
       if (error) throw error;
 
-      const review: Review = {
-        id: data.id,
-        title: data.title,
-        review_url: data.review_url,
-        created_at: data.created_at
-      };
-
-      onReviewsChange([review, ...reviews]);
+      showRows([data, ...rows]);
       setNewReview({
         title: '',
         review_url: ''
@@ -113,6 +162,11 @@ export const ReviewsManager: React.FC<ReviewsManagerProps> = ({
 
   const handleRemoveReview = async (id: string) => {
     try {
+      if (onStage) {
+        await saveRows(rows.filter(review => review.id !== id));
+        return;
+      }
+
       const { error } = await supabase
         .from('review_links')
         .delete()
@@ -120,7 +174,7 @@ export const ReviewsManager: React.FC<ReviewsManagerProps> = ({
 
       if (error) throw error;
 
-      onReviewsChange(reviews.filter(review => review.id !== id));
+      showRows(rows.filter(review => review.id !== id));
     } catch (error) {
       console.error('Error removing review:', error);
       alert('Failed to remove review link. Please try again.');
@@ -128,7 +182,16 @@ export const ReviewsManager: React.FC<ReviewsManagerProps> = ({
   };
 
   const updateReviewTitle = async (id: string, newTitle: string) => {
+    const updatedRows = rows.map(review =>
+      review.id === id ? { ...review, title: newTitle } : review
+    );
+
     try {
+      if (onStage) {
+        await saveRows(updatedRows);
+        return;
+      }
+
       const { error } = await supabase
         .from('review_links')
         .update({ title: newTitle })
@@ -140,10 +203,7 @@ export const ReviewsManager: React.FC<ReviewsManagerProps> = ({
       }
 
       // Update local state
-      const updatedReviews = reviews.map(review =>
-        review.id === id ? { ...review, title: newTitle } : review
-      );
-      onReviewsChange(updatedReviews);
+      showRows(updatedRows);
     } catch (error) {
       console.error('Error updating title:', error);
     }
@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { History, X, RotateCcw, ArrowRight, FileEdit } from 'lucide-react';
+import {
+  fetchCardRevisions,
+  restoreCardRevision,
+  diffCardFields,
+  diffRevisionCollections,
+} from '../utils/revisionUtils';
+import type { Database } from '../lib/supabase';
+import type { CardDraftData, CardFields, CardRevision, FieldChange, CollectionChange } from '../utils/revisionUtils';
+
+type BusinessCard = Database['public']['Tables']['business_cards']['Row'];
+
+interface RevisionHistoryProps {
+  card: BusinessCard;
+  draft: CardDraftData | null;
+  onClose: () => void;
+  onRestored: (revision: CardRevision) => void;
+}
+
+const DRAFT_SELECTION = 'draft';
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ card, draft, onClose, onRestored }) => {
+  const [revisions, setRevisions] = useState<CardRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const hasDraft = draft !== null;
+
+  useEffect(() => {
+    const loadRevisions = async () => {
+      setLoading(true);
+      const data = await fetchCardRevisions(card.id);
+      setRevisions(data);
+      setSelectedId((current) => current || (hasDraft ? DRAFT_SELECTION : data[0]?.id || null));
+      setLoading(false);
+    };
+
+    loadRevisions();
+  }, [card.id, hasDraft]);
+
+  const handleRestore = async (revision: CardRevision) => {
+    if (!confirm(`Restore revision ${revision.revision_number}? The live card, its social links, media and review links will be replaced, and any unpublished draft will be discarded.`)) {
+      return;
+    }
+
+    setRestoring(true);
+    const result = await restoreCardRevision(revision.id);
+    setRestoring(false);
+
+    if (!result.success || !result.revision) {
+      alert('Failed to restore revision. Please try again.');
+      return;
+    }
+
+    onRestored(result.revision);
+  };
+
+  const selectedIndex = revisions.findIndex((revision) => revision.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] || null : null;
+
+  let fieldChanges: FieldChange[] = [];
+  let collectionChanges: CollectionChange[] = [];
+  if (selectedId === DRAFT_SELECTION && draft) {
+    fieldChanges = diffCardFields(card, { ...card, ...draft });
+    // Staged lists are compared with the latest published version
+    collectionChanges = revisions[0] ? diffRevisionCollections(revisions[0], draft) : [];
+  } else if (selected) {
+    fieldChanges = diffCardFields(
+      (previous?.card || {}) as Partial<CardFields>,
+      selected.card as Partial<CardFields>
+    );
+    collectionChanges = previous ? diffRevisionCollections(previous, selected) : [];
+  }
+
+  const renderChanges = () => {
+    if (selected && !previous) {
+      return <p className="text-sm text-gray-500">First published version of this card.</p>;
+    }
+    if (fieldChanges.length === 0 && collectionChanges.length === 0) {
+      return <p className="text-sm text-gray-500">No changes to card details.</p>;
+    }
+
+    return (
+      <div className="space-y-3">
+        {fieldChanges.map((change) => (
+          <div key={change.field} className="text-sm">
+            <div className="font-medium text-gray-700">{change.label}</div>
+            <div className="flex items-start gap-2 mt-1">
+              <span className="flex-1 px-2 py-1 rounded bg-red-50 text-red-700 line-through break-all">
+                {change.before || 'Empty'}
+              </span>
+              <ArrowRight className="w-4 h-4 text-gray-400 mt-1 flex-shrink-0" />
+              <span className="flex-1 px-2 py-1 rounded bg-green-50 text-green-700 break-all">
+                {change.after || 'Empty'}
+              </span>
+            </div>
+          </div>
+        ))}
+        {collectionChanges.map((change) => (
+          <div key={change.label} className="text-sm">
+            <div className="font-medium text-gray-700">{change.label}</div>
+            <ul className="mt-1 space-y-1">
+              {change.added.map((item) => (
+                <li key={`added-${item}`} className="text-green-700">+ {item}</li>
+              ))}
+              {change.removed.map((item) => (
+                <li key={`removed-${item}`} className="text-red-700">- {item}</li>
+              ))}
+              {change.changed.map((item) => (
+                <li key={`changed-${item}`} className="text-amber-700">~ {item}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-4xl w-full max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Revision History
+          </h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 flex-1 overflow-hidden">
+            <div className="border-r border-gray-200 overflow-y-auto">
+              {draft && (
+                <button
+                  onClick={() => setSelectedId(DRAFT_SELECTION)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 ${
+                    selectedId === DRAFT_SELECTION ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-sm font-medium text-amber-700">
+                    <FileEdit className="w-4 h-4" />
+                    Unpublished draft
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">Compared with the live card</div>
+                </button>
+              )}
+              {revisions.length === 0 && (
+                <p className="px-4 py-6 text-sm text-gray-500">
+                  No published revisions yet. A revision is saved every time you publish.
+                </p>
+              )}
+              {revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 ${
+                    selectedId === revision.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">
+                      Revision {revision.revision_number}
+                    </span>
+                    {index === 0 && card.is_published && (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-700">
+                        Live
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {new Date(revision.created_at).toLocaleString()}
+                  </div>
+                  {revision.note && (
+                    <div className="text-xs text-gray-600 mt-1 truncate">{revision.note}</div>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            <div className="md:col-span-2 p-6 overflow-y-auto">
+              {selectedId === DRAFT_SELECTION && draft ? (
+                <>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-4">
+                    Changes waiting to be published
+                  </h4>
+                  {renderChanges()}
+                </>
+              ) : selected ? (
+                <>
+                  <div className="flex items-center justify-between mb-4">
+                    <h4 className="text-sm font-semibold text-gray-900">
+                      {previous
+                        ? `Changes from revision ${previous.revision_number} to ${selected.revision_number}`
+                        : `Revision ${selected.revision_number}`}
+                    </h4>
+                    {(selectedIndex > 0 || !card.is_published) && (
+                      <button
+                        onClick={() => handleRestore(selected)}
+                        disabled={restoring}
+                        className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        {restoring ? 'Restoring...' : 'Restore this version'}
+                      </button>
+                    )}
+                  </div>
+                  {renderChanges()}
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">Select a revision to see what changed.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
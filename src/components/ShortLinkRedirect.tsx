@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Link2 } from 'lucide-react';
+import { recordShortLinkClick } from '../utils/analyticsUtils';
+import { buildUtmQuery } from '../utils/shortLinkUtils';
+
+/**
+ * Landing page for a short link (`/s/:code`). Counts the click, then replaces itself
+ * with the card page tagged with the link's UTM parameters.
+ */
+export const ShortLinkRedirect: React.FC = () => {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    if (!code) return;
+
+    let cancelled = false;
+    recordShortLinkClick(code).then(result => {
+      if (cancelled) return;
+      if (result?.found && result.slug) {
+        // The card page stores the link and UTM parameters with the view
+        const query = buildUtmQuery(result.utm || {});
+        navigate(`/c/${result.slug}${query ? `?${query}` : ''}`, {
+          replace: true,
+          state: { shortLinkId: result.short_link_id },
+        });
+      } else {
+        setNotFound(true);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, navigate]);
+
+  if (!notFound) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Opening card...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+      <div className="text-center max-w-md mx-auto p-8">
+        <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Link2 className="w-8 h-8 text-red-600" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Link Not Found</h1>
+        <p className="text-gray-600 mb-6">
+          This short link has been deleted, or the card it points to has been unpublished.
+        </p>
+        <button
+          onClick={() => (window.location.href = '/')}
+          className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Go Home
+        </button>
+      </div>
+    </div>
+  );
+};
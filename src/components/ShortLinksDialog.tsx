@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { X, Link2, Copy, Trash2, Plus, Loader2 } from 'lucide-react';
+import { useShortLinks } from '../hooks/useShortLinks';
+import {
+  UTM_FIELDS,
+  UTM_FIELD_LABELS,
+  UTM_FIELD_PLACEHOLDERS,
+  UTM_PRESETS,
+  describeUtm,
+  getShortLinkUrl,
+  normalizeShortCodeInput,
+  validateShortCode,
+  type UtmParams,
+} from '../utils/shortLinkUtils';
+
+interface ShortLinksDialogProps {
+  card: { id: string; title: string | null };
+  onClose: () => void;
+}
+
+export const ShortLinksDialog: React.FC<ShortLinksDialogProps> = ({ card, onClose }) => {
+  const { links, loading, createLink, deleteLink } = useShortLinks(card.id);
+  const [label, setLabel] = useState('');
+  const [code, setCode] = useState('');
+  const [presetId, setPresetId] = useState('');
+  const [utm, setUtm] = useState<UtmParams>({});
+  const [creating, setCreating] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const codeError = code ? validateShortCode(code) : null;
+
+  const handlePresetChange = (id: string) => {
+    setPresetId(id);
+    const preset = UTM_PRESETS.find(option => option.id === id);
+    setUtm(preset ? { ...preset.utm, utm_campaign: utm.utm_campaign } : {});
+    if (preset && !label.trim()) {
+      setLabel(preset.label);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (codeError) return;
+
+    setCreating(true);
+    setFormError(null);
+    const result = await createLink(code, label, utm);
+    setCreating(false);
+
+    if (!result.success) {
+      setFormError(result.error || 'Failed to create short link');
+      return;
+    }
+
+    setLabel('');
+    setCode('');
+    setPresetId('');
+    setUtm({});
+  };
+
+  const handleDelete = async (linkId: string) => {
+    if (!confirm('Delete this short link? Anyone who opens it will no longer reach your card.')) return;
+
+    const result = await deleteLink(linkId);
+    if (!result.success) {
+      alert('Failed to delete short link. Please try again.');
+    }
+  };
+
+  const copyLink = (linkCode: string) => {
+    navigator.clipboard.writeText(getShortLinkUrl(linkCode)).then(() => {
+      alert('Short link copied to clipboard!');
+    }).catch(() => {
+      alert('Failed to copy URL. Please try again.');
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Short Links</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <p className="text-sm text-gray-600">
+            Short links to {card.title || 'Untitled Card'}. Each one counts its clicks and tags the visit
+            with its UTM parameters, so you can see where your visitors come from.
+          </p>
+
+          {/* Existing links */}
+          <div className="space-y-2">
+            {loading && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+              </div>
+            )}
+            {!loading && links.length === 0 && (
+              <p className="text-sm text-gray-500">No short links yet.</p>
+            )}
+            {links.map(link => (
+              <div key={link.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
+                <Link2 className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{getShortLinkUrl(link.code)}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {[link.label, describeUtm(link)].filter(Boolean).join(' · ') || 'No UTM tags'}
+                  </p>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className="text-sm font-semibold text-gray-900">{link.click_count}</p>
+                  <p className="text-xs text-gray-500">{link.click_count === 1 ? 'click' : 'clicks'}</p>
+                </div>
+                <button
+                  onClick={() => copyLink(link.code)}
+                  className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                  title="Copy link"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(link.id)}
+                  className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                  title="Delete link"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* New link */}
+          <form onSubmit={handleCreate} className="space-y-4 pt-4 border-t border-gray-200">
+            <h4 className="text-sm font-semibold text-gray-900">New short link</h4>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Shared on</label>
+                <select
+                  value={presetId}
+                  onChange={(e) => handlePresetChange(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Custom tags</option>
+                  {UTM_PRESETS.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+                <input
+                  type="text"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="For your own reference"
+                  maxLength={80}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Custom code</label>
+              <div className="flex items-center">
+                <span className="px-3 py-2 text-sm text-gray-500 bg-gray-50 border border-r-0 border-gray-300 rounded-l-lg">/s/</span>
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(normalizeShortCodeInput(e.target.value))}
+                  placeholder="Leave empty to generate one"
+                  className={`${inputClass} rounded-l-none`}
+                />
+              </div>
+              {codeError && <p className="text-xs text-red-600 mt-1">{codeError}</p>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {UTM_FIELDS.map(field => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {UTM_FIELD_LABELS[field]} <span className="text-xs font-normal text-gray-400">{field}</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={utm[field] || ''}
+                    onChange={(e) => setUtm({ ...utm, [field]: e.target.value })}
+                    placeholder={UTM_FIELD_PLACEHOLDERS[field]}
+                    maxLength={200}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {formError && (
+              <p className="text-sm text-red-600">{formError}</p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Close
+              </button>
+              <button
+                type="submit"
+                disabled={creating || !!codeError}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                Create Link
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
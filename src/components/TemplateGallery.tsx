@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Crown, Loader2, Lock, Plus } from 'lucide-react';
+import { UpgradePrompt } from './UpgradePrompt';
+import { useCardTemplates } from '../hooks/useCardTemplates';
+import { usePlan } from '../hooks/usePlan';
+import { getTemplateDesign, type CardTemplate } from '../utils/templateUtils';
+import {
+  getThemeButtonStyle,
+  getThemeColors,
+  getThemeSurfaceStyle,
+  resolveCardTheme,
+} from '../utils/themeUtils';
+
+interface TemplateGalleryProps {
+  onSelect: (template: CardTemplate) => void;
+  // Shown as a first "Start blank" tile when set
+  onSkip?: () => void;
+}
+
+/**
+ * A small card drawn with the template's own theme, for templates without a preview image
+ */
+export const TemplateSwatch: React.FC<{ template: CardTemplate }> = ({ template }) => {
+  const { theme, layout } = getTemplateDesign(template);
+  const resolved = resolveCardTheme(theme);
+  const colors = getThemeColors(resolved, resolved.appearance === 'dark');
+
+  return (
+    <div className="w-full h-full flex items-center justify-center p-4 bg-gray-50">
+      <div
+        className="w-4/5 p-4 rounded-xl shadow-md flex flex-col items-center text-center"
+        style={{ ...getThemeSurfaceStyle(resolved, colors), fontFamily: `'${layout.font}', sans-serif` }}
+      >
+        <div className="w-10 h-10 rounded-full mb-2" style={{ backgroundColor: colors.primary }} />
+        <p className="text-sm font-bold" style={{ color: colors.text }}>Your Name</p>
+        <p className="text-xs mb-2" style={{ color: colors.secondary }}>Job Title</p>
+        <span className="px-3 py-0.5 text-xs font-medium rounded-lg" style={getThemeButtonStyle(resolved, colors)}>
+          Contact
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export const TemplateGallery: React.FC<TemplateGalleryProps> = ({ onSelect, onSkip }) => {
+  const { templates, loading } = useCardTemplates();
+  const { entitlements, loading: planLoading } = usePlan();
+  const [lockedTemplate, setLockedTemplate] = useState<CardTemplate | null>(null);
+  // Admins can read inactive templates too; the gallery only offers active ones
+  const activeTemplates = templates.filter(template => template.is_active);
+  const isLocked = (template: CardTemplate) => template.is_premium && !entitlements.premium_templates;
+
+  const handleSelect = (template: CardTemplate) => {
+    if (isLocked(template)) {
+      setLockedTemplate(template);
+      return;
+    }
+    onSelect(template);
+  };
+
+  if (loading || planLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {lockedTemplate && (
+        <UpgradePrompt
+          entitlement="premium_templates"
+          message={`"${lockedTemplate.name}" is a premium template.`}
+        />
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {onSkip && (
+          <button
+            type="button"
+            onClick={onSkip}
+            className="flex flex-col items-center justify-center gap-2 min-h-[220px] rounded-xl border-2 border-dashed border-gray-300 text-gray-500 hover:border-blue-500 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+          >
+            <Plus className="w-8 h-8" />
+            <span className="font-medium">Start blank</span>
+          </button>
+        )}
+        {activeTemplates.map(template => (
+          <button
+            key={template.id}
+            type="button"
+            onClick={() => handleSelect(template)}
+            className="flex flex-col text-left rounded-xl border-2 border-gray-200 overflow-hidden hover:border-blue-500 hover:ring-2 hover:ring-blue-200 transition-all bg-white"
+          >
+            <div className="relative h-40 w-full">
+              {template.preview_image ? (
+                <img src={template.preview_image} alt={template.name} className="w-full h-full object-cover" />
+              ) : (
+                <TemplateSwatch template={template} />
+              )}
+              {template.is_premium && (
+                <span className="absolute top-2 right-2 flex items-center gap-1 px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-800 rounded-full">
+                  {isLocked(template) ? <Lock className="w-3 h-3" /> : <Crown className="w-3 h-3" />}
+                  Premium
+                </span>
+              )}
+            </div>
+            <div className="p-3 border-t border-gray-100">
+              <p className="font-medium text-gray-900">{template.name}</p>
+              {template.description && (
+                <p className="text-sm text-gray-500 line-clamp-2">{template.description}</p>
+              )}
+            </div>
+          </button>
+        ))}
+        {activeTemplates.length === 0 && !onSkip && (
+          <p className="text-sm text-gray-500">No templates are available yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
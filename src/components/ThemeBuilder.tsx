@@ -0,0 +1,305 @@
+import React, { useState } from 'react';
+import { Save, Trash2, Loader2, Moon, Sun } from 'lucide-react';
+import { ImageUpload } from './ImageUpload';
+import { ThemeContrastChecker } from './ThemeContrastChecker';
+import { useSavedThemes } from '../hooks/useSavedThemes';
+import {
+  GRADIENT_ANGLE_RANGE,
+  THEMES,
+  THEME_APPEARANCES,
+  THEME_BACKGROUND_TYPES,
+  THEME_BUTTON_STYLES,
+  THEME_PATTERNS,
+  THEME_RADII,
+  THEME_SHADOWS,
+  getCardTheme,
+  getThemeButtonStyle,
+  getThemeColors,
+  getThemeSurfaceStyle,
+  resolveCardTheme,
+  type CardTheme,
+  type ThemeColors,
+} from '../utils/themeUtils';
+
+interface ThemeBuilderProps {
+  theme: CardTheme;
+  onChange: (theme: CardTheme) => void;
+  userId: string;
+  disabled?: boolean;
+}
+
+const COLOR_FIELDS: { key: keyof ThemeColors; label: string }[] = [
+  { key: 'primary', label: 'Primary' },
+  { key: 'secondary', label: 'Secondary' },
+  { key: 'accent', label: 'Accent' },
+  { key: 'background', label: 'Background' },
+  { key: 'text', label: 'Text' },
+  { key: 'muted', label: 'Muted text' },
+];
+
+export const ThemeBuilder: React.FC<ThemeBuilderProps> = ({
+  theme,
+  onChange,
+  userId,
+  disabled = false
+}) => {
+  const { themes: savedThemes, saveTheme, deleteTheme } = useSavedThemes();
+  const [themeName, setThemeName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const resolved = resolveCardTheme(theme);
+  const showDark = resolved.appearance !== 'light';
+
+  // Any edit turns a preset into a custom theme, so the preset no longer shows as selected
+  const update = (updates: Partial<CardTheme>) => {
+    const isPreset = THEMES.some(preset => preset.name === theme.name);
+    onChange({ ...theme, ...updates, ...(isPreset ? { name: 'Custom' } : {}) });
+  };
+
+  const updateColor = (variant: 'light' | 'dark', key: keyof ThemeColors, value: string) => {
+    if (variant === 'dark') {
+      update({ dark: { ...theme.dark, [key]: value } });
+    } else {
+      update({ [key]: value });
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!themeName.trim()) return;
+
+    setSaving(true);
+    const result = await saveTheme(themeName, theme);
+    setSaving(false);
+
+    if (result.success) {
+      onChange({ ...theme, name: themeName.trim() });
+      setThemeName('');
+    } else {
+      alert('Failed to save theme. Please try again.');
+    }
+  };
+
+  const handleDelete = async (themeId: string, name: string) => {
+    if (!confirm(`Delete the "${name}" theme? Cards already using it keep their colors.`)) return;
+
+    const result = await deleteTheme(themeId);
+    if (!result.success) {
+      alert('Failed to delete theme. Please try again.');
+    }
+  };
+
+  const renderPills = <T extends string>(
+    label: string,
+    options: { value: T; label: string }[],
+    selected: T | null,
+    onSelect: (value: T | undefined) => void,
+    defaultLabel?: string
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      <div className="flex flex-wrap gap-2">
+        {[...(defaultLabel ? [{ value: undefined, label: defaultLabel }] : []), ...options].map(option => (
+          <button
+            key={option.value || 'default'}
+            type="button"
+            onClick={() => onSelect(option.value)}
+            disabled={disabled}
+            className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors disabled:opacity-50 ${
+              (selected || undefined) === option.value
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderColors = (variant: 'light' | 'dark') => {
+    const colors = getThemeColors(resolved, variant === 'dark');
+    const fields = resolved.background_type === 'gradient'
+      ? [...COLOR_FIELDS, { key: 'gradient_to' as const, label: 'Gradient end' }]
+      : COLOR_FIELDS;
+
+    return (
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {fields.map(field => (
+          <label key={field.key} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="color"
+              value={colors[field.key]}
+              onChange={(e) => updateColor(variant, field.key, e.target.value.toUpperCase())}
+              disabled={disabled}
+              className="w-8 h-8 rounded cursor-pointer disabled:opacity-50"
+            />
+            <span>
+              {field.label}
+              <span className="block text-xs text-gray-400 font-mono">{colors[field.key]}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  const renderPreview = (dark: boolean) => {
+    const colors = getThemeColors(resolved, dark);
+    return (
+      <div
+        className="flex-1 p-4 rounded-xl border border-gray-100 shadow-sm"
+        style={getThemeSurfaceStyle(resolved, colors)}
+      >
+        <div className="flex items-center gap-1 text-xs mb-2" style={{ color: colors.muted }}>
+          {dark ? <Moon className="w-3 h-3" /> : <Sun className="w-3 h-3" />}
+          {dark ? 'Dark' : 'Light'}
+        </div>
+        <p className="font-bold" style={{ color: colors.text }}>Your Name</p>
+        <p className="text-sm font-medium" style={{ color: colors.secondary }}>Job Title</p>
+        <p className="text-xs mb-3" style={{ color: colors.muted }}>
+          A short bio with an <span style={{ color: colors.accent }}>accent</span>
+        </p>
+        <div className="flex gap-2">
+          <span className="px-3 py-1 text-xs font-medium rounded-lg" style={getThemeButtonStyle(resolved, colors)}>
+            Contact
+          </span>
+          <span className="px-3 py-1 text-xs font-medium rounded-lg" style={getThemeButtonStyle(resolved, colors, 'secondary')}>
+            Book
+          </span>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Saved themes */}
+      {savedThemes.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">My themes</label>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {savedThemes.map(saved => {
+              const savedTheme = getCardTheme(saved.theme);
+              return (
+                <div
+                  key={saved.id}
+                  className={`flex items-center gap-2 p-3 rounded-lg border-2 transition-all ${
+                    theme.name === saved.name
+                      ? 'border-blue-500 ring-2 ring-blue-200'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onChange({ ...savedTheme, name: saved.name })}
+                    disabled={disabled}
+                    className="flex-1 flex items-center gap-2 min-w-0 disabled:opacity-50"
+                  >
+                    <div className="w-5 h-5 rounded-full flex-shrink-0" style={{ backgroundColor: savedTheme.primary }} />
+                    <div className="w-5 h-5 rounded-full flex-shrink-0" style={{ backgroundColor: savedTheme.secondary }} />
+                    <span className="text-sm font-medium text-gray-900 truncate">{saved.name}</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(saved.id, saved.name)}
+                    className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                    title="Delete theme"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Preview */}
+      <div className="flex flex-col sm:flex-row gap-3 p-4 bg-gray-50 rounded-lg">
+        {resolved.appearance !== 'dark' && renderPreview(false)}
+        {showDark && renderPreview(true)}
+      </div>
+
+      {/* Colors */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Colors</label>
+        {renderColors('light')}
+      </div>
+
+      {/* Background */}
+      {renderPills('Background', THEME_BACKGROUND_TYPES, theme.background_type || 'solid', value => update({ background_type: value }))}
+      {resolved.background_type === 'gradient' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Gradient angle: {resolved.gradient_angle}°
+          </label>
+          <input
+            type="range"
+            min={GRADIENT_ANGLE_RANGE.min}
+            max={GRADIENT_ANGLE_RANGE.max}
+            step={15}
+            value={resolved.gradient_angle}
+            onChange={(e) => update({ gradient_angle: Number(e.target.value) })}
+            disabled={disabled}
+            className="w-full"
+          />
+        </div>
+      )}
+      {theme.background_type === 'image' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Background image</label>
+          <ImageUpload
+            currentImageUrl={theme.background_image}
+            onImageChange={(url) => update({ background_image: url || undefined })}
+            userId={userId}
+          />
+        </div>
+      )}
+      {resolved.background_type === 'pattern' &&
+        renderPills('Pattern', THEME_PATTERNS, resolved.pattern, value => update({ pattern: value }))}
+
+      {/* Shape and depth */}
+      {renderPills('Buttons', THEME_BUTTON_STYLES, resolved.button_style, value => update({ button_style: value }))}
+      {renderPills('Corners', THEME_RADII, resolved.radius, value => update({ radius: value }), 'Card shape')}
+      {renderPills('Shadow', THEME_SHADOWS, resolved.shadow, value => update({ shadow: value }), 'Layout style')}
+
+      {/* Light and dark */}
+      {renderPills('Appearance', THEME_APPEARANCES, resolved.appearance, value => update({ appearance: value }))}
+      {showDark && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Dark colors</label>
+          {renderColors('dark')}
+        </div>
+      )}
+
+      {/* Contrast */}
+      <ThemeContrastChecker
+        theme={theme}
+        onChange={(fixed) => update(fixed)}
+        disabled={disabled}
+      />
+
+      {/* Save */}
+      <form onSubmit={handleSave} className="flex gap-2 pt-4 border-t border-gray-200">
+        <input
+          type="text"
+          value={themeName}
+          onChange={(e) => setThemeName(e.target.value)}
+          placeholder="Name this theme to reuse it"
+          maxLength={60}
+          disabled={disabled}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-gray-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || saving || !themeName.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save Theme
+        </button>
+      </form>
+    </div>
+  );
+};
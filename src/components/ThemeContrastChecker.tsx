@@ -0,0 +1,114 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle, Wand2 } from 'lucide-react';
+import {
+  CONTRAST_REQUIREMENTS,
+  CONTRAST_SIZE_LABELS,
+  applyContrastFix,
+  checkThemeContrast,
+  type ContrastLevel,
+} from '../utils/contrastUtils';
+import type { CardTheme } from '../utils/themeUtils';
+
+interface ThemeContrastCheckerProps {
+  theme: CardTheme;
+  onChange: (theme: CardTheme) => void;
+  disabled?: boolean;
+}
+
+const LEVEL_STYLES: Record<ContrastLevel, string> = {
+  AAA: 'bg-green-50 text-green-800 border-green-200',
+  AA: 'bg-blue-50 text-blue-800 border-blue-200',
+  fail: 'bg-red-50 text-red-800 border-red-200',
+};
+
+const LEVEL_LABELS: Record<ContrastLevel, string> = {
+  AAA: 'AAA',
+  AA: 'AA',
+  fail: 'Fails AA',
+};
+
+export const ThemeContrastChecker: React.FC<ThemeContrastCheckerProps> = ({
+  theme,
+  onChange,
+  disabled = false
+}) => {
+  const checks = checkThemeContrast(theme);
+  const failures = checks.filter(check => check.level === 'fail');
+  const showVariant = checks.some(check => check.variant === 'dark') && checks.some(check => check.variant === 'light');
+
+  const fixAll = () => {
+    // Each fix can change the result of the next, so re-check after applying one
+    let fixed = theme;
+    for (let i = 0; i < checks.length; i++) {
+      const next = checkThemeContrast(fixed).find(check => check.level === 'fail' && check.fix);
+      if (!next) break;
+      fixed = applyContrastFix(fixed, next);
+    }
+    onChange(fixed);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Readability</label>
+        {failures.length > 1 && !disabled && (
+          <button
+            type="button"
+            onClick={fixAll}
+            className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Wand2 className="w-3 h-3" />
+            Fix all
+          </button>
+        )}
+      </div>
+
+      <div className={`flex items-start gap-2 p-2 mb-3 border rounded-lg text-xs ${failures.length > 0 ? LEVEL_STYLES.fail : LEVEL_STYLES.AAA}`}>
+        {failures.length > 0
+          ? <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          : <CheckCircle className="w-4 h-4 flex-shrink-0" />}
+        <span>
+          {failures.length > 0
+            ? `${failures.length} color ${failures.length === 1 ? 'pair is' : 'pairs are'} hard to read and ${failures.length === 1 ? 'fails' : 'fail'} WCAG AA. Text needs ${CONTRAST_REQUIREMENTS.normal.AA}:1, large text and icons ${CONTRAST_REQUIREMENTS.large.AA}:1.`
+            : 'Every text, icon and button color pair meets WCAG AA.'}
+        </span>
+      </div>
+
+      <div className="space-y-1">
+        {checks.map(check => (
+          <div key={check.id} className="flex items-center gap-3 py-1.5 text-sm">
+            <div
+              className="w-10 h-7 rounded border border-gray-200 flex items-center justify-center text-xs font-bold flex-shrink-0"
+              style={{ backgroundColor: check.background, color: check.foreground }}
+            >
+              Aa
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-gray-900 truncate">
+                {check.label}
+                {showVariant && <span className="text-gray-400"> · {check.variant === 'dark' ? 'Dark' : 'Light'}</span>}
+              </p>
+              <p className="text-xs text-gray-500">
+                {CONTRAST_SIZE_LABELS[check.size]} · {check.ratio.toFixed(2)}:1
+              </p>
+            </div>
+            {check.fix && !disabled && (
+              <button
+                type="button"
+                onClick={() => onChange(applyContrastFix(theme, check))}
+                className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:border-gray-300 transition-colors"
+                title={`Change the ${check.fixField} color to ${check.fix}`}
+              >
+                <span className="w-3 h-3 rounded-full border border-gray-200" style={{ backgroundColor: check.fix }} />
+                Use {check.fix}
+              </button>
+            )}
+            <span className={`px-2 py-0.5 text-xs font-medium border rounded-full flex-shrink-0 ${LEVEL_STYLES[check.level]}`}>
+              {LEVEL_LABELS[check.level]}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
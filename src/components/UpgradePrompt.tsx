@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Crown } from 'lucide-react';
+import { PlansDialog } from './PlansDialog';
+import { usePlan } from '../hooks/usePlan';
+import {
+  ENTITLEMENT_LABELS,
+  FEATURE_ENTITLEMENTS,
+  PLAN_LIMIT_MESSAGES,
+  formatEntitlement,
+  getPlanEntitlements,
+  getUpgradePlan,
+  type EntitlementKey,
+} from '../utils/planUtils';
+
+interface UpgradePromptProps {
+  entitlement: EntitlementKey;
+  // How much of a limit is in use, so the suggested plan has room for one more
+  used?: number;
+  message?: string;
+}
+
+export const UpgradePrompt: React.FC<UpgradePromptProps> = ({
+  entitlement,
+  used = 0,
+  message
+}) => {
+  const { plans, plan: currentPlan } = usePlan();
+  const [showPlans, setShowPlans] = useState(false);
+
+  const upgradePlan = getUpgradePlan(
+    plans.filter(plan => !currentPlan || plan.sort_order > currentPlan.sort_order),
+    entitlement,
+    used
+  );
+
+  const describeUpgrade = () => {
+    if (!upgradePlan) return null;
+    if (FEATURE_ENTITLEMENTS.includes(entitlement)) return `Included with ${upgradePlan.name}.`;
+
+    const value = formatEntitlement(entitlement, getPlanEntitlements(upgradePlan)[entitlement]);
+    return `Upgrade to ${upgradePlan.name} for ${value.toLowerCase()} ${ENTITLEMENT_LABELS[entitlement].toLowerCase()}.`;
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+      <Crown className="w-5 h-5 text-amber-600 flex-shrink-0" />
+      <div className="flex-1 text-sm">
+        <p className="font-medium text-amber-900">{message || PLAN_LIMIT_MESSAGES[entitlement]}</p>
+        {upgradePlan && <p className="text-amber-800">{describeUpgrade()}</p>}
+      </div>
+      <button
+        type="button"
+        onClick={() => setShowPlans(true)}
+        className="px-3 py-1.5 text-sm font-medium bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors flex-shrink-0"
+      >
+        See plans
+      </button>
+
+      {showPlans && <PlansDialog onClose={() => setShowPlans(false)} />}
+    </div>
+  );
+};
@@ -0,0 +1,470 @@
+import React, { useState } from 'react';
+import { Copy, Eye, EyeOff, Plus, RefreshCw, RotateCcw, Send, Trash2, Webhook } from 'lucide-react';
+import { useWebhooks } from '../hooks/useWebhooks';
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_DESCRIPTIONS,
+  WEBHOOK_DELIVERY_STATUS_LABELS,
+  WEBHOOK_DELIVERY_STATUS_STYLES,
+  getDeliveryStatus,
+  validateWebhookUrl,
+} from '../utils/webhookUtils';
+import type { Database } from '../lib/supabase';
+import type { WebhookEndpoint } from '../utils/webhookUtils';
+
+type BusinessCard = Database['public']['Tables']['business_cards']['Row'];
+
+interface WebhookSettingsProps {
+  cards: BusinessCard[];
+}
+
+interface EndpointDraft {
+  url: string;
+  description: string;
+  card_id: string;
+  events: string[];
+}
+
+const EMPTY_DRAFT: EndpointDraft = {
+  url: '',
+  description: '',
+  card_id: '',
+  events: [...WEBHOOK_EVENTS],
+};
+
+export const WebhookSettings: React.FC<WebhookSettingsProps> = ({ cards }) => {
+  const {
+    endpoints,
+    deliveries,
+    allowPrivateTargets,
+    loading,
+    createEndpoint,
+    updateEndpoint,
+    deleteEndpoint,
+    rotateSecret,
+    sendTest,
+    replayDelivery,
+    refreshDeliveries,
+  } = useWebhooks();
+
+  const [draft, setDraft] = useState<EndpointDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [revealedSecrets, setRevealedSecrets] = useState<string[]>([]);
+  const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const getCardName = (cardId: string | null) => {
+    if (!cardId) return 'All my cards';
+    return cards.find(card => card.id === cardId)?.title || 'Deleted card';
+  };
+
+  const getEndpointUrl = (endpointId: string) =>
+    endpoints.find(endpoint => endpoint.id === endpointId)?.url || 'Deleted endpoint';
+
+  const toggleDraftEvent = (event: string) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      events: draft.events.includes(event)
+        ? draft.events.filter(e => e !== event)
+        : [...draft.events, event],
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const urlError = validateWebhookUrl(draft.url, allowPrivateTargets);
+    if (urlError) {
+      alert(urlError);
+      return;
+    }
+    if (draft.events.length === 0) {
+      alert('Choose at least one event to send.');
+      return;
+    }
+
+    setSaving(true);
+    const result = await createEndpoint(draft.url, draft.card_id || null, draft.events, draft.description);
+    setSaving(false);
+
+    if (result.success) {
+      setDraft(null);
+    } else {
+      alert(`${result.error}.`);
+    }
+  };
+
+  const handleToggleEvent = async (endpoint: WebhookEndpoint, event: string) => {
+    const events = endpoint.events.includes(event)
+      ? endpoint.events.filter(e => e !== event)
+      : [...endpoint.events, event];
+
+    if (events.length === 0) {
+      alert('An endpoint needs at least one event. Pause or delete it instead.');
+      return;
+    }
+
+    const result = await updateEndpoint(endpoint.id, { events });
+    if (!result.success) {
+      alert('Failed to update webhook endpoint. Please try again.');
+    }
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint) => {
+    const result = await updateEndpoint(endpoint.id, { is_active: !endpoint.is_active });
+    if (!result.success) {
+      alert('Failed to update webhook endpoint. Please try again.');
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete the webhook endpoint ${endpoint.url}? Its delivery log will be removed too.`)) return;
+
+    const result = await deleteEndpoint(endpoint.id);
+    if (!result.success) {
+      alert('Failed to delete webhook endpoint. Please try again.');
+    }
+  };
+
+  const handleRotate = async (endpoint: WebhookEndpoint) => {
+    if (!confirm('Rotate the signing secret? Your receiver must be updated before it can verify new deliveries.')) return;
+
+    const result = await rotateSecret(endpoint.id);
+    if (result.success) {
+      setRevealedSecrets([...revealedSecrets.filter(id => id !== endpoint.id), endpoint.id]);
+    } else {
+      alert('Failed to rotate signing secret. Please try again.');
+    }
+  };
+
+  const toggleSecret = (endpointId: string) => {
+    setRevealedSecrets(revealedSecrets.includes(endpointId)
+      ? revealedSecrets.filter(id => id !== endpointId)
+      : [...revealedSecrets, endpointId]);
+  };
+
+  const copySecret = (secret: string) => {
+    navigator.clipboard.writeText(secret).then(() => {
+      alert('Signing secret copied to clipboard!');
+    });
+  };
+
+  const handleSendTest = async (endpointId: string) => {
+    setBusyId(endpointId);
+    const result = await sendTest(endpointId);
+    setBusyId(null);
+
+    if (!result.success) {
+      alert('Failed to send test event. Please try again.');
+    }
+  };
+
+  const handleReplay = async (deliveryId: string) => {
+    setBusyId(deliveryId);
+    const result = await replayDelivery(deliveryId);
+    setBusyId(null);
+
+    if (!result.success) {
+      alert('Failed to replay delivery. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Endpoints */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Webhook className="w-5 h-5" />
+              Webhooks
+            </h3>
+            <p className="text-sm text-gray-600">
+              Send signed POST requests to your own services when something happens on your cards.
+            </p>
+          </div>
+          {!draft && (
+            <button
+              onClick={() => setDraft({ ...EMPTY_DRAFT })}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex-shrink-0"
+            >
+              <Plus className="w-4 h-4" />
+              Add Endpoint
+            </button>
+          )}
+        </div>
+
+        {draft && (
+          <form onSubmit={handleCreate} className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Endpoint URL</label>
+                <input
+                  type="url"
+                  value={draft.url}
+                  onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                  placeholder="https://example.com/webhooks"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cards</label>
+                <select
+                  value={draft.card_id}
+                  onChange={(e) => setDraft({ ...draft, card_id: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">All my cards</option>
+                  {cards.map(card => (
+                    <option key={card.id} value={card.id}>{card.title}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="e.g. CRM sync"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-2">Events</p>
+              <div className="space-y-2">
+                {WEBHOOK_EVENTS.map(event => (
+                  <label key={event} className="flex items-start gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={draft.events.includes(event)}
+                      onChange={() => toggleDraftEvent(event)}
+                      className="mt-0.5 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span>
+                      <span className="font-mono text-gray-900">{event}</span>
+                      <span className="text-gray-500"> — {WEBHOOK_EVENT_DESCRIPTIONS[event]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {saving ? 'Adding...' : 'Add Endpoint'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {endpoints.length === 0 ? (
+          !draft && (
+            <p className="text-sm text-gray-500 py-6 text-center">No webhook endpoints yet.</p>
+          )
+        ) : (
+          <div className="space-y-4">
+            {endpoints.map(endpoint => {
+              const revealed = revealedSecrets.includes(endpoint.id);
+              return (
+                <div key={endpoint.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-mono text-sm text-gray-900 break-all">{endpoint.url}</p>
+                      <p className="text-sm text-gray-500">
+                        {getCardName(endpoint.card_id)}
+                        {endpoint.description && ` · ${endpoint.description}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => handleToggleActive(endpoint)}
+                        className={`px-3 py-1 text-xs font-medium rounded-full ${
+                          endpoint.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                        }`}
+                        title={endpoint.is_active ? 'Pause deliveries' : 'Resume deliveries'}
+                      >
+                        {endpoint.is_active ? 'Active' : 'Paused'}
+                      </button>
+                      <button
+                        onClick={() => handleSendTest(endpoint.id)}
+                        disabled={busyId === endpoint.id}
+                        className="p-2 text-gray-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+                        title="Send test event"
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(endpoint)}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Delete endpoint"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {WEBHOOK_EVENTS.map(event => (
+                      <button
+                        key={event}
+                        onClick={() => handleToggleEvent(endpoint, event)}
+                        className={`px-2 py-1 text-xs font-mono rounded-full transition-colors ${
+                          endpoint.events.includes(event)
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                        }`}
+                        title={WEBHOOK_EVENT_DESCRIPTIONS[event]}
+                      >
+                        {event}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+                    <span className="text-gray-600">Signing secret</span>
+                    <code className="px-2 py-1 bg-gray-100 rounded text-xs text-gray-800 break-all">
+                      {revealed ? endpoint.secret : 'whsec_' + '•'.repeat(16)}
+                    </code>
+                    <button
+                      onClick={() => toggleSecret(endpoint.id)}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      title={revealed ? 'Hide secret' : 'Reveal secret'}
+                    >
+                      {revealed ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => copySecret(endpoint.secret)}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      title="Copy secret"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRotate(endpoint)}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      title="Rotate secret"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Delivery log */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Recent Deliveries</h3>
+            <p className="text-sm text-gray-600">
+              Failed requests are retried with increasing delays, up to 6 attempts.
+            </p>
+          </div>
+          <button
+            onClick={() => refreshDeliveries()}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </button>
+        </div>
+
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">No deliveries yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {deliveries.map(delivery => {
+              const status = getDeliveryStatus(delivery);
+              const expanded = expandedDelivery === delivery.id;
+              return (
+                <div key={delivery.id} className="py-3">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${WEBHOOK_DELIVERY_STATUS_STYLES[status]}`}>
+                      {WEBHOOK_DELIVERY_STATUS_LABELS[status]}
+                    </span>
+                    <button
+                      onClick={() => setExpandedDelivery(expanded ? null : delivery.id)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="text-sm font-mono text-gray-900">
+                        {delivery.event_type}
+                        {delivery.replay_of && <span className="ml-2 font-sans text-xs text-gray-500">(replay)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {getEndpointUrl(delivery.endpoint_id)} · {new Date(delivery.created_at).toLocaleString()}
+                      </p>
+                    </button>
+                    <span className="text-xs text-gray-500">
+                      {delivery.response_status ? `HTTP ${delivery.response_status}` : '—'}
+                      {' · '}
+                      {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                    </span>
+                    <button
+                      onClick={() => handleReplay(delivery.id)}
+                      disabled={busyId === delivery.id}
+                      className="flex items-center gap-1 px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                      title="Send this payload again"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      Replay
+                    </button>
+                  </div>
+
+                  {expanded && (
+                    <div className="mt-3 space-y-2">
+                      {status === 'pending' && delivery.next_attempt_at && delivery.attempts > 0 && (
+                        <p className="text-xs text-gray-600">
+                          Next attempt {new Date(delivery.next_attempt_at).toLocaleString()}
+                        </p>
+                      )}
+                      {delivery.error && (
+                        <p className="text-xs text-red-600">{delivery.error}</p>
+                      )}
+                      <pre className="p-3 bg-gray-50 rounded-lg text-xs text-gray-800 overflow-x-auto">
+                        {JSON.stringify(delivery.payload, null, 2)}
+                      </pre>
+                      {delivery.response_body && (
+                        <pre className="p-3 bg-gray-50 rounded-lg text-xs text-gray-600 overflow-x-auto max-h-40">
+                          {delivery.response_body}
+                        </pre>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { supabase } from '../lib/supabase';
+import { ADMIN_ROLE, fetchProfileRole, isAdminSessionExpired } from '../lib/adminSupabase';
+
+export const useAdminAuth = () => {
+  const { user, session, loading: authLoading, signOut } = useAuth();
+  const [role, setRole] = useState<string | null>(null);
+  const [roleLoading, setRoleLoading] = useState(true);
+  // Signing out clears the session, so remember why it ended for the login screen
+  const [endedByExpiry, setEndedByExpiry] = useState(false);
+
+  const expired = session ? isAdminSessionExpired(session) : false;
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      setRole(null);
+      setRoleLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setRoleLoading(true);
+    fetchProfileRole(user.id).then((profileRole) => {
+      if (cancelled) return;
+      setRole(profileRole);
+      setRoleLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, authLoading]);
+
+  useEffect(() => {
+    // Enforce the admin session limit by ending the Supabase session
+    if (expired) {
+      setEndedByExpiry(true);
+      supabase.auth.signOut();
+    } else if (session) {
+      setEndedByExpiry(false);
+    }
+  }, [expired, session]);
+
+  return {
+    user,
+    isAdmin: !!user && !expired && role === ADMIN_ROLE,
+    expired: expired || endedByExpiry,
+    loading: authLoading || roleLoading,
+    signOut,
+  };
+};
@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import type { Json } from '../lib/supabase';
+import type { EntitlementOverrides } from '../utils/planUtils';
 
 interface User {
   id: string;
@@ -9,6 +11,8 @@ interface User {
   last_login: string | null;
   avatar_url: string | null;
   role: string;
+  subscription_tier: string;
+  entitlement_overrides: Json;
 }
 
 interface BusinessCard {
@@ -16,6 +20,8 @@ interface BusinessCard {
   title: string | null;
   company: string | null;
   is_published: boolean;
+  publish_at: string | null;
+  expire_at: string | null;
   updated_at: string;
   user_id: string;
   slug: string | null;
@@ -180,6 +186,27 @@ export const useAdminData = () => {
     }
   };
 
+  const updateUserPlan = async (userId: string, tier: string, overrides: EntitlementOverrides) => {
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ subscription_tier: tier, entitlement_overrides: overrides })
+        .eq('id', userId);
+
+      if (error) throw error;
+
+      setUsers(users.map(user =>
+        user.id === userId
+          ? { ...user, subscription_tier: tier, entitlement_overrides: overrides }
+          : user
+      ));
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating user plan:', error);
+      return { success: false, error: 'Failed to update user plan' };
+    }
+  };
+
   const toggleCardStatus = async (cardId: string, currentStatus: boolean) => {
     try {
       const { error } = await supabase
@@ -270,6 +297,7 @@ export const useAdminData = () => {
     analytics,
     loading,
     deleteUser,
+    updateUserPlan,
     toggleCardStatus,
     deleteCard,
     exportToCSV,
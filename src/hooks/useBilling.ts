@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import {
+  createCheckoutSession,
+  getBillingEnabled,
+  updateSubscription,
+  type BillingInvoice,
+  type BillingSubscription,
+  type SubscriptionAction,
+} from '../utils/billingUtils';
+import { notifyPlanChanged, onPlanChanged } from '../utils/planUtils';
+
+const INVOICE_LIMIT = 24;
+
+export const useBilling = () => {
+  const { user } = useAuth();
+  const [subscription, setSubscription] = useState<BillingSubscription | null>(null);
+  const [invoices, setInvoices] = useState<BillingInvoice[]>([]);
+  const [enabled, setEnabled] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadBilling = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const [subscriptionResult, invoicesResult, billingEnabled] = await Promise.all([
+        supabase
+          .from('billing_subscriptions')
+          .select('*')
+          .eq('user_id', user.id)
+          .maybeSingle(),
+        supabase
+          .from('billing_invoices')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(INVOICE_LIMIT),
+        getBillingEnabled(),
+      ]);
+
+      if (subscriptionResult.error) throw subscriptionResult.error;
+      if (invoicesResult.error) throw invoicesResult.error;
+
+      setSubscription(subscriptionResult.data);
+      setInvoices(invoicesResult.data || []);
+      setEnabled(billingEnabled);
+    } catch (error) {
+      console.error('Error loading billing:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      loadBilling();
+      return onPlanChanged(loadBilling);
+    }
+  }, [user, loadBilling]);
+
+  // Leaves the app for the provider's checkout page, which comes back to /admin?billing=
+  const startCheckout = async (planId: string) => {
+    const result = await createCheckoutSession(planId);
+    if (result.success && result.url) {
+      window.location.assign(result.url);
+    }
+    return result;
+  };
+
+  const changeSubscription = async (action: SubscriptionAction, planId?: string) => {
+    const result = await updateSubscription(action, planId);
+    if (result.success) {
+      notifyPlanChanged();
+    }
+    return result;
+  };
+
+  return {
+    subscription,
+    invoices,
+    enabled,
+    loading,
+    startCheckout,
+    changePlan: (planId: string) => changeSubscription('change', planId),
+    cancelSubscription: () => changeSubscription('cancel'),
+    resumeSubscription: () => changeSubscription('resume'),
+    refresh: loadBilling,
+  };
+};
@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import type { BookingWithCard } from '../utils/bookingUtils';
+
+const BOOKING_SELECT = '*, business_cards(title, slug, email, booking_availability)';
+
+export const useBookings = () => {
+  const { user } = useAuth();
+  const [bookings, setBookings] = useState<BookingWithCard[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadBookings = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('bookings')
+        .select(BOOKING_SELECT)
+        .order('starts_at', { ascending: true });
+
+      if (error) throw error;
+      setBookings((data as BookingWithCard[]) || []);
+    } catch (error) {
+      console.error('Error loading bookings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      loadBookings();
+    }
+  }, [user, loadBookings]);
+
+  const cancelBooking = async (bookingId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+        .eq('id', bookingId)
+        .select(BOOKING_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      setBookings(current => current.map(booking =>
+        booking.id === bookingId ? (data as BookingWithCard) : booking
+      ));
+      return { success: true, booking: data as BookingWithCard };
+    } catch (error) {
+      console.error('Error cancelling booking:', error);
+      return { success: false, error: 'Failed to cancel booking' };
+    }
+  };
+
+  const rescheduleBooking = async (bookingId: string, startsAt: string) => {
+    try {
+      const { data, error } = await supabase.rpc('reschedule_booking', {
+        p_booking_id: bookingId,
+        p_starts_at: startsAt,
+      });
+
+      if (error) throw error;
+
+      setBookings(current => current
+        .map(booking => booking.id === bookingId ? { ...booking, ...data } : booking)
+        .sort((a, b) => a.starts_at.localeCompare(b.starts_at)));
+      return { success: true };
+    } catch (error) {
+      console.error('Error rescheduling booking:', error);
+      return { success: false, error: 'Failed to reschedule booking' };
+    }
+  };
+
+  const deleteBooking = async (bookingId: string) => {
+    try {
+      const { error } = await supabase
+        .from('bookings')
+        .delete()
+        .eq('id', bookingId);
+
+      if (error) throw error;
+
+      setBookings(current => current.filter(booking => booking.id !== bookingId));
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting booking:', error);
+      return { success: false, error: 'Failed to delete booking' };
+    }
+  };
+
+  return {
+    bookings,
+    loading,
+    cancelBooking,
+    rescheduleBooking,
+    deleteBooking,
+    refresh: loadBookings,
+  };
+};
@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/supabase';
+import type { CardTemplate } from '../utils/templateUtils';
+
+type CardTemplateUpdate = Database['public']['Tables']['card_templates']['Update'];
+
+/**
+ * Templates in gallery order. Visitors and users see active templates; admins see all of
+ * them and can manage them.
+ */
+export const useCardTemplates = () => {
+  const [templates, setTemplates] = useState<CardTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('card_templates')
+        .select('*')
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error loading card templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // New templates go to the end of the gallery, inactive until an admin turns them on
+  const createTemplateFromCard = async (cardId: string, name: string, description: string) => {
+    try {
+      const { data: card, error: cardError } = await supabase
+        .from('business_cards')
+        .select('theme, layout, shape')
+        .eq('id', cardId)
+        .single();
+
+      if (cardError) throw cardError;
+
+      const { data, error } = await supabase
+        .from('card_templates')
+        .insert({
+          name: name.trim(),
+          description: description.trim() || null,
+          theme: card.theme || {},
+          layout: card.layout || {},
+          shape: card.shape || 'rectangle',
+          is_active: false,
+          sort_order: Math.max(0, ...templates.map(template => template.sort_order)) + 1,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setTemplates(current => [...current, data]);
+      return { success: true, template: data as CardTemplate };
+    } catch (error) {
+      console.error('Error creating card template:', error);
+      return { success: false, error: 'Failed to create template' };
+    }
+  };
+
+  const updateTemplate = async (templateId: string, updates: CardTemplateUpdate) => {
+    try {
+      const { data, error } = await supabase
+        .from('card_templates')
+        .update(updates)
+        .eq('id', templateId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setTemplates(current => current.map(template => template.id === templateId ? data : template));
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating card template:', error);
+      return { success: false, error: 'Failed to update template' };
+    }
+  };
+
+  // Swap places with the neighbouring template above or below, numbering the gallery 1..n
+  const moveTemplate = async (templateId: string, direction: -1 | 1) => {
+    const index = templates.findIndex(template => template.id === templateId);
+    if (index === -1 || !templates[index + direction]) return { success: true };
+
+    const reordered = [...templates];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    const numbered = reordered.map((template, position) => ({ ...template, sort_order: position + 1 }));
+    const changed = numbered.filter((template, position) => template.sort_order !== reordered[position].sort_order);
+
+    try {
+      const results = await Promise.all(changed.map(template =>
+        supabase.from('card_templates').update({ sort_order: template.sort_order }).eq('id', template.id)
+      ));
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+
+      setTemplates(numbered);
+      return { success: true };
+    } catch (error) {
+      console.error('Error reordering card templates:', error);
+      await loadTemplates();
+      return { success: false, error: 'Failed to reorder templates' };
+    }
+  };
+
+  const deleteTemplate = async (templateId: string) => {
+    try {
+      const { error } = await supabase
+        .from('card_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) throw error;
+
+      setTemplates(current => current.filter(template => template.id !== templateId));
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting card template:', error);
+      return { success: false, error: 'Failed to delete template' };
+    }
+  };
+
+  return {
+    templates,
+    loading,
+    createTemplateFromCard,
+    updateTemplate,
+    moveTemplate,
+    deleteTemplate,
+    refresh: loadTemplates,
+  };
+};
@@ -0,0 +1,209 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import type { LeadStatus, LeadWithCard } from '../utils/leadUtils';
+
+const LEAD_SELECT = '*, business_cards(title, slug, lead_form_fields), lead_notes(*), lead_reminders(*)';
+
+export const useLeads = () => {
+  const { user } = useAuth();
+  const [leads, setLeads] = useState<LeadWithCard[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadLeads = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('leads')
+        .select(LEAD_SELECT)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setLeads((data as LeadWithCard[]) || []);
+    } catch (error) {
+      console.error('Error loading leads:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      loadLeads();
+    }
+  }, [user, loadLeads]);
+
+  // Re-read one lead after a change the database adds to (e.g. the stage timeline entry)
+  const reloadLead = async (leadId: string) => {
+    const { data, error } = await supabase
+      .from('leads')
+      .select(LEAD_SELECT)
+      .eq('id', leadId)
+      .single();
+
+    if (error) throw error;
+
+    setLeads(current => current.map(lead =>
+      lead.id === leadId ? (data as LeadWithCard) : lead
+    ));
+  };
+
+  const updateLeadStatus = async (leadId: string, status: LeadStatus) => {
+    try {
+      const { error } = await supabase
+        .from('leads')
+        .update({ status })
+        .eq('id', leadId);
+
+      if (error) throw error;
+
+      await reloadLead(leadId);
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating lead stage:', error);
+      return { success: false, error: 'Failed to update lead stage' };
+    }
+  };
+
+  const deleteLead = async (leadId: string) => {
+    try {
+      const { error } = await supabase
+        .from('leads')
+        .delete()
+        .eq('id', leadId);
+
+      if (error) throw error;
+
+      setLeads(current => current.filter(lead => lead.id !== leadId));
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting lead:', error);
+      return { success: false, error: 'Failed to delete lead' };
+    }
+  };
+
+  const addNote = async (leadId: string, body: string) => {
+    if (!user) return { success: false, error: 'Not signed in' };
+
+    try {
+      const { data, error } = await supabase
+        .from('lead_notes')
+        .insert({ lead_id: leadId, author_id: user.id, body: body.trim() })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setLeads(current => current.map(lead =>
+        lead.id === leadId ? { ...lead, lead_notes: [...lead.lead_notes, data] } : lead
+      ));
+      return { success: true };
+    } catch (error) {
+      console.error('Error adding lead note:', error);
+      return { success: false, error: 'Failed to add note' };
+    }
+  };
+
+  const deleteNote = async (leadId: string, noteId: string) => {
+    try {
+      const { error } = await supabase
+        .from('lead_notes')
+        .delete()
+        .eq('id', noteId);
+
+      if (error) throw error;
+
+      setLeads(current => current.map(lead =>
+        lead.id === leadId
+          ? { ...lead, lead_notes: lead.lead_notes.filter(note => note.id !== noteId) }
+          : lead
+      ));
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting lead note:', error);
+      return { success: false, error: 'Failed to delete note' };
+    }
+  };
+
+  const addReminder = async (leadId: string, dueAt: string, note: string) => {
+    if (!user) return { success: false, error: 'Not signed in' };
+
+    try {
+      const { data, error } = await supabase
+        .from('lead_reminders')
+        .insert({ lead_id: leadId, user_id: user.id, due_at: dueAt, note: note.trim() || null })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setLeads(current => current.map(lead =>
+        lead.id === leadId ? { ...lead, lead_reminders: [...lead.lead_reminders, data] } : lead
+      ));
+      return { success: true };
+    } catch (error) {
+      console.error('Error adding reminder:', error);
+      return { success: false, error: 'Failed to add reminder' };
+    }
+  };
+
+  const setReminderCompleted = async (leadId: string, reminderId: string, completed: boolean) => {
+    try {
+      const { data, error } = await supabase
+        .from('lead_reminders')
+        .update({ completed_at: completed ? new Date().toISOString() : null })
+        .eq('id', reminderId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setLeads(current => current.map(lead =>
+        lead.id === leadId
+          ? { ...lead, lead_reminders: lead.lead_reminders.map(reminder => reminder.id === reminderId ? data : reminder) }
+          : lead
+      ));
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating reminder:', error);
+      return { success: false, error: 'Failed to update reminder' };
+    }
+  };
+
+  const deleteReminder = async (leadId: string, reminderId: string) => {
+    try {
+      const { error } = await supabase
+        .from('lead_reminders')
+        .delete()
+        .eq('id', reminderId);
+
+      if (error) throw error;
+
+      setLeads(current => current.map(lead =>
+        lead.id === leadId
+          ? { ...lead, lead_reminders: lead.lead_reminders.filter(reminder => reminder.id !== reminderId) }
+          : lead
+      ));
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting reminder:', error);
+      return { success: false, error: 'Failed to delete reminder' };
+    }
+  };
+
+  return {
+    leads,
+    loading,
+    updateLeadStatus,
+    deleteLead,
+    addNote,
+    deleteNote,
+    addReminder,
+    setReminderCompleted,
+    deleteReminder,
+    refresh: loadLeads,
+  };
+};
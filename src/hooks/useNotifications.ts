@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import type { Database } from '../lib/supabase';
+
+export type Notification = Database['public']['Tables']['notifications']['Row'];
+
+const NOTIFICATION_LIMIT = 20;
+const REMINDER_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+const checkDueReminders = async () => {
+  const { error } = await supabase.rpc('notify_due_lead_reminders');
+  if (error) {
+    console.error('Error checking due reminders:', error);
+  }
+};
+
+export const useNotifications = () => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadNotifications = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      // Turn follow-up reminders that have come due into notifications first
+      await checkDueReminders();
+
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+      setNotifications(data || []);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadNotifications();
+
+    // New rows arrive from database triggers (e.g. a new lead), so listen for inserts
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        payload => {
+          setNotifications(current =>
+            [payload.new as Notification, ...current].slice(0, NOTIFICATION_LIMIT)
+          );
+        }
+      )
+      .subscribe();
+
+    // Reminders come due without any insert, so check for them while the dashboard is open;
+    // the resulting notifications arrive through the channel above
+    const reminderTimer = window.setInterval(checkDueReminders, REMINDER_CHECK_INTERVAL_MS);
+
+    return () => {
+      supabase.removeChannel(channel);
+      window.clearInterval(reminderTimer);
+    };
+  }, [user, loadNotifications]);
+
+  const markRead = async (notificationId: string) => {
+    const readAt = new Date().toISOString();
+
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: readAt })
+        .eq('id', notificationId);
+
+      if (error) throw error;
+
+      setNotifications(current => current.map(notification =>
+        notification.id === notificationId ? { ...notification, read_at: readAt } : notification
+      ));
+      return { success: true };
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+      return { success: false, error: 'Failed to update notification' };
+    }
+  };
+
+  const markAllRead = async () => {
+    if (!user) return { success: false, error: 'Not signed in' };
+    const readAt = new Date().toISOString();
+
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: readAt })
+        .eq('user_id', user.id)
+        .is('read_at', null);
+
+      if (error) throw error;
+
+      setNotifications(current => current.map(notification =>
+        notification.read_at ? notification : { ...notification, read_at: readAt }
+      ));
+      return { success: true };
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      return { success: false, error: 'Failed to update notifications' };
+    }
+  };
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(notification => !notification.read_at).length,
+    loading,
+    markRead,
+    markAllRead,
+    refresh: loadNotifications,
+  };
+};
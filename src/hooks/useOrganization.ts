@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { canManageOrganization } from '../utils/organizationUtils';
+import type { Database } from '../lib/supabase';
+import type { Organization, OrganizationMember, OrganizationRole } from '../utils/organizationUtils';
+
+type OrganizationUpdate = Database['public']['Tables']['organizations']['Update'];
+
+export const useOrganization = () => {
+  const { user } = useAuth();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [membership, setMembership] = useState<OrganizationMember | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadMembers = useCallback(async (organizationId: string) => {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    setMembers(data || []);
+  }, []);
+
+  const loadOrganization = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      // Join any organization that invited this email
+      const { error: acceptError } = await supabase.rpc('accept_organization_invites');
+      if (acceptError) {
+        console.error('Error accepting organization invites:', acceptError);
+      }
+
+      const { data: memberData, error: memberError } = await supabase
+        .from('organization_members')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('status', 'active')
+        .maybeSingle();
+
+      if (memberError) throw memberError;
+
+      if (!memberData) {
+        setMembership(null);
+        setOrganization(null);
+        setMembers([]);
+        return;
+      }
+
+      const { data: orgData, error: orgError } = await supabase
+        .from('organizations')
+        .select('*')
+        .eq('id', memberData.organization_id)
+        .single();
+
+      if (orgError) throw orgError;
+
+      setMembership(memberData);
+      setOrganization(orgData);
+      await loadMembers(orgData.id);
+    } catch (error) {
+      console.error('Error loading organization:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, loadMembers]);
+
+  useEffect(() => {
+    if (user) {
+      loadOrganization();
+    }
+  }, [user, loadOrganization]);
+
+  const createOrganization = async (name: string, company: string) => {
+    if (!user) return { success: false, error: 'Not signed in' };
+
+    try {
+      const { error } = await supabase
+        .from('organizations')
+        .insert({ name, company: company || null, owner_id: user.id });
+
+      if (error) throw error;
+
+      await loadOrganization();
+      return { success: true };
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      return { success: false, error: 'Failed to create organization' };
+    }
+  };
+
+  const updateOrganization = async (updates: OrganizationUpdate) => {
+    if (!organization) return { success: false, error: 'No organization' };
+
+    try {
+      const { data, error } = await supabase
+        .from('organizations')
+        .update(updates)
+        .eq('id', organization.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setOrganization(data);
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating organization:', error);
+      return { success: false, error: 'Failed to update organization' };
+    }
+  };
+
+  const inviteMember = async (email: string, role: OrganizationRole = 'member') => {
+    if (!organization || !user) return { success: false, error: 'No organization' };
+
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .insert({
+          organization_id: organization.id,
+          email: email.trim().toLowerCase(),
+          role,
+          invited_by: user.id,
+        });
+
+      if (error) {
+        if (error.code === '23505') {
+          return { success: false, error: 'This email has already been invited' };
+        }
+        throw error;
+      }
+
+      await loadMembers(organization.id);
+      return { success: true };
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      return { success: false, error: 'Failed to invite member' };
+    }
+  };
+
+  const updateMemberRole = async (memberId: string, role: OrganizationRole) => {
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .update({ role })
+        .eq('id', memberId);
+
+      if (error) throw error;
+
+      setMembers(members.map(member =>
+        member.id === memberId ? { ...member, role } : member
+      ));
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating member role:', error);
+      return { success: false, error: 'Failed to update member role' };
+    }
+  };
+
+  const removeMember = async (memberId: string) => {
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('id', memberId);
+
+      if (error) throw error;
+
+      if (memberId === membership?.id) {
+        setMembership(null);
+        setOrganization(null);
+        setMembers([]);
+      } else {
+        setMembers(members.filter(member => member.id !== memberId));
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error removing member:', error);
+      return { success: false, error: 'Failed to remove member' };
+    }
+  };
+
+  return {
+    organization,
+    membership,
+    members,
+    loading,
+    canManage: canManageOrganization(membership),
+    createOrganization,
+    updateOrganization,
+    inviteMember,
+    updateMemberRole,
+    removeMember,
+    refresh: loadOrganization,
+  };
+};
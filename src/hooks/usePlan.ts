@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import {
+  DEFAULT_ENTITLEMENTS,
+  onPlanChanged,
+  parseEntitlements,
+  type Entitlements,
+  type SubscriptionPlan,
+} from '../utils/planUtils';
+
+export const usePlan = () => {
+  const { user } = useAuth();
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [tier, setTier] = useState('free');
+  const [entitlements, setEntitlements] = useState<Entitlements>(DEFAULT_ENTITLEMENTS);
+  const [loading, setLoading] = useState(true);
+
+  const loadPlan = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const [plansResult, entitlementsResult] = await Promise.all([
+        supabase
+          .from('subscription_plans')
+          .select('*')
+          .order('sort_order', { ascending: true }),
+        supabase.rpc('get_my_entitlements'),
+      ]);
+
+      if (plansResult.error) throw plansResult.error;
+      if (entitlementsResult.error) throw entitlementsResult.error;
+
+      const parsed = parseEntitlements(entitlementsResult.data);
+      setPlans(plansResult.data || []);
+      setTier(parsed.tier);
+      setEntitlements(parsed.entitlements);
+    } catch (error) {
+      console.error('Error loading plan:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      loadPlan();
+      return onPlanChanged(loadPlan);
+    }
+  }, [user, loadPlan]);
+
+  // Admins only; RLS refuses everyone else
+  const updatePlan = async (planId: string, updates: Database['public']['Tables']['subscription_plans']['Update']) => {
+    try {
+      const { data, error } = await supabase
+        .from('subscription_plans')
+        .update(updates)
+        .eq('id', planId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setPlans(current => current.map(plan => plan.id === planId ? data : plan));
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating plan:', error);
+      return { success: false, error: 'Failed to update plan' };
+    }
+  };
+
+  return {
+    plans,
+    plan: plans.find(plan => plan.id === tier) || null,
+    entitlements,
+    loading,
+    updatePlan,
+    refresh: loadPlan,
+  };
+};
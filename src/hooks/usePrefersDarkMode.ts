@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * Whether the device is set to a dark color scheme, updated when the setting changes
+ */
+export const usePrefersDarkMode = () => {
+  const [prefersDark, setPrefersDark] = useState(
+    () => typeof window !== 'undefined' && window.matchMedia(DARK_QUERY).matches
+  );
+
+  useEffect(() => {
+    const query = window.matchMedia(DARK_QUERY);
+    const handleChange = (event: MediaQueryListEvent) => setPrefersDark(event.matches);
+
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  return prefersDark;
+};
@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import type { QRSource } from '../utils/qrUtils';
+
+/**
+ * Named QR sources of one saved card. Pass null while the card has not been saved yet.
+ */
+export const useQRSources = (cardId: string | null) => {
+  const [sources, setSources] = useState<QRSource[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadSources = useCallback(async () => {
+    if (!cardId) return;
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('qr_sources')
+        .select('*')
+        .eq('card_id', cardId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setSources(data || []);
+    } catch (error) {
+      console.error('Error loading QR sources:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [cardId]);
+
+  useEffect(() => {
+    if (cardId) {
+      loadSources();
+    } else {
+      setSources([]);
+    }
+  }, [cardId, loadSources]);
+
+  const createSource = async (name: string) => {
+    if (!cardId) return { success: false, error: 'Save the card first' };
+
+    try {
+      const { data, error } = await supabase
+        .from('qr_sources')
+        .insert({ card_id: cardId, name: name.trim() })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setSources(current => [...current, data]);
+      return { success: true, source: data as QRSource };
+    } catch (error) {
+      console.error('Error creating QR source:', error);
+      return { success: false, error: 'Failed to add QR source' };
+    }
+  };
+
+  const deleteSource = async (sourceId: string) => {
+    try {
+      const { error } = await supabase
+        .from('qr_sources')
+        .delete()
+        .eq('id', sourceId);
+
+      if (error) throw error;
+
+      setSources(current => current.filter(source => source.id !== sourceId));
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting QR source:', error);
+      return { success: false, error: 'Failed to delete QR source' };
+    }
+  };
+
+  return {
+    sources,
+    loading,
+    createSource,
+    deleteSource,
+    refresh: loadSources,
+  };
+};
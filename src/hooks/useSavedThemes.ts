@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import type { CardTheme, SavedTheme } from '../utils/themeUtils';
+
+export const useSavedThemes = () => {
+  const { user } = useAuth();
+  const [themes, setThemes] = useState<SavedTheme[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      loadThemes();
+    }
+  }, [user]);
+
+  const loadThemes = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('saved_themes')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setThemes(data || []);
+    } catch (error) {
+      console.error('Error loading saved themes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The theme is stored under `name`, which also becomes its display name on cards
+  const saveTheme = async (name: string, theme: CardTheme) => {
+    if (!user) return { success: false, error: 'Not signed in' };
+
+    try {
+      const trimmedName = name.trim();
+      const { data, error } = await supabase
+        .from('saved_themes')
+        .insert({
+          user_id: user.id,
+          name: trimmedName,
+          theme: { ...theme, name: trimmedName },
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setThemes(current => [data, ...current]);
+      return { success: true, theme: data as SavedTheme };
+    } catch (error) {
+      console.error('Error saving theme:', error);
+      return { success: false, error: 'Failed to save theme' };
+    }
+  };
+
+  const deleteTheme = async (themeId: string) => {
+    try {
+      const { error } = await supabase
+        .from('saved_themes')
+        .delete()
+        .eq('id', themeId);
+
+      if (error) throw error;
+
+      setThemes(current => current.filter(theme => theme.id !== themeId));
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting theme:', error);
+      return { success: false, error: 'Failed to delete theme' };
+    }
+  };
+
+  return {
+    themes,
+    loading,
+    saveTheme,
+    deleteTheme,
+    refresh: loadThemes,
+  };
+};
@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import type { ShortLink, UtmParams } from '../utils/shortLinkUtils';
+
+export const useShortLinks = (cardId: string) => {
+  const [links, setLinks] = useState<ShortLink[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('short_links')
+        .select('*')
+        .eq('card_id', cardId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setLinks(data || []);
+    } catch (error) {
+      console.error('Error loading short links:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [cardId]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [cardId, loadLinks]);
+
+  // Leave `code` empty to have one generated
+  const createLink = async (code: string, label: string, utm: UtmParams) => {
+    try {
+      const { data, error } = await supabase
+        .from('short_links')
+        .insert({
+          card_id: cardId,
+          ...(code ? { code } : {}),
+          label: label.trim() || null,
+          utm_source: utm.utm_source?.trim() || null,
+          utm_medium: utm.utm_medium?.trim() || null,
+          utm_campaign: utm.utm_campaign?.trim() || null,
+          utm_term: utm.utm_term?.trim() || null,
+          utm_content: utm.utm_content?.trim() || null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return { success: false, error: 'This code is already taken' };
+        }
+        throw error;
+      }
+
+      setLinks(current => [data, ...current]);
+      return { success: true, link: data as ShortLink };
+    } catch (error) {
+      console.error('Error creating short link:', error);
+      return { success: false, error: 'Failed to create short link' };
+    }
+  };
+
+  const deleteLink = async (linkId: string) => {
+    try {
+      const { error } = await supabase
+        .from('short_links')
+        .delete()
+        .eq('id', linkId);
+
+      if (error) throw error;
+
+      setLinks(current => current.filter(link => link.id !== linkId));
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting short link:', error);
+      return { success: false, error: 'Failed to delete short link' };
+    }
+  };
+
+  return {
+    links,
+    loading,
+    createLink,
+    deleteLink,
+    refresh: loadLinks,
+  };
+};
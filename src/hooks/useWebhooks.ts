@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import {
+  getWebhookPrivateTargetsAllowed,
+  sendTestWebhook,
+  replayWebhookDelivery,
+  rotateWebhookSecret,
+  syncWebhookDeliveries,
+} from '../utils/webhookUtils';
+import type { Database } from '../lib/supabase';
+import type { WebhookDelivery, WebhookEndpoint } from '../utils/webhookUtils';
+
+type WebhookEndpointUpdate = Database['public']['Tables']['webhook_endpoints']['Update'];
+
+const DELIVERY_LOG_LIMIT = 50;
+
+// The database rejects URLs it won't send to with a check violation explaining why
+const getEndpointErrorMessage = (error: unknown, fallback: string) => {
+  const { code, message } = (error || {}) as { code?: string; message?: string };
+  return code === '23514' && message ? message : fallback;
+};
+
+export const useWebhooks = () => {
+  const { user } = useAuth();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [allowPrivateTargets, setAllowPrivateTargets] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadDeliveries = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(DELIVERY_LOG_LIMIT);
+
+    if (error) throw error;
+    setDeliveries(data || []);
+  }, []);
+
+  const loadWebhooks = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setEndpoints(data || []);
+      setAllowPrivateTargets(await getWebhookPrivateTargetsAllowed());
+
+      // Pick up responses to earlier requests before showing the log
+      await syncWebhookDeliveries();
+      await loadDeliveries();
+    } catch (error) {
+      console.error('Error loading webhooks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, loadDeliveries]);
+
+  useEffect(() => {
+    if (user) {
+      loadWebhooks();
+    }
+  }, [user, loadWebhooks]);
+
+  const refreshDeliveries = async () => {
+    try {
+      await syncWebhookDeliveries();
+      await loadDeliveries();
+    } catch (error) {
+      console.error('Error loading webhook deliveries:', error);
+    }
+  };
+
+  const createEndpoint = async (url: string, cardId: string | null, events: string[], description: string) => {
+    if (!user) return { success: false, error: 'Not signed in' };
+
+    try {
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .insert({
+          user_id: user.id,
+          card_id: cardId,
+          url: url.trim(),
+          events,
+          description: description.trim() || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setEndpoints([...endpoints, data]);
+      return { success: true };
+    } catch (error) {
+      console.error('Error creating webhook endpoint:', error);
+      return { success: false, error: getEndpointErrorMessage(error, 'Failed to add webhook endpoint') };
+    }
+  };
+
+  const updateEndpoint = async (endpointId: string, updates: WebhookEndpointUpdate) => {
+    try {
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .update(updates)
+        .eq('id', endpointId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setEndpoints(endpoints.map(endpoint => endpoint.id === endpointId ? data : endpoint));
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating webhook endpoint:', error);
+      return { success: false, error: getEndpointErrorMessage(error, 'Failed to update webhook endpoint') };
+    }
+  };
+
+  const deleteEndpoint = async (endpointId: string) => {
+    try {
+      const { error } = await supabase
+        .from('webhook_endpoints')
+        .delete()
+        .eq('id', endpointId);
+
+      if (error) throw error;
+
+      setEndpoints(endpoints.filter(endpoint => endpoint.id !== endpointId));
+      setDeliveries(deliveries.filter(delivery => delivery.endpoint_id !== endpointId));
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      return { success: false, error: 'Failed to delete webhook endpoint' };
+    }
+  };
+
+  const rotateSecret = async (endpointId: string) => {
+    const result = await rotateWebhookSecret(endpointId);
+    if (result.success && result.secret) {
+      setEndpoints(endpoints.map(endpoint =>
+        endpoint.id === endpointId ? { ...endpoint, secret: result.secret } : endpoint
+      ));
+    }
+    return result;
+  };
+
+  const sendTest = async (endpointId: string) => {
+    const result = await sendTestWebhook(endpointId);
+    if (result.success) {
+      await refreshDeliveries();
+    }
+    return result;
+  };
+
+  const replayDelivery = async (deliveryId: string) => {
+    const result = await replayWebhookDelivery(deliveryId);
+    if (result.success) {
+      await refreshDeliveries();
+    }
+    return result;
+  };
+
+  return {
+    endpoints,
+    deliveries,
+    allowPrivateTargets,
+    loading,
+    createEndpoint,
+    updateEndpoint,
+    deleteEndpoint,
+    rotateSecret,
+    sendTest,
+    replayDelivery,
+    refreshDeliveries,
+    refresh: loadWebhooks,
+  };
+};
@@ -1,30 +1,44 @@
-import { createClient } from '@supabase/supabase-js';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseServiceKey = import.meta.env.VITE_SUPABASE_SERVICE_ROLE_KEY;
+// Admin access comes from profiles.role; RLS policies check the same role via is_admin()
+export const ADMIN_ROLE = 'admin';
 
-if (!supabaseUrl) {
-  throw new Error('Missing Supabase URL');
-}
+// Admins must sign in again after this many hours, even if the token keeps refreshing
+export const ADMIN_SESSION_MAX_HOURS = 24;
 
-// For admin operations, we need to use service role to bypass RLS
-// In production, this should be handled server-side for security
-export const adminSupabase = createClient(supabaseUrl, supabaseServiceKey || import.meta.env.VITE_SUPABASE_ANON_KEY, {
-  auth: {
-    autoRefreshToken: false,
-    persistSession: false
+export const fetchProfileRole = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading profile role:', error);
+    return null;
   }
-});
-
-// Helper function to check if we have admin access
-export const hasAdminAccess = () => {
-  const adminSession = localStorage.getItem('admin_session');
-  if (!adminSession) return false;
-  
-  try {
-    const session = JSON.parse(adminSession);
-    return session.email === 'scc@gmail.com';
-  } catch {
-    return false;
+
+  return (data?.role as string | null) ?? null;
+};
+
+export const isAdminSessionExpired = (session: Session) => {
+  const now = Date.now();
+  if (session.expires_at && session.expires_at * 1000 <= now) {
+    return true;
   }
-};
\ No newline at end of file
+
+  const signedInAt = session.user.last_sign_in_at;
+  if (!signedInAt) return false;
+
+  const hoursSinceLogin = (now - new Date(signedInAt).getTime()) / (1000 * 60 * 60);
+  return hoursSinceLogin > ADMIN_SESSION_MAX_HOURS;
+};
+
+// Helper function to check if the current Supabase session belongs to an admin
+export const hasAdminAccess = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session || isAdminSessionExpired(session)) return false;
+
+  return (await fetchProfileRole(session.user.id)) === ADMIN_ROLE;
+};
@@ -28,6 +28,7 @@ export interface Database {
           avatar_url: string | null
           role: string
           subscription_tier: string
+          entitlement_overrides: Json
           created_at: string
           updated_at: string
         }
@@ -38,6 +39,7 @@ export interface Database {
           avatar_url?: string | null
           role?: string
           subscription_tier?: string
+          entitlement_overrides?: Json
           created_at?: string
           updated_at?: string
         }
@@ -48,6 +50,7 @@ export interface Database {
           avatar_url?: string | null
           role?: string
           subscription_tier?: string
+          entitlement_overrides?: Json
           created_at?: string
           updated_at?: string
         }
@@ -73,6 +76,17 @@ export interface Database {
           is_published: boolean
           view_count: number
           slug: string | null
+          organization_id: string | null
+          logo_url: string | null
+          published_at: string | null
+          publish_at: string | null
+          expire_at: string | null
+          visibility: string
+          lead_capture_enabled: boolean
+          lead_form_fields: Json
+          booking_enabled: boolean
+          booking_availability: Json
+          template_id: string | null
           created_at: string
           updated_at: string
         }
@@ -96,6 +110,17 @@ export interface Database {
           is_published?: boolean
           view_count?: number
           slug?: string | null
+          organization_id?: string | null
+          logo_url?: string | null
+          published_at?: string | null
+          publish_at?: string | null
+          expire_at?: string | null
+          visibility?: string
+          lead_capture_enabled?: boolean
+          lead_form_fields?: Json
+          booking_enabled?: boolean
+          booking_availability?: Json
+          template_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -119,6 +144,17 @@ export interface Database {
           is_published?: boolean
           view_count?: number
           slug?: string | null
+          organization_id?: string | null
+          logo_url?: string | null
+          published_at?: string | null
+          publish_at?: string | null
+          expire_at?: string | null
+          visibility?: string
+          lead_capture_enabled?: boolean
+          lead_form_fields?: Json
+          booking_enabled?: boolean
+          booking_availability?: Json
+          template_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -132,6 +168,7 @@ export interface Database {
           url: string
           display_order: number
           is_active: boolean
+          is_auto_synced: boolean
           created_at: string
         }
         Insert: {
@@ -142,6 +179,7 @@ export interface Database {
           url: string
           display_order?: number
           is_active?: boolean
+          is_auto_synced?: boolean
           created_at?: string
         }
         Update: {
@@ -152,9 +190,86 @@ export interface Database {
           url?: string
           display_order?: number
           is_active?: boolean
+          is_auto_synced?: boolean
           created_at?: string
         }
       }
+      media_items: {
+        Row: {
+          id: string
+          card_id: string
+          type: string
+          title: string
+          description: string | null
+          url: string
+          thumbnail_url: string | null
+          file_size: number | null
+          mime_type: string | null
+          display_order: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          card_id: string
+          type: string
+          title: string
+          description?: string | null
+          url: string
+          thumbnail_url?: string | null
+          file_size?: number | null
+          mime_type?: string | null
+          display_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          card_id?: string
+          type?: string
+          title?: string
+          description?: string | null
+          url?: string
+          thumbnail_url?: string | null
+          file_size?: number | null
+          mime_type?: string | null
+          display_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      review_links: {
+        Row: {
+          id: string
+          card_id: string
+          title: string
+          review_url: string
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          card_id: string
+          title: string
+          review_url: string
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          card_id?: string
+          title?: string
+          review_url?: string
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
       card_analytics: {
         Row: {
           id: string
@@ -165,6 +280,12 @@ export interface Database {
           country: string | null
           city: string | null
           device_type: string | null
+          short_link_id: string | null
+          utm_source: string | null
+          utm_medium: string | null
+          utm_campaign: string | null
+          utm_term: string | null
+          utm_content: string | null
           viewed_at: string
         }
         Insert: {
@@ -176,6 +297,12 @@ export interface Database {
           country?: string | null
           city?: string | null
           device_type?: string | null
+          short_link_id?: string | null
+          utm_source?: string | null
+          utm_medium?: string | null
+          utm_campaign?: string | null
+          utm_term?: string | null
+          utm_content?: string | null
           viewed_at?: string
         }
         Update: {
@@ -187,9 +314,59 @@ export interface Database {
           country?: string | null
           city?: string | null
           device_type?: string | null
+          short_link_id?: string | null
+          utm_source?: string | null
+          utm_medium?: string | null
+          utm_campaign?: string | null
+          utm_term?: string | null
+          utm_content?: string | null
           viewed_at?: string
         }
       }
+      card_events: {
+        Row: {
+          id: string
+          card_id: string
+          event_type: string
+          target: string | null
+          session_id: string | null
+          referrer: string | null
+          user_agent: string | null
+          device_type: string | null
+          country: string | null
+          city: string | null
+          qr_source_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          card_id: string
+          event_type: string
+          target?: string | null
+          session_id?: string | null
+          referrer?: string | null
+          user_agent?: string | null
+          device_type?: string | null
+          country?: string | null
+          city?: string | null
+          qr_source_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          card_id?: string
+          event_type?: string
+          target?: string | null
+          session_id?: string | null
+          referrer?: string | null
+          user_agent?: string | null
+          device_type?: string | null
+          country?: string | null
+          city?: string | null
+          qr_source_id?: string | null
+          created_at?: string
+        }
+      }
       card_templates: {
         Row: {
           id: string
@@ -200,7 +377,10 @@ export interface Database {
           layout: Json
           is_premium: boolean
           is_active: boolean
+          shape: string
+          sort_order: number
           created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
@@ -211,7 +391,10 @@ export interface Database {
           layout: Json
           is_premium?: boolean
           is_active?: boolean
+          shape?: string
+          sort_order?: number
           created_at?: string
+          updated_at?: string
         }
         Update: {
           id?: string
@@ -222,9 +405,930 @@ export interface Database {
           layout?: Json
           is_premium?: boolean
           is_active?: boolean
+          shape?: string
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      organizations: {
+        Row: {
+          id: string
+          name: string
+          owner_id: string
+          theme: Json | null
+          layout: Json | null
+          shape: string | null
+          logo_url: string | null
+          company: string | null
+          website: string | null
+          address: string | null
+          locked_fields: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          owner_id: string
+          theme?: Json | null
+          layout?: Json | null
+          shape?: string | null
+          logo_url?: string | null
+          company?: string | null
+          website?: string | null
+          address?: string | null
+          locked_fields?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          owner_id?: string
+          theme?: Json | null
+          layout?: Json | null
+          shape?: string | null
+          logo_url?: string | null
+          company?: string | null
+          website?: string | null
+          address?: string | null
+          locked_fields?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      organization_members: {
+        Row: {
+          id: string
+          organization_id: string
+          user_id: string | null
+          email: string
+          role: string
+          status: string
+          invited_by: string | null
+          created_at: string
+          joined_at: string | null
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          user_id?: string | null
+          email: string
+          role?: string
+          status?: string
+          invited_by?: string | null
+          created_at?: string
+          joined_at?: string | null
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          user_id?: string | null
+          email?: string
+          role?: string
+          status?: string
+          invited_by?: string | null
+          created_at?: string
+          joined_at?: string | null
+        }
+      }
+      slug_history: {
+        Row: {
+          id: string
+          card_id: string
+          slug: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          card_id: string
+          slug: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          card_id?: string
+          slug?: string
+          created_at?: string
+        }
+      }
+      card_drafts: {
+        Row: {
+          card_id: string
+          data: Json
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          card_id: string
+          data?: Json
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          card_id?: string
+          data?: Json
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      card_revisions: {
+        Row: {
+          id: string
+          card_id: string
+          revision_number: number
+          card: Json
+          social_links: Json
+          media_items: Json
+          review_links: Json
+          note: string | null
+          published_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          card_id: string
+          revision_number: number
+          card: Json
+          social_links?: Json
+          media_items?: Json
+          review_links?: Json
+          note?: string | null
+          published_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          card_id?: string
+          revision_number?: number
+          card?: Json
+          social_links?: Json
+          media_items?: Json
+          review_links?: Json
+          note?: string | null
+          published_by?: string | null
+          created_at?: string
+        }
+      }
+      leads: {
+        Row: {
+          id: string
+          card_id: string
+          owner_id: string | null
+          name: string
+          email: string | null
+          phone: string | null
+          company: string | null
+          note: string | null
+          custom_fields: Json
+          status: string
+          source: string
+          session_id: string | null
+          ip_hash: string | null
+          referrer: string | null
+          user_agent: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          card_id: string
+          owner_id?: string | null
+          name: string
+          email?: string | null
+          phone?: string | null
+          company?: string | null
+          note?: string | null
+          custom_fields?: Json
+          status?: string
+          source?: string
+          session_id?: string | null
+          ip_hash?: string | null
+          referrer?: string | null
+          user_agent?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          card_id?: string
+          owner_id?: string | null
+          name?: string
+          email?: string | null
+          phone?: string | null
+          company?: string | null
+          note?: string | null
+          custom_fields?: Json
+          status?: string
+          source?: string
+          session_id?: string | null
+          ip_hash?: string | null
+          referrer?: string | null
+          user_agent?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      lead_notes: {
+        Row: {
+          id: string
+          lead_id: string
+          author_id: string | null
+          kind: string
+          body: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          lead_id: string
+          author_id?: string | null
+          kind?: string
+          body: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          lead_id?: string
+          author_id?: string | null
+          kind?: string
+          body?: string
+          created_at?: string
+        }
+      }
+      lead_reminders: {
+        Row: {
+          id: string
+          lead_id: string
+          user_id: string
+          due_at: string
+          note: string | null
+          completed_at: string | null
+          notified_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          lead_id: string
+          user_id: string
+          due_at: string
+          note?: string | null
+          completed_at?: string | null
+          notified_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          lead_id?: string
+          user_id?: string
+          due_at?: string
+          note?: string | null
+          completed_at?: string | null
+          notified_at?: string | null
           created_at?: string
         }
       }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          type: string
+          title: string
+          body: string | null
+          metadata: Json
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type: string
+          title: string
+          body?: string | null
+          metadata?: Json
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type?: string
+          title?: string
+          body?: string | null
+          metadata?: Json
+          read_at?: string | null
+          created_at?: string
+        }
+      }
+      qr_sources: {
+        Row: {
+          id: string
+          card_id: string
+          name: string
+          code: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          card_id: string
+          name: string
+          code?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          card_id?: string
+          name?: string
+          code?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      saved_themes: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          theme: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          theme: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          theme?: Json
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      subscription_plans: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          sort_order: number
+          max_cards: number | null
+          max_media_items: number | null
+          premium_templates: boolean
+          analytics_retention_days: number | null
+          custom_domains: number
+          lead_capture: boolean
+          price_cents: number | null
+          currency: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          name: string
+          description?: string | null
+          sort_order?: number
+          max_cards?: number | null
+          max_media_items?: number | null
+          premium_templates?: boolean
+          analytics_retention_days?: number | null
+          custom_domains?: number
+          lead_capture?: boolean
+          price_cents?: number | null
+          currency?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          sort_order?: number
+          max_cards?: number | null
+          max_media_items?: number | null
+          premium_templates?: boolean
+          analytics_retention_days?: number | null
+          custom_domains?: number
+          lead_capture?: boolean
+          price_cents?: number | null
+          currency?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      billing_subscriptions: {
+        Row: {
+          user_id: string
+          provider: string
+          customer_id: string
+          subscription_id: string
+          plan_id: string
+          status: string
+          current_period_end: string | null
+          cancel_at_period_end: boolean
+          grace_period_ends_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          provider: string
+          customer_id: string
+          subscription_id: string
+          plan_id: string
+          status: string
+          current_period_end?: string | null
+          cancel_at_period_end?: boolean
+          grace_period_ends_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          provider?: string
+          customer_id?: string
+          subscription_id?: string
+          plan_id?: string
+          status?: string
+          current_period_end?: string | null
+          cancel_at_period_end?: boolean
+          grace_period_ends_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      billing_invoices: {
+        Row: {
+          id: string
+          user_id: string
+          provider: string
+          invoice_id: string
+          plan_id: string | null
+          amount_cents: number
+          currency: string
+          status: string
+          invoice_url: string | null
+          period_start: string | null
+          period_end: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          provider: string
+          invoice_id: string
+          plan_id?: string | null
+          amount_cents: number
+          currency: string
+          status: string
+          invoice_url?: string | null
+          period_start?: string | null
+          period_end?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          provider?: string
+          invoice_id?: string
+          plan_id?: string | null
+          amount_cents?: number
+          currency?: string
+          status?: string
+          invoice_url?: string | null
+          period_start?: string | null
+          period_end?: string | null
+          created_at?: string
+        }
+      }
+      system_settings: {
+        Row: {
+          id: string
+          key: string
+          value: Json
+          description: string | null
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          key: string
+          value: Json
+          description?: string | null
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          key?: string
+          value?: Json
+          description?: string | null
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      short_links: {
+        Row: {
+          id: string
+          card_id: string
+          code: string
+          label: string | null
+          utm_source: string | null
+          utm_medium: string | null
+          utm_campaign: string | null
+          utm_term: string | null
+          utm_content: string | null
+          click_count: number
+          last_clicked_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          card_id: string
+          code?: string
+          label?: string | null
+          utm_source?: string | null
+          utm_medium?: string | null
+          utm_campaign?: string | null
+          utm_term?: string | null
+          utm_content?: string | null
+          click_count?: number
+          last_clicked_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          card_id?: string
+          code?: string
+          label?: string | null
+          utm_source?: string | null
+          utm_medium?: string | null
+          utm_campaign?: string | null
+          utm_term?: string | null
+          utm_content?: string | null
+          click_count?: number
+          last_clicked_at?: string | null
+          created_at?: string
+        }
+      }
+      webhook_endpoints: {
+        Row: {
+          id: string
+          user_id: string
+          card_id: string | null
+          url: string
+          description: string | null
+          events: string[]
+          secret: string
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          card_id?: string | null
+          url: string
+          description?: string | null
+          events?: string[]
+          secret?: string
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          card_id?: string | null
+          url?: string
+          description?: string | null
+          events?: string[]
+          secret?: string
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          endpoint_id: string
+          event_id: string
+          event_type: string
+          payload: Json
+          status: string
+          attempts: number
+          next_attempt_at: string | null
+          last_attempt_at: string | null
+          request_id: number | null
+          response_status: number | null
+          response_body: string | null
+          error: string | null
+          replay_of: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          endpoint_id: string
+          event_id: string
+          event_type: string
+          payload: Json
+          status?: string
+          attempts?: number
+          next_attempt_at?: string | null
+          last_attempt_at?: string | null
+          request_id?: number | null
+          response_status?: number | null
+          response_body?: string | null
+          error?: string | null
+          replay_of?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          endpoint_id?: string
+          event_id?: string
+          event_type?: string
+          payload?: Json
+          status?: string
+          attempts?: number
+          next_attempt_at?: string | null
+          last_attempt_at?: string | null
+          request_id?: number | null
+          response_status?: number | null
+          response_body?: string | null
+          error?: string | null
+          replay_of?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      bookings: {
+        Row: {
+          id: string
+          card_id: string
+          owner_id: string | null
+          starts_at: string
+          ends_at: string
+          name: string
+          email: string
+          phone: string | null
+          note: string | null
+          time_zone: string | null
+          status: string
+          sequence: number
+          cancelled_at: string | null
+          session_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          card_id: string
+          owner_id?: string | null
+          starts_at: string
+          ends_at: string
+          name: string
+          email: string
+          phone?: string | null
+          note?: string | null
+          time_zone?: string | null
+          status?: string
+          sequence?: number
+          cancelled_at?: string | null
+          session_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          card_id?: string
+          owner_id?: string | null
+          starts_at?: string
+          ends_at?: string
+          name?: string
+          email?: string
+          phone?: string | null
+          note?: string | null
+          time_zone?: string | null
+          status?: string
+          sequence?: number
+          cancelled_at?: string | null
+          session_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+    }
+    Functions: {
+      record_card_view: {
+        Args: {
+          p_card_id: string
+          p_session_id?: string | null
+          p_user_agent?: string | null
+          p_referrer?: string | null
+          p_device_type?: string | null
+          p_short_link_id?: string | null
+          p_utm?: Json | null
+        }
+        Returns: Json
+      }
+      record_qr_scan: {
+        Args: {
+          p_code: string
+          p_session_id?: string | null
+          p_user_agent?: string | null
+          p_referrer?: string | null
+          p_device_type?: string | null
+        }
+        Returns: Json
+      }
+      record_short_link_click: {
+        Args: {
+          p_code: string
+          p_user_agent?: string | null
+        }
+        Returns: Json
+      }
+      accept_organization_invites: {
+        Args: Record<string, never>
+        Returns: string | null
+      }
+      check_slug_availability: {
+        Args: {
+          p_slug: string
+          p_card_id?: string | null
+        }
+        Returns: Json
+      }
+      resolve_card_slug: {
+        Args: {
+          p_slug: string
+        }
+        Returns: string | null
+      }
+      get_card_availability: {
+        Args: {
+          p_slug: string
+        }
+        Returns: Json
+      }
+      set_card_passcode: {
+        Args: {
+          p_card_id: string
+          p_passcode: string | null
+        }
+        Returns: boolean
+      }
+      card_has_passcode: {
+        Args: {
+          p_card_id: string
+        }
+        Returns: boolean
+      }
+      unlock_card: {
+        Args: {
+          p_slug: string
+          p_passcode: string
+          p_session_id?: string | null
+        }
+        Returns: Json
+      }
+      open_unlocked_card: {
+        Args: {
+          p_slug: string
+          p_unlock_token: string
+        }
+        Returns: Json
+      }
+      record_card_event: {
+        Args: {
+          p_card_id: string
+          p_event_type: string
+          p_target?: string | null
+          p_session_id?: string | null
+          p_referrer?: string | null
+          p_user_agent?: string | null
+          p_device_type?: string | null
+        }
+        Returns: boolean
+      }
+      publish_card: {
+        Args: {
+          p_card_id: string
+          p_note?: string | null
+        }
+        Returns: Database['public']['Tables']['card_revisions']['Row']
+      }
+      restore_card_revision: {
+        Args: {
+          p_revision_id: string
+        }
+        Returns: Database['public']['Tables']['card_revisions']['Row']
+      }
+      apply_card_collections: {
+        Args: {
+          p_card_id: string
+          p_collections: Json
+        }
+        Returns: undefined
+      }
+      submit_lead: {
+        Args: {
+          p_card_id: string
+          p_name: string
+          p_email?: string | null
+          p_phone?: string | null
+          p_company?: string | null
+          p_note?: string | null
+          p_custom_fields?: Json
+          p_session_id?: string | null
+          p_source?: string
+          p_referrer?: string | null
+          p_user_agent?: string | null
+          p_unlock_token?: string | null
+        }
+        Returns: Json
+      }
+      notify_due_lead_reminders: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      sync_webhook_deliveries: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      send_test_webhook: {
+        Args: {
+          p_endpoint_id: string
+        }
+        Returns: Database['public']['Tables']['webhook_deliveries']['Row']
+      }
+      replay_webhook_delivery: {
+        Args: {
+          p_delivery_id: string
+        }
+        Returns: Database['public']['Tables']['webhook_deliveries']['Row']
+      }
+      rotate_webhook_secret: {
+        Args: {
+          p_endpoint_id: string
+        }
+        Returns: string
+      }
+      webhook_private_targets_allowed: {
+        Args: Record<string, never>
+        Returns: boolean
+      }
+      get_booking_busy_times: {
+        Args: {
+          p_card_id: string
+          p_from: string
+          p_to: string
+          p_exclude_booking_id?: string | null
+        }
+        Returns: {
+          starts_at: string
+          ends_at: string
+        }[]
+      }
+      book_appointment: {
+        Args: {
+          p_card_id: string
+          p_starts_at: string
+          p_name: string
+          p_email: string
+          p_phone?: string | null
+          p_note?: string | null
+          p_time_zone?: string | null
+          p_session_id?: string | null
+          p_unlock_token?: string | null
+        }
+        Returns: Json
+      }
+      reschedule_booking: {
+        Args: {
+          p_booking_id: string
+          p_starts_at: string
+        }
+        Returns: Database['public']['Tables']['bookings']['Row']
+      }
+      get_my_entitlements: {
+        Args: Record<string, never>
+        Returns: Json
+      }
+      get_max_upload_size_mb: {
+        Args: Record<string, never>
+        Returns: number
+      }
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,298 @@
+/**
+ * Card interaction event tracking and aggregation
+ */
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/supabase';
+import type { UtmParams } from './shortLinkUtils';
+
+export type CardEvent = Database['public']['Tables']['card_events']['Row'];
+
+export const CARD_EVENT_TYPES = [
+  'view',
+  'social_click',
+  'phone_click',
+  'email_click',
+  'website_click',
+  'whatsapp_click',
+  'map_click',
+  'qr_scan',
+  'vcard_save',
+  'share',
+  'review_click',
+] as const;
+
+export type CardEventType = typeof CARD_EVENT_TYPES[number];
+
+/**
+ * Event types that count as a direct contact action
+ */
+export const CONTACT_EVENT_TYPES: CardEventType[] = [
+  'phone_click',
+  'email_click',
+  'website_click',
+  'whatsapp_click',
+  'map_click',
+  'vcard_save',
+];
+
+/**
+ * Human readable labels used in activity feeds and exports
+ */
+export const CARD_EVENT_LABELS: Record<CardEventType, string> = {
+  view: 'was viewed',
+  social_click: 'received a social link click',
+  phone_click: 'received a phone call tap',
+  email_click: 'received an email tap',
+  website_click: 'sent a visitor to the website',
+  whatsapp_click: 'received a WhatsApp message tap',
+  map_click: 'received a map tap',
+  qr_scan: 'was opened from a QR code',
+  vcard_save: 'was saved to contacts',
+  share: 'was shared',
+  review_click: 'sent a visitor to a review page',
+};
+
+const SESSION_KEY = 'dbc_session_id';
+const PAGE_SIZE = 1000;
+
+/**
+ * Visitor session id kept across tabs and reloads, used to group and deduplicate events
+ */
+export const getSessionId = (): string => {
+  try {
+    let sessionId = localStorage.getItem(SESSION_KEY);
+    if (!sessionId) {
+      sessionId = crypto.randomUUID();
+      localStorage.setItem(SESSION_KEY, sessionId);
+    }
+    return sessionId;
+  } catch {
+    return crypto.randomUUID();
+  }
+};
+
+export const getDeviceType = (userAgent: string = navigator.userAgent) =>
+  /Mobile|Android|iPhone|iPad/.test(userAgent) ? 'mobile' : 'desktop';
+
+/**
+ * Record a visitor interaction through the record_card_event RPC, which also accepts
+ * passcode and organization-only cards. Failures are logged and never block the visitor.
+ */
+export const trackCardEvent = async (
+  cardId: string,
+  eventType: CardEventType,
+  target: string | null = null
+) => {
+  try {
+    const { error } = await supabase.rpc('record_card_event', {
+      p_card_id: cardId,
+      p_event_type: eventType,
+      p_target: target,
+      p_session_id: getSessionId(),
+      p_referrer: document.referrer || null,
+      p_user_agent: navigator.userAgent,
+      p_device_type: getDeviceType(),
+    });
+
+    if (error) {
+      console.error('Error tracking card event:', error);
+    }
+  } catch (error) {
+    console.error('Error tracking card event:', error);
+  }
+};
+
+/**
+ * Count a card view server-side. The record_card_view RPC drops bots and repeat views
+ * from the same session, increments view_count atomically and writes the analytics rows.
+ * The short link and UTM parameters the visitor arrived with are kept on card_analytics.
+ */
+export const recordCardView = async (
+  cardId: string,
+  shortLinkId: string | null = null,
+  utm: UtmParams = {}
+) => {
+  try {
+    const { data, error } = await supabase.rpc('record_card_view', {
+      p_card_id: cardId,
+      p_session_id: getSessionId(),
+      p_user_agent: navigator.userAgent,
+      p_referrer: document.referrer || null,
+      p_device_type: getDeviceType(),
+      p_short_link_id: shortLinkId,
+      p_utm: Object.keys(utm).length > 0 ? utm : null,
+    });
+
+    if (error) {
+      console.error('Error recording card view:', error);
+      return null;
+    }
+
+    return data as { counted: boolean; view_count?: number; reason?: string };
+  } catch (error) {
+    console.error('Error recording card view:', error);
+    return null;
+  }
+};
+
+/**
+ * Record a scan of a named QR source and look up the card it opens. Bots and cards
+ * that are not live are not counted, but still resolve so the card page can explain.
+ */
+export const recordQRScan = async (code: string) => {
+  try {
+    const { data, error } = await supabase.rpc('record_qr_scan', {
+      p_code: code,
+      p_session_id: getSessionId(),
+      p_user_agent: navigator.userAgent,
+      p_referrer: document.referrer || null,
+      p_device_type: getDeviceType(),
+    });
+
+    if (error) {
+      console.error('Error recording QR scan:', error);
+      return null;
+    }
+
+    return data as { found: boolean; slug?: string };
+  } catch (error) {
+    console.error('Error recording QR scan:', error);
+    return null;
+  }
+};
+
+/**
+ * Count a click on a short link and look up where it goes. Like QR scans, bots and cards
+ * that are not live are not counted but still resolve.
+ */
+export const recordShortLinkClick = async (code: string) => {
+  try {
+    const { data, error } = await supabase.rpc('record_short_link_click', {
+      p_code: code,
+      p_user_agent: navigator.userAgent,
+    });
+
+    if (error) {
+      console.error('Error recording short link click:', error);
+      return null;
+    }
+
+    return data as { found: boolean; slug?: string; short_link_id?: string; utm?: UtmParams };
+  } catch (error) {
+    console.error('Error recording short link click:', error);
+    return null;
+  }
+};
+
+/**
+ * Load every event for the given cards within [since, until], paging past the row limit
+ */
+export const fetchCardEvents = async (
+  cardIds: string[],
+  since: Date,
+  until: Date
+): Promise<CardEvent[]> => {
+  if (cardIds.length === 0) return [];
+
+  const events: CardEvent[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('card_events')
+      .select('*')
+      .in('card_id', cardIds)
+      .gte('created_at', since.toISOString())
+      .lte('created_at', until.toISOString())
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    events.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return events;
+};
+
+export const countEvents = (events: CardEvent[], types: CardEventType | CardEventType[]) => {
+  const wanted = Array.isArray(types) ? types : [types];
+  return events.filter(event => wanted.includes(event.event_type as CardEventType)).length;
+};
+
+/**
+ * Percentage change from the previous period, rounded; 0 when there is no baseline
+ */
+export const growthPercent = (current: number, previous: number) => {
+  if (previous === 0) return current > 0 ? 100 : 0;
+  return Math.round(((current - previous) / previous) * 100);
+};
+
+const toDateKey = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Daily counts of the given event type for the last `days` days (oldest first)
+ */
+export const buildDailySeries = (events: CardEvent[], days: number, eventType: CardEventType = 'view') => {
+  const counts = new Map<string, number>();
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date();
+    date.setDate(date.getDate() - i);
+    counts.set(toDateKey(date), 0);
+  }
+
+  events
+    .filter(event => event.event_type === eventType)
+    .forEach(event => {
+      const key = toDateKey(new Date(event.created_at));
+      if (counts.has(key)) {
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+    });
+
+  return Array.from(counts.entries()).map(([date, views]) => ({ date, views }));
+};
+
+/**
+ * View counts per local hour of day (0-23)
+ */
+export const buildHourlySeries = (events: CardEvent[]) => {
+  const hours = Array.from({ length: 24 }, (_, hour) => ({ hour, views: 0 }));
+  events
+    .filter(event => event.event_type === 'view')
+    .forEach(event => {
+      hours[new Date(event.created_at).getHours()].views += 1;
+    });
+  return hours;
+};
+
+/**
+ * Group events by a key and return the counts sorted descending
+ */
+export const groupCounts = (
+  events: CardEvent[],
+  keyOf: (event: CardEvent) => string
+) => {
+  const counts = new Map<string, number>();
+  events.forEach(event => {
+    const key = keyOf(event);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Display name for the ISO country code recorded with an event (US -> United States)
+ */
+export const formatCountry = (code: string | null) => {
+  if (!code) return 'Unknown';
+  try {
+    return new Intl.DisplayNames(undefined, { type: 'region' }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
@@ -0,0 +1,100 @@
+/**
+ * Paid subscriptions: checkout and plan changes through /api/billing, and the invoices
+ * the payment provider reports
+ */
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/supabase';
+
+export type BillingSubscription = Database['public']['Tables']['billing_subscriptions']['Row'];
+export type BillingInvoice = Database['public']['Tables']['billing_invoices']['Row'];
+
+export type BillingStatus = 'active' | 'past_due' | 'canceled';
+export type InvoiceStatus = 'paid' | 'open' | 'void';
+export type SubscriptionAction = 'change' | 'cancel' | 'resume';
+
+export const BILLING_STATUS_LABELS: Record<BillingStatus, string> = {
+  active: 'Active',
+  past_due: 'Payment due',
+  canceled: 'Ended',
+};
+
+export const BILLING_STATUS_STYLES: Record<BillingStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  past_due: 'bg-red-100 text-red-800',
+  canceled: 'bg-gray-100 text-gray-800',
+};
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  paid: 'Paid',
+  open: 'Unpaid',
+  void: 'Void',
+};
+
+export const INVOICE_STATUS_STYLES: Record<InvoiceStatus, string> = {
+  paid: 'bg-green-100 text-green-800',
+  open: 'bg-red-100 text-red-800',
+  void: 'bg-gray-100 text-gray-800',
+};
+
+/**
+ * Whether the subscription still renews, or is past due but within its grace period
+ */
+export const isSubscriptionLive = (subscription: BillingSubscription | null): subscription is BillingSubscription =>
+  subscription?.status === 'active' || subscription?.status === 'past_due';
+
+export const formatPrice = (cents: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() }).format(cents / 100);
+
+const callBillingApi = async (path: string, body?: Record<string, unknown>) => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`/api/billing/${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `Billing request failed with ${response.status}`);
+  }
+  return result;
+};
+
+/**
+ * Whether plans can be bought online; false when billing is not set up or unreachable
+ */
+export const getBillingEnabled = async () => {
+  try {
+    const result = await callBillingApi('subscription');
+    return result.enabled === true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The provider's checkout page for a plan; the plan changes once payment goes through
+ */
+export const createCheckoutSession = async (planId: string) => {
+  try {
+    const result = await callBillingApi('checkout', { planId });
+    return { success: true, url: result.url as string };
+  } catch (error) {
+    console.error('Error creating checkout session:', error);
+    return { success: false, error: (error as Error).message };
+  }
+};
+
+export const updateSubscription = async (action: SubscriptionAction, planId?: string) => {
+  try {
+    await callBillingApi('subscription', { action, planId });
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating subscription:', error);
+    return { success: false, error: (error as Error).message };
+  }
+};
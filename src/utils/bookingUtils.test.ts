@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildBookingSlots,
+  createDefaultAvailability,
+  generateICS,
+  groupSlotsByDay,
+  zonedTimeToDate,
+  type BookingAvailability,
+} from './bookingUtils';
+
+// Monday, 2026-10-19, 06:00 UTC
+const NOW = new Date('2026-10-19T06:00:00Z');
+
+const availability = (overrides: Partial<BookingAvailability> = {}): BookingAvailability => ({
+  ...createDefaultAvailability(),
+  time_zone: 'UTC',
+  meeting_minutes: 60,
+  min_notice_hours: 0,
+  max_days_ahead: 1,
+  weekly_hours: {
+    mon: [{ start: '09:00', end: '12:00' }],
+    tue: [],
+    wed: [],
+    thu: [],
+    fri: [],
+    sat: [],
+    sun: [],
+  },
+  ...overrides,
+});
+
+const starts = (slots: { starts_at: string }[]) => slots.map(slot => slot.starts_at);
+
+describe('zonedTimeToDate', () => {
+  it('converts wall-clock time using the offset in effect on that date', () => {
+    expect(zonedTimeToDate('2026-03-28', '09:00', 'Europe/Berlin').toISOString()).toBe('2026-03-28T08:00:00.000Z');
+    expect(zonedTimeToDate('2026-03-29', '09:00', 'Europe/Berlin').toISOString()).toBe('2026-03-29T07:00:00.000Z');
+  });
+});
+
+describe('buildBookingSlots', () => {
+  it('splits the weekly hours into meetings', () => {
+    const slots = buildBookingSlots(availability(), [], NOW);
+    expect(starts(slots)).toEqual([
+      '2026-10-19T09:00:00.000Z',
+      '2026-10-19T10:00:00.000Z',
+      '2026-10-19T11:00:00.000Z',
+    ]);
+    expect(slots[0].ends_at).toBe('2026-10-19T10:00:00.000Z');
+  });
+
+  it('leaves out slots inside the minimum notice', () => {
+    const slots = buildBookingSlots(availability({ min_notice_hours: 4 }), [], NOW);
+    expect(starts(slots)).toEqual(['2026-10-19T10:00:00.000Z', '2026-10-19T11:00:00.000Z']);
+  });
+
+  it('leaves out slots beyond the booking window', () => {
+    const weekly = { ...availability().weekly_hours, tue: [{ start: '09:00', end: '10:00' }] };
+    expect(buildBookingSlots(availability({ weekly_hours: weekly }), [], NOW)).toHaveLength(3);
+    expect(buildBookingSlots(availability({ weekly_hours: weekly, max_days_ahead: 2 }), [], NOW)).toHaveLength(4);
+  });
+
+  it('skips slots that overlap existing meetings and their buffers', () => {
+    const busy = [{ starts_at: '2026-10-19T10:00:00Z', ends_at: '2026-10-19T10:30:00Z' }];
+    expect(starts(buildBookingSlots(availability(), busy, NOW))).toEqual([
+      '2026-10-19T09:00:00.000Z',
+      '2026-10-19T11:00:00.000Z',
+    ]);
+    // 09:00 would end with no room for its own buffer before the 10:00 meeting
+    expect(starts(buildBookingSlots(availability({ buffer_after_minutes: 30 }), busy, NOW))).toEqual([
+      '2026-10-19T11:00:00.000Z',
+    ]);
+  });
+});
+
+describe('groupSlotsByDay', () => {
+  it('groups by calendar day in the viewer time zone', () => {
+    const slots = [
+      { starts_at: '2026-10-19T22:00:00Z', ends_at: '2026-10-19T23:00:00Z' },
+      { starts_at: '2026-10-19T23:30:00Z', ends_at: '2026-10-20T00:30:00Z' },
+    ];
+    expect(groupSlotsByDay(slots, 'UTC').map(day => day.dateKey)).toEqual(['2026-10-19']);
+    expect(groupSlotsByDay(slots, 'Asia/Tokyo').map(day => day.dateKey)).toEqual(['2026-10-20']);
+    expect(groupSlotsByDay(slots, 'Europe/Berlin').map(day => day.dateKey)).toEqual(['2026-10-20']);
+    expect(groupSlotsByDay(slots, 'Europe/London').map(day => day.dateKey)).toEqual(['2026-10-19', '2026-10-20']);
+  });
+});
+
+describe('generateICS', () => {
+  const event = {
+    uid: 'booking-1@dbc',
+    sequence: 2,
+    starts_at: '2026-10-19T09:00:00Z',
+    ends_at: '2026-10-19T09:30:00Z',
+    summary: 'Meeting with Jane, Doe',
+    organizer: { name: 'Jane "JD" Doe', email: 'jane@example.com' },
+    attendee: { name: 'Sam', email: 'sam@example.com' },
+  };
+
+  it('writes a published event with CRLF line endings', () => {
+    const ics = generateICS(event);
+    const lines = ics.split('\r\n');
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines).toContain('METHOD:PUBLISH');
+    expect(lines).toContain('UID:booking-1@dbc');
+    expect(lines).toContain('SEQUENCE:2');
+    expect(lines).toContain('DTSTART:20261019T090000Z');
+    expect(lines).toContain('DTEND:20261019T093000Z');
+    expect(lines).toContain('SUMMARY:Meeting with Jane\\, Doe');
+    expect(lines).toContain('ORGANIZER;CN="Jane JD Doe":mailto:jane@example.com');
+    expect(lines).toContain('ATTENDEE;CN="Sam";ROLE=REQ-PARTICIPANT:mailto:sam@example.com');
+    expect(lines).toContain('STATUS:CONFIRMED');
+  });
+
+  it('marks cancelled events', () => {
+    const lines = generateICS({ ...event, cancelled: true }).split('\r\n');
+    expect(lines).toContain('METHOD:CANCEL');
+    expect(lines).toContain('STATUS:CANCELLED');
+  });
+
+  it('folds long lines', () => {
+    const ics = generateICS({ ...event, description: 'x'.repeat(200) });
+    ics.split('\r\n').forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(ics).toMatch(/\r\n x/);
+  });
+});
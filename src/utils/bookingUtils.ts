@@ -0,0 +1,519 @@
+/**
+ * Appointment booking: weekly availability, free slots and calendar (.ics) files
+ */
+import { supabase } from '../lib/supabase';
+import { getSessionId } from './analyticsUtils';
+import { escapeVCardText, foldVCardLine } from './vcardUtils';
+import type { Database, Json } from '../lib/supabase';
+
+export type Booking = Database['public']['Tables']['bookings']['Row'];
+
+export type BookingWithCard = Booking & {
+  business_cards: { title: string | null; slug: string | null; email: string | null; booking_availability: Json } | null;
+};
+
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: 'Monday',
+  tue: 'Tuesday',
+  wed: 'Wednesday',
+  thu: 'Thursday',
+  fri: 'Friday',
+  sat: 'Saturday',
+  sun: 'Sunday',
+};
+
+// Times are "HH:MM" in the card's time zone
+export type BookingWindow = {
+  start: string;
+  end: string;
+};
+
+// A type alias rather than an interface so availability can be saved as Json
+export type BookingAvailability = {
+  time_zone: string;
+  meeting_minutes: number;
+  buffer_before_minutes: number;
+  buffer_after_minutes: number;
+  min_notice_hours: number;
+  max_days_ahead: number;
+  weekly_hours: Record<Weekday, BookingWindow[]>;
+};
+
+export interface BookingSlot {
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface BookingRequest {
+  name: string;
+  email: string;
+  phone: string;
+  note: string;
+}
+
+export interface BookingResult {
+  accepted: boolean;
+  reason?: 'not_found' | 'invalid' | 'rate_limited' | 'unavailable';
+  message?: string;
+  booking?: Pick<Booking, 'id' | 'starts_at' | 'ends_at' | 'sequence'>;
+}
+
+export type BookingState = 'upcoming' | 'past' | 'cancelled';
+
+export const BOOKING_STATE_LABELS: Record<BookingState, string> = {
+  upcoming: 'Upcoming',
+  past: 'Past',
+  cancelled: 'Cancelled',
+};
+
+export const BOOKING_STATE_STYLES: Record<BookingState, string> = {
+  upcoming: 'bg-green-100 text-green-800',
+  past: 'bg-gray-100 text-gray-600',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export const MEETING_LENGTHS = [15, 20, 30, 45, 60, 90];
+
+export const BUFFER_MINUTES = [0, 5, 10, 15, 30, 60];
+
+// Offered when the browser can't list every zone it knows
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Europe/Istanbul',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+const MINUTE_MS = 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+export const getBrowserTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const getTimeZoneOptions = (current?: string): string[] => {
+  const { supportedValuesOf } = Intl as { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : COMMON_TIME_ZONES;
+  return Array.from(new Set([...zones, getBrowserTimeZone(), ...(current ? [current] : [])])).sort();
+};
+
+export const createDefaultAvailability = (): BookingAvailability => ({
+  time_zone: getBrowserTimeZone(),
+  meeting_minutes: 30,
+  buffer_before_minutes: 0,
+  buffer_after_minutes: 0,
+  min_notice_hours: 4,
+  max_days_ahead: 30,
+  weekly_hours: {
+    mon: [{ start: '09:00', end: '17:00' }],
+    tue: [{ start: '09:00', end: '17:00' }],
+    wed: [{ start: '09:00', end: '17:00' }],
+    thu: [{ start: '09:00', end: '17:00' }],
+    fri: [{ start: '09:00', end: '17:00' }],
+    sat: [],
+    sun: [],
+  },
+});
+
+const readNumber = (value: Json | undefined, fallback: number, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(Math.max(Math.round(value), min), max)
+    : fallback;
+
+/**
+ * Availability saved on a card, filling in defaults for anything missing or malformed
+ */
+export const getBookingAvailability = (value: Json | null | undefined): BookingAvailability => {
+  const defaults = createDefaultAvailability();
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return defaults;
+
+  const settings = value as Record<string, Json>;
+  const weeklyHours = settings.weekly_hours && typeof settings.weekly_hours === 'object' && !Array.isArray(settings.weekly_hours)
+    ? settings.weekly_hours as Record<string, Json>
+    : null;
+
+  return {
+    time_zone: typeof settings.time_zone === 'string' && settings.time_zone ? settings.time_zone : defaults.time_zone,
+    meeting_minutes: readNumber(settings.meeting_minutes, defaults.meeting_minutes, 5, 480),
+    buffer_before_minutes: readNumber(settings.buffer_before_minutes, 0, 0, 240),
+    buffer_after_minutes: readNumber(settings.buffer_after_minutes, 0, 0, 240),
+    min_notice_hours: readNumber(settings.min_notice_hours, defaults.min_notice_hours, 0, 24 * 30),
+    max_days_ahead: readNumber(settings.max_days_ahead, defaults.max_days_ahead, 1, 365),
+    weekly_hours: WEEKDAYS.reduce((hours, day) => {
+      const windows = weeklyHours ? weeklyHours[day] : undefined;
+      hours[day] = !weeklyHours
+        ? defaults.weekly_hours[day]
+        : Array.isArray(windows)
+          ? windows.flatMap(item => {
+            if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+            const { start, end } = item as Record<string, Json>;
+            return typeof start === 'string' && typeof end === 'string' && TIME_PATTERN.test(start) && TIME_PATTERN.test(end)
+              ? [{ start, end }]
+              : [];
+          })
+          : [];
+      return hours;
+    }, {} as Record<Weekday, BookingWindow[]>),
+  };
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Return a message describing what is wrong with the weekly hours, or null when they can be saved.
+ * The database checks every booking against them again in booking_slot_problem.
+ */
+export const validateBookingAvailability = (availability: BookingAvailability): string | null => {
+  let hasHours = false;
+
+  for (const day of WEEKDAYS) {
+    const windows = [...availability.weekly_hours[day]].sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+
+    for (let i = 0; i < windows.length; i++) {
+      if (!TIME_PATTERN.test(windows[i].start) || !TIME_PATTERN.test(windows[i].end)) {
+        return `${WEEKDAY_LABELS[day]}: please enter a start and end time.`;
+      }
+      if (toMinutes(windows[i].end) <= toMinutes(windows[i].start)) {
+        return `${WEEKDAY_LABELS[day]}: the end time must be after the start time.`;
+      }
+      if (toMinutes(windows[i].end) - toMinutes(windows[i].start) < availability.meeting_minutes) {
+        return `${WEEKDAY_LABELS[day]}: ${windows[i].start}–${windows[i].end} is shorter than one meeting.`;
+      }
+      if (i > 0 && toMinutes(windows[i].start) < toMinutes(windows[i - 1].end)) {
+        return `${WEEKDAY_LABELS[day]}: the available hours overlap.`;
+      }
+      hasHours = true;
+    }
+  }
+
+  return hasHours ? null : 'Add available hours to at least one day so visitors can book.';
+};
+
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+};
+
+// Minutes the time zone is ahead of UTC at that instant
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return (wallClock - Math.floor(date.getTime() / 1000) * 1000) / MINUTE_MS;
+};
+
+/**
+ * Calendar date ("YYYY-MM-DD") of an instant in a time zone
+ */
+export const getDateKey = (date: Date, timeZone: string) => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const addDays = (dateKey: string, days: number) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+const getWeekday = (dateKey: string): Weekday => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return WEEKDAYS[(new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7];
+};
+
+/**
+ * The instant a wall-clock time on a date happens in a time zone
+ */
+export const zonedTimeToDate = (dateKey: string, time: string, timeZone: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day) + toMinutes(time) * MINUTE_MS;
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone) * MINUTE_MS;
+  // The offset can differ on either side of a daylight saving change, so correct once more
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone) * MINUTE_MS);
+};
+
+/**
+ * Free meeting times from the weekly hours, leaving room for the buffers around existing meetings
+ */
+export const buildBookingSlots = (
+  availability: BookingAvailability,
+  busyTimes: BookingSlot[],
+  now: Date = new Date()
+): BookingSlot[] => {
+  const meetingMs = availability.meeting_minutes * MINUTE_MS;
+  const beforeMs = availability.buffer_before_minutes * MINUTE_MS;
+  const afterMs = availability.buffer_after_minutes * MINUTE_MS;
+  const earliest = now.getTime() + availability.min_notice_hours * 60 * MINUTE_MS;
+  const latest = now.getTime() + availability.max_days_ahead * 24 * 60 * MINUTE_MS;
+
+  const busy = busyTimes.map(time => ({
+    start: new Date(time.starts_at).getTime() - beforeMs,
+    end: new Date(time.ends_at).getTime() + afterMs,
+  }));
+
+  const today = getDateKey(now, availability.time_zone);
+  const slots: BookingSlot[] = [];
+
+  for (let offset = 0; offset <= availability.max_days_ahead; offset++) {
+    const dateKey = addDays(today, offset);
+
+    availability.weekly_hours[getWeekday(dateKey)].forEach(window => {
+      const windowEnd = toMinutes(window.end);
+
+      for (
+        let minutes = toMinutes(window.start);
+        minutes + availability.meeting_minutes <= windowEnd;
+        minutes += availability.meeting_minutes
+      ) {
+        const start = zonedTimeToDate(dateKey, fromMinutes(minutes), availability.time_zone).getTime();
+        const end = start + meetingMs;
+        if (start < earliest || start > latest) continue;
+
+        const clashes = busy.some(time => start - beforeMs < time.end && time.start < end + afterMs);
+        if (!clashes) {
+          slots.push({ starts_at: new Date(start).toISOString(), ends_at: new Date(end).toISOString() });
+        }
+      }
+    });
+  }
+
+  return slots.sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+};
+
+/**
+ * Slots grouped by calendar day in the viewer's time zone
+ */
+export const groupSlotsByDay = (slots: BookingSlot[], timeZone: string) => {
+  const days: { dateKey: string; slots: BookingSlot[] }[] = [];
+  slots.forEach(slot => {
+    const dateKey = getDateKey(new Date(slot.starts_at), timeZone);
+    const day = days.find(d => d.dateKey === dateKey);
+    if (day) {
+      day.slots.push(slot);
+    } else {
+      days.push({ dateKey, slots: [slot] });
+    }
+  });
+  return days;
+};
+
+export const formatDateKey = (dateKey: string, options: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric' }) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString([], { ...options, timeZone: 'UTC' });
+};
+
+export const formatSlotTime = (iso: string, timeZone?: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', timeZone });
+
+/**
+ * "Mon, Oct 19, 9:00 AM – 9:30 AM"
+ */
+export const formatBookingTime = (booking: Pick<Booking, 'starts_at' | 'ends_at'>, timeZone?: string) =>
+  `${new Date(booking.starts_at).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', timeZone })}, ` +
+  `${formatSlotTime(booking.starts_at, timeZone)} – ${formatSlotTime(booking.ends_at, timeZone)}`;
+
+export const getBookingState = (booking: Pick<Booking, 'status' | 'ends_at'>, now: Date = new Date()): BookingState => {
+  if (booking.status === 'cancelled') return 'cancelled';
+  return new Date(booking.ends_at) <= now ? 'past' : 'upcoming';
+};
+
+/**
+ * Start and end of meetings the card owner already has between two instants
+ */
+export const fetchBusyTimes = async (
+  cardId: string,
+  from: Date,
+  to: Date,
+  excludeBookingId?: string
+): Promise<BookingSlot[]> => {
+  const { data, error } = await supabase.rpc('get_booking_busy_times', {
+    p_card_id: cardId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+    p_exclude_booking_id: excludeBookingId || null,
+  });
+
+  if (error) {
+    console.error('Error loading busy times:', error);
+    return [];
+  }
+
+  return (data as BookingSlot[]) || [];
+};
+
+/**
+ * Return a message describing what is missing from the form, or null when it can be sent.
+ * The database repeats these checks in book_appointment.
+ */
+export const validateBookingRequest = (request: BookingRequest): string | null => {
+  if (!request.name.trim()) return 'Please enter your name.';
+  if (!request.email.trim()) return 'Please enter your email address.';
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(request.email.trim())) {
+    return 'Please enter a valid email address.';
+  }
+  return null;
+};
+
+export const bookAppointment = async (
+  cardId: string,
+  startsAt: string,
+  request: BookingRequest,
+  unlockToken: string | null = null
+): Promise<BookingResult> => {
+  const { data, error } = await supabase.rpc('book_appointment', {
+    p_card_id: cardId,
+    p_starts_at: startsAt,
+    p_name: request.name,
+    p_email: request.email,
+    p_phone: request.phone || null,
+    p_note: request.note || null,
+    p_time_zone: getBrowserTimeZone(),
+    p_session_id: getSessionId(),
+    p_unlock_token: unlockToken,
+  });
+
+  if (error) {
+    console.error('Error booking appointment:', error);
+    return { accepted: false };
+  }
+
+  return data as unknown as BookingResult;
+};
+
+export interface CalendarParticipant {
+  name: string;
+  email: string;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  starts_at: string;
+  ends_at: string;
+  summary: string;
+  description?: string | null;
+  url?: string | null;
+  organizer?: CalendarParticipant | null;
+  attendee?: CalendarParticipant | null;
+  cancelled?: boolean;
+}
+
+const CRLF = '\r\n';
+
+// 20261019T090000Z
+const toICSDate = (iso: string) =>
+  new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const participant = (property: string, person: CalendarParticipant, params = '') =>
+  `${property};CN="${person.name.replace(/["\r\n]/g, '')}"${params}:mailto:${person.email}`;
+
+/**
+ * iCalendar (RFC 5545) file for one meeting; a higher sequence updates an earlier copy
+ */
+export function generateICS(event: CalendarEvent): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//DBC//Appointment Booking//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${event.cancelled ? 'CANCEL' : 'PUBLISH'}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${toICSDate(new Date().toISOString())}`,
+    `DTSTART:${toICSDate(event.starts_at)}`,
+    `DTEND:${toICSDate(event.ends_at)}`,
+    `SUMMARY:${escapeVCardText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeVCardText(event.description)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.organizer) lines.push(participant('ORGANIZER', event.organizer));
+  if (event.attendee) lines.push(participant('ATTENDEE', event.attendee, ';ROLE=REQ-PARTICIPANT'));
+
+  lines.push(
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  );
+
+  return lines.map(foldVCardLine).join(CRLF) + CRLF;
+}
+
+/**
+ * Calendar event for a booking, as seen by the visitor ("Meeting with <card owner>")
+ * or by the card owner ("Meeting with <visitor>")
+ */
+export const buildBookingICS = (
+  booking: Pick<Booking, 'id' | 'starts_at' | 'ends_at' | 'sequence' | 'name' | 'email'> &
+    Partial<Pick<Booking, 'status' | 'note' | 'phone'>>,
+  card: { title: string | null; email: string | null; slug: string | null },
+  forOwner = false
+) => {
+  const ownerName = card.title || 'Card owner';
+  const details = [
+    forOwner && booking.phone ? `Phone: ${booking.phone}` : null,
+    booking.note || null,
+  ].filter(Boolean).join('\n');
+
+  return generateICS({
+    uid: `${booking.id}@dbc`,
+    sequence: booking.sequence,
+    starts_at: booking.starts_at,
+    ends_at: booking.ends_at,
+    summary: `Meeting with ${forOwner ? booking.name : ownerName}`,
+    description: details || null,
+    url: card.slug ? `${window.location.origin}/c/${card.slug}` : null,
+    organizer: card.email ? { name: ownerName, email: card.email } : null,
+    attendee: { name: booking.name, email: booking.email },
+    cancelled: booking.status === 'cancelled',
+  });
+};
+
+export const downloadICSFile = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.URL.revokeObjectURL(url);
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyContrastFix,
+  checkThemeContrast,
+  findNearestPassingColor,
+  getContrastFailures,
+  getContrastLevel,
+} from './contrastUtils';
+import { getContrastRatio } from './themeUtils';
+import type { CardTheme } from './themeUtils';
+
+const theme = (overrides: Partial<CardTheme> = {}): CardTheme => ({
+  name: 'Test',
+  primary: '#1E40AF',
+  secondary: '#374151',
+  background: '#FFFFFF',
+  text: '#111827',
+  ...overrides,
+});
+
+describe('getContrastLevel', () => {
+  it('uses the WCAG thresholds for each size', () => {
+    expect(getContrastLevel(7, 'normal')).toBe('AAA');
+    expect(getContrastLevel(4.5, 'normal')).toBe('AA');
+    expect(getContrastLevel(4.49, 'normal')).toBe('fail');
+    expect(getContrastLevel(3, 'large')).toBe('AA');
+    expect(getContrastLevel(2.9, 'graphic')).toBe('fail');
+  });
+});
+
+describe('findNearestPassingColor', () => {
+  const onWhite = (color: string) => getContrastRatio(color, '#FFFFFF');
+
+  it('darkens a light color until it passes', () => {
+    const fix = findNearestPassingColor('#FACC15', 4.5, onWhite);
+    expect(fix).not.toBeNull();
+    expect(onWhite(fix!)).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it('returns null when no shade can pass', () => {
+    expect(findNearestPassingColor('#777777', 22, onWhite)).toBeNull();
+  });
+});
+
+describe('checkThemeContrast', () => {
+  it('passes a dark-on-light theme', () => {
+    expect(getContrastFailures(theme())).toEqual([]);
+  });
+
+  it('checks both variants when the theme follows the device', () => {
+    const variants = new Set(checkThemeContrast(theme({ appearance: 'auto' })).map(check => check.variant));
+    expect(variants).toEqual(new Set(['light', 'dark']));
+  });
+
+  it('flags pale text and suggests a fix that passes', () => {
+    const failures = getContrastFailures(theme({ text: '#E5E7EB' }));
+    const name = failures.find(check => check.id === 'light-name');
+
+    expect(name).toBeDefined();
+    expect(name!.fixField).toBe('text');
+    expect(name!.fix).not.toBeNull();
+
+    const fixed = applyContrastFix(theme({ text: '#E5E7EB' }), name!);
+    expect(fixed.text).toBe(name!.fix);
+    expect(getContrastFailures(fixed).some(check => check.id === 'light-name')).toBe(false);
+  });
+
+  it('applies dark variant fixes to the dark colors only', () => {
+    const base = theme({ appearance: 'dark', dark: { text: '#374151' } });
+    const failure = getContrastFailures(base).find(check => check.id === 'dark-name');
+
+    expect(failure).toBeDefined();
+    const fixed = applyContrastFix(base, failure!);
+    expect(fixed.dark?.text).toBe(failure!.fix);
+    expect(fixed.text).toBe(base.text);
+  });
+});
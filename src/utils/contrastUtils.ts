@@ -0,0 +1,195 @@
+/**
+ * WCAG contrast checks for every text, icon and button color pair a card's theme draws,
+ * with the nearest color that fixes a failing pair
+ */
+import {
+  getContrastRatio,
+  getReadableTextColor,
+  getThemeColors,
+  mixColors,
+  resolveCardTheme,
+  type CardTheme,
+  type ResolvedCardTheme,
+  type ThemeColors,
+} from './themeUtils';
+
+export type ContrastLevel = 'AAA' | 'AA' | 'fail';
+
+// Large text is 24px, or 18.66px bold. Icons and other graphics only need to stand out (1.4.11).
+export type ContrastSize = 'normal' | 'large' | 'graphic';
+
+export type ThemeVariant = 'light' | 'dark';
+
+export const CONTRAST_REQUIREMENTS: Record<ContrastSize, { AA: number; AAA: number }> = {
+  normal: { AA: 4.5, AAA: 7 },
+  large: { AA: 3, AAA: 4.5 },
+  graphic: { AA: 3, AAA: 3 },
+};
+
+export const CONTRAST_SIZE_LABELS: Record<ContrastSize, string> = {
+  normal: 'Text',
+  large: 'Large text',
+  graphic: 'Icons',
+};
+
+export interface ContrastCheck {
+  id: string;
+  label: string;
+  variant: ThemeVariant;
+  size: ContrastSize;
+  foreground: string;
+  background: string;
+  ratio: number;
+  level: ContrastLevel;
+  // The theme color a fix changes, and the nearest color that reaches AA; null when passing
+  fixField: keyof ThemeColors;
+  fix: string | null;
+}
+
+interface ContrastPair {
+  key: string;
+  label: string;
+  size: ContrastSize;
+  fixField: keyof ThemeColors;
+  // Ratio of the pair when `fixField` is `color`; the lowest where the background varies
+  measure: (color: string) => number;
+  foreground: string;
+  background: string;
+}
+
+export const getContrastLevel = (ratio: number, size: ContrastSize): ContrastLevel => {
+  const required = CONTRAST_REQUIREMENTS[size];
+  if (ratio >= required.AAA) return 'AAA';
+  if (ratio >= required.AA) return 'AA';
+  return 'fail';
+};
+
+/**
+ * The color closest to `color` that reaches `required`, found by darkening or lightening it
+ * in small steps, or null when neither black nor white would pass
+ */
+export const findNearestPassingColor = (color: string, required: number, measure: (color: string) => number) => {
+  for (let step = 1; step <= 100; step++) {
+    const amount = step / 100;
+    const candidates = [mixColors(color, '#000000', amount), mixColors(color, '#FFFFFF', amount)]
+      .filter(candidate => measure(candidate) >= required)
+      .sort((a, b) => measure(b) - measure(a));
+    if (candidates.length > 0) return candidates[0];
+  }
+  return null;
+};
+
+// Text against the worst of the backgrounds it sits on (both ends of a gradient)
+const lowestRatio = (color: string, backgrounds: string[]) =>
+  Math.min(...backgrounds.map(background => getContrastRatio(color, background)));
+
+const getContrastPairs = (theme: ResolvedCardTheme, colors: ThemeColors): ContrastPair[] => {
+  const backgrounds = theme.background_type === 'gradient'
+    ? [colors.background, colors.gradient_to]
+    : [colors.background];
+  const onBackground = (color: string) => lowestRatio(color, backgrounds);
+  // A soft button is a light tint of the primary color over the card
+  const onSoftButton = (color: string) =>
+    Math.min(...backgrounds.map(background => getContrastRatio(color, mixColors(background, color, 0.15))));
+  const onFilledButton = (color: string) => getContrastRatio(getReadableTextColor(color), color);
+
+  const textPair = (key: string, label: string, size: ContrastSize, fixField: keyof ThemeColors): ContrastPair => ({
+    key,
+    label,
+    size,
+    fixField,
+    measure: onBackground,
+    foreground: colors[fixField],
+    background: colors.background,
+  });
+
+  const buttonPair = (key: string, label: string, style: 'filled' | 'outline' | 'soft'): ContrastPair => {
+    if (style === 'filled') {
+      return {
+        key,
+        label,
+        size: 'normal',
+        fixField: 'primary',
+        measure: onFilledButton,
+        foreground: getReadableTextColor(colors.primary),
+        background: colors.primary,
+      };
+    }
+    return {
+      key,
+      label,
+      size: 'normal',
+      fixField: 'primary',
+      measure: style === 'soft' ? onSoftButton : onBackground,
+      foreground: colors.primary,
+      background: style === 'soft' ? mixColors(colors.background, colors.primary, 0.15) : colors.background,
+    };
+  };
+
+  const primaryStyle = theme.button_style === 'pill' ? 'filled' : theme.button_style;
+  const secondaryStyle = theme.button_style === 'outline' ? 'soft' : 'outline';
+
+  return [
+    textPair('name', 'Name', 'large', 'text'),
+    textPair('title', 'Job title and company', 'normal', 'secondary'),
+    textPair('bio', 'Bio', 'normal', 'muted'),
+    textPair('icons', 'Avatar border and icons', 'graphic', 'primary'),
+    {
+      key: 'initials',
+      label: 'Initials and social icons',
+      size: 'large',
+      fixField: 'primary',
+      measure: color => getContrastRatio('#FFFFFF', color),
+      foreground: '#FFFFFF',
+      background: colors.primary,
+    },
+    buttonPair('button', 'Main button', primaryStyle),
+    buttonPair('secondary_button', 'Second button', secondaryStyle),
+  ];
+};
+
+/**
+ * Every color pair of the theme, for each variant visitors can see: light, dark or both
+ */
+export const checkThemeContrast = (value: CardTheme): ContrastCheck[] => {
+  const theme = resolveCardTheme(value);
+  const variants: ThemeVariant[] = theme.appearance === 'auto'
+    ? ['light', 'dark']
+    : [theme.appearance];
+
+  return variants.flatMap(variant => {
+    const colors = getThemeColors(theme, variant === 'dark');
+    return getContrastPairs(theme, colors).map(pair => {
+      const ratio = pair.measure(colors[pair.fixField]);
+      const level = getContrastLevel(ratio, pair.size);
+      return {
+        id: `${variant}-${pair.key}`,
+        label: pair.label,
+        variant,
+        size: pair.size,
+        foreground: pair.foreground,
+        background: pair.background,
+        ratio,
+        level,
+        fixField: pair.fixField,
+        fix: level === 'fail'
+          ? findNearestPassingColor(colors[pair.fixField], CONTRAST_REQUIREMENTS[pair.size].AA, pair.measure)
+          : null,
+      };
+    });
+  });
+};
+
+export const getContrastFailures = (value: CardTheme) =>
+  checkThemeContrast(value).filter(check => check.level === 'fail');
+
+/**
+ * The theme with a check's suggested color applied to the variant it belongs to
+ */
+export const applyContrastFix = (theme: CardTheme, check: ContrastCheck): CardTheme => {
+  if (!check.fix) return theme;
+  if (check.variant === 'dark') {
+    return { ...theme, dark: { ...theme.dark, [check.fixField]: check.fix } };
+  }
+  return { ...theme, [check.fixField]: check.fix };
+};
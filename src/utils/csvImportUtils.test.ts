@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildImportRows,
+  buildImportTemplate,
+  guessColumnMapping,
+  parseCSV,
+  toCSV,
+} from './csvImportUtils';
+
+describe('parseCSV', () => {
+  it('handles quoted cells with delimiters, quotes and line breaks', () => {
+    const text = 'Name,Bio\r\n"Doe, Jane","Says ""hi""\nevery day"\r\n';
+    expect(parseCSV(text)).toEqual([
+      ['Name', 'Bio'],
+      ['Doe, Jane', 'Says "hi"\nevery day'],
+    ]);
+  });
+
+  it('detects semicolons and tabs and skips blank lines', () => {
+    expect(parseCSV('Name;Email\n\nJane;jane@acme.com')).toEqual([
+      ['Name', 'Email'],
+      ['Jane', 'jane@acme.com'],
+    ]);
+    expect(parseCSV('Name\tEmail\nJane\tjane@acme.com')).toEqual([
+      ['Name', 'Email'],
+      ['Jane', 'jane@acme.com'],
+    ]);
+  });
+
+  it('ignores a byte order mark', () => {
+    expect(parseCSV('﻿Name\nJane')[0]).toEqual(['Name']);
+  });
+
+  it('reads back what toCSV writes', () => {
+    const rows = [['Doe, Jane', 'Says "hi"', null, 3]];
+    expect(parseCSV(toCSV(['Name', 'Bio', 'Phone', 'Row'], rows))).toEqual([
+      ['Name', 'Bio', 'Phone', 'Row'],
+      ['Doe, Jane', 'Says "hi"', '', '3'],
+    ]);
+  });
+});
+
+describe('toCSV', () => {
+  it('keeps cells a spreadsheet would run as formulas as text', () => {
+    expect(toCSV(['Name'], [['=HYPERLINK("x")'], ['+1 555 0100'], ['-2'], ['@SUM(A1)'], [-2]]).split('\r\n')).toEqual([
+      'Name',
+      `"'=HYPERLINK(""x"")"`,
+      "'+1 555 0100",
+      "'-2",
+      "'@SUM(A1)",
+      '-2',
+    ]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('matches labels, aliases and social platforms', () => {
+    expect(guessColumnMapping(['Full Name', 'e-mail', 'Job_Title', 'LinkedIn', 'Favourite color'])).toEqual([
+      'field:title',
+      'field:email',
+      'field:position',
+      'social:LinkedIn',
+      '',
+    ]);
+  });
+
+  it('maps each target once', () => {
+    expect(guessColumnMapping(['Name', 'Full Name'])).toEqual(['field:title', '']);
+  });
+
+  it('maps every column of the download template', () => {
+    const [headers] = parseCSV(buildImportTemplate());
+    expect(guessColumnMapping(headers)).not.toContain('');
+  });
+});
+
+describe('buildImportRows', () => {
+  const mapping = guessColumnMapping(['Name', 'Username', 'Email', 'Website', 'Published', 'LinkedIn']);
+
+  it('builds cards and social links, published unless told otherwise', () => {
+    const [row] = buildImportRows([['Jane Doe', 'JaneDoe', 'jane@acme.com', 'acme.com', '', 'janedoe']], mapping);
+
+    expect(row.rowNumber).toBe(2);
+    expect(row.errors).toEqual([]);
+    expect(row.card).toMatchObject({
+      title: 'Jane Doe',
+      slug: 'janedoe',
+      email: 'jane@acme.com',
+      website: 'acme.com',
+      is_published: true,
+    });
+    expect(row.socialLinks).toEqual([
+      { platform: 'LinkedIn', username: 'janedoe', url: 'https://linkedin.com/in/janedoe' },
+    ]);
+  });
+
+  it('drops the apostrophe toCSV adds in front of formula-like cells', () => {
+    const [headers, ...dataRows] = parseCSV(buildImportTemplate());
+    const [row] = buildImportRows(dataRows, guessColumnMapping(headers));
+    expect(row.card.phone).toBe('+1 555 0100');
+  });
+
+  it('reads the published column as yes or no', () => {
+    const [row] = buildImportRows([['Jane Doe', '', '', '', 'no', '']], mapping);
+    expect(row.card.is_published).toBe(false);
+  });
+
+  it('reports missing names, bad emails, URLs and usernames', () => {
+    const [row] = buildImportRows([['', 'ad', 'not-an-email', 'nowhere', '', '']], mapping);
+    expect(row.errors).toEqual([
+      'Full Name is required',
+      'Invalid email "not-an-email"',
+      'Invalid URL in Website',
+      'Card URL Username: Use at least 3 characters',
+    ]);
+  });
+
+  it('warns about repeated usernames and emails', () => {
+    const rows = buildImportRows([
+      ['Jane Doe', 'jane', 'jane@acme.com', '', '', ''],
+      ['Jane D', 'jane', 'JANE@acme.com', '', '', 'https://linkedin.com/in/jane'],
+    ], mapping);
+
+    expect(rows[0].warnings).toEqual([]);
+    expect(rows[1].warnings).toEqual([
+      'Same username as row 2; a numeric suffix will be added',
+      'Same email as row 2',
+      'LinkedIn username "https://linkedin.com/in/jane" looks like a URL or contains spaces',
+    ]);
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Bulk card import from CSV / spreadsheet exports
+ */
+import { supabase } from '../lib/supabase';
+import { generateSocialLink, SOCIAL_PLATFORMS } from './socialUtils';
+import { validateSlug } from './slugUtils';
+import { getPlanLimitMessage } from './planUtils';
+import type { Database } from '../lib/supabase';
+
+type BusinessCardInsert = Database['public']['Tables']['business_cards']['Insert'];
+type SocialLinkInsert = Database['public']['Tables']['social_links']['Insert'];
+
+export type CardImportField =
+  | 'title'
+  | 'slug'
+  | 'company'
+  | 'position'
+  | 'phone'
+  | 'whatsapp'
+  | 'email'
+  | 'website'
+  | 'address'
+  | 'map_link'
+  | 'bio'
+  | 'avatar_url'
+  | 'is_published';
+
+/**
+ * Column target: `field:<business_cards column>`, `social:<platform>` or '' to skip
+ */
+export type ColumnTarget = `field:${CardImportField}` | `social:${string}` | '';
+
+export interface ImportFieldDefinition {
+  key: CardImportField;
+  label: string;
+  aliases: string[];
+  required?: boolean;
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { key: 'title', label: 'Full Name', aliases: ['name', 'full name', 'fullname', 'employee', 'employee name'], required: true },
+  { key: 'slug', label: 'Card URL Username', aliases: ['slug', 'username', 'card url', 'url username', 'handle'] },
+  { key: 'company', label: 'Company', aliases: ['company', 'organization', 'organisation', 'company name'] },
+  { key: 'position', label: 'Job Title', aliases: ['position', 'job title', 'designation', 'role', 'profession'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'mobile', 'cell', 'telephone'] },
+  { key: 'whatsapp', label: 'WhatsApp Number', aliases: ['whatsapp number', 'whatsapp phone'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'e-mail', 'email address', 'work email'] },
+  { key: 'website', label: 'Website', aliases: ['website', 'web', 'site', 'homepage'] },
+  { key: 'address', label: 'Address', aliases: ['address', 'office', 'location'] },
+  { key: 'map_link', label: 'Google Maps Link', aliases: ['map', 'map link', 'maps', 'google maps'] },
+  { key: 'bio', label: 'Tagline/Bio', aliases: ['bio', 'tagline', 'about', 'description'] },
+  { key: 'avatar_url', label: 'Photo URL', aliases: ['photo', 'avatar', 'photo url', 'avatar url', 'image'] },
+  { key: 'is_published', label: 'Published', aliases: ['published', 'is published', 'public'] },
+];
+
+export const MAX_IMPORT_ROWS = 500;
+
+export interface ImportRow {
+  rowNumber: number;
+  card: Omit<BusinessCardInsert, 'user_id'>;
+  socialLinks: Array<{ platform: string; username: string; url: string }>;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportResult {
+  rowNumber: number;
+  title: string;
+  slug: string | null;
+  url: string | null;
+  status: 'created' | 'failed' | 'skipped';
+  message: string;
+}
+
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ');
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value.startsWith('http') ? value : `https://${value}`);
+    return url.hostname.includes('.');
+  } catch {
+    return false;
+  }
+};
+
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+/**
+ * Parse CSV/TSV text (RFC 4180 quoting, auto-detected delimiter) into rows of cells
+ */
+export function parseCSV(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Guess a target for each header from field aliases and social platform names
+ */
+export function guessColumnMapping(headers: string[]): ColumnTarget[] {
+  const used = new Set<string>();
+
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+
+    const field = IMPORT_FIELDS.find(definition =>
+      [definition.label, ...definition.aliases].some(alias => normalizeHeader(alias) === normalized)
+    );
+    const platform = Object.keys(SOCIAL_PLATFORMS).find(name =>
+      normalizeHeader(name) === normalized || `${normalizeHeader(name)} username` === normalized
+    );
+
+    const target: ColumnTarget = field
+      ? `field:${field.key}`
+      : platform
+        ? `social:${platform}`
+        : '';
+
+    if (!target || used.has(target)) return '';
+    used.add(target);
+    return target;
+  });
+}
+
+// Undo the apostrophe toCSV adds in front of formula-like cells
+const unprotectCell = (value: string) => (/^'[=+\-@]/.test(value) ? value.slice(1) : value);
+
+const parseBoolean = (value: string) => ['yes', 'y', 'true', '1', 'published'].includes(value.trim().toLowerCase());
+
+/**
+ * Turn parsed rows into card inserts, validating each row
+ */
+export function buildImportRows(dataRows: string[][], mapping: ColumnTarget[]): ImportRow[] {
+  const seenSlugs = new Map<string, number>();
+  const seenEmails = new Map<string, number>();
+
+  return dataRows.map((cells, index) => {
+    // +2: one for the header row, one for 1-based numbering
+    const rowNumber = index + 2;
+    const card: ImportRow['card'] = {};
+    const socialLinks: ImportRow['socialLinks'] = [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    mapping.forEach((target, column) => {
+      const value = unprotectCell((cells[column] || '').trim());
+      if (!target || !value) return;
+
+      if (target.startsWith('social:')) {
+        const platform = target.slice('social:'.length);
+        socialLinks.push({ platform, username: value, url: generateSocialLink(platform, value) });
+        return;
+      }
+
+      const field = target.slice('field:'.length) as CardImportField;
+      if (field === 'is_published') {
+        card.is_published = parseBoolean(value);
+      } else {
+        card[field] = value;
+      }
+    });
+
+    if (!card.title) {
+      errors.push('Full Name is required');
+    }
+
+    if (card.email && !EMAIL_PATTERN.test(card.email)) {
+      errors.push(`Invalid email "${card.email}"`);
+    }
+
+    (['website', 'map_link', 'avatar_url'] as const).forEach(field => {
+      const value = card[field];
+      if (value && !isValidUrl(value)) {
+        errors.push(`Invalid URL in ${IMPORT_FIELDS.find(definition => definition.key === field)?.label}`);
+      }
+    });
+
+    if (card.slug) {
+      card.slug = card.slug.toLowerCase();
+      const slugError = validateSlug(card.slug);
+      if (slugError) {
+        errors.push(`Card URL Username: ${slugError}`);
+      } else if (seenSlugs.has(card.slug)) {
+        warnings.push(`Same username as row ${seenSlugs.get(card.slug)}; a numeric suffix will be added`);
+      } else {
+        seenSlugs.set(card.slug, rowNumber);
+      }
+    }
+
+    if (card.email) {
+      const email = card.email.toLowerCase();
+      if (seenEmails.has(email)) {
+        warnings.push(`Same email as row ${seenEmails.get(email)}`);
+      } else {
+        seenEmails.set(email, rowNumber);
+      }
+    }
+
+    socialLinks
+      .filter(link => link.platform !== 'Custom Link' && link.platform !== 'WhatsApp' && /[\s/]/.test(link.username))
+      .forEach(link => warnings.push(`${link.platform} username "${link.username}" looks like a URL or contains spaces`));
+
+    if (card.is_published === undefined) {
+      card.is_published = true;
+    }
+
+    return { rowNumber, card, socialLinks, errors, warnings };
+  });
+}
+
+/**
+ * Create every valid row in one batch insert; slugs come from the set_card_slug trigger
+ */
+export const importCards = async (
+  rows: ImportRow[],
+  userId: string,
+  organizationId: string | null = null
+): Promise<ImportResult[]> => {
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const skipped: ImportResult[] = rows
+    .filter(row => row.errors.length > 0)
+    .map(row => ({
+      rowNumber: row.rowNumber,
+      title: row.card.title || '',
+      slug: null,
+      url: null,
+      status: 'skipped',
+      message: row.errors.join('; '),
+    }));
+
+  if (validRows.length === 0) return skipped;
+
+  // Client-side ids keep rows and their social links paired after the batch insert
+  const inserts = validRows.map(row => ({
+    ...row.card,
+    id: crypto.randomUUID(),
+    user_id: userId,
+    organization_id: organizationId,
+    slug: row.card.slug || null,
+  }));
+
+  const { data, error } = await supabase
+    .from('business_cards')
+    .insert(inserts)
+    .select('id, slug, title');
+
+  if (error) {
+    console.error('Error importing cards:', error);
+    return [
+      ...validRows.map(row => ({
+        rowNumber: row.rowNumber,
+        title: row.card.title || '',
+        slug: null,
+        url: null,
+        status: 'failed' as const,
+        message: getPlanLimitMessage(error) || error.message,
+      })),
+      ...skipped,
+    ].sort((a, b) => a.rowNumber - b.rowNumber);
+  }
+
+  const createdById = new Map((data || []).map(card => [card.id, card]));
+
+  const socialInserts: SocialLinkInsert[] = validRows.flatMap((row, index) =>
+    row.socialLinks.map((link, order) => ({
+      card_id: inserts[index].id,
+      platform: link.platform,
+      username: link.username,
+      url: link.url,
+      display_order: order,
+      is_active: true,
+    }))
+  );
+
+  let socialError: string | null = null;
+  if (socialInserts.length > 0) {
+    const { error: linksError } = await supabase.from('social_links').insert(socialInserts);
+    if (linksError) {
+      console.error('Error importing social links:', linksError);
+      socialError = linksError.message;
+    }
+  }
+
+  const created: ImportResult[] = validRows.map((row, index) => {
+    const card = createdById.get(inserts[index].id);
+    const slug = card?.slug || null;
+    return {
+      rowNumber: row.rowNumber,
+      title: card?.title || row.card.title || '',
+      slug,
+      url: slug ? `${window.location.origin}/c/${slug}` : null,
+      status: 'created',
+      message: socialError && row.socialLinks.length > 0
+        ? `Card created, social links failed: ${socialError}`
+        : row.warnings.join('; '),
+    };
+  });
+
+  return [...created, ...skipped].sort((a, b) => a.rowNumber - b.rowNumber);
+};
+
+// Spreadsheet apps run text cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// A leading apostrophe keeps a cell as text; buildImportRows drops it again on import
+const escapeCSVValue = (value: string | number | null) => {
+  const raw = value === null ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (headers: string[], rows: Array<Array<string | number | null>>) =>
+  [headers, ...rows].map(row => row.map(escapeCSVValue).join(',')).join('\r\n');
+
+export const downloadCSV = (content: string, filename: string) => {
+  const blob = new Blob([`\uFEFF${content}`], { type: 'text/csv;charset=utf-8' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Report of created card URLs (and skipped rows) for download after an import
+ */
+export const buildImportReport = (results: ImportResult[]) =>
+  toCSV(
+    ['Row', 'Name', 'Status', 'Card URL', 'Username', 'Notes'],
+    results.map(result => [result.rowNumber, result.title, result.status, result.url, result.slug, result.message])
+  );
+
+/**
+ * Blank template with every importable column
+ */
+export const buildImportTemplate = () =>
+  toCSV(
+    [...IMPORT_FIELDS.map(field => field.label), 'LinkedIn', 'Instagram', 'Twitter'],
+    [[
+      'Jane Doe', 'janedoe', 'Acme Inc', 'Sales Manager', '+1 555 0100', '+1 555 0100',
+      'jane@acme.com', 'https://acme.com', '1 Market St, San Francisco', '', 'Helping teams close faster',
+      '', 'yes', 'janedoe', 'jane.doe', 'janedoe',
+    ]]
+  );
@@ -0,0 +1,316 @@
+/**
+ * Lead capture ("Exchange contact") form, the lead pipeline and export
+ */
+import { supabase } from '../lib/supabase';
+import { getSessionId } from './analyticsUtils';
+import { toCSV } from './csvImportUtils';
+import { generateVCard } from './vcardUtils';
+import type { Database, Json } from '../lib/supabase';
+
+export type Lead = Database['public']['Tables']['leads']['Row'];
+export type LeadNote = Database['public']['Tables']['lead_notes']['Row'];
+export type LeadReminder = Database['public']['Tables']['lead_reminders']['Row'];
+
+export type LeadWithCard = Lead & {
+  business_cards: { title: string | null; slug: string | null; lead_form_fields: Json } | null;
+  lead_notes: LeadNote[];
+  lead_reminders: LeadReminder[];
+};
+
+export type ReminderState = 'overdue' | 'today' | 'upcoming' | 'done';
+
+export const LEAD_STATUSES = ['new', 'contacted', 'qualified', 'won', 'lost'] as const;
+
+export type LeadStatus = typeof LEAD_STATUSES[number];
+
+// The pipeline stages, in the order leads move through them
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  qualified: 'Qualified',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+export const LEAD_STATUS_STYLES: Record<LeadStatus, string> = {
+  new: 'bg-blue-100 text-blue-800',
+  contacted: 'bg-purple-100 text-purple-800',
+  qualified: 'bg-amber-100 text-amber-800',
+  won: 'bg-green-100 text-green-800',
+  lost: 'bg-gray-100 text-gray-600',
+};
+
+export const LEAD_SOURCES = ['link', 'qr', 'nfc'] as const;
+
+export type LeadSource = typeof LEAD_SOURCES[number];
+
+export const LEAD_SOURCE_LABELS: Record<LeadSource, string> = {
+  link: 'Link',
+  qr: 'QR code',
+  nfc: 'NFC tap',
+};
+
+export const REMINDER_STATE_LABELS: Record<ReminderState, string> = {
+  overdue: 'Overdue',
+  today: 'Due today',
+  upcoming: 'Upcoming',
+  done: 'Done',
+};
+
+export const REMINDER_STATE_STYLES: Record<ReminderState, string> = {
+  overdue: 'bg-red-100 text-red-800',
+  today: 'bg-amber-100 text-amber-800',
+  upcoming: 'bg-blue-100 text-blue-800',
+  done: 'bg-gray-100 text-gray-600',
+};
+
+export const LEAD_FIELD_TYPES = ['text', 'textarea', 'select'] as const;
+
+export type LeadFieldType = typeof LEAD_FIELD_TYPES[number];
+
+export const LEAD_FIELD_TYPE_LABELS: Record<LeadFieldType, string> = {
+  text: 'Short text',
+  textarea: 'Long text',
+  select: 'Dropdown',
+};
+
+// A type alias rather than an interface so a list of fields can be saved as Json
+export type LeadFormField = {
+  id: string;
+  label: string;
+  type: LeadFieldType;
+  required: boolean;
+  options: string[];
+};
+
+export interface LeadSubmission {
+  name: string;
+  email: string;
+  phone: string;
+  company: string;
+  note: string;
+  custom_fields: Record<string, string>;
+}
+
+export interface LeadSubmitResult {
+  accepted: boolean;
+  reason?: 'not_found' | 'invalid' | 'rate_limited';
+  message?: string;
+}
+
+export const MAX_LEAD_FORM_FIELDS = 10;
+
+export const getLeadStatus = (lead: Pick<Lead, 'status'>): LeadStatus =>
+  (LEAD_STATUSES as readonly string[]).includes(lead.status) ? (lead.status as LeadStatus) : 'new';
+
+export const getLeadSource = (lead: Pick<Lead, 'source'>): LeadSource =>
+  (LEAD_SOURCES as readonly string[]).includes(lead.source) ? (lead.source as LeadSource) : 'link';
+
+export const getReminderState = (reminder: LeadReminder, now: Date = new Date()): ReminderState => {
+  if (reminder.completed_at) return 'done';
+  const due = new Date(reminder.due_at);
+  if (due <= now) return 'overdue';
+  return due.toDateString() === now.toDateString() ? 'today' : 'upcoming';
+};
+
+/**
+ * The earliest follow-up that has not been completed yet
+ */
+export const getNextReminder = (lead: LeadWithCard): LeadReminder | null =>
+  lead.lead_reminders
+    .filter(reminder => !reminder.completed_at)
+    .sort((a, b) => a.due_at.localeCompare(b.due_at))[0] || null;
+
+/**
+ * Timeline entries, newest first
+ */
+export const sortLeadTimeline = (notes: LeadNote[]) =>
+  [...notes].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+/**
+ * Where the visitor came from, taken from the `?src=` parameter printed on QR codes and NFC tags
+ */
+export const getVisitSource = (search: string = window.location.search): LeadSource => {
+  const source = new URLSearchParams(search).get('src');
+  return (LEAD_SOURCES as readonly string[]).includes(source || '') ? (source as LeadSource) : 'link';
+};
+
+export const createLeadFormField = (): LeadFormField => ({
+  id: crypto.randomUUID().slice(0, 8),
+  label: '',
+  type: 'text',
+  required: false,
+  options: [],
+});
+
+/**
+ * Custom fields saved on a card, ignoring anything malformed
+ */
+export const getLeadFormFields = (value: Json | null | undefined): LeadFormField[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+    const field = item as Record<string, Json>;
+    if (typeof field.id !== 'string' || typeof field.label !== 'string') return [];
+
+    const type = (LEAD_FIELD_TYPES as readonly string[]).includes(field.type as string)
+      ? (field.type as LeadFieldType)
+      : 'text';
+
+    return [{
+      id: field.id,
+      label: field.label,
+      type,
+      required: field.required === true,
+      options: Array.isArray(field.options)
+        ? field.options.filter((option): option is string => typeof option === 'string')
+        : [],
+    }];
+  });
+};
+
+/**
+ * Drop unlabeled fields and empty options before saving the form to the card
+ */
+export const cleanLeadFormFields = (fields: LeadFormField[]): LeadFormField[] =>
+  fields
+    .map(field => ({
+      ...field,
+      label: field.label.trim(),
+      options: field.type === 'select'
+        ? field.options.map(option => option.trim()).filter(Boolean)
+        : [],
+    }))
+    .filter(field => field.label && (field.type !== 'select' || field.options.length > 0))
+    .slice(0, MAX_LEAD_FORM_FIELDS);
+
+/**
+ * Return a message describing what is missing from the form, or null when it can be sent.
+ * The database repeats these checks in submit_lead.
+ */
+export const validateLeadSubmission = (submission: LeadSubmission, fields: LeadFormField[]): string | null => {
+  if (!submission.name.trim()) return 'Please enter your name.';
+  if (!submission.email.trim() && !submission.phone.trim()) {
+    return 'Please enter an email address or phone number.';
+  }
+  if (submission.email.trim() && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(submission.email.trim())) {
+    return 'Please enter a valid email address.';
+  }
+
+  const missing = fields.find(field => field.required && !submission.custom_fields[field.id]?.trim());
+  if (missing) return `Please fill in ${missing.label}.`;
+
+  return null;
+};
+
+export const submitLead = async (
+  cardId: string,
+  submission: LeadSubmission,
+  source: LeadSource,
+  unlockToken: string | null = null
+): Promise<LeadSubmitResult> => {
+  const { data, error } = await supabase.rpc('submit_lead', {
+    p_card_id: cardId,
+    p_name: submission.name,
+    p_email: submission.email || null,
+    p_phone: submission.phone || null,
+    p_company: submission.company || null,
+    p_note: submission.note || null,
+    p_custom_fields: submission.custom_fields,
+    p_session_id: getSessionId(),
+    p_source: source,
+    p_referrer: document.referrer || null,
+    p_user_agent: navigator.userAgent,
+    p_unlock_token: unlockToken,
+  });
+
+  if (error) {
+    console.error('Error submitting lead:', error);
+    return { accepted: false };
+  }
+
+  return data as unknown as LeadSubmitResult;
+};
+
+/**
+ * Labels for the custom field ids used by the leads' cards
+ */
+export const getLeadFieldLabels = (leads: LeadWithCard[]) => {
+  const labels: Record<string, string> = {};
+  leads.forEach(lead => {
+    getLeadFormFields(lead.business_cards?.lead_form_fields).forEach(field => {
+      labels[field.id] = field.label;
+    });
+  });
+  return labels;
+};
+
+/**
+ * Spreadsheet of leads, with one column per custom field found on any of them
+ */
+export const buildLeadsCSV = (leads: LeadWithCard[]) => {
+  const fieldLabels = getLeadFieldLabels(leads);
+  const customKeys = Array.from(new Set(
+    leads.flatMap(lead => Object.keys((lead.custom_fields as Record<string, string>) || {}))
+  ));
+
+  return toCSV(
+    [
+      'Date', 'Name', 'Email', 'Phone', 'Company', 'Message', 'Stage', 'Source', 'Card',
+      'Next Follow-up', 'Notes',
+      ...customKeys.map(key => fieldLabels[key] || key),
+    ],
+    leads.map(lead => {
+      const custom = (lead.custom_fields as Record<string, string>) || {};
+      const nextReminder = getNextReminder(lead);
+      return [
+        new Date(lead.created_at).toISOString(),
+        lead.name,
+        lead.email,
+        lead.phone,
+        lead.company,
+        lead.note,
+        LEAD_STATUS_LABELS[getLeadStatus(lead)],
+        LEAD_SOURCE_LABELS[getLeadSource(lead)],
+        lead.business_cards?.title || '',
+        nextReminder ? new Date(nextReminder.due_at).toISOString() : '',
+        sortLeadTimeline(lead.lead_notes)
+          .filter(note => note.kind === 'note')
+          .map(note => note.body)
+          .join('\n\n'),
+        ...customKeys.map(key => custom[key] ?? ''),
+      ];
+    })
+  );
+};
+
+/**
+ * One vCard per lead, concatenated so contacts apps import them all at once
+ */
+export const buildLeadsVCard = (leads: Lead[]) =>
+  leads
+    .map(lead => generateVCard({
+      title: lead.name,
+      company: lead.company,
+      position: null,
+      phone: lead.phone,
+      whatsapp: null,
+      email: lead.email,
+      website: null,
+      address: null,
+      avatar_url: null,
+      bio: lead.note,
+      slug: null,
+    }))
+    .join('');
+
+export const downloadVCardFile = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: 'text/vcard;charset=utf-8' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.URL.revokeObjectURL(url);
+};
@@ -0,0 +1,79 @@
+/**
+ * Organization brand templates and the card fields they lock
+ */
+import type { Database } from '../lib/supabase';
+import type { CardLayout, CardTheme } from './themeUtils';
+
+export type Organization = Database['public']['Tables']['organizations']['Row'];
+export type OrganizationMember = Database['public']['Tables']['organization_members']['Row'];
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export const BRAND_FIELDS = ['theme', 'layout', 'shape', 'company', 'website', 'address'] as const;
+
+export type BrandField = typeof BRAND_FIELDS[number];
+
+export const BRAND_FIELD_LABELS: Record<BrandField, string> = {
+  theme: 'Theme colors',
+  layout: 'Layout and font',
+  shape: 'Card shape',
+  company: 'Company name',
+  website: 'Website',
+  address: 'Address',
+};
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+export const canManageOrganization = (member: OrganizationMember | null) =>
+  !!member && member.status === 'active' && (member.role === 'owner' || member.role === 'admin');
+
+/**
+ * True when the organization enforces this field and has a value for it
+ */
+export const isBrandFieldLocked = (organization: Organization | null, field: BrandField) =>
+  !!organization &&
+  organization.locked_fields.includes(field) &&
+  organization[field] !== null &&
+  organization[field] !== '';
+
+interface BrandableCard {
+  theme: CardTheme;
+  layout: CardLayout;
+  shape: string;
+  company: string;
+  website: string;
+  address: string;
+}
+
+/**
+ * Apply locked brand values to editor data. Mirrors the apply_organization_brand trigger
+ * so the preview matches what will be saved.
+ */
+export function applyOrganizationBrand<T extends BrandableCard>(data: T, organization: Organization | null): T {
+  if (!organization) return data;
+
+  const branded = { ...data };
+  if (isBrandFieldLocked(organization, 'theme')) {
+    branded.theme = organization.theme as unknown as CardTheme;
+  }
+  if (isBrandFieldLocked(organization, 'layout')) {
+    branded.layout = organization.layout as unknown as CardLayout;
+  }
+  if (isBrandFieldLocked(organization, 'shape')) {
+    branded.shape = organization.shape as string;
+  }
+  if (isBrandFieldLocked(organization, 'company')) {
+    branded.company = organization.company as string;
+  }
+  if (isBrandFieldLocked(organization, 'website')) {
+    branded.website = organization.website as string;
+  }
+  if (isBrandFieldLocked(organization, 'address')) {
+    branded.address = organization.address as string;
+  }
+  return branded;
+}
@@ -0,0 +1,159 @@
+/**
+ * Subscription plans and the entitlements they grant. The database enforces every limit;
+ * these helpers mirror it so the app can show usage and offer an upgrade up front.
+ */
+import type { Database, Json } from '../lib/supabase';
+
+export type SubscriptionPlan = Database['public']['Tables']['subscription_plans']['Row'];
+
+// A type alias rather than an interface so admin overrides can be saved as Json.
+// Limits are null when unlimited.
+export type Entitlements = {
+  max_cards: number | null;
+  max_media_items: number | null;
+  premium_templates: boolean;
+  analytics_retention_days: number | null;
+  custom_domains: number;
+  lead_capture: boolean;
+};
+
+export type EntitlementKey = keyof Entitlements;
+
+export type EntitlementOverrides = Partial<Entitlements>;
+
+export const ENTITLEMENT_KEYS: EntitlementKey[] = [
+  'max_cards',
+  'max_media_items',
+  'premium_templates',
+  'analytics_retention_days',
+  'custom_domains',
+  'lead_capture',
+];
+
+// Features are on or off; everything else is a count
+export const FEATURE_ENTITLEMENTS: EntitlementKey[] = ['premium_templates', 'lead_capture'];
+
+// Limits that can be unlimited (custom domains are a plain count)
+export const UNLIMITED_ENTITLEMENTS: EntitlementKey[] = ['max_cards', 'max_media_items', 'analytics_retention_days'];
+
+export const ENTITLEMENT_LABELS: Record<EntitlementKey, string> = {
+  max_cards: 'Cards',
+  max_media_items: 'Media items per card',
+  premium_templates: 'Premium templates',
+  analytics_retention_days: 'Analytics history',
+  custom_domains: 'Custom domains',
+  lead_capture: 'Lead capture',
+};
+
+export const PLAN_LIMIT_MESSAGES: Record<EntitlementKey, string> = {
+  max_cards: 'You have reached the number of cards your plan includes.',
+  max_media_items: 'This card has all the media items your plan includes.',
+  premium_templates: 'Premium templates are not included in your plan.',
+  analytics_retention_days: 'Your plan keeps a shorter analytics history.',
+  custom_domains: 'You have used all the custom domains your plan includes.',
+  lead_capture: 'The contact exchange form is not included in your plan.',
+};
+
+// The free plan, used until the user's entitlements load
+export const DEFAULT_ENTITLEMENTS: Entitlements = {
+  max_cards: 2,
+  max_media_items: 3,
+  premium_templates: false,
+  analytics_retention_days: 30,
+  custom_domains: 0,
+  lead_capture: false,
+};
+
+export const getPlanEntitlements = (plan: SubscriptionPlan): Entitlements => ({
+  max_cards: plan.max_cards,
+  max_media_items: plan.max_media_items,
+  premium_templates: plan.premium_templates,
+  analytics_retention_days: plan.analytics_retention_days,
+  custom_domains: plan.custom_domains,
+  lead_capture: plan.lead_capture,
+});
+
+/**
+ * The known, well-typed entitlements in a JSON object; anything else is dropped
+ */
+export const getEntitlementOverrides = (value: Json | null | undefined): EntitlementOverrides => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const overrides: EntitlementOverrides = {};
+  for (const key of ENTITLEMENT_KEYS) {
+    const entry = value[key];
+    if (FEATURE_ENTITLEMENTS.includes(key)) {
+      if (typeof entry === 'boolean') (overrides as Record<string, unknown>)[key] = entry;
+    } else if (entry === null && UNLIMITED_ENTITLEMENTS.includes(key)) {
+      (overrides as Record<string, unknown>)[key] = null;
+    } else if (typeof entry === 'number' && Number.isInteger(entry) && entry >= 0) {
+      (overrides as Record<string, unknown>)[key] = entry;
+    }
+  }
+  return overrides;
+};
+
+/**
+ * The tier and entitlements returned by `get_my_entitlements`, over the free plan's
+ */
+export const parseEntitlements = (value: Json | null): { tier: string; entitlements: Entitlements } => {
+  const tier = value && typeof value === 'object' && !Array.isArray(value) && typeof value.tier === 'string'
+    ? value.tier
+    : 'free';
+  return {
+    tier,
+    entitlements: { ...DEFAULT_ENTITLEMENTS, ...getEntitlementOverrides(value) },
+  };
+};
+
+export const isWithinLimit = (limit: number | null, used: number) => limit === null || used < limit;
+
+export const formatEntitlement = (key: EntitlementKey, value: Entitlements[EntitlementKey]) => {
+  if (typeof value === 'boolean') return value ? 'Included' : 'Not included';
+  if (value === null) return 'Unlimited';
+  if (key === 'analytics_retention_days') {
+    if (value % 365 === 0) return value === 365 ? '1 year' : `${value / 365} years`;
+    return value === 1 ? '1 day' : `${value} days`;
+  }
+  return String(value);
+};
+
+/**
+ * The cheapest plan that includes a feature, or raises a limit above `used`
+ */
+export const getUpgradePlan = (
+  plans: SubscriptionPlan[],
+  key: EntitlementKey,
+  used = 0
+): SubscriptionPlan | null => {
+  const sorted = [...plans].sort((a, b) => a.sort_order - b.sort_order);
+  return sorted.find(plan => {
+    const value = getPlanEntitlements(plan)[key];
+    if (typeof value === 'boolean') return value;
+    return isWithinLimit(value, used);
+  }) || null;
+};
+
+/**
+ * The entitlement a `plan_limit:<key>` database error is about, or null for any other error
+ */
+export const getPlanLimitError = (error: { message?: string } | null | undefined): EntitlementKey | null => {
+  const match = error?.message?.match(/plan_limit:(\w+)/);
+  const key = match?.[1] as EntitlementKey | undefined;
+  return key && ENTITLEMENT_KEYS.includes(key) ? key : null;
+};
+
+export const getPlanLimitMessage = (error: { message?: string } | null | undefined) => {
+  const key = getPlanLimitError(error);
+  return key ? PLAN_LIMIT_MESSAGES[key] : null;
+};
+
+// Every usePlan reloads on this, so limits shown across the app follow a plan change
+const PLAN_CHANGED_EVENT = 'plan-changed';
+
+export const notifyPlanChanged = () => window.dispatchEvent(new Event(PLAN_CHANGED_EVENT));
+
+export const onPlanChanged = (listener: () => void) => {
+  window.addEventListener(PLAN_CHANGED_EVENT, listener);
+  return () => window.removeEventListener(PLAN_CHANGED_EVENT, listener);
+};
@@ -0,0 +1,218 @@
+/**
+ * Front and back design for the printed card. Elements snap to a grid laid over the
+ * safe zone, and the design is stored as `print` in the card's layout JSON.
+ */
+import { getCardQRUrl } from './qrUtils';
+import { THEMES, getCardTheme } from './themeUtils';
+import type { Json } from '../lib/supabase';
+import type { CardLayout, CardTheme } from './themeUtils';
+
+export type PrintSide = 'front' | 'back';
+
+export const PRINT_ELEMENTS = ['logo', 'name', 'position', 'company', 'contacts', 'qr'] as const;
+
+export type PrintElementId = typeof PRINT_ELEMENTS[number];
+
+export type PrintAlign = 'left' | 'center' | 'right';
+
+export type PrintBackground = 'background' | 'primary';
+
+// Position and size in grid cells, counted from the top-left of the safe zone
+export type PrintElement = {
+  side: PrintSide | 'hidden';
+  column: number;
+  row: number;
+  width: number;
+  height: number;
+  align: PrintAlign;
+};
+
+// A type alias rather than an interface so the design can be saved as Json
+export type PrintDesign = {
+  front_background: PrintBackground;
+  back_background: PrintBackground;
+  elements: Record<PrintElementId, PrintElement>;
+};
+
+export interface PrintDesignCard {
+  title: string | null;
+  position: string | null;
+  company: string | null;
+  phone: string | null;
+  email: string | null;
+  website: string | null;
+  address: string | null;
+  slug: string | null;
+  theme: Json | CardTheme | null;
+}
+
+export const PRINT_GRID = { columns: 12, rows: 8 };
+
+// Distance from the trim line that text and codes stay clear of
+export const PRINT_SAFE_MM = 4;
+
+export const PT_TO_MM = 0.3528;
+
+export const PRINT_SIDE_LABELS: Record<PrintSide, string> = {
+  front: 'Front',
+  back: 'Back',
+};
+
+export const PRINT_ELEMENT_LABELS: Record<PrintElementId, string> = {
+  logo: 'Logo',
+  name: 'Name',
+  position: 'Job title',
+  company: 'Company',
+  contacts: 'Contact details',
+  qr: 'QR code',
+};
+
+export const PRINT_BACKGROUND_LABELS: Record<PrintBackground, string> = {
+  background: 'Card background',
+  primary: 'Brand colour',
+};
+
+// Largest text size for each text element; smaller boxes shrink the text to fit
+export const PRINT_TEXT_SIZES: Record<'name' | 'position' | 'company' | 'contacts', number> = {
+  name: 12,
+  position: 8,
+  company: 8,
+  contacts: 6.5,
+};
+
+export const DEFAULT_PRINT_DESIGN: PrintDesign = {
+  front_background: 'background',
+  back_background: 'primary',
+  elements: {
+    logo: { side: 'front', column: 4, row: 0, width: 4, height: 4, align: 'center' },
+    name: { side: 'front', column: 0, row: 5, width: 12, height: 1, align: 'center' },
+    position: { side: 'front', column: 0, row: 6, width: 12, height: 1, align: 'center' },
+    company: { side: 'front', column: 0, row: 7, width: 12, height: 1, align: 'center' },
+    qr: { side: 'back', column: 0, row: 0, width: 4, height: 8, align: 'left' },
+    contacts: { side: 'back', column: 5, row: 2, width: 7, height: 4, align: 'left' },
+  },
+};
+
+const clamp = (value: Json | undefined, fallback: number, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, Math.round(value)))
+    : fallback;
+
+/**
+ * Keep an element on the grid, shrinking it first if it would run off the edge
+ */
+export const fitPrintElement = (element: PrintElement): PrintElement => {
+  const width = Math.min(PRINT_GRID.columns, Math.max(1, element.width));
+  const height = Math.min(PRINT_GRID.rows, Math.max(1, element.height));
+  return {
+    ...element,
+    width,
+    height,
+    column: Math.min(PRINT_GRID.columns - width, Math.max(0, element.column)),
+    row: Math.min(PRINT_GRID.rows - height, Math.max(0, element.row)),
+  };
+};
+
+/**
+ * Read the print design from a card's layout JSON, falling back to the default
+ * for anything missing or malformed
+ */
+export const getPrintDesign = (layout: Json | CardLayout | null | undefined): PrintDesign => {
+  const value = layout && typeof layout === 'object' && !Array.isArray(layout)
+    ? (layout as Record<string, Json>).print
+    : null;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_PRINT_DESIGN;
+
+  const design = value as Record<string, Json>;
+  const elements = design.elements && typeof design.elements === 'object' && !Array.isArray(design.elements)
+    ? design.elements as Record<string, Json>
+    : {};
+  const readBackground = (background: Json | undefined, fallback: PrintBackground): PrintBackground =>
+    background === 'background' || background === 'primary' ? background : fallback;
+
+  return {
+    front_background: readBackground(design.front_background, DEFAULT_PRINT_DESIGN.front_background),
+    back_background: readBackground(design.back_background, DEFAULT_PRINT_DESIGN.back_background),
+    elements: PRINT_ELEMENTS.reduce((result, id) => {
+      const fallback = DEFAULT_PRINT_DESIGN.elements[id];
+      const item = elements[id];
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        result[id] = fallback;
+        return result;
+      }
+
+      const element = item as Record<string, Json>;
+      result[id] = fitPrintElement({
+        side: element.side === 'front' || element.side === 'back' || element.side === 'hidden'
+          ? element.side
+          : fallback.side,
+        column: clamp(element.column, fallback.column, 0, PRINT_GRID.columns - 1),
+        row: clamp(element.row, fallback.row, 0, PRINT_GRID.rows - 1),
+        width: clamp(element.width, fallback.width, 1, PRINT_GRID.columns),
+        height: clamp(element.height, fallback.height, 1, PRINT_GRID.rows),
+        align: element.align === 'left' || element.align === 'center' || element.align === 'right'
+          ? element.align
+          : fallback.align,
+      });
+      return result;
+    }, {} as Record<PrintElementId, PrintElement>),
+  };
+};
+
+/**
+ * Where an element sits on the card, in mm from the top-left of the trim box
+ */
+export const getPrintElementBox = (element: PrintElement, card: { width: number; height: number }) => {
+  const cellWidth = (card.width - PRINT_SAFE_MM * 2) / PRINT_GRID.columns;
+  const cellHeight = (card.height - PRINT_SAFE_MM * 2) / PRINT_GRID.rows;
+  return {
+    x: PRINT_SAFE_MM + element.column * cellWidth,
+    y: PRINT_SAFE_MM + element.row * cellHeight,
+    width: element.width * cellWidth,
+    height: element.height * cellHeight,
+  };
+};
+
+export const getPrintTheme = (card: Pick<PrintDesignCard, 'theme'>): CardTheme => {
+  // Print uses the light colors only; the builder's backgrounds and dark variant are screen-only
+  const { primary, secondary, background, text } = getCardTheme(card.theme);
+  return { name: THEMES[0].name, primary, secondary, background, text };
+};
+
+/**
+ * Fill and text colours for one side. Text on the brand colour is white, and the job
+ * title picks up the brand colour on a plain background.
+ */
+export const getPrintSideColors = (theme: CardTheme, background: PrintBackground) =>
+  background === 'primary'
+    ? { fill: theme.primary, text: '#FFFFFF', accent: '#FFFFFF' }
+    : { fill: theme.background, text: theme.text, accent: theme.primary };
+
+export const displayUrl = (url: string) => url.replace(/^https?:\/\//, '').replace(/\/$/, '');
+
+export const getPrintCardUrl = (card: Pick<PrintDesignCard, 'slug'>) =>
+  card.slug ? getCardQRUrl(card.slug) : null;
+
+/**
+ * The lines a text element prints, empty when the card has nothing to show
+ */
+export const getPrintElementLines = (card: PrintDesignCard, id: Exclude<PrintElementId, 'logo' | 'qr'>): string[] => {
+  if (id === 'name') return [card.title || 'Untitled Card'];
+  if (id === 'position') return card.position ? [card.position] : [];
+  if (id === 'company') return card.company ? [card.company] : [];
+
+  return [
+    card.phone,
+    card.email,
+    card.website ? displayUrl(card.website) : null,
+    card.address,
+  ].filter((line): line is string => !!line);
+};
+
+/**
+ * Text size in points for a text element, shrunk so its lines fit the box height
+ */
+export const getPrintTextSize = (id: keyof typeof PRINT_TEXT_SIZES, lineCount: number, boxHeight: number) => {
+  const fit = boxHeight / (Math.max(1, lineCount) * PT_TO_MM * 1.25);
+  return Math.max(4, Math.min(PRINT_TEXT_SIZES[id], fit));
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BLEED_MM,
+  CARD_SIZES,
+  PAPER_SIZES,
+  getSheetImposition,
+  type CardSize,
+  type PaperSize,
+  type SheetLayout,
+} from './printUtils';
+
+// Bleed plus the crop marks drawn outside it
+const MARGIN_MM = BLEED_MM + 6;
+
+describe('getSheetImposition', () => {
+  it('fits ten butted standard cards on A4, centred', () => {
+    const imposition = getSheetImposition({ paper: 'a4', cardSize: 'eu', layout: 'butted' });
+
+    expect(imposition).toMatchObject({ columns: 2, rows: 5, perSheet: 10 });
+    expect(imposition.positions[0]).toEqual({ x: 20, y: 11 });
+    expect(imposition.positions[1]).toEqual({ x: 105, y: 11 });
+    expect(imposition.positions[2]).toEqual({ x: 20, y: 66 });
+  });
+
+  it('leaves a double bleed between spaced cards', () => {
+    const imposition = getSheetImposition({ paper: 'a4', cardSize: 'eu', layout: 'gutter' });
+
+    expect(imposition).toMatchObject({ columns: 2, rows: 4, perSheet: 8 });
+    expect(imposition.positions[1].x - imposition.positions[0].x).toBe(85 + BLEED_MM * 2);
+    expect(imposition.positions[2].y - imposition.positions[0].y).toBe(55 + BLEED_MM * 2);
+  });
+
+  it('fits ten butted US cards on Letter', () => {
+    expect(getSheetImposition({ paper: 'letter', cardSize: 'us', layout: 'butted' }).perSheet).toBe(10);
+  });
+
+  it('keeps every card, its bleed and crop marks on the sheet', () => {
+    (Object.keys(PAPER_SIZES) as PaperSize[]).forEach(paperSize => {
+      (Object.keys(CARD_SIZES) as CardSize[]).forEach(cardSize => {
+        (['butted', 'gutter'] as SheetLayout[]).forEach(layout => {
+          const paper = PAPER_SIZES[paperSize];
+          const card = CARD_SIZES[cardSize];
+          const imposition = getSheetImposition({ paper: paperSize, cardSize, layout });
+
+          expect(imposition.positions).toHaveLength(imposition.perSheet);
+          imposition.positions.forEach(({ x, y }) => {
+            expect(x).toBeGreaterThanOrEqual(MARGIN_MM);
+            expect(y).toBeGreaterThanOrEqual(MARGIN_MM);
+            expect(x + card.width).toBeLessThanOrEqual(paper.width - MARGIN_MM);
+            expect(y + card.height).toBeLessThanOrEqual(paper.height - MARGIN_MM);
+          });
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Print-ready PDF sheets: N-up imposition with bleed, crop marks and optional backs.
+ * Cards are drawn with jsPDF primitives, so text, shapes and QR codes stay vector;
+ * only logos and photos are embedded as images.
+ */
+import jsPDF from 'jspdf';
+import {
+  PT_TO_MM,
+  getPrintCardUrl,
+  getPrintDesign,
+  getPrintElementBox,
+  getPrintElementLines,
+  getPrintSideColors,
+  getPrintTextSize,
+  getPrintTheme,
+  type PrintSide,
+} from './printDesignUtils';
+import { getQRMatrix } from './qrUtils';
+import { fetchVCardPhoto } from './vcardUtils';
+import type { Database } from '../lib/supabase';
+
+type BusinessCard = Database['public']['Tables']['business_cards']['Row'];
+
+export type PrintCard = Pick<
+  BusinessCard,
+  'id' | 'title' | 'position' | 'company' | 'phone' | 'email' | 'website' | 'address' | 'slug' | 'theme' | 'layout' | 'logo_url'
+>;
+
+export type PaperSize = 'a4' | 'letter';
+export type CardSize = 'eu' | 'us';
+export type SheetLayout = 'butted' | 'gutter';
+
+export interface PrintSheetOptions {
+  paper: PaperSize;
+  cardSize: CardSize;
+  layout: SheetLayout;
+  copies: number;
+  doubleSided: boolean;
+  cropMarks: boolean;
+  includeQR: boolean;
+}
+
+export interface SheetImposition {
+  columns: number;
+  rows: number;
+  perSheet: number;
+  // Top-left corner of each card's trim box, in reading order
+  positions: { x: number; y: number }[];
+}
+
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4 (210 × 297 mm)', width: 210, height: 297 },
+  letter: { label: 'US Letter (8.5 × 11 in)', width: 215.9, height: 279.4 },
+};
+
+export const CARD_SIZES: Record<CardSize, { label: string; width: number; height: number }> = {
+  eu: { label: 'Standard (85 × 55 mm)', width: 85, height: 55 },
+  us: { label: 'US (3.5 × 2 in)', width: 88.9, height: 50.8 },
+};
+
+export const SHEET_LAYOUT_LABELS: Record<SheetLayout, string> = {
+  butted: 'Most per sheet (shared cuts)',
+  gutter: 'Spaced (full bleed on every card)',
+};
+
+export const DEFAULT_PRINT_OPTIONS: PrintSheetOptions = {
+  paper: 'a4',
+  cardSize: 'eu',
+  layout: 'butted',
+  copies: 1,
+  doubleSided: false,
+  cropMarks: true,
+  includeQR: true,
+};
+
+export const BLEED_MM = 3;
+const CROP_MARK_OFFSET_MM = 1;
+const CROP_MARK_LENGTH_MM = 5;
+const CROP_MARK_WIDTH_MM = 0.1;
+const lineHeight = (fontSize: number) => fontSize * PT_TO_MM * 1.25;
+
+/**
+ * How many cards fit on a sheet and where each one goes. Butted cards share cut lines,
+ * so bleed only surrounds the whole block; spaced cards keep a bleed on every side.
+ */
+export const getSheetImposition = (options: Pick<PrintSheetOptions, 'paper' | 'cardSize' | 'layout'>): SheetImposition => {
+  const paper = PAPER_SIZES[options.paper];
+  const card = CARD_SIZES[options.cardSize];
+  const gutter = options.layout === 'gutter' ? BLEED_MM * 2 : 0;
+  // Room outside the trimmed block for the bleed and the crop marks
+  const margin = BLEED_MM + CROP_MARK_OFFSET_MM + CROP_MARK_LENGTH_MM;
+
+  const fit = (available: number, size: number) =>
+    Math.max(1, Math.floor((available - margin * 2 + gutter) / (size + gutter)));
+
+  const columns = fit(paper.width, card.width);
+  const rows = fit(paper.height, card.height);
+  const blockWidth = columns * card.width + (columns - 1) * gutter;
+  const blockHeight = rows * card.height + (rows - 1) * gutter;
+  const left = (paper.width - blockWidth) / 2;
+  const top = (paper.height - blockHeight) / 2;
+
+  const positions = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      positions.push({
+        x: left + column * (card.width + gutter),
+        y: top + row * (card.height + gutter),
+      });
+    }
+  }
+
+  return { columns, rows, perSheet: columns * rows, positions };
+};
+
+// The built-in PDF fonts only cover Latin-1; swap anything else for a close ASCII form
+const toPdfText = (value: string) =>
+  value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\xff]/g, '?');
+
+/**
+ * Draw a QR code as filled squares, merging runs of dark modules to keep the file small
+ */
+const drawQRCode = (pdf: jsPDF, value: string, x: number, y: number, size: number, color: string) => {
+  const { count, isDark } = getQRMatrix(value, 'M');
+  const quietZone = 2;
+  const module = size / (count + quietZone * 2);
+
+  pdf.setFillColor('#FFFFFF');
+  pdf.rect(x, y, size, size, 'F');
+  pdf.setFillColor(color);
+
+  for (let row = 0; row < count; row++) {
+    let runStart = -1;
+    for (let column = 0; column <= count; column++) {
+      const dark = column < count && isDark(row, column);
+      if (dark && runStart < 0) runStart = column;
+      if (!dark && runStart >= 0) {
+        pdf.rect(
+          x + (quietZone + runStart) * module,
+          y + (quietZone + row) * module,
+          (column - runStart) * module,
+          // Overlap rows slightly so viewers don't show hairlines between them
+          module + 0.01,
+          'F'
+        );
+        runStart = -1;
+      }
+    }
+  }
+};
+
+interface CardBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // How far the artwork extends past each trim edge
+  bleed: { top: number; right: number; bottom: number; left: number };
+}
+
+const clipToBleed = (pdf: jsPDF, box: CardBox) => {
+  pdf.rect(
+    box.x - box.bleed.left,
+    box.y - box.bleed.top,
+    box.width + box.bleed.left + box.bleed.right,
+    box.height + box.bleed.top + box.bleed.bottom,
+    null
+  );
+  pdf.clip();
+  pdf.discardPath();
+};
+
+const fillBleedBox = (pdf: jsPDF, box: CardBox, color: string) => {
+  pdf.setFillColor(color);
+  pdf.rect(box.x - BLEED_MM, box.y - BLEED_MM, box.width + BLEED_MM * 2, box.height + BLEED_MM * 2, 'F');
+};
+
+/**
+ * Draw one side of a card from its print design. Elements sit inside the safe zone,
+ * while the background runs out into the bleed.
+ */
+const drawCardSide = (
+  pdf: jsPDF,
+  card: PrintCard,
+  box: CardBox,
+  side: PrintSide,
+  logo: LoadedLogo | null,
+  includeQR: boolean
+) => {
+  const theme = getPrintTheme(card);
+  const design = getPrintDesign(card.layout);
+  const colors = getPrintSideColors(theme, side === 'front' ? design.front_background : design.back_background);
+
+  pdf.saveGraphicsState();
+  clipToBleed(pdf, box);
+  fillBleedBox(pdf, box, colors.fill);
+
+  (Object.keys(design.elements) as (keyof typeof design.elements)[]).forEach(id => {
+    const element = design.elements[id];
+    if (element.side !== side) return;
+
+    const area = getPrintElementBox(element, box);
+    const left = box.x + area.x;
+    const top = box.y + area.y;
+    const alignX = (width: number) =>
+      element.align === 'center' ? left + (area.width - width) / 2
+        : element.align === 'right' ? left + area.width - width
+          : left;
+
+    if (id === 'logo') {
+      if (!logo) return;
+      const scale = Math.min(area.width / logo.width, area.height / logo.height);
+      const width = logo.width * scale;
+      const height = logo.height * scale;
+      pdf.addImage(logo.dataUrl, alignX(width), top + (area.height - height) / 2, width, height);
+      return;
+    }
+
+    if (id === 'qr') {
+      const cardUrl = includeQR ? getPrintCardUrl(card) : null;
+      if (!cardUrl) return;
+      const size = Math.min(area.width, area.height);
+      drawQRCode(pdf, cardUrl, alignX(size), top + (area.height - size) / 2, size, '#000000');
+      return;
+    }
+
+    const lines = getPrintElementLines(card, id);
+    if (lines.length === 0) return;
+    const size = getPrintTextSize(id, lines.length, area.height);
+    const textX = element.align === 'center' ? left + area.width / 2
+      : element.align === 'right' ? left + area.width
+        : left;
+
+    pdf.setFont('helvetica', id === 'name' ? 'bold' : 'normal');
+    pdf.setFontSize(size);
+    pdf.setTextColor(id === 'position' ? colors.accent : colors.text);
+
+    // Lines that don't fit the box are left off rather than spilling past the safe zone
+    const visibleLines = lines.slice(0, Math.max(1, Math.floor(area.height / lineHeight(size))));
+    visibleLines.forEach((line, index) => {
+      const [text] = pdf.splitTextToSize(toPdfText(line), area.width) as string[];
+      pdf.text(text || '', textX, top + index * lineHeight(size), { align: element.align, baseline: 'top' });
+    });
+  });
+
+  pdf.restoreGraphicsState();
+};
+
+/**
+ * Short marks outside the block at every cut line
+ */
+const drawCropMarks = (pdf: jsPDF, imposition: SheetImposition, cardWidth: number, cardHeight: number) => {
+  const cutsX = Array.from(new Set(imposition.positions.flatMap(p => [p.x, p.x + cardWidth])));
+  const cutsY = Array.from(new Set(imposition.positions.flatMap(p => [p.y, p.y + cardHeight])));
+  const top = Math.min(...cutsY);
+  const bottom = Math.max(...cutsY);
+  const left = Math.min(...cutsX);
+  const right = Math.max(...cutsX);
+  const start = BLEED_MM + CROP_MARK_OFFSET_MM;
+  const end = start + CROP_MARK_LENGTH_MM;
+
+  pdf.setDrawColor('#000000');
+  pdf.setLineWidth(CROP_MARK_WIDTH_MM);
+
+  cutsX.forEach(x => {
+    pdf.line(x, top - start, x, top - end);
+    pdf.line(x, bottom + start, x, bottom + end);
+  });
+  cutsY.forEach(y => {
+    pdf.line(left - start, y, left - end, y);
+    pdf.line(right + start, y, right + end, y);
+  });
+};
+
+const getCardBox = (
+  imposition: SheetImposition,
+  index: number,
+  options: PrintSheetOptions,
+  mirrored: boolean
+): CardBox => {
+  const card = CARD_SIZES[options.cardSize];
+  const row = Math.floor(index / imposition.columns);
+  let column = index % imposition.columns;
+  // Backs are flipped on the long edge, so each column lands behind its front
+  if (mirrored) column = imposition.columns - 1 - column;
+  const position = imposition.positions[row * imposition.columns + column];
+
+  // Butted cards only bleed on the edges of the block; inner edges are shared cuts
+  const butted = options.layout === 'butted';
+  const bleed = {
+    top: !butted || row === 0 ? BLEED_MM : 0,
+    bottom: !butted || row === imposition.rows - 1 ? BLEED_MM : 0,
+    left: !butted || column === 0 ? BLEED_MM : 0,
+    right: !butted || column === imposition.columns - 1 ? BLEED_MM : 0,
+  };
+
+  return { ...position, width: card.width, height: card.height, bleed };
+};
+
+interface LoadedLogo {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+const loadLogo = async (pdf: jsPDF, url: string | null): Promise<LoadedLogo | null> => {
+  if (!url) return null;
+  const photo = await fetchVCardPhoto(url);
+  if (!photo) return null;
+
+  const dataUrl = `data:${photo.mimeType};base64,${photo.data}`;
+  try {
+    const { width, height } = pdf.getImageProperties(dataUrl);
+    return { dataUrl, width, height };
+  } catch (error) {
+    // jsPDF only embeds PNG, JPEG and a few other formats; leave anything else off
+    console.error('Error reading logo for print sheet:', error);
+    return null;
+  }
+};
+
+/**
+ * Build the print sheet PDF for the cards, each repeated `copies` times
+ */
+export const buildPrintSheetPDF = async (cards: PrintCard[], options: PrintSheetOptions): Promise<jsPDF> => {
+  const paper = PAPER_SIZES[options.paper];
+  const cardSize = CARD_SIZES[options.cardSize];
+  const imposition = getSheetImposition(options);
+  const items = cards.flatMap(card => Array.from({ length: Math.max(1, options.copies) }, () => card));
+
+  const pdf = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: [paper.width, paper.height],
+  });
+
+  const logos = new Map<string, LoadedLogo | null>();
+  await Promise.all(cards.map(async card => {
+    logos.set(card.id, await loadLogo(pdf, card.logo_url));
+  }));
+
+  for (let start = 0; start < items.length; start += imposition.perSheet) {
+    const sheet = items.slice(start, start + imposition.perSheet);
+
+    if (start > 0) pdf.addPage([paper.width, paper.height], 'portrait');
+    sheet.forEach((card, index) => {
+      drawCardSide(pdf, card, getCardBox(imposition, index, options, false), 'front', logos.get(card.id) || null, options.includeQR);
+    });
+    if (options.cropMarks) drawCropMarks(pdf, imposition, cardSize.width, cardSize.height);
+
+    if (options.doubleSided) {
+      pdf.addPage([paper.width, paper.height], 'portrait');
+      sheet.forEach((card, index) => {
+        drawCardSide(pdf, card, getCardBox(imposition, index, options, true), 'back', logos.get(card.id) || null, options.includeQR);
+      });
+      if (options.cropMarks) drawCropMarks(pdf, imposition, cardSize.width, cardSize.height);
+    }
+  }
+
+  return pdf;
+};
+
+export const exportPrintSheet = async (cards: PrintCard[], options: PrintSheetOptions, filename: string) => {
+  try {
+    const pdf = await buildPrintSheetPDF(cards, options);
+    pdf.save(filename);
+    return { success: true };
+  } catch (error) {
+    console.error('Error exporting print sheet:', error);
+    return { success: false, error };
+  }
+};
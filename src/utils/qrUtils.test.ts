@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_QR_DESIGN,
+  QR_QUIET_ZONE,
+  buildQRCodeSVG,
+  buildQRShapes,
+  checkQRContrast,
+  getEffectiveErrorLevel,
+  getQRDesign,
+  getQRMatrix,
+  resolveQRColor,
+} from './qrUtils';
+import type { CardTheme } from './themeUtils';
+
+const CARD_URL = 'https://example.com/c/jane-doe?src=qr';
+
+const theme: CardTheme = {
+  name: 'Test',
+  primary: '#1D4ED8',
+  secondary: '#93C5FD',
+  background: '#FFFFFF',
+  text: '#111827',
+};
+
+describe('getQRDesign', () => {
+  it('falls back to the default design without a saved one', () => {
+    expect(getQRDesign(null)).toEqual(DEFAULT_QR_DESIGN);
+    expect(getQRDesign({ qr: 'squares' })).toEqual(DEFAULT_QR_DESIGN);
+  });
+
+  it('keeps valid values and replaces malformed ones', () => {
+    const design = getQRDesign({
+      qr: { foreground: 'primary', background: 'nope', dot_style: 'dots', eye_style: 'hexagon', error_correction: 'Q', logo_size: 0.9 },
+    });
+
+    expect(design).toMatchObject({
+      foreground: 'primary',
+      background: DEFAULT_QR_DESIGN.background,
+      dot_style: 'dots',
+      eye_style: 'square',
+      error_correction: 'Q',
+      show_logo: false,
+      logo_size: 0.3,
+    });
+  });
+});
+
+describe('resolveQRColor', () => {
+  it('resolves theme color names, black, white and custom colors', () => {
+    expect(resolveQRColor('primary', theme)).toBe('#1D4ED8');
+    expect(resolveQRColor('black', theme)).toBe('#000000');
+    expect(resolveQRColor('white', theme)).toBe('#FFFFFF');
+    expect(resolveQRColor('#ABCDEF', theme)).toBe('#ABCDEF');
+    expect(resolveQRColor('tomato', theme)).toBe('#000000');
+  });
+});
+
+describe('getEffectiveErrorLevel', () => {
+  it('keeps the chosen level without a logo', () => {
+    expect(getEffectiveErrorLevel(DEFAULT_QR_DESIGN, false)).toEqual({ level: 'M', raised: false });
+  });
+
+  it('raises the level to cover the logo', () => {
+    expect(getEffectiveErrorLevel({ ...DEFAULT_QR_DESIGN, logo_size: 0.2 }, true)).toEqual({ level: 'Q', raised: true });
+    expect(getEffectiveErrorLevel({ ...DEFAULT_QR_DESIGN, logo_size: 0.25 }, true)).toEqual({ level: 'H', raised: true });
+    expect(getEffectiveErrorLevel({ ...DEFAULT_QR_DESIGN, error_correction: 'H', logo_size: 0.2 }, true))
+      .toEqual({ level: 'H', raised: false });
+  });
+});
+
+describe('checkQRContrast', () => {
+  it('rates dark codes on light backgrounds by contrast', () => {
+    expect(checkQRContrast('#000000', '#FFFFFF').status).toBe('good');
+    expect(checkQRContrast('#8A8A8A', '#FFFFFF').status).toBe('warning');
+    expect(checkQRContrast('#CCCCCC', '#FFFFFF').status).toBe('poor');
+  });
+
+  it('warns about inverted codes even with high contrast', () => {
+    const check = checkQRContrast('#FFFFFF', '#000000');
+    expect(check.status).toBe('warning');
+    expect(check.message).toMatch(/Light codes/);
+  });
+});
+
+describe('getQRMatrix', () => {
+  it('grows with the error correction level', () => {
+    const low = getQRMatrix(CARD_URL, 'L');
+    const high = getQRMatrix(CARD_URL, 'H');
+
+    expect((low.count - 17) % 4).toBe(0);
+    expect(high.count).toBeGreaterThan(low.count);
+  });
+});
+
+describe('buildQRShapes', () => {
+  const countDarkModules = (skip: (row: number, column: number, count: number) => boolean) => {
+    const { count, isDark } = getQRMatrix(CARD_URL, 'M');
+    let dark = 0;
+    for (let row = 0; row < count; row++) {
+      for (let column = 0; column < count; column++) {
+        if (isDark(row, column) && !skip(row, column, count)) dark++;
+      }
+    }
+    return dark;
+  };
+
+  const inEye = (row: number, column: number, count: number) =>
+    (row < 8 && column < 8) || (row < 8 && column >= count - 7) || (row >= count - 7 && column < 8);
+
+  it('draws each dark module plus a frame and pupil for each eye, inside the quiet zone', () => {
+    const { size, count, shapes, logo } = buildQRShapes(CARD_URL, DEFAULT_QR_DESIGN, false);
+
+    expect(size).toBe(count + QR_QUIET_ZONE * 2);
+    expect(logo).toBeNull();
+    expect(shapes).toHaveLength(countDarkModules(inEye) + 6);
+    expect(shapes.filter(shape => shape.hole)).toHaveLength(3);
+    shapes.forEach(shape => {
+      expect(shape.x).toBeGreaterThanOrEqual(QR_QUIET_ZONE);
+      expect(shape.x + shape.width).toBeLessThanOrEqual(size - QR_QUIET_ZONE);
+    });
+  });
+
+  it('clears the modules behind the logo', () => {
+    const design = { ...DEFAULT_QR_DESIGN, logo_size: 0.2 };
+    const { shapes, logo } = buildQRShapes(CARD_URL, design, true);
+
+    expect(logo).not.toBeNull();
+    shapes.filter(shape => !shape.hole && shape.width === 1).forEach(shape => {
+      const overlaps = shape.x + 1 > logo!.x && shape.x < logo!.x + logo!.size &&
+        shape.y + 1 > logo!.y && shape.y < logo!.y + logo!.size;
+      expect(overlaps).toBe(false);
+    });
+  });
+
+  it('rounds the eyes for the rounded and circle styles', () => {
+    const frame = (eyeStyle: typeof DEFAULT_QR_DESIGN.eye_style) =>
+      buildQRShapes(CARD_URL, { ...DEFAULT_QR_DESIGN, eye_style: eyeStyle }, false).shapes.find(shape => shape.hole)!;
+
+    expect(frame('square').radii).toEqual([0, 0, 0, 0]);
+    expect(frame('rounded').radii).toEqual([2, 2, 2, 2]);
+    expect(frame('circle').radii).toEqual([3.5, 3.5, 3.5, 3.5]);
+  });
+});
+
+describe('buildQRCodeSVG', () => {
+  it('writes the colors and a view box in modules', () => {
+    const { size } = buildQRShapes(CARD_URL, DEFAULT_QR_DESIGN, false);
+    const svg = buildQRCodeSVG(CARD_URL, DEFAULT_QR_DESIGN, { foreground: '#111827', background: '#FFFFFF' }, null);
+
+    expect(svg).toContain(`viewBox="0 0 ${size} ${size}"`);
+    expect(svg).toContain(`<rect width="${size}" height="${size}" fill="#FFFFFF"/>`);
+    expect(svg).toContain('<path fill="#111827" fill-rule="evenodd"');
+    expect(svg).not.toContain('<image');
+  });
+
+  it('embeds the logo with its address escaped', () => {
+    const svg = buildQRCodeSVG(CARD_URL, DEFAULT_QR_DESIGN, { foreground: '#000000', background: '#FFFFFF' }, 'data:image/png;base64,a"b');
+    expect(svg).toContain('xlink:href="data:image/png;base64,a&quot;b"');
+  });
+});
@@ -0,0 +1,451 @@
+/**
+ * Branded QR codes: the style saved in the card's layout JSON, scannability checks,
+ * and vector (SVG, EPS) export. The shapes mirror how react-qrcode-logo draws the
+ * on-screen code and the PNG, so every format looks the same.
+ */
+import qrcode from 'qrcode-generator';
+import { getContrastRatio, getRelativeLuminance, hexToRgb, isHexColor } from './themeUtils';
+import { fetchVCardPhoto } from './vcardUtils';
+import type { Database, Json } from '../lib/supabase';
+import type { CardLayout, CardTheme } from './themeUtils';
+
+export const QR_ERROR_LEVELS = ['L', 'M', 'Q', 'H'] as const;
+
+export type QRErrorLevel = typeof QR_ERROR_LEVELS[number];
+
+export type QRDotStyle = 'squares' | 'dots' | 'fluid';
+
+export type QREyeStyle = 'square' | 'rounded' | 'circle';
+
+// A theme color name, black or white, or a custom #rrggbb value
+export type QRColor = 'primary' | 'secondary' | 'text' | 'background' | 'black' | 'white' | string;
+
+// A type alias rather than an interface so the design can be saved as Json
+export type QRDesign = {
+  foreground: QRColor;
+  background: QRColor;
+  dot_style: QRDotStyle;
+  eye_style: QREyeStyle;
+  error_correction: QRErrorLevel;
+  show_logo: boolean;
+  // Logo width as a share of the code width
+  logo_size: number;
+};
+
+export type QRExportFormat = 'svg' | 'png' | 'eps';
+
+export interface QRContrastCheck {
+  ratio: number;
+  status: 'good' | 'warning' | 'poor';
+  message: string;
+}
+
+export const QR_ERROR_LEVEL_LABELS: Record<QRErrorLevel, string> = {
+  L: 'Low (7%)',
+  M: 'Medium (15%)',
+  Q: 'Quartile (25%)',
+  H: 'High (30%)',
+};
+
+export const QR_DOT_STYLE_LABELS: Record<QRDotStyle, string> = {
+  squares: 'Squares',
+  dots: 'Dots',
+  fluid: 'Fluid',
+};
+
+export const QR_EYE_STYLE_LABELS: Record<QREyeStyle, string> = {
+  square: 'Square',
+  rounded: 'Rounded',
+  circle: 'Circle',
+};
+
+export const QR_THEME_COLORS = ['primary', 'secondary', 'text', 'background', 'black', 'white'] as const;
+
+export const QR_COLOR_LABELS: Record<typeof QR_THEME_COLORS[number], string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  text: 'Text',
+  background: 'Background',
+  black: 'Black',
+  white: 'White',
+};
+
+export const QR_EXPORT_FORMAT_LABELS: Record<QRExportFormat, string> = {
+  svg: 'SVG',
+  png: 'PNG',
+  eps: 'EPS',
+};
+
+export const QR_LOGO_SIZE_RANGE = { min: 0.15, max: 0.3 };
+
+// The standard four-module blank border scanners need around the code
+export const QR_QUIET_ZONE = 4;
+
+// Size of the PNG download in pixels, about 3.4 inches at 300 dpi
+export const QR_PNG_SIZE = 1024;
+
+export const DEFAULT_QR_DESIGN: QRDesign = {
+  foreground: 'black',
+  background: 'white',
+  dot_style: 'squares',
+  eye_style: 'square',
+  error_correction: 'M',
+  show_logo: false,
+  logo_size: 0.22,
+};
+
+// Corner radius of the eye frames and pupils, in modules, measured along the middle of
+// the frame stroke the way react-qrcode-logo takes it
+export const QR_EYE_RADII: Record<QREyeStyle, { outer: number; inner: number }> = {
+  square: { outer: 0, inner: 0 },
+  rounded: { outer: 1.5, inner: 0.5 },
+  circle: { outer: 3, inner: 1 },
+};
+
+/**
+ * The card link a printed or shared QR code points to, tagged so scans show up as QR visits
+ */
+export const getCardQRUrl = (slug: string) => `${window.location.origin}/c/${slug}?src=qr`;
+
+export type QRSource = Database['public']['Tables']['qr_sources']['Row'];
+
+/**
+ * Short link for a named QR source. It records the scan against the source and then
+ * redirects to the card, so codes keep working when the card's slug changes.
+ */
+export const getQRSourceUrl = (code: string) => `${window.location.origin}/q/${code}`;
+
+const isQRColor = (value: Json | undefined): value is QRColor =>
+  typeof value === 'string' &&
+  ((QR_THEME_COLORS as readonly string[]).includes(value) || isHexColor(value));
+
+/**
+ * Read the QR design from a card's layout JSON, falling back to the default
+ * for anything missing or malformed
+ */
+export const getQRDesign = (layout: Json | CardLayout | null | undefined): QRDesign => {
+  const value = layout && typeof layout === 'object' && !Array.isArray(layout)
+    ? (layout as Record<string, Json>).qr
+    : null;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_QR_DESIGN;
+
+  const design = value as Record<string, Json>;
+  return {
+    foreground: isQRColor(design.foreground) ? design.foreground : DEFAULT_QR_DESIGN.foreground,
+    background: isQRColor(design.background) ? design.background : DEFAULT_QR_DESIGN.background,
+    dot_style: design.dot_style === 'dots' || design.dot_style === 'fluid' ? design.dot_style : 'squares',
+    eye_style: design.eye_style === 'rounded' || design.eye_style === 'circle' ? design.eye_style : 'square',
+    error_correction: (QR_ERROR_LEVELS as readonly string[]).includes(design.error_correction as string)
+      ? design.error_correction as QRErrorLevel
+      : DEFAULT_QR_DESIGN.error_correction,
+    show_logo: design.show_logo === true,
+    logo_size: typeof design.logo_size === 'number'
+      ? Math.min(QR_LOGO_SIZE_RANGE.max, Math.max(QR_LOGO_SIZE_RANGE.min, design.logo_size))
+      : DEFAULT_QR_DESIGN.logo_size,
+  };
+};
+
+export const resolveQRColor = (color: QRColor, theme: CardTheme) => {
+  if (color === 'black') return '#000000';
+  if (color === 'white') return '#FFFFFF';
+  if (color === 'primary' || color === 'secondary' || color === 'text' || color === 'background') {
+    return isHexColor(theme[color]) ? theme[color] : '#000000';
+  }
+  return isHexColor(color) ? color : '#000000';
+};
+
+/**
+ * The error correction level to encode with. A logo hides part of the code, so the
+ * level is raised until enough of it can be rebuilt from what is left.
+ */
+export const getEffectiveErrorLevel = (design: QRDesign, hasLogo: boolean) => {
+  const required: QRErrorLevel = !hasLogo ? 'L' : design.logo_size > 0.2 ? 'H' : 'Q';
+  const level = QR_ERROR_LEVELS.indexOf(required) > QR_ERROR_LEVELS.indexOf(design.error_correction)
+    ? required
+    : design.error_correction;
+  return { level, raised: level !== design.error_correction };
+};
+
+/**
+ * Whether phone cameras will read the code. Scanners look for dark modules on a light
+ * background, so besides the contrast ratio an inverted code is flagged too.
+ */
+export const checkQRContrast = (foreground: string, background: string): QRContrastCheck => {
+  const ratio = getContrastRatio(foreground, background);
+
+  if (ratio < 3) {
+    return { ratio, status: 'poor', message: 'Too little contrast to scan reliably. Pick a darker code or a lighter background.' };
+  }
+  if (getRelativeLuminance(foreground) > getRelativeLuminance(background)) {
+    return { ratio, status: 'warning', message: 'Light codes on a dark background are not read by some scanner apps.' };
+  }
+  if (ratio < 4.5) {
+    return { ratio, status: 'warning', message: 'Contrast is on the low side; test scanning before printing.' };
+  }
+  return { ratio, status: 'good', message: 'Good contrast for scanning.' };
+};
+
+// react-qrcode-logo encodes UTF-8 bytes the same way, so both produce the same matrix
+const toUtf8 = (value: string) =>
+  Array.from(new TextEncoder().encode(value), byte => String.fromCharCode(byte)).join('');
+
+export const getQRMatrix = (value: string, level: QRErrorLevel) => {
+  const qr = qrcode(0, level);
+  qr.addData(toUtf8(value));
+  qr.make();
+  return { count: qr.getModuleCount(), isDark: (row: number, column: number) => qr.isDark(row, column) };
+};
+
+// A filled rounded rectangle in module units; corner radii run clockwise from top-left
+interface QRShape {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radii: [number, number, number, number];
+  // A second shape cut out of this one, for the eye frames
+  hole?: QRShape;
+}
+
+const square = (x: number, y: number, size: number, radius: number): QRShape =>
+  ({ x, y, width: size, height: size, radii: [radius, radius, radius, radius] });
+
+/**
+ * Every dark shape of the code in module units, with the quiet zone included,
+ * plus where the logo goes
+ */
+export const buildQRShapes = (value: string, design: QRDesign, hasLogo: boolean) => {
+  const { level } = getEffectiveErrorLevel(design, hasLogo);
+  const { count, isDark } = getQRMatrix(value, level);
+  const offset = QR_QUIET_ZONE;
+  const shapes: QRShape[] = [];
+
+  const eyes = [{ row: 0, column: 0 }, { row: 0, column: count - 7 }, { row: count - 7, column: 0 }];
+  const inEye = (row: number, column: number) =>
+    eyes.some(eye => row >= eye.row && row <= eye.row + 7 && column >= eye.column && column <= eye.column + 7);
+
+  // The logo sits in the middle with one clear module around it
+  const logoSize = count * design.logo_size;
+  const logo = hasLogo ? { x: offset + (count - logoSize) / 2, y: offset + (count - logoSize) / 2, size: logoSize } : null;
+  const behindLogo = (row: number, column: number) => {
+    if (!logo) return false;
+    const start = (count - logoSize) / 2 - 1;
+    const end = (count + logoSize) / 2 + 1;
+    return column + 1 > start && column < end && row + 1 > start && row < end;
+  };
+
+  for (let row = 0; row < count; row++) {
+    for (let column = 0; column < count; column++) {
+      if (!isDark(row, column) || inEye(row, column) || behindLogo(row, column)) continue;
+      const x = offset + column;
+      const y = offset + row;
+
+      if (design.dot_style === 'dots') {
+        shapes.push(square(x + 0.125, y + 0.125, 0.75, 0.375));
+      } else if (design.dot_style === 'fluid') {
+        // Round the corners that have no dark neighbour on either side
+        const open = (r: number, c: number) => r < 0 || c < 0 || r >= count || c >= count || !isDark(r, c);
+        const round = (vertical: number, horizontal: number) =>
+          open(row + vertical, column) && open(row, column + horizontal) ? 0.5 : 0;
+        shapes.push({ x, y, width: 1, height: 1, radii: [round(-1, -1), round(-1, 1), round(1, 1), round(1, -1)] });
+      } else {
+        shapes.push(square(x, y, 1, 0));
+      }
+    }
+  }
+
+  const radii = QR_EYE_RADII[design.eye_style];
+  // A frame stroked one module wide: the outside corner grows by half a module,
+  // the inside one shrinks by half
+  const outerRadius = radii.outer > 0 ? radii.outer + 0.5 : 0;
+  const holeRadius = Math.max(0, radii.outer - 0.5);
+  const pupilRadius = radii.inner > 0 ? radii.inner + 0.5 : 0;
+  eyes.forEach(eye => {
+    const x = offset + eye.column;
+    const y = offset + eye.row;
+    shapes.push({ ...square(x, y, 7, outerRadius), hole: square(x + 1, y + 1, 5, holeRadius) });
+    shapes.push(square(x + 2, y + 2, 3, pupilRadius));
+  });
+
+  return { size: count + offset * 2, count, shapes, logo };
+};
+
+const format = (value: number) => Number(value.toFixed(3)).toString();
+
+const svgPath = (shape: QRShape): string => {
+  const { x, y, width: w, height: h } = shape;
+  const [tl, tr, br, bl] = shape.radii;
+  const arc = (r: number, endX: number, endY: number) => r ? `A${format(r)} ${format(r)} 0 0 1 ${format(endX)} ${format(endY)}` : '';
+
+  const path = [
+    `M${format(x + tl)} ${format(y)}`,
+    `H${format(x + w - tr)}`, arc(tr, x + w, y + tr),
+    `V${format(y + h - br)}`, arc(br, x + w - br, y + h),
+    `H${format(x + bl)}`, arc(bl, x, y + h - bl),
+    `V${format(y + tl)}`, arc(tl, x + tl, y),
+    'Z',
+  ].filter(Boolean).join('');
+
+  return shape.hole ? path + svgPath(shape.hole) : path;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * The code as an SVG document. Sizes are in modules, so it scales to any print size.
+ */
+export const buildQRCodeSVG = (
+  value: string,
+  design: QRDesign,
+  colors: { foreground: string; background: string },
+  logoDataUrl: string | null
+) => {
+  const { size, shapes, logo } = buildQRShapes(value, design, !!logoDataUrl);
+  const path = shapes.map(svgPath).join('');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 ${size} ${size}" width="${size * 10}" height="${size * 10}">`,
+    `<rect width="${size}" height="${size}" fill="${colors.background}"/>`,
+    `<path fill="${colors.foreground}" fill-rule="evenodd" d="${path}"/>`,
+    logo && logoDataUrl
+      ? `<image x="${format(logo.x)}" y="${format(logo.y)}" width="${format(logo.size)}" height="${format(logo.size)}" preserveAspectRatio="none" xlink:href="${escapeXml(logoDataUrl)}"/>`
+      : '',
+    '</svg>',
+  ].join('\n');
+};
+
+const psColor = (hex: string) => hexToRgb(hex).map(channel => format(channel / 255)).join(' ');
+
+const psPath = (shape: QRShape): string => {
+  const { x, y, width: w, height: h } = shape;
+  const [tl, tr, br, bl] = shape.radii.map(format);
+
+  const path = [
+    `${format(x + shape.radii[0])} ${format(y)} moveto`,
+    `${format(x + w)} ${format(y)} ${format(x + w)} ${format(y + h)} ${tr} arct`,
+    `${format(x + w)} ${format(y + h)} ${format(x)} ${format(y + h)} ${br} arct`,
+    `${format(x)} ${format(y + h)} ${format(x)} ${format(y)} ${bl} arct`,
+    `${format(x)} ${format(y)} ${format(x + w)} ${format(y)} ${tl} arct`,
+    'closepath',
+  ].join(' ');
+
+  return shape.hole ? `${path}\n${psPath(shape.hole)}` : path;
+};
+
+/**
+ * Read a logo's pixels, flattened onto the code's background, for embedding in EPS
+ */
+const readLogoPixels = (dataUrl: string, background: string, pixels: number) =>
+  new Promise<string | null>((resolve) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = pixels;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        resolve(null);
+        return;
+      }
+      context.fillStyle = background;
+      context.fillRect(0, 0, pixels, pixels);
+      context.drawImage(image, 0, 0, pixels, pixels);
+
+      const { data } = context.getImageData(0, 0, pixels, pixels);
+      let hex = '';
+      for (let i = 0; i < data.length; i += 4) {
+        hex += [data[i], data[i + 1], data[i + 2]].map(channel => channel.toString(16).padStart(2, '0')).join('');
+        if ((i / 4 + 1) % 32 === 0) hex += '\n';
+      }
+      resolve(hex);
+    };
+    image.onerror = () => resolve(null);
+    image.src = dataUrl;
+  });
+
+/**
+ * The code as Encapsulated PostScript for print shops and design tools. One module
+ * is one point, and the page is flipped so the shapes use the same top-down
+ * coordinates as the SVG.
+ */
+export const buildQRCodeEPS = async (
+  value: string,
+  design: QRDesign,
+  colors: { foreground: string; background: string },
+  logoDataUrl: string | null
+) => {
+  const logoPixels = 256;
+  const logoHex = logoDataUrl ? await readLogoPixels(logoDataUrl, colors.background, logoPixels) : null;
+  const { size, shapes, logo } = buildQRShapes(value, design, !!logoHex);
+
+  const lines = [
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    `%%BoundingBox: 0 0 ${size} ${size}`,
+    '%%Title: QR code',
+    '%%Creator: Digital Business Cards',
+    '%%EndComments',
+    'gsave',
+    `0 ${size} translate 1 -1 scale`,
+    `${psColor(colors.background)} setrgbcolor`,
+    `0 0 ${size} ${size} rectfill`,
+    `${psColor(colors.foreground)} setrgbcolor`,
+    'newpath',
+    ...shapes.map(psPath),
+    'eofill',
+  ];
+
+  if (logo && logoHex) {
+    lines.push(
+      'gsave',
+      `${format(logo.x)} ${format(logo.y)} translate ${format(logo.size)} ${format(logo.size)} scale`,
+      `/logostr ${logoPixels * 3} string def`,
+      `${logoPixels} ${logoPixels} 8 [${logoPixels} 0 0 ${logoPixels} 0 0]`,
+      '{ currentfile logostr readhexstring pop } false 3 colorimage',
+      logoHex.trim(),
+      'grestore'
+    );
+  }
+
+  lines.push('grestore', 'showpage', '%%EOF');
+  return lines.join('\n');
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Download the code as SVG or EPS. PNG comes from the rendered canvas instead.
+ */
+export const downloadQRCodeVector = async (
+  formatType: Exclude<QRExportFormat, 'png'>,
+  value: string,
+  design: QRDesign,
+  colors: { foreground: string; background: string },
+  logoUrl: string | null,
+  filename: string
+) => {
+  try {
+    const photo = logoUrl ? await fetchVCardPhoto(logoUrl) : null;
+    const logoDataUrl = photo ? `data:${photo.mimeType};base64,${photo.data}` : null;
+
+    if (formatType === 'svg') {
+      const svg = buildQRCodeSVG(value, design, colors, logoDataUrl);
+      downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${filename}.svg`);
+    } else {
+      const eps = await buildQRCodeEPS(value, design, colors, logoDataUrl);
+      downloadBlob(new Blob([eps], { type: 'application/postscript' }), `${filename}.eps`);
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error exporting QR code:', error);
+    return { success: false, error };
+  }
+};
@@ -0,0 +1,289 @@
+/**
+ * Card drafts, publishing and revision history
+ */
+import { supabase } from '../lib/supabase';
+import type { Database, Json } from '../lib/supabase';
+
+type BusinessCard = Database['public']['Tables']['business_cards']['Row'];
+type SocialLink = Database['public']['Tables']['social_links']['Row'];
+type MediaItem = Database['public']['Tables']['media_items']['Row'];
+type ReviewLink = Database['public']['Tables']['review_links']['Row'];
+
+export type CardRevision = Database['public']['Tables']['card_revisions']['Row'];
+
+/**
+ * Card columns that are edited through a draft and snapshotted on publish
+ */
+export const DRAFT_FIELDS = [
+  'title',
+  'company',
+  'position',
+  'phone',
+  'email',
+  'website',
+  'avatar_url',
+  'bio',
+  'whatsapp',
+  'address',
+  'map_link',
+  'theme',
+  'shape',
+  'layout',
+  'slug',
+] as const;
+
+export type DraftField = typeof DRAFT_FIELDS[number];
+
+export type CardFields = Pick<BusinessCard, DraftField>;
+
+export const DRAFT_FIELD_LABELS: Record<DraftField, string> = {
+  title: 'Name',
+  company: 'Company',
+  position: 'Job title',
+  phone: 'Phone',
+  email: 'Email',
+  website: 'Website',
+  avatar_url: 'Photo',
+  bio: 'Bio',
+  whatsapp: 'WhatsApp',
+  address: 'Address',
+  map_link: 'Map link',
+  theme: 'Theme',
+  shape: 'Card shape',
+  layout: 'Layout',
+  slug: 'Card URL',
+};
+
+/**
+ * Lists that a draft can replace as a whole; publish_card swaps them onto the live card
+ */
+export const DRAFT_COLLECTIONS = ['social_links', 'media_items', 'review_links'] as const;
+
+export type DraftCollection = typeof DRAFT_COLLECTIONS[number];
+
+export interface DraftCollections {
+  social_links?: SocialLink[];
+  media_items?: MediaItem[];
+  review_links?: ReviewLink[];
+}
+
+export type CardDraftData = Partial<CardFields> & DraftCollections;
+
+export interface CardDraft {
+  data: CardDraftData;
+  updated_at: string;
+}
+
+export interface FieldChange {
+  field: DraftField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface CollectionChange {
+  label: string;
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+/**
+ * Pending edits for a card, or null when the live version is current
+ */
+export const fetchCardDraft = async (cardId: string): Promise<CardDraft | null> => {
+  const { data, error } = await supabase
+    .from('card_drafts')
+    .select('data, updated_at')
+    .eq('card_id', cardId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading card draft:', error);
+    return null;
+  }
+
+  return data ? { data: data.data as CardDraftData, updated_at: data.updated_at } : null;
+};
+
+/**
+ * The social link, media and review link lists staged in a draft
+ */
+export const getDraftCollections = (data: CardDraftData | null | undefined): DraftCollections =>
+  Object.fromEntries(
+    DRAFT_COLLECTIONS.filter((collection) => data?.[collection]).map((collection) => [collection, data?.[collection]])
+  );
+
+export const saveCardDraft = async (cardId: string, draftData: CardDraftData, userId: string) => {
+  const { data, error } = await supabase
+    .from('card_drafts')
+    .upsert({
+      card_id: cardId,
+      data: draftData as unknown as Json,
+      updated_by: userId,
+      updated_at: new Date().toISOString(),
+    })
+    .select('data, updated_at')
+    .single();
+
+  if (error) {
+    console.error('Error saving card draft:', error);
+    return { success: false, error };
+  }
+
+  return { success: true, draft: { data: data.data as CardDraftData, updated_at: data.updated_at } as CardDraft };
+};
+
+export const discardCardDraft = async (cardId: string) => {
+  const { error } = await supabase
+    .from('card_drafts')
+    .delete()
+    .eq('card_id', cardId);
+
+  if (error) {
+    console.error('Error discarding card draft:', error);
+    return { success: false, error };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Apply the draft to the live card and record a new revision
+ */
+export const publishCard = async (cardId: string, note: string | null = null) => {
+  const { data, error } = await supabase.rpc('publish_card', {
+    p_card_id: cardId,
+    p_note: note,
+  });
+
+  if (error) {
+    console.error('Error publishing card:', error);
+    return { success: false, error };
+  }
+
+  return { success: true, revision: data as CardRevision };
+};
+
+/**
+ * Write staged lists straight to the live card, for when a card is unpublished with a draft
+ */
+export const applyDraftCollections = async (cardId: string, collections: DraftCollections) => {
+  const { error } = await supabase.rpc('apply_card_collections', {
+    p_card_id: cardId,
+    p_collections: collections as unknown as Json,
+  });
+
+  if (error) {
+    console.error('Error applying draft lists:', error);
+    return { success: false, error };
+  }
+
+  return { success: true };
+};
+
+export const fetchCardRevisions = async (cardId: string): Promise<CardRevision[]> => {
+  const { data, error } = await supabase
+    .from('card_revisions')
+    .select('*')
+    .eq('card_id', cardId)
+    .order('revision_number', { ascending: false });
+
+  if (error) {
+    console.error('Error loading card revisions:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * Roll the live card, its social links, media and review links back to a revision
+ */
+export const restoreCardRevision = async (revisionId: string) => {
+  const { data, error } = await supabase.rpc('restore_card_revision', {
+    p_revision_id: revisionId,
+  });
+
+  if (error) {
+    console.error('Error restoring card revision:', error);
+    return { success: false, error };
+  }
+
+  return { success: true, revision: data as CardRevision };
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    // Themes carry a display name; anything else is shown as compact JSON
+    return typeof record.name === 'string' ? record.name : JSON.stringify(value);
+  }
+  return String(value);
+};
+
+// jsonb does not keep key order, so compare objects with sorted keys
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Field-by-field differences between two versions of a card
+ */
+export const diffCardFields = (before: Partial<CardFields>, after: Partial<CardFields>): FieldChange[] =>
+  DRAFT_FIELDS.filter(
+    // Empty form inputs and null columns are the same value
+    (field) => stableStringify(before[field] || null) !== stableStringify(after[field] || null)
+  ).map((field) => ({
+    field,
+    label: DRAFT_FIELD_LABELS[field],
+    before: formatValue(before[field]),
+    after: formatValue(after[field]),
+  }));
+
+type SnapshotItem = Record<string, unknown>;
+
+const describeItem = (item: SnapshotItem) =>
+  String(item.title || item.platform || item.url || item.review_url || item.id);
+
+const diffCollection = (label: string, before: Json, after: Json): CollectionChange => {
+  const beforeItems = (Array.isArray(before) ? before : []) as SnapshotItem[];
+  const afterItems = (Array.isArray(after) ? after : []) as SnapshotItem[];
+  const beforeById = new Map(beforeItems.map((item) => [item.id, item]));
+  const afterIds = new Set(afterItems.map((item) => item.id));
+
+  const ignored = ['created_at', 'updated_at', 'display_order'];
+  const comparable = (item: SnapshotItem) =>
+    stableStringify(Object.fromEntries(Object.entries(item).filter(([key]) => !ignored.includes(key))));
+
+  return {
+    label,
+    added: afterItems.filter((item) => !beforeById.has(item.id)).map(describeItem),
+    removed: beforeItems.filter((item) => !afterIds.has(item.id)).map(describeItem),
+    changed: afterItems
+      .filter((item) => {
+        const previous = beforeById.get(item.id);
+        return previous && comparable(previous) !== comparable(item);
+      })
+      .map(describeItem),
+  };
+};
+
+type CollectionSnapshot = Partial<Record<DraftCollection, Json | undefined>>;
+
+/**
+ * Social link, media and review link differences between two revisions, or between the
+ * latest revision and the draft
+ */
+export const diffRevisionCollections = (before: CollectionSnapshot, after: CollectionSnapshot): CollectionChange[] =>
+  [
+    diffCollection('Social links', before.social_links ?? [], after.social_links ?? before.social_links ?? []),
+    diffCollection('Media', before.media_items ?? [], after.media_items ?? before.media_items ?? []),
+    diffCollection('Review links', before.review_links ?? [], after.review_links ?? before.review_links ?? []),
+  ].filter((change) => change.added.length || change.removed.length || change.changed.length);
@@ -0,0 +1,87 @@
+/**
+ * Scheduled publishing and expiry windows for cards
+ */
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/supabase';
+
+type BusinessCard = Database['public']['Tables']['business_cards']['Row'];
+
+export type CardPublishState = 'draft' | 'scheduled' | 'live' | 'expired';
+
+export type CardSchedule = Pick<BusinessCard, 'is_published' | 'publish_at' | 'expire_at'>;
+
+export interface CardAvailability {
+  status: 'live' | 'scheduled' | 'expired' | 'locked' | 'organization' | 'not_found';
+  publish_at?: string;
+  expire_at?: string;
+}
+
+export const CARD_PUBLISH_STATE_LABELS: Record<CardPublishState, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  live: 'Published',
+  expired: 'Expired',
+};
+
+export const CARD_PUBLISH_STATE_STYLES: Record<CardPublishState, string> = {
+  draft: 'bg-gray-100 text-gray-600',
+  scheduled: 'bg-blue-100 text-blue-800',
+  live: 'bg-green-100 text-green-800',
+  expired: 'bg-amber-100 text-amber-800',
+};
+
+/**
+ * Where a card is in its publishing lifecycle; mirrors is_card_live() in the database
+ */
+export const getCardPublishState = (card: CardSchedule, now: Date = new Date()): CardPublishState => {
+  if (!card.is_published) return 'draft';
+  if (card.publish_at && new Date(card.publish_at) > now) return 'scheduled';
+  if (card.expire_at && new Date(card.expire_at) <= now) return 'expired';
+  return 'live';
+};
+
+/**
+ * Value for a datetime-local input, in the browser's time zone
+ */
+export const toDateTimeInputValue = (iso: string | null | undefined) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+/**
+ * ISO timestamp from a datetime-local input value, or null when empty
+ */
+export const fromDateTimeInputValue = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
+/**
+ * Return a message describing why the schedule is not allowed, or null when it is valid
+ */
+export const validateSchedule = (publishAt: string | null, expireAt: string | null): string | null => {
+  if (publishAt && expireAt && new Date(expireAt) <= new Date(publishAt)) {
+    return 'The unpublish time must be after the go-live time.';
+  }
+  return null;
+};
+
+const sameTime = (a: string | null, b: string | null) =>
+  (a ? new Date(a).getTime() : null) === (b ? new Date(b).getTime() : null);
+
+export const scheduleChanged = (card: CardSchedule, publishAt: string | null, expireAt: string | null) =>
+  !sameTime(card.publish_at, publishAt) || !sameTime(card.expire_at, expireAt);
+
+/**
+ * Ask the database why a slug is not publicly visible (scheduled, expired, protected or missing)
+ */
+export const fetchCardAvailability = async (slug: string): Promise<CardAvailability | null> => {
+  const { data, error } = await supabase.rpc('get_card_availability', { p_slug: slug });
+
+  if (error) {
+    console.error('Error checking card availability:', error);
+    return null;
+  }
+
+  return data as CardAvailability;
+};
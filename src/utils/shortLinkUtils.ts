@@ -0,0 +1,110 @@
+/**
+ * Short `/s/<code>` links to a card and the UTM parameters they tag visits with
+ */
+import { normalizeSlugInput, SLUG_MAX_LENGTH, SLUG_MIN_LENGTH } from './slugUtils';
+import type { Database } from '../lib/supabase';
+
+export type ShortLink = Database['public']['Tables']['short_links']['Row'];
+
+export const UTM_FIELDS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+export type UtmField = typeof UTM_FIELDS[number];
+
+export type UtmParams = Partial<Record<UtmField, string>>;
+
+export const UTM_FIELD_LABELS: Record<UtmField, string> = {
+  utm_source: 'Source',
+  utm_medium: 'Medium',
+  utm_campaign: 'Campaign',
+  utm_term: 'Term',
+  utm_content: 'Content',
+};
+
+export const UTM_FIELD_PLACEHOLDERS: Record<UtmField, string> = {
+  utm_source: 'linkedin',
+  utm_medium: 'social',
+  utm_campaign: 'spring-launch',
+  utm_term: 'optional',
+  utm_content: 'optional',
+};
+
+// Longest UTM value kept, matching what record_card_view stores
+const UTM_MAX_LENGTH = 200;
+
+export interface UtmPreset {
+  id: string;
+  label: string;
+  utm: UtmParams;
+}
+
+/**
+ * Common places a card link is shared, so source and medium are spelled the same every time
+ */
+export const UTM_PRESETS: UtmPreset[] = [
+  { id: 'email_signature', label: 'Email signature', utm: { utm_source: 'email', utm_medium: 'signature' } },
+  { id: 'newsletter', label: 'Newsletter', utm: { utm_source: 'newsletter', utm_medium: 'email' } },
+  { id: 'linkedin', label: 'LinkedIn', utm: { utm_source: 'linkedin', utm_medium: 'social' } },
+  { id: 'twitter', label: 'X (Twitter)', utm: { utm_source: 'twitter', utm_medium: 'social' } },
+  { id: 'facebook', label: 'Facebook', utm: { utm_source: 'facebook', utm_medium: 'social' } },
+  { id: 'instagram', label: 'Instagram bio', utm: { utm_source: 'instagram', utm_medium: 'social' } },
+  { id: 'sms', label: 'Text message', utm: { utm_source: 'sms', utm_medium: 'message' } },
+  { id: 'event', label: 'Event or trade show', utm: { utm_source: 'event', utm_medium: 'offline' } },
+];
+
+export const getShortLinkUrl = (code: string) => `${window.location.origin}/s/${code}`;
+
+/**
+ * Custom codes follow the card URL rules: lowercase letters, numbers and single hyphens
+ */
+export const normalizeShortCodeInput = (input: string) => normalizeSlugInput(input);
+
+/**
+ * Return a message describing why a custom code is not allowed, or null when it is valid
+ */
+export const validateShortCode = (code: string): string | null => {
+  if (code.length < SLUG_MIN_LENGTH) {
+    return `Use at least ${SLUG_MIN_LENGTH} characters`;
+  }
+  if (code.length > SLUG_MAX_LENGTH) {
+    return `Use at most ${SLUG_MAX_LENGTH} characters`;
+  }
+  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(code)) {
+    return 'Only lowercase letters, numbers and single hyphens; no hyphen at the start or end';
+  }
+  return null;
+};
+
+/**
+ * UTM parameters present in a query string, trimmed, with empty ones left out
+ */
+export const getUtmParams = (search: string | URLSearchParams = window.location.search): UtmParams => {
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search;
+  const utm: UtmParams = {};
+  UTM_FIELDS.forEach(field => {
+    const value = params.get(field)?.trim();
+    if (value) {
+      utm[field] = value.slice(0, UTM_MAX_LENGTH);
+    }
+  });
+  return utm;
+};
+
+/**
+ * Query string (without the `?`) for a link's UTM parameters
+ */
+export const buildUtmQuery = (utm: UtmParams) => {
+  const params = new URLSearchParams();
+  UTM_FIELDS.forEach(field => {
+    const value = utm[field]?.trim();
+    if (value) {
+      params.set(field, value);
+    }
+  });
+  return params.toString();
+};
+
+/**
+ * Short "source / medium / campaign" summary for lists
+ */
+export const describeUtm = (link: ShortLink) =>
+  [link.utm_source, link.utm_medium, link.utm_campaign].filter(Boolean).join(' / ');
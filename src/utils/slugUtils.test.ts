@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { SLUG_MAX_LENGTH, normalizeSlugInput, validateSlug } from './slugUtils';
+
+describe('normalizeSlugInput', () => {
+  it('lowercases and turns spaces and underscores into hyphens', () => {
+    expect(normalizeSlugInput('Jane Doe_Design')).toBe('jane-doe-design');
+  });
+
+  it('drops other characters and repeated or leading hyphens', () => {
+    expect(normalizeSlugInput('--Jörg & Co.--Studio')).toBe('jrg-co-studio');
+  });
+
+  it('cuts input at the maximum length', () => {
+    expect(normalizeSlugInput('a'.repeat(SLUG_MAX_LENGTH + 10))).toHaveLength(SLUG_MAX_LENGTH);
+  });
+});
+
+describe('validateSlug', () => {
+  it('accepts lowercase letters, numbers and single hyphens', () => {
+    expect(validateSlug('jane-doe-2')).toBeNull();
+  });
+
+  it('rejects slugs that are too short or too long', () => {
+    expect(validateSlug('ab')).toMatch(/at least/);
+    expect(validateSlug('a'.repeat(SLUG_MAX_LENGTH + 1))).toMatch(/at most/);
+  });
+
+  it('rejects hyphens at the ends and in pairs', () => {
+    expect(validateSlug('-jane')).not.toBeNull();
+    expect(validateSlug('jane-')).not.toBeNull();
+    expect(validateSlug('jane--doe')).not.toBeNull();
+  });
+
+  it('rejects reserved names', () => {
+    expect(validateSlug('admin')).toBe('This name is reserved');
+    expect(validateSlug('api')).not.toBeNull();
+  });
+});
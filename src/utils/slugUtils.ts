@@ -0,0 +1,79 @@
+/**
+ * Card URL slug validation, availability checks and old-slug redirects
+ */
+import { supabase } from '../lib/supabase';
+
+export const RESERVED_SLUGS = ['admin', 'admin-scc', 'c', 'api'];
+
+export const SLUG_MIN_LENGTH = 3;
+export const SLUG_MAX_LENGTH = 40;
+
+export type SlugStatus = 'idle' | 'checking' | 'available' | 'unchanged' | 'taken' | 'reserved' | 'invalid' | 'error';
+
+export interface SlugAvailability {
+  available: boolean;
+  reason?: 'invalid' | 'reserved' | 'taken';
+  suggestion?: string;
+}
+
+/**
+ * Lowercase input and keep only letters, numbers and single hyphens
+ */
+export const normalizeSlugInput = (input: string) =>
+  input
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-/, '')
+    .slice(0, SLUG_MAX_LENGTH);
+
+/**
+ * Return a message describing why the slug is not allowed, or null when the format is valid
+ */
+export const validateSlug = (slug: string): string | null => {
+  if (slug.length < SLUG_MIN_LENGTH) {
+    return `Use at least ${SLUG_MIN_LENGTH} characters`;
+  }
+  if (slug.length > SLUG_MAX_LENGTH) {
+    return `Use at most ${SLUG_MAX_LENGTH} characters`;
+  }
+  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug)) {
+    return 'Only lowercase letters, numbers and single hyphens; no hyphen at the start or end';
+  }
+  if (RESERVED_SLUGS.includes(slug)) {
+    return 'This name is reserved';
+  }
+  return null;
+};
+
+/**
+ * Ask the database whether a slug is free for this card (checks current and old slugs)
+ */
+export const checkSlugAvailability = async (slug: string, cardId: string | null = null): Promise<SlugAvailability | null> => {
+  const { data, error } = await supabase.rpc('check_slug_availability', {
+    p_slug: slug,
+    p_card_id: cardId,
+  });
+
+  if (error) {
+    console.error('Error checking slug availability:', error);
+    return null;
+  }
+
+  return data as SlugAvailability;
+};
+
+/**
+ * Current slug for a card that used to live at `slug`, or null
+ */
+export const resolveSlugRedirect = async (slug: string): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('resolve_card_slug', { p_slug: slug });
+
+  if (error) {
+    console.error('Error resolving slug redirect:', error);
+    return null;
+  }
+
+  return (data as string | null) || null;
+};
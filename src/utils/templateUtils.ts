@@ -0,0 +1,42 @@
+/**
+ * Card templates: a theme, layout and shape curated by admins, which a new card can start
+ * from and an existing card can switch to
+ */
+import { CARD_SHAPES, DEFAULT_LAYOUT, getCardTheme } from './themeUtils';
+import type { Database, Json } from '../lib/supabase';
+import type { CardLayout, CardTheme } from './themeUtils';
+
+export type CardTemplate = Database['public']['Tables']['card_templates']['Row'];
+
+export interface TemplateDesign {
+  theme: CardTheme;
+  layout: CardLayout;
+  shape: string;
+}
+
+/**
+ * A template's layout over the default one. The print and QR designs come along only
+ * when the template has them, so applying a template keeps a card's own otherwise.
+ */
+export const getTemplateLayout = (value: Json | null): CardLayout => {
+  const layout = (value && typeof value === 'object' && !Array.isArray(value))
+    ? value as Record<string, unknown>
+    : {};
+  const text = (key: 'style' | 'alignment' | 'font') =>
+    typeof layout[key] === 'string' && layout[key] ? layout[key] as string : DEFAULT_LAYOUT[key];
+
+  return {
+    style: text('style'),
+    alignment: text('alignment'),
+    font: text('font'),
+    ...(layout.print ? { print: layout.print as CardLayout['print'] } : {}),
+    ...(layout.qr ? { qr: layout.qr as CardLayout['qr'] } : {}),
+  };
+};
+
+export const getTemplateDesign = (template: Pick<CardTemplate, 'theme' | 'layout' | 'shape'>): TemplateDesign => ({
+  theme: getCardTheme(template.theme),
+  layout: getTemplateLayout(template.layout),
+  shape: CARD_SHAPES.some(shape => shape.value === template.shape) ? template.shape : 'rectangle',
+});
+
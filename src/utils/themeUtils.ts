@@ -0,0 +1,418 @@
+/**
+ * Card theme presets and design options shared by the editor and brand templates, and
+ * the resolution of a saved theme into the colors and styles a card is drawn with
+ */
+import type { CSSProperties } from 'react';
+import type { PrintDesign } from './printDesignUtils';
+import type { QRDesign } from './qrUtils';
+import type { Database } from '../lib/supabase';
+
+export type SavedTheme = Database['public']['Tables']['saved_themes']['Row'];
+
+export type ThemeBackgroundType = 'solid' | 'gradient' | 'image' | 'pattern';
+export type ThemePattern = 'dots' | 'grid' | 'stripes';
+export type ThemeButtonStyle = 'filled' | 'outline' | 'soft' | 'pill';
+export type ThemeRadius = 'none' | 'small' | 'medium' | 'large';
+export type ThemeShadow = 'none' | 'soft' | 'medium' | 'strong';
+// `auto` follows the visitor's system setting
+export type ThemeAppearance = 'light' | 'dark' | 'auto';
+
+/**
+ * The colors that differ between a theme's light and dark variants
+ */
+export type ThemeColors = {
+  primary: string;
+  secondary: string;
+  background: string;
+  text: string;
+  accent: string;
+  muted: string;
+  // Where a gradient background ends; it starts at `background`
+  gradient_to: string;
+};
+
+// A type alias rather than an interface so the theme can be saved as Json
+export type CardTheme = {
+  name: string;
+  primary: string;
+  secondary: string;
+  background: string;
+  text: string;
+  // Everything below is optional, so the presets and themes saved before the builder stay valid
+  accent?: string;
+  muted?: string;
+  background_type?: ThemeBackgroundType;
+  gradient_to?: string;
+  gradient_angle?: number;
+  background_image?: string;
+  pattern?: ThemePattern;
+  button_style?: ThemeButtonStyle;
+  // Unset keeps the corners and shadow that the card shape and layout style give
+  radius?: ThemeRadius;
+  shadow?: ThemeShadow;
+  appearance?: ThemeAppearance;
+  dark?: Partial<ThemeColors>;
+};
+
+/**
+ * A theme with every option filled in, as the card is drawn
+ */
+export interface ResolvedCardTheme extends ThemeColors {
+  name: string;
+  background_type: ThemeBackgroundType;
+  gradient_angle: number;
+  background_image: string;
+  pattern: ThemePattern;
+  button_style: ThemeButtonStyle;
+  radius: ThemeRadius | null;
+  shadow: ThemeShadow | null;
+  appearance: ThemeAppearance;
+  dark: ThemeColors;
+}
+
+export interface CardLayout {
+  style: string;
+  alignment: string;
+  font: string;
+  // Front and back of the printed card
+  print?: PrintDesign;
+  // Colors and styles of the card's QR code
+  qr?: QRDesign;
+}
+
+export const THEMES: CardTheme[] = [
+  { name: 'Ocean Blue', primary: '#3B82F6', secondary: '#1E40AF', background: '#FFFFFF', text: '#1F2937' },
+  { name: 'Forest Green', primary: '#10B981', secondary: '#047857', background: '#FFFFFF', text: '#1F2937' },
+  { name: 'Sunset Orange', primary: '#F59E0B', secondary: '#D97706', background: '#FFFFFF', text: '#1F2937' },
+  { name: 'Royal Purple', primary: '#8B5CF6', secondary: '#7C3AED', background: '#FFFFFF', text: '#1F2937' },
+  { name: 'Rose Pink', primary: '#EC4899', secondary: '#DB2777', background: '#FFFFFF', text: '#1F2937' },
+  { name: 'Dark Mode', primary: '#60A5FA', secondary: '#3B82F6', background: '#1F2937', text: '#F9FAFB' },
+  { name: 'Emerald', primary: '#059669', secondary: '#047857', background: '#FFFFFF', text: '#1F2937' },
+  { name: 'Indigo', primary: '#4F46E5', secondary: '#3730A3', background: '#FFFFFF', text: '#1F2937' },
+  { name: 'Teal', primary: '#0D9488', secondary: '#0F766E', background: '#FFFFFF', text: '#1F2937' },
+  { name: 'Amber', primary: '#D97706', secondary: '#B45309', background: '#FFFFFF', text: '#1F2937' },
+];
+
+export const THEME_BACKGROUND_TYPES: { value: ThemeBackgroundType; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'gradient', label: 'Gradient' },
+  { value: 'image', label: 'Image' },
+  { value: 'pattern', label: 'Pattern' },
+];
+
+export const THEME_PATTERNS: { value: ThemePattern; label: string }[] = [
+  { value: 'dots', label: 'Dots' },
+  { value: 'grid', label: 'Grid' },
+  { value: 'stripes', label: 'Stripes' },
+];
+
+export const THEME_BUTTON_STYLES: { value: ThemeButtonStyle; label: string }[] = [
+  { value: 'filled', label: 'Filled' },
+  { value: 'outline', label: 'Outline' },
+  { value: 'soft', label: 'Soft' },
+  { value: 'pill', label: 'Pill' },
+];
+
+export const THEME_RADII: { value: ThemeRadius; label: string; px: number }[] = [
+  { value: 'none', label: 'Square', px: 0 },
+  { value: 'small', label: 'Small', px: 8 },
+  { value: 'medium', label: 'Medium', px: 16 },
+  { value: 'large', label: 'Large', px: 28 },
+];
+
+export const THEME_SHADOWS: { value: ThemeShadow; label: string; css: string }[] = [
+  { value: 'none', label: 'None', css: 'none' },
+  { value: 'soft', label: 'Soft', css: '0 1px 3px rgba(0, 0, 0, 0.1), 0 1px 2px rgba(0, 0, 0, 0.06)' },
+  { value: 'medium', label: 'Medium', css: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -4px rgba(0, 0, 0, 0.1)' },
+  { value: 'strong', label: 'Strong', css: '0 25px 50px -12px rgba(0, 0, 0, 0.25)' },
+];
+
+export const THEME_APPEARANCES: { value: ThemeAppearance; label: string }[] = [
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'auto', label: 'Match device' },
+];
+
+export const GRADIENT_ANGLE_RANGE = { min: 0, max: 360 };
+
+// Dark variant colors a theme does not set itself; the brand colors carry over from light
+const DEFAULT_DARK_COLORS = { background: '#111827', text: '#F9FAFB', muted: '#9CA3AF', gradient_to: '#1F2937' };
+
+export const DEFAULT_LAYOUT: CardLayout = { style: 'modern', alignment: 'center', font: 'Inter' };
+
+export const CARD_SHAPES = [
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'rounded', label: 'Rounded' },
+  { value: 'circle', label: 'Circle' },
+];
+
+export const LAYOUT_STYLES = [
+  { value: 'modern', label: 'Modern' },
+  { value: 'classic', label: 'Classic' },
+  { value: 'minimal', label: 'Minimal' },
+  { value: 'creative', label: 'Creative' },
+];
+
+export const TEXT_ALIGNMENTS = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+];
+
+export const FONT_FAMILIES = [
+  { value: 'Inter', label: 'Inter' },
+  { value: 'Roboto', label: 'Roboto' },
+  { value: 'Open Sans', label: 'Open Sans' },
+  { value: 'Lato', label: 'Lato' },
+  { value: 'Montserrat', label: 'Montserrat' },
+  { value: 'Poppins', label: 'Poppins' },
+];
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const isHexColor = (value: string) => HEX_COLOR_PATTERN.test(value);
+
+/**
+ * Red, green and blue channels (0-255) of a #rgb or #rrggbb color
+ */
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const digits = hex.replace('#', '');
+  const full = digits.length === 3 ? digits.split('').map(d => d + d).join('') : digits;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+/**
+ * WCAG relative luminance, from 0 for black to 1 for white
+ */
+export const getRelativeLuminance = (hex: string) => {
+  const [r, g, b] = hexToRgb(hex).map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * WCAG contrast ratio between two colors, from 1 (none) to 21 (black on white)
+ */
+export const getContrastRatio = (first: string, second: string) => {
+  const [lighter, darker] = [getRelativeLuminance(first), getRelativeLuminance(second)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+/**
+ * Blend `from` toward `to`; an amount of 0 returns `from` and 1 returns `to`
+ */
+export const mixColors = (from: string, to: string, amount: number) => {
+  const start = hexToRgb(from);
+  const end = hexToRgb(to);
+  return '#' + start
+    .map((channel, i) => Math.round(channel + (end[i] - channel) * amount).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+};
+
+export const toRgba = (hex: string, alpha: number) => `rgba(${hexToRgb(hex).join(', ')}, ${alpha})`;
+
+/**
+ * White or near-black, whichever reads better on `background`
+ */
+export const getReadableTextColor = (background: string) =>
+  getContrastRatio(background, '#FFFFFF') >= getContrastRatio(background, '#111827') ? '#FFFFFF' : '#111827';
+
+const isOneOf = <T extends string>(options: { value: T }[], value: unknown): value is T =>
+  options.some(option => option.value === value);
+
+// #rgb is stored as #rrggbb so alpha suffixes like `primary + '50'` keep working
+const readColor = (value: unknown) =>
+  typeof value === 'string' && isHexColor(value)
+    ? '#' + hexToRgb(value).map(channel => channel.toString(16).padStart(2, '0')).join('').toUpperCase()
+    : undefined;
+
+/**
+ * A card's saved theme JSON as a CardTheme, dropping anything malformed. Missing base
+ * colors come from the first preset; the builder options stay unset.
+ */
+export const getCardTheme = (value: unknown): CardTheme => {
+  const source = (value && typeof value === 'object' && !Array.isArray(value))
+    ? value as Record<string, unknown>
+    : {};
+  const theme: CardTheme = {
+    name: typeof source.name === 'string' && source.name.trim() ? source.name : THEMES[0].name,
+    primary: readColor(source.primary) || THEMES[0].primary,
+    secondary: readColor(source.secondary) || THEMES[0].secondary,
+    background: readColor(source.background) || THEMES[0].background,
+    text: readColor(source.text) || THEMES[0].text,
+  };
+
+  const accent = readColor(source.accent);
+  if (accent) theme.accent = accent;
+  const muted = readColor(source.muted);
+  if (muted) theme.muted = muted;
+  if (isOneOf(THEME_BACKGROUND_TYPES, source.background_type)) theme.background_type = source.background_type;
+  const gradientTo = readColor(source.gradient_to);
+  if (gradientTo) theme.gradient_to = gradientTo;
+  if (typeof source.gradient_angle === 'number' && Number.isFinite(source.gradient_angle)) {
+    theme.gradient_angle = Math.min(GRADIENT_ANGLE_RANGE.max, Math.max(GRADIENT_ANGLE_RANGE.min, Math.round(source.gradient_angle)));
+  }
+  if (typeof source.background_image === 'string' && /^https?:\/\//i.test(source.background_image)) {
+    theme.background_image = source.background_image;
+  }
+  if (isOneOf(THEME_PATTERNS, source.pattern)) theme.pattern = source.pattern;
+  if (isOneOf(THEME_BUTTON_STYLES, source.button_style)) theme.button_style = source.button_style;
+  if (isOneOf(THEME_RADII, source.radius)) theme.radius = source.radius;
+  if (isOneOf(THEME_SHADOWS, source.shadow)) theme.shadow = source.shadow;
+  if (isOneOf(THEME_APPEARANCES, source.appearance)) theme.appearance = source.appearance;
+
+  if (source.dark && typeof source.dark === 'object' && !Array.isArray(source.dark)) {
+    const dark = source.dark as Record<string, unknown>;
+    const colors: Partial<ThemeColors> = {};
+    (['primary', 'secondary', 'background', 'text', 'accent', 'muted', 'gradient_to'] as const).forEach(key => {
+      const color = readColor(dark[key]);
+      if (color) colors[key] = color;
+    });
+    theme.dark = colors;
+  }
+
+  return theme;
+};
+
+/**
+ * Every option of a card's theme, with defaults that keep an older theme looking as it did
+ */
+export const resolveCardTheme = (value: unknown): ResolvedCardTheme => {
+  const theme = getCardTheme(value);
+  const accent = theme.accent || theme.secondary;
+  const dark = theme.dark || {};
+  const darkBackground = dark.background || DEFAULT_DARK_COLORS.background;
+  const darkText = dark.text || DEFAULT_DARK_COLORS.text;
+
+  return {
+    name: theme.name,
+    primary: theme.primary,
+    secondary: theme.secondary,
+    background: theme.background,
+    text: theme.text,
+    accent,
+    muted: theme.muted || mixColors(theme.text, theme.background, 0.35),
+    gradient_to: theme.gradient_to || theme.primary,
+    background_type: theme.background_type === 'image' && !theme.background_image
+      ? 'solid'
+      : theme.background_type || 'solid',
+    gradient_angle: theme.gradient_angle ?? 135,
+    background_image: theme.background_image || '',
+    pattern: theme.pattern || 'dots',
+    button_style: theme.button_style || 'filled',
+    radius: theme.radius || null,
+    shadow: theme.shadow || null,
+    appearance: theme.appearance || 'light',
+    dark: {
+      primary: dark.primary || theme.primary,
+      // The light secondary and default accent are usually a darker shade of the brand color,
+      // too dim on a dark card
+      secondary: dark.secondary || theme.primary,
+      background: darkBackground,
+      text: darkText,
+      accent: dark.accent || theme.accent || theme.primary,
+      muted: dark.muted || DEFAULT_DARK_COLORS.muted,
+      gradient_to: dark.gradient_to || DEFAULT_DARK_COLORS.gradient_to,
+    },
+  };
+};
+
+/**
+ * Whether a theme is drawn with its dark variant, given the device's color scheme
+ */
+export const isDarkTheme = (theme: ResolvedCardTheme, prefersDark: boolean) =>
+  theme.appearance === 'dark' || (theme.appearance === 'auto' && prefersDark);
+
+/**
+ * The light or dark colors of a theme
+ */
+export const getThemeColors = (theme: ResolvedCardTheme, dark: boolean): ThemeColors =>
+  dark
+    ? theme.dark
+    : {
+      primary: theme.primary,
+      secondary: theme.secondary,
+      background: theme.background,
+      text: theme.text,
+      accent: theme.accent,
+      muted: theme.muted,
+      gradient_to: theme.gradient_to,
+    };
+
+export const getThemeRadius = (theme: ResolvedCardTheme) =>
+  THEME_RADII.find(option => option.value === theme.radius)?.px;
+
+const getPatternStyle = (pattern: ThemePattern, color: string): CSSProperties => {
+  switch (pattern) {
+    case 'grid':
+      return {
+        backgroundImage: `linear-gradient(${color} 1px, transparent 1px), linear-gradient(90deg, ${color} 1px, transparent 1px)`,
+        backgroundSize: '20px 20px',
+      };
+    case 'stripes':
+      return {
+        backgroundImage: `linear-gradient(45deg, ${color} 25%, transparent 25%, transparent 50%, ${color} 50%, ${color} 75%, transparent 75%, transparent)`,
+        backgroundSize: '16px 16px',
+      };
+    default:
+      return {
+        backgroundImage: `radial-gradient(${color} 1.5px, transparent 1.5px)`,
+        backgroundSize: '16px 16px',
+      };
+  }
+};
+
+/**
+ * Background, text color, corners and shadow for the card's panels. Corners and shadow
+ * are only set when the theme chooses them, so the shape and layout classes apply otherwise.
+ */
+export const getThemeSurfaceStyle = (theme: ResolvedCardTheme, colors: ThemeColors): CSSProperties => {
+  const style: CSSProperties = { backgroundColor: colors.background, color: colors.text };
+
+  if (theme.background_type === 'gradient') {
+    style.backgroundImage = `linear-gradient(${theme.gradient_angle}deg, ${colors.background}, ${colors.gradient_to})`;
+  } else if (theme.background_type === 'image') {
+    // A wash of the background color keeps text readable over the photo
+    const wash = toRgba(colors.background, 0.8);
+    style.backgroundImage = `linear-gradient(${wash}, ${wash}), url("${theme.background_image.replace(/"/g, '%22')}")`;
+    style.backgroundSize = 'cover';
+    style.backgroundPosition = 'center';
+  } else if (theme.background_type === 'pattern') {
+    Object.assign(style, getPatternStyle(theme.pattern, toRgba(colors.primary, 0.12)));
+  }
+
+  const radius = getThemeRadius(theme);
+  if (radius !== undefined) style.borderRadius = radius;
+  const shadow = THEME_SHADOWS.find(option => option.value === theme.shadow);
+  if (shadow) style.boxShadow = shadow.css;
+
+  return style;
+};
+
+/**
+ * Colors, border and corners for a call-to-action button. The secondary button of a
+ * pair is drawn as an outline, or soft when the theme's buttons are already outlined.
+ */
+export const getThemeButtonStyle = (
+  theme: ResolvedCardTheme,
+  colors: ThemeColors,
+  emphasis: 'primary' | 'secondary' = 'primary'
+): CSSProperties => {
+  const buttonStyle = emphasis === 'primary'
+    ? theme.button_style
+    : theme.button_style === 'outline' ? 'soft' : 'outline';
+  const radius = theme.button_style === 'pill' ? 9999 : getThemeRadius(theme);
+  const style: CSSProperties = radius !== undefined ? { borderRadius: radius } : {};
+
+  switch (buttonStyle) {
+    case 'outline':
+      return { ...style, backgroundColor: 'transparent', color: colors.primary, border: `2px solid ${colors.primary}` };
+    case 'soft':
+      return { ...style, backgroundColor: toRgba(colors.primary, 0.15), color: colors.primary, border: '2px solid transparent' };
+    default:
+      return { ...style, backgroundColor: colors.primary, color: getReadableTextColor(colors.primary), border: `2px solid ${colors.primary}` };
+  }
+};
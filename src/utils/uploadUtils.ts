@@ -5,6 +5,22 @@ export interface UploadResult {
   error: string | null;
 }
 
+export const DEFAULT_MAX_UPLOAD_SIZE_MB = 5;
+
+/**
+ * Largest upload allowed, in MB, from the admin's max_file_size_mb setting
+ */
+export const getMaxUploadSizeMb = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('get_max_upload_size_mb');
+
+  if (error || typeof data !== 'number') {
+    if (error) console.error('Error loading upload size limit:', error);
+    return DEFAULT_MAX_UPLOAD_SIZE_MB;
+  }
+
+  return data;
+};
+
 export const uploadAvatar = async (file: File, userId: string): Promise<UploadResult> => {
   try {
     // Validate file type
@@ -16,12 +32,12 @@ export const uploadAvatar = async (file: File, userId: string): Promise<UploadRe
       };
     }
 
-    // Validate file size (5MB limit)
-    const maxSize = 5 * 1024 * 1024; // 5MB in bytes
-    if (file.size > maxSize) {
+    // Validate file size against the admin's limit (storage enforces the same one)
+    const maxSizeMb = await getMaxUploadSizeMb();
+    if (file.size > maxSizeMb * 1024 * 1024) {
       return {
         url: null,
-        error: 'File size must be less than 5MB'
+        error: `File size must be less than ${maxSizeMb}MB`
       };
     }
 
@@ -0,0 +1,233 @@
+/**
+ * vCard (.vcf) generation for "Save Contact"
+ */
+import type { Database } from '../lib/supabase';
+
+type BusinessCard = Database['public']['Tables']['business_cards']['Row'];
+type SocialLink = Database['public']['Tables']['social_links']['Row'];
+
+export type VCardVersion = '3.0' | '4.0';
+
+export type VCardSource = Pick<
+  BusinessCard,
+  'title' | 'company' | 'position' | 'phone' | 'whatsapp' | 'email' | 'website' | 'address' | 'avatar_url' | 'bio' | 'slug'
+>;
+
+export type VCardSocialLink = Pick<SocialLink, 'platform' | 'url' | 'is_active'>;
+
+export interface VCardPhoto {
+  data: string; // base64, no data: prefix
+  mimeType: string;
+}
+
+export interface VCardOptions {
+  version?: VCardVersion;
+  photo?: VCardPhoto | null;
+  cardUrl?: string;
+}
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+const MAX_PHOTO_BYTES = 512 * 1024;
+
+/**
+ * Escape a TEXT value (RFC 6350 section 3.4 / RFC 2426 section 4)
+ */
+export function escapeVCardText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r\n|\r|\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+}
+
+/**
+ * Fold a content line at 75 octets without splitting UTF-8 sequences
+ */
+export function foldVCardLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+}
+
+const stripLineBreaks = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+
+const normalizeUrl = (url: string) => (url.startsWith('http') ? url : `https://${url}`);
+
+const splitName = (fullName: string) => {
+  const parts = fullName.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return { given: parts[0], family: '' };
+  }
+  return { given: parts.slice(0, -1).join(' '), family: parts[parts.length - 1] };
+};
+
+const photoType = (mimeType: string) => mimeType.replace('image/', '').toUpperCase();
+
+/**
+ * Build a vCard 3.0 or 4.0 document from a business card and its social links
+ */
+export function generateVCard(
+  card: VCardSource,
+  socialLinks: VCardSocialLink[] = [],
+  options: VCardOptions = {}
+): string {
+  const version = options.version || '3.0';
+  const isV4 = version === '4.0';
+  const lines: string[] = [];
+  let itemCounter = 0;
+
+  // Apple's itemN.X-ABLabel grouping gives custom labels that Android also tolerates
+  const addLabeled = (property: string, value: string, label: string) => {
+    itemCounter += 1;
+    lines.push(`item${itemCounter}.${property}:${value}`);
+    lines.push(`item${itemCounter}.X-ABLabel:${escapeVCardText(label)}`);
+  };
+
+  const fullName = card.title?.trim() || card.company?.trim() || 'Contact';
+  const { given, family } = splitName(card.title?.trim() || '');
+
+  lines.push('BEGIN:VCARD');
+  lines.push(`VERSION:${version}`);
+  lines.push('PRODID:-//Digital Business Cards//vCard//EN');
+  lines.push(`FN:${escapeVCardText(fullName)}`);
+  lines.push(`N:${escapeVCardText(family)};${escapeVCardText(given)};;;`);
+
+  if (card.company) {
+    lines.push(`ORG:${escapeVCardText(card.company)}`);
+  }
+  if (card.position) {
+    lines.push(`TITLE:${escapeVCardText(card.position)}`);
+  }
+
+  if (card.phone) {
+    const phone = stripLineBreaks(card.phone);
+    lines.push(
+      isV4
+        ? `TEL;TYPE=cell,voice;VALUE=uri:tel:${phone.replace(/[^0-9+]/g, '')}`
+        : `TEL;TYPE=CELL,VOICE:${phone}`
+    );
+  }
+  if (card.whatsapp && card.whatsapp !== card.phone) {
+    const whatsapp = stripLineBreaks(card.whatsapp);
+    addLabeled(isV4 ? 'TEL;VALUE=uri' : 'TEL', isV4 ? `tel:${whatsapp.replace(/[^0-9+]/g, '')}` : whatsapp, 'WhatsApp');
+  }
+
+  if (card.email) {
+    lines.push(
+      isV4
+        ? `EMAIL;TYPE=work:${stripLineBreaks(card.email)}`
+        : `EMAIL;TYPE=INTERNET,WORK:${stripLineBreaks(card.email)}`
+    );
+  }
+
+  if (card.website) {
+    lines.push(`URL;TYPE=${isV4 ? 'work' : 'WORK'}:${stripLineBreaks(normalizeUrl(card.website))}`);
+  }
+  if (options.cardUrl) {
+    addLabeled('URL', stripLineBreaks(options.cardUrl), 'Digital Card');
+  }
+
+  if (card.address) {
+    // The whole address lives in the street component; it is free text in the editor
+    const adr = `;;${escapeVCardText(card.address)};;;;`;
+    lines.push(isV4 ? `ADR;TYPE=work:${adr}` : `ADR;TYPE=WORK:${adr}`);
+  }
+
+  socialLinks
+    .filter((link) => link.is_active && link.url)
+    .forEach((link) => {
+      const url = stripLineBreaks(normalizeUrl(link.url));
+      const type = link.platform.toLowerCase().replace(/[^a-z0-9]/g, '');
+      lines.push(`X-SOCIALPROFILE;TYPE=${type}:${url}`);
+      addLabeled('URL', url, link.platform);
+    });
+
+  if (card.bio) {
+    lines.push(`NOTE:${escapeVCardText(card.bio)}`);
+  }
+
+  if (options.photo) {
+    lines.push(
+      isV4
+        ? `PHOTO:data:${options.photo.mimeType};base64,${options.photo.data}`
+        : `PHOTO;ENCODING=b;TYPE=${photoType(options.photo.mimeType)}:${options.photo.data}`
+    );
+  }
+
+  lines.push(`REV:${new Date().toISOString().replace(/\.\d{3}/, '')}`);
+  lines.push('END:VCARD');
+
+  return lines.map(foldVCardLine).join(CRLF) + CRLF;
+}
+
+/**
+ * Fetch an image and return it base64-encoded for embedding as PHOTO
+ */
+export const fetchVCardPhoto = async (url: string): Promise<VCardPhoto | null> => {
+  try {
+    const response = await fetch(url, { mode: 'cors' });
+    if (!response.ok) return null;
+
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/') || blob.size > MAX_PHOTO_BYTES) {
+      return null;
+    }
+
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+
+    return { data: dataUrl.split(',')[1] || '', mimeType: blob.type };
+  } catch (error) {
+    console.error('Error fetching vCard photo:', error);
+    return null;
+  }
+};
+
+/**
+ * Generate the vCard (embedding the avatar when reachable) and trigger a download
+ */
+export const downloadVCard = async (
+  card: VCardSource,
+  socialLinks: VCardSocialLink[] = [],
+  options: Omit<VCardOptions, 'photo'> = {}
+) => {
+  try {
+    const photo = card.avatar_url ? await fetchVCardPhoto(card.avatar_url) : null;
+    const vcard = generateVCard(card, socialLinks, { ...options, photo });
+
+    const blob = new Blob([vcard], { type: 'text/vcard;charset=utf-8' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${card.slug || 'contact'}.vcf`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error exporting vCard:', error);
+    alert('Failed to save contact. Please try again.');
+  }
+};
@@ -0,0 +1,186 @@
+/**
+ * Card visibility modes and passcode unlocking
+ */
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/supabase';
+import { getSessionId } from './analyticsUtils';
+
+type BusinessCard = Database['public']['Tables']['business_cards']['Row'];
+type SocialLink = Database['public']['Tables']['social_links']['Row'];
+type MediaItemRow = Database['public']['Tables']['media_items']['Row'];
+type ReviewLinkRow = Database['public']['Tables']['review_links']['Row'];
+
+export const CARD_VISIBILITIES = ['public', 'unlisted', 'password', 'organization'] as const;
+
+export type CardVisibility = typeof CARD_VISIBILITIES[number];
+
+export const CARD_VISIBILITY_OPTIONS: Record<CardVisibility, { label: string; description: string }> = {
+  public: {
+    label: 'Public',
+    description: 'Anyone with the link can view it, and search engines may list it.',
+  },
+  unlisted: {
+    label: 'Unlisted',
+    description: 'Anyone with the link can view it, but search engines are asked not to list it.',
+  },
+  password: {
+    label: 'Passcode protected',
+    description: 'Visitors must enter a passcode before any card details are shown.',
+  },
+  organization: {
+    label: 'Organization only',
+    description: 'Only signed-in members of your organization can view it.',
+  },
+};
+
+export const PASSCODE_MIN_LENGTH = 6;
+
+const UNLOCK_TOKEN_STORAGE_PREFIX = 'card_unlock:';
+
+export interface UnlockedCard {
+  card: BusinessCard;
+  social_links: SocialLink[];
+  media_items: MediaItemRow[];
+  review_links: ReviewLinkRow[];
+}
+
+export type UnlockResult =
+  | { unlocked: true; content: UnlockedCard }
+  | { unlocked: false; reason: 'incorrect' | 'locked' | 'error' };
+
+interface StoredUnlockToken {
+  token: string;
+  expires_at: string;
+}
+
+export const getCardVisibility = (card: Pick<BusinessCard, 'visibility'>): CardVisibility =>
+  (CARD_VISIBILITIES as readonly string[]).includes(card.visibility)
+    ? (card.visibility as CardVisibility)
+    : 'public';
+
+/**
+ * Only public cards should be picked up by search engines
+ */
+export const isIndexable = (card: Pick<BusinessCard, 'visibility'>) => getCardVisibility(card) === 'public';
+
+/**
+ * Set, replace or (with an empty passcode) remove a card's passcode
+ */
+export const setCardPasscode = async (cardId: string, passcode: string | null) => {
+  const { error } = await supabase.rpc('set_card_passcode', {
+    p_card_id: cardId,
+    p_passcode: passcode,
+  });
+
+  if (error) {
+    console.error('Error setting card passcode:', error);
+    return { success: false, error };
+  }
+
+  return { success: true };
+};
+
+export const cardHasPasscode = async (cardId: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('card_has_passcode', { p_card_id: cardId });
+
+  if (error) {
+    console.error('Error checking card passcode:', error);
+    return false;
+  }
+
+  return !!data;
+};
+
+/**
+ * Check a passcode. A match returns the card and keeps a short-lived unlock token for this
+ * browser session (never the passcode), so reloads don't ask again.
+ */
+export const unlockCard = async (slug: string, passcode: string): Promise<UnlockResult> => {
+  const { data, error } = await supabase.rpc('unlock_card', {
+    p_slug: slug,
+    p_passcode: passcode,
+    p_session_id: getSessionId(),
+  });
+
+  if (error) {
+    console.error('Error unlocking card:', error);
+    return { unlocked: false, reason: 'error' };
+  }
+
+  const result = data as unknown as
+    | (UnlockedCard & { unlocked: true; unlock_token: string; expires_at: string })
+    | { unlocked: false; reason: 'incorrect' | 'locked' }
+    | null;
+
+  if (!result) return { unlocked: false, reason: 'incorrect' };
+  if (!result.unlocked) return result;
+
+  try {
+    const stored: StoredUnlockToken = { token: result.unlock_token, expires_at: result.expires_at };
+    sessionStorage.setItem(UNLOCK_TOKEN_STORAGE_PREFIX + slug, JSON.stringify(stored));
+  } catch {
+    // Private browsing without storage just asks again next time
+  }
+
+  return {
+    unlocked: true,
+    content: {
+      card: result.card,
+      social_links: result.social_links,
+      media_items: result.media_items,
+      review_links: result.review_links,
+    },
+  };
+};
+
+/**
+ * The unlock token saved earlier in this browser session, while it is still valid. Lead
+ * and booking forms on a passcode card send it along.
+ */
+export const getUnlockToken = (slug: string): string | null => {
+  let stored: StoredUnlockToken | null = null;
+  try {
+    stored = JSON.parse(sessionStorage.getItem(UNLOCK_TOKEN_STORAGE_PREFIX + slug) || 'null');
+  } catch {
+    stored = null;
+  }
+
+  return stored?.token && new Date(stored.expires_at) > new Date() ? stored.token : null;
+};
+
+/**
+ * Card content for the unlock token saved earlier in this browser session, or null
+ */
+export const openUnlockedCard = async (slug: string): Promise<UnlockedCard | null> => {
+  const token = getUnlockToken(slug);
+  if (!token) {
+    forgetUnlockToken(slug);
+    return null;
+  }
+
+  const { data, error } = await supabase.rpc('open_unlocked_card', {
+    p_slug: slug,
+    p_unlock_token: token,
+  });
+
+  if (error) {
+    console.error('Error opening unlocked card:', error);
+    return null;
+  }
+
+  if (!data) {
+    // Expired, or the owner changed the passcode
+    forgetUnlockToken(slug);
+    return null;
+  }
+
+  return data as unknown as UnlockedCard;
+};
+
+export const forgetUnlockToken = (slug: string) => {
+  try {
+    sessionStorage.removeItem(UNLOCK_TOKEN_STORAGE_PREFIX + slug);
+  } catch {
+    // Nothing stored
+  }
+};
@@ -0,0 +1,167 @@
+/**
+ * Outbound webhook endpoints, events and the delivery log
+ */
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/supabase';
+
+export type WebhookEndpoint = Database['public']['Tables']['webhook_endpoints']['Row'];
+export type WebhookDelivery = Database['public']['Tables']['webhook_deliveries']['Row'];
+
+export const WEBHOOK_EVENTS = ['card.published', 'card.viewed', 'lead.created', 'review_link.clicked'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  'card.published': 'A card goes live or a new version is published',
+  'card.viewed': 'Someone views a card (once per visitor session)',
+  'lead.created': 'A visitor shares their details through the exchange contact form',
+  'review_link.clicked': 'A visitor opens one of the card\'s review links',
+};
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export const WEBHOOK_DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: 'Pending',
+  succeeded: 'Delivered',
+  failed: 'Failed',
+};
+
+export const WEBHOOK_DELIVERY_STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export const getDeliveryStatus = (delivery: Pick<WebhookDelivery, 'status'>): WebhookDeliveryStatus =>
+  delivery.status === 'succeeded' || delivery.status === 'failed' ? delivery.status : 'pending';
+
+const ipv4InRange = (octets: number[], [base, bits]: [number[], number]) => {
+  const value = octets.reduce((total, octet) => total * 256 + octet, 0);
+  const start = base.reduce((total, octet) => total * 256 + octet, 0);
+  const size = 2 ** (32 - bits);
+  return value >= start && value < start + size;
+};
+
+// Loopback, private, link-local, CGNAT, benchmarking and multicast/reserved ranges
+const PRIVATE_IPV4_RANGES: [number[], number][] = [
+  [[0, 0, 0, 0], 8],
+  [[10, 0, 0, 0], 8],
+  [[100, 64, 0, 0], 10],
+  [[127, 0, 0, 0], 8],
+  [[169, 254, 0, 0], 16],
+  [[172, 16, 0, 0], 12],
+  [[192, 0, 0, 0], 24],
+  [[192, 168, 0, 0], 16],
+  [[198, 18, 0, 0], 15],
+  [[224, 0, 0, 0], 3],
+];
+
+/**
+ * Whether a URL hostname (as parsed by URL, which already expands numeric forms such as
+ * 2130706433) points at this machine or a private network rather than the public internet
+ */
+export const isPrivateWebhookHost = (hostname: string) => {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+
+  if (host.startsWith('[')) {
+    const address = host.slice(1, -1);
+    const first = parseInt(address.split(':')[0] || '0', 16);
+    return address === '::' || address === '::1'
+      || address.startsWith('::ffff:') || address.startsWith('64:ff9b::')
+      || (first & 0xfe00) === 0xfc00
+      || (first & 0xffc0) === 0xfe80
+      || (first & 0xff00) === 0xff00;
+  }
+
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host)) {
+    const octets = host.split('.').map(Number);
+    return PRIVATE_IPV4_RANGES.some(range => ipv4InRange(octets, range));
+  }
+
+  return host === 'localhost' || !host.includes('.')
+    || ['.localhost', '.local', '.internal'].some(suffix => host.endsWith(suffix));
+};
+
+/**
+ * Return a message describing why the URL can't receive webhooks, or null when it is valid.
+ * Private and loopback targets are only accepted when the server allows them for local
+ * testing (webhooks_allow_private_targets), matching the check the database makes on save.
+ */
+export const validateWebhookUrl = (url: string, allowPrivateTargets = false): string | null => {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return 'Use an http:// or https:// URL.';
+    }
+    if (!allowPrivateTargets && isPrivateWebhookHost(parsed.hostname)) {
+      return 'Webhooks are sent from our servers, so the URL must be reachable on the public internet. Local and private network addresses are not allowed.';
+    }
+    return null;
+  } catch {
+    return 'Enter a full URL, such as https://example.com/webhooks.';
+  }
+};
+
+/**
+ * Whether this deployment accepts localhost and private network webhook URLs (local testing)
+ */
+export const getWebhookPrivateTargetsAllowed = async () => {
+  const { data, error } = await supabase.rpc('webhook_private_targets_allowed');
+
+  if (error) {
+    console.error('Error loading webhook settings:', error);
+    return false;
+  }
+
+  return data === true;
+};
+
+/**
+ * Send a webhook.test event to an endpoint right away
+ */
+export const sendTestWebhook = async (endpointId: string) => {
+  const { data, error } = await supabase.rpc('send_test_webhook', { p_endpoint_id: endpointId });
+
+  if (error) {
+    console.error('Error sending test webhook:', error);
+    return { success: false, error };
+  }
+
+  return { success: true, delivery: data as WebhookDelivery };
+};
+
+/**
+ * Send a past delivery's payload again; receivers see the same event id
+ */
+export const replayWebhookDelivery = async (deliveryId: string) => {
+  const { data, error } = await supabase.rpc('replay_webhook_delivery', { p_delivery_id: deliveryId });
+
+  if (error) {
+    console.error('Error replaying webhook delivery:', error);
+    return { success: false, error };
+  }
+
+  return { success: true, delivery: data as WebhookDelivery };
+};
+
+export const rotateWebhookSecret = async (endpointId: string) => {
+  const { data, error } = await supabase.rpc('rotate_webhook_secret', { p_endpoint_id: endpointId });
+
+  if (error) {
+    console.error('Error rotating webhook secret:', error);
+    return { success: false, error };
+  }
+
+  return { success: true, secret: data as string };
+};
+
+/**
+ * Record responses and send the caller's due deliveries without waiting for the scheduler
+ */
+export const syncWebhookDeliveries = async () => {
+  const { error } = await supabase.rpc('sync_webhook_deliveries');
+
+  if (error) {
+    console.error('Error syncing webhook deliveries:', error);
+  }
+};
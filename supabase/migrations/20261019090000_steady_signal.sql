@@ -0,0 +1,98 @@
+/*
+  # Card Interaction Events
+
+  1. New Tables
+    - `card_events` - One row per visitor interaction on a public card
+      (views, social link clicks, contact taps, QR scans, vCard saves, shares)
+
+  2. Security
+    - Enable RLS on card_events
+    - Visitors (anon and authenticated) can insert events for published cards only
+    - Card owners can read events for their own cards
+
+  3. Notes
+    - `target` holds the platform name for social clicks and is null otherwise
+    - `session_id` is a per-tab id generated by the client, used for deduplication
+    - `country` and `city` are always set on insert from the geo headers Cloudflare adds in
+      front of the API (`cf-ipcountry`, `cf-ipcity`); values from the client are ignored, and
+      they stay null when the request carries none. Country is an ISO 3166 code
+*/
+
+-- Create card_events table
+CREATE TABLE IF NOT EXISTS card_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_id uuid REFERENCES business_cards(id) ON DELETE CASCADE NOT NULL,
+  event_type text NOT NULL CHECK (event_type IN (
+    'view',
+    'social_click',
+    'phone_click',
+    'email_click',
+    'website_click',
+    'whatsapp_click',
+    'map_click',
+    'qr_scan',
+    'vcard_save',
+    'share'
+  )),
+  target text,
+  session_id text,
+  referrer text,
+  user_agent text,
+  device_type text,
+  country text,
+  city text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_card_events_card_id ON card_events(card_id);
+CREATE INDEX IF NOT EXISTS idx_card_events_created_at ON card_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_card_events_card_type_created ON card_events(card_id, event_type, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE card_events ENABLE ROW LEVEL SECURITY;
+
+-- Card events policies
+CREATE POLICY "Anyone can record events for published cards"
+  ON card_events
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = card_events.card_id
+      AND business_cards.is_published = true
+    )
+  );
+
+CREATE POLICY "Users can read events for own cards"
+  ON card_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = card_events.card_id
+      AND business_cards.user_id = auth.uid()
+    )
+  );
+
+-- Visitor location from the API gateway's geo headers, for whichever function records the event.
+-- Cloudflare sets the cf-* headers itself, so they are the only ones trusted; values sent
+-- by the client are always replaced.
+CREATE OR REPLACE FUNCTION fill_card_event_location()
+RETURNS trigger AS $$
+DECLARE
+  headers jsonb := COALESCE(NULLIF(current_setting('request.headers', true), '')::jsonb, '{}'::jsonb);
+BEGIN
+  -- XX (unknown) and T1 (Tor) are not countries
+  NEW.country := NULLIF(NULLIF(NULLIF(upper(left(trim(COALESCE(headers->>'cf-ipcountry', '')), 2)), ''), 'XX'), 'T1');
+  NEW.city := NULLIF(left(trim(COALESCE(headers->>'cf-ipcity', '')), 100), '');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER fill_card_event_location
+  BEFORE INSERT ON card_events
+  FOR EACH ROW EXECUTE FUNCTION fill_card_event_location();
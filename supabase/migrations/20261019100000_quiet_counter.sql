@@ -0,0 +1,113 @@
+/*
+  # Atomic Server-Side View Counting
+
+  1. New Functions
+    - `is_bot_user_agent(text)` - Matches crawlers, link-preview fetchers and headless browsers
+    - `record_card_view(...)` - Records one card view in a single call:
+      - ignores known bots, judged by the request's User-Agent header when there is one
+      - refuses views without a session id
+      - deduplicates by session_id within a configurable window (card_views.session_id)
+      - increments business_cards.view_count atomically
+      - writes the card_views, card_analytics and card_events rows
+
+  2. Settings
+    - `view_dedupe_minutes` in system_settings (default 30) controls the dedup window
+
+  3. Security
+    - SECURITY DEFINER so anonymous visitors never update business_cards directly
+    - Only published cards can be counted
+*/
+
+-- Dedup window for repeated views from the same session
+INSERT INTO system_settings (key, value, description) VALUES
+  ('view_dedupe_minutes', '30', 'Minutes during which repeat views from one session count once')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_card_views_card_session ON card_views(card_id, session_id, viewed_at);
+
+-- Known bot / preview user agents
+CREATE OR REPLACE FUNCTION is_bot_user_agent(user_agent text)
+RETURNS boolean AS $$
+BEGIN
+  IF user_agent IS NULL OR btrim(user_agent) = '' THEN
+    RETURN true;
+  END IF;
+
+  RETURN user_agent ~* '(bot|crawl|spider|slurp|bingpreview|facebookexternalhit|embedly|quora link preview|outbrain|vkshare|w3c_validator|skypeuripreview|telegrambot|^whatsapp/|headless|phantomjs|lighthouse|pagespeed|curl/|wget/|python-requests|axios/|node-fetch|go-http-client)';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Record a card view atomically
+CREATE OR REPLACE FUNCTION record_card_view(
+  p_card_id uuid,
+  p_session_id text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL,
+  p_referrer text DEFAULT NULL,
+  p_device_type text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  dedupe_minutes integer;
+  new_view_count integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM business_cards
+    WHERE id = p_card_id AND is_published = true
+  ) THEN
+    RETURN jsonb_build_object('counted', false, 'reason', 'not_found');
+  END IF;
+
+  -- Judge the browser by the User-Agent header it sent, not the one it reports
+  p_user_agent := COALESCE(
+    NULLIF(current_setting('request.headers', true), '')::jsonb->>'user-agent',
+    p_user_agent
+  );
+
+  IF is_bot_user_agent(p_user_agent) THEN
+    RETURN jsonb_build_object('counted', false, 'reason', 'bot');
+  END IF;
+
+  -- Every visitor has a session id; without one repeat views could not be told apart
+  p_session_id := NULLIF(left(trim(COALESCE(p_session_id, '')), 100), '');
+  IF p_session_id IS NULL THEN
+    RETURN jsonb_build_object('counted', false, 'reason', 'invalid');
+  END IF;
+
+  dedupe_minutes := COALESCE(
+    (SELECT (value #>> '{}')::integer FROM system_settings WHERE key = 'view_dedupe_minutes'),
+    30
+  );
+
+  IF dedupe_minutes > 0 THEN
+    -- Serialize concurrent views from the same session so only one passes the check
+    PERFORM pg_advisory_xact_lock(hashtext(p_card_id::text || ':' || p_session_id));
+
+    IF EXISTS (
+      SELECT 1 FROM card_views
+      WHERE card_id = p_card_id
+      AND session_id = p_session_id
+      AND viewed_at > now() - make_interval(mins => dedupe_minutes)
+    ) THEN
+      RETURN jsonb_build_object('counted', false, 'reason', 'duplicate');
+    END IF;
+  END IF;
+
+  UPDATE business_cards
+  SET view_count = COALESCE(view_count, 0) + 1
+  WHERE id = p_card_id
+  RETURNING view_count INTO new_view_count;
+
+  INSERT INTO card_views (card_id, user_agent, referrer, device_type, session_id)
+  VALUES (p_card_id, p_user_agent, p_referrer, p_device_type, p_session_id);
+
+  INSERT INTO card_analytics (card_id, user_agent, referrer, device_type)
+  VALUES (p_card_id, p_user_agent, p_referrer, p_device_type);
+
+  INSERT INTO card_events (card_id, event_type, session_id, referrer, user_agent, device_type)
+  VALUES (p_card_id, 'view', p_session_id, p_referrer, p_user_agent, p_device_type);
+
+  RETURN jsonb_build_object('counted', true, 'view_count', new_view_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_card_view(uuid, text, text, text, text) TO anon, authenticated;
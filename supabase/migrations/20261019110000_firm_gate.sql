@@ -0,0 +1,141 @@
+/*
+  # Role-Based Admin Access
+
+  1. New Functions
+    - `is_admin()` - True when the signed-in user's profile has role 'admin'
+    - `protect_profile_role()` - Stops non-admins from changing or self-assigning roles
+
+  2. Security
+    - Admin policies on profiles, business_cards, social_links, card_analytics,
+      card_events, admin_audit_log and system_settings
+    - The admin dashboard now queries with the admin's own JWT, so the
+      service-role key is no longer needed in the browser
+
+  3. Notes
+    - Promote an account from the SQL editor:
+        UPDATE profiles SET role = 'admin' WHERE email = 'you@example.com';
+*/
+
+-- Role check used by every admin policy (SECURITY DEFINER avoids RLS recursion on profiles)
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+
+-- Users may edit their own profile, but never their role
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS trigger AS $$
+BEGIN
+  -- auth.uid() is null for the service role and the SQL editor
+  IF auth.uid() IS NULL OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'user';
+  ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only administrators can change profile roles';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_profiles_role ON profiles;
+CREATE TRIGGER protect_profiles_role
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_role();
+
+-- Profiles policies
+CREATE POLICY "Admins can read all profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can update all profiles"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can delete profiles"
+  ON profiles
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Business cards policies
+CREATE POLICY "Admins can read all cards"
+  ON business_cards
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can update all cards"
+  ON business_cards
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can delete all cards"
+  ON business_cards
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Read access to card content and analytics
+CREATE POLICY "Admins can read all social links"
+  ON social_links
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can read all analytics"
+  ON card_analytics
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can read all card events"
+  ON card_events
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Replace the service-role-only admin tables policies
+DROP POLICY IF EXISTS "Admin audit log read access" ON admin_audit_log;
+DROP POLICY IF EXISTS "Admin audit log insert access" ON admin_audit_log;
+DROP POLICY IF EXISTS "System settings read access" ON system_settings;
+DROP POLICY IF EXISTS "System settings write access" ON system_settings;
+
+CREATE POLICY "Admin audit log read access"
+  ON admin_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admin audit log insert access"
+  ON admin_audit_log
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "System settings read access"
+  ON system_settings
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "System settings write access"
+  ON system_settings
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
@@ -0,0 +1,428 @@
+/*
+  # Organizations and Shared Brand Templates
+
+  1. New Tables
+    - `organizations` - A company account with a brand template (theme, layout, shape,
+      logo and company fields) that member cards inherit
+    - `organization_members` - Owners, admins and members; rows start as email invites
+      and become active once the invited user signs in
+
+  2. Changes
+    - `business_cards.organization_id` links a card to its organization
+    - `business_cards.logo_url` carries the organization logo onto the card
+
+  3. Functions and Triggers
+    - `is_org_member(uuid)` / `is_org_manager(uuid)` - Membership checks used by policies
+    - `accept_organization_invites()` - Activates pending invites for the signed-in email
+      and attaches the user's existing cards
+    - `apply_organization_brand()` - Overwrites locked fields on member cards
+    - Brand changes on an organization are pushed to every member card
+    - Removing a member detaches their cards
+
+  4. Security
+    - Members read their organization and its roster
+    - Owners and admins manage the brand, the roster and every member card
+    - Nobody can change an organization's owner, so admins cannot take over deletion
+    - Invites start unbound; only `accept_organization_invites()` binds a user, and managers
+      can change nothing but a member's role
+    - Member cards keep their owner and organization when a manager edits them
+    - A user belongs to at most one organization
+*/
+
+-- Create organizations table
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  owner_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  theme jsonb,
+  layout jsonb,
+  shape text,
+  logo_url text,
+  company text,
+  website text,
+  address text,
+  locked_fields text[] DEFAULT ARRAY['theme', 'layout', 'shape', 'company']::text[] NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create organization_members table
+CREATE TABLE IF NOT EXISTS organization_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text DEFAULT 'member' NOT NULL CHECK (role IN ('owner', 'admin', 'member')),
+  status text DEFAULT 'invited' NOT NULL CHECK (status IN ('invited', 'active')),
+  invited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  joined_at timestamptz,
+  UNIQUE(organization_id, email)
+);
+
+-- Link cards to organizations
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_cards' AND column_name = 'organization_id'
+  ) THEN
+    ALTER TABLE business_cards ADD COLUMN organization_id uuid REFERENCES organizations(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_cards' AND column_name = 'logo_url'
+  ) THEN
+    ALTER TABLE business_cards ADD COLUMN logo_url text;
+  END IF;
+END $$;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_organizations_owner_id ON organizations(owner_id);
+CREATE INDEX IF NOT EXISTS idx_organization_members_org_id ON organization_members(organization_id);
+CREATE INDEX IF NOT EXISTS idx_organization_members_email ON organization_members(lower(email));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_members_single_org
+  ON organization_members(user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_business_cards_organization_id ON business_cards(organization_id);
+
+-- Enable Row Level Security
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+-- Membership checks (SECURITY DEFINER avoids RLS recursion on organization_members)
+CREATE OR REPLACE FUNCTION is_org_member(org_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = org_id
+    AND user_id = auth.uid()
+    AND status = 'active'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_org_manager(org_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = org_id
+    AND user_id = auth.uid()
+    AND status = 'active'
+    AND role IN ('owner', 'admin')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_org_member(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_org_manager(uuid) TO authenticated;
+
+-- Organizations policies
+CREATE POLICY "Members can read own organization"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid() OR is_org_member(id));
+
+CREATE POLICY "Users can create organizations"
+  ON organizations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Managers can update organization"
+  ON organizations
+  FOR UPDATE
+  TO authenticated
+  USING (is_org_manager(id))
+  WITH CHECK (is_org_manager(id));
+
+-- Managers change the name and brand; the owner stays fixed, since only the owner can delete
+REVOKE UPDATE ON organizations FROM anon, authenticated;
+GRANT UPDATE (name, theme, layout, shape, logo_url, company, website, address, locked_fields)
+  ON organizations TO authenticated;
+
+CREATE POLICY "Owners can delete organization"
+  ON organizations
+  FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+-- Organization members policies
+CREATE POLICY "Members can read organization roster"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (is_org_member(organization_id) OR user_id = auth.uid());
+
+CREATE POLICY "Managers can invite members"
+  ON organization_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_org_manager(organization_id)
+    AND role <> 'owner'
+    AND user_id IS NULL
+    AND status = 'invited'
+  );
+
+CREATE POLICY "Managers can update members"
+  ON organization_members
+  FOR UPDATE
+  TO authenticated
+  USING (is_org_manager(organization_id) AND role <> 'owner')
+  WITH CHECK (role <> 'owner');
+
+-- Managers only change roles; accept_organization_invites() binds user_id and status
+REVOKE UPDATE ON organization_members FROM anon, authenticated;
+GRANT UPDATE (role) ON organization_members TO authenticated;
+
+CREATE POLICY "Managers can remove members and members can leave"
+  ON organization_members
+  FOR DELETE
+  TO authenticated
+  USING (
+    role <> 'owner'
+    AND (is_org_manager(organization_id) OR user_id = auth.uid())
+  );
+
+-- Org-level access to member cards
+CREATE POLICY "Managers can read organization cards"
+  ON business_cards
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IS NOT NULL AND is_org_manager(organization_id));
+
+CREATE POLICY "Managers can update organization cards"
+  ON business_cards
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IS NOT NULL AND is_org_manager(organization_id))
+  WITH CHECK (
+    organization_id IS NOT NULL
+    AND is_org_manager(organization_id)
+    AND EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = business_cards.organization_id
+      AND organization_members.user_id = business_cards.user_id
+      AND organization_members.status = 'active'
+    )
+  );
+
+CREATE POLICY "Managers can manage organization social links"
+  ON social_links
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = social_links.card_id
+      AND business_cards.organization_id IS NOT NULL
+      AND is_org_manager(business_cards.organization_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = social_links.card_id
+      AND business_cards.organization_id IS NOT NULL
+      AND is_org_manager(business_cards.organization_id)
+    )
+  );
+
+CREATE POLICY "Managers can read organization card events"
+  ON card_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = card_events.card_id
+      AND business_cards.organization_id IS NOT NULL
+      AND is_org_manager(business_cards.organization_id)
+    )
+  );
+
+-- The creator becomes the owner member
+CREATE OR REPLACE FUNCTION add_organization_owner()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO organization_members (organization_id, user_id, email, role, status, joined_at)
+  SELECT NEW.id, NEW.owner_id, COALESCE(profiles.email, ''), 'owner', 'active', now()
+  FROM profiles
+  WHERE profiles.id = NEW.owner_id;
+
+  UPDATE business_cards
+  SET organization_id = NEW.id
+  WHERE user_id = NEW.owner_id
+  AND organization_id IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS add_organizations_owner ON organizations;
+CREATE TRIGGER add_organizations_owner
+  AFTER INSERT ON organizations
+  FOR EACH ROW EXECUTE FUNCTION add_organization_owner();
+
+-- Activate pending invites for the signed-in user's email
+CREATE OR REPLACE FUNCTION accept_organization_invites()
+RETURNS uuid AS $$
+DECLARE
+  current_email text;
+  joined_org uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Already in an organization
+  SELECT organization_id INTO joined_org
+  FROM organization_members
+  WHERE user_id = auth.uid();
+
+  IF joined_org IS NOT NULL THEN
+    RETURN joined_org;
+  END IF;
+
+  SELECT email INTO current_email FROM auth.users WHERE id = auth.uid();
+
+  -- Oldest invite wins; a user belongs to one organization
+  UPDATE organization_members
+  SET user_id = auth.uid(), status = 'active', joined_at = now()
+  WHERE id = (
+    SELECT id FROM organization_members
+    WHERE lower(email) = lower(current_email)
+    AND status = 'invited'
+    ORDER BY created_at
+    LIMIT 1
+  )
+  RETURNING organization_id INTO joined_org;
+
+  IF joined_org IS NOT NULL THEN
+    UPDATE business_cards
+    SET organization_id = joined_org
+    WHERE user_id = auth.uid()
+    AND organization_id IS NULL;
+  END IF;
+
+  RETURN joined_org;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION accept_organization_invites() TO authenticated;
+
+-- Apply the organization brand to member cards
+CREATE OR REPLACE FUNCTION apply_organization_brand()
+RETURNS trigger AS $$
+DECLARE
+  org organizations%ROWTYPE;
+BEGIN
+  -- Organization cards keep their owner; managers edit them but cannot take them over
+  IF TG_OP = 'UPDATE'
+    AND OLD.organization_id IS NOT NULL
+    AND NEW.user_id IS DISTINCT FROM OLD.user_id
+  THEN
+    NEW.user_id := OLD.user_id;
+  END IF;
+
+  -- Members cannot detach their own cards while they are still in the organization
+  IF TG_OP = 'UPDATE'
+    AND OLD.organization_id IS NOT NULL
+    AND NEW.organization_id IS DISTINCT FROM OLD.organization_id
+    AND EXISTS (SELECT 1 FROM organizations WHERE id = OLD.organization_id)
+    AND EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_id = OLD.organization_id
+      AND user_id = OLD.user_id
+      AND status = 'active'
+    )
+  THEN
+    NEW.organization_id := OLD.organization_id;
+  END IF;
+
+  IF NEW.organization_id IS NULL THEN
+    NEW.logo_url := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO org FROM organizations WHERE id = NEW.organization_id;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = NEW.organization_id
+    AND user_id = NEW.user_id
+    AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Card owner is not a member of this organization';
+  END IF;
+
+  NEW.logo_url := org.logo_url;
+
+  IF 'theme' = ANY(org.locked_fields) AND org.theme IS NOT NULL THEN
+    NEW.theme := org.theme;
+  END IF;
+  IF 'layout' = ANY(org.locked_fields) AND org.layout IS NOT NULL THEN
+    NEW.layout := org.layout;
+  END IF;
+  IF 'shape' = ANY(org.locked_fields) AND org.shape IS NOT NULL THEN
+    NEW.shape := org.shape;
+  END IF;
+  IF 'company' = ANY(org.locked_fields) AND org.company IS NOT NULL THEN
+    NEW.company := org.company;
+  END IF;
+  IF 'website' = ANY(org.locked_fields) AND org.website IS NOT NULL THEN
+    NEW.website := org.website;
+  END IF;
+  IF 'address' = ANY(org.locked_fields) AND org.address IS NOT NULL THEN
+    NEW.address := org.address;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS apply_business_cards_brand ON business_cards;
+CREATE TRIGGER apply_business_cards_brand
+  BEFORE INSERT OR UPDATE ON business_cards
+  FOR EACH ROW EXECUTE FUNCTION apply_organization_brand();
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Push brand changes to every member card (the BEFORE trigger re-applies the brand)
+CREATE OR REPLACE FUNCTION sync_organization_cards()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE business_cards
+  SET updated_at = now()
+  WHERE organization_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_organizations_cards ON organizations;
+CREATE TRIGGER sync_organizations_cards
+  AFTER UPDATE ON organizations
+  FOR EACH ROW EXECUTE FUNCTION sync_organization_cards();
+
+-- Detach cards when a member leaves or is removed
+CREATE OR REPLACE FUNCTION detach_member_cards()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.user_id IS NOT NULL THEN
+    UPDATE business_cards
+    SET organization_id = NULL
+    WHERE user_id = OLD.user_id
+    AND organization_id = OLD.organization_id;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS detach_organization_members_cards ON organization_members;
+CREATE TRIGGER detach_organization_members_cards
+  AFTER DELETE ON organization_members
+  FOR EACH ROW EXECUTE FUNCTION detach_member_cards();
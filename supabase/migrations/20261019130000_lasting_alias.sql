@@ -0,0 +1,228 @@
+/*
+  # Vanity Slugs with Redirect History
+
+  1. New Tables
+    - `slug_history` - Every slug a card has used before its current one, so printed
+      QR codes and shared links keep resolving after a rename
+
+  2. New Functions
+    - `is_reserved_slug(text)` - Route names that can never be card slugs
+    - `is_slug_taken(text, uuid)` - Checks current slugs, old slugs and reserved words
+    - `check_slug_availability(text, uuid)` - Format, reserved and availability check
+      with a suggested alternative, for the card editor
+    - `resolve_card_slug(text)` - Maps an old slug to the card's current slug
+    - `normalize_slug(text, integer)` - The editor's slug format rules, applied to every
+      slug a card is saved with
+
+  3. Changes
+    - `generate_unique_slug` and `set_card_slug` skip reserved words and slugs held in history
+    - Renaming a card's slug records the old one in slug_history
+
+  4. Security
+    - Enable RLS on slug_history; owners can read their cards' history
+    - History rows are written only by the trigger
+*/
+
+-- Create slug_history table
+CREATE TABLE IF NOT EXISTS slug_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_id uuid REFERENCES business_cards(id) ON DELETE CASCADE NOT NULL,
+  slug text UNIQUE NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_slug_history_card_id ON slug_history(card_id);
+
+-- Enable Row Level Security
+ALTER TABLE slug_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read slug history for own cards"
+  ON slug_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = slug_history.card_id
+      AND business_cards.user_id = auth.uid()
+    )
+  );
+
+-- Route names that would shadow app pages
+CREATE OR REPLACE FUNCTION is_reserved_slug(slug text)
+RETURNS boolean AS $$
+BEGIN
+  RETURN lower(slug) = ANY(ARRAY['admin', 'admin-scc', 'c', 'api']);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- The card editor's slug rules (slugUtils.normalizeSlugInput): lowercase letters, numbers
+-- and single hyphens, nothing at either end, at most max_length characters
+CREATE OR REPLACE FUNCTION normalize_slug(input_text text, max_length integer DEFAULT 40)
+RETURNS text AS $$
+  SELECT trim(both '-' from left(
+    trim(both '-' from regexp_replace(
+      regexp_replace(regexp_replace(lower(COALESCE(input_text, '')), '[\s_]+', '-', 'g'), '[^a-z0-9-]', '', 'g'),
+      '-{2,}', '-', 'g'
+    )),
+    max_length
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A slug is taken if another card uses it now, used it before, or it is reserved
+CREATE OR REPLACE FUNCTION is_slug_taken(p_slug text, p_card_id uuid DEFAULT NULL)
+RETURNS boolean AS $$
+BEGIN
+  RETURN is_reserved_slug(p_slug)
+    OR EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE slug = p_slug
+      AND id <> COALESCE(p_card_id, '00000000-0000-0000-0000-000000000000'::uuid)
+    )
+    OR EXISTS (
+      SELECT 1 FROM slug_history
+      WHERE slug = p_slug
+      AND card_id <> COALESCE(p_card_id, '00000000-0000-0000-0000-000000000000'::uuid)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Availability check for the card editor
+CREATE OR REPLACE FUNCTION check_slug_availability(p_slug text, p_card_id uuid DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  counter integer := 1;
+  suggestion text;
+BEGIN
+  IF p_slug IS NULL OR p_slug !~ '^[a-z0-9](?:[a-z0-9-]{1,38}[a-z0-9])$' OR p_slug LIKE '%--%' THEN
+    RETURN jsonb_build_object('available', false, 'reason', 'invalid');
+  END IF;
+
+  IF is_reserved_slug(p_slug) THEN
+    RETURN jsonb_build_object('available', false, 'reason', 'reserved');
+  END IF;
+
+  IF NOT is_slug_taken(p_slug, p_card_id) THEN
+    RETURN jsonb_build_object('available', true);
+  END IF;
+
+  suggestion := p_slug || '-' || counter;
+  WHILE is_slug_taken(suggestion, p_card_id) AND counter < 100 LOOP
+    counter := counter + 1;
+    suggestion := p_slug || '-' || counter;
+  END LOOP;
+
+  RETURN jsonb_build_object('available', false, 'reason', 'taken', 'suggestion', suggestion);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION check_slug_availability(text, uuid) TO authenticated;
+
+-- Old slug -> current slug for published cards
+CREATE OR REPLACE FUNCTION resolve_card_slug(p_slug text)
+RETURNS text AS $$
+  SELECT business_cards.slug
+  FROM slug_history
+  JOIN business_cards ON business_cards.id = slug_history.card_id
+  WHERE slug_history.slug = p_slug
+  AND business_cards.is_published = true;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION resolve_card_slug(text) TO anon, authenticated;
+
+-- Slug generation now respects history and reserved words
+CREATE OR REPLACE FUNCTION generate_unique_slug(input_text text, table_name text DEFAULT 'business_cards')
+RETURNS text AS $$
+DECLARE
+  base_slug text;
+  final_slug text;
+  counter integer := 0;
+  random_suffix text;
+BEGIN
+  -- Create base slug from input text
+  base_slug := lower(regexp_replace(COALESCE(input_text, ''), '[^a-zA-Z0-9]+', '-', 'g'));
+  -- Leave room for a suffix within the 40 character limit
+  base_slug := trim(both '-' from left(trim(both '-' from base_slug), 30));
+
+  -- If empty or too short, use random string
+  IF base_slug = '' OR length(base_slug) < 2 THEN
+    random_suffix := substr(gen_random_uuid()::text, 1, 8);
+    base_slug := 'card-' || random_suffix;
+  END IF;
+
+  final_slug := base_slug;
+
+  -- Check if slug exists and increment if needed
+  WHILE is_slug_taken(final_slug) LOOP
+    counter := counter + 1;
+    final_slug := base_slug || '-' || counter;
+
+    -- Prevent infinite loops
+    IF counter > 1000 THEN
+      random_suffix := substr(gen_random_uuid()::text, 1, 8);
+      final_slug := base_slug || '-' || random_suffix;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  RETURN final_slug;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION set_card_slug()
+RETURNS trigger AS $$
+BEGIN
+  -- Unchanged slugs stay as they are
+  IF TG_OP = 'UPDATE' AND NEW.slug IS NOT DISTINCT FROM OLD.slug AND NEW.slug <> '' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Slugs written straight through the API follow the same rules as the editor's
+  NEW.slug := normalize_slug(NEW.slug);
+  IF length(NEW.slug) < 3 THEN
+    NEW.slug := NULL;
+  END IF;
+
+  -- Always generate a new slug if one isn't provided or if it's empty
+  IF NEW.slug IS NULL OR NEW.slug = '' THEN
+    NEW.slug := generate_unique_slug(COALESCE(NEW.title, 'card'), 'business_cards');
+  ELSE
+    -- If a slug is provided, ensure it's unique
+    DECLARE
+      counter integer := 0;
+      base_slug text := NEW.slug;
+      test_slug text := NEW.slug;
+    BEGIN
+      WHILE is_slug_taken(test_slug, NEW.id) LOOP
+        counter := counter + 1;
+        test_slug := normalize_slug(base_slug, 39 - length(counter::text)) || '-' || counter;
+      END LOOP;
+      NEW.slug := test_slug;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keep the previous slug working after a rename
+CREATE OR REPLACE FUNCTION record_slug_change()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.slug IS NOT NULL AND OLD.slug <> '' AND OLD.slug IS DISTINCT FROM NEW.slug THEN
+    -- Switching back to an old slug takes it out of history
+    DELETE FROM slug_history WHERE slug = NEW.slug AND card_id = NEW.id;
+
+    INSERT INTO slug_history (card_id, slug)
+    VALUES (NEW.id, OLD.slug)
+    ON CONFLICT (slug) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_business_card_slug_change ON business_cards;
+CREATE TRIGGER record_business_card_slug_change
+  AFTER UPDATE OF slug ON business_cards
+  FOR EACH ROW EXECUTE FUNCTION record_slug_change();
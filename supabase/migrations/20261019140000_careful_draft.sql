@@ -0,0 +1,298 @@
+/*
+  # Draft / Published Versions and Revision History
+
+  1. New Tables
+    - `card_drafts` - Pending edits to a published card's fields, social links, media
+      and review links; the live rows only change when the owner publishes
+    - `card_revisions` - A snapshot of the card, social_links, media_items and
+      review_links taken on every publish
+
+  2. Changes
+    - `business_cards.published_at` - When the live version was last published
+
+  3. New Functions
+    - `apply_card_collections(uuid, jsonb)` - Replaces a card's social links, media and
+      review links with the lists in a draft or revision
+    - `publish_card(uuid, text)` - Applies the draft, marks the card published and
+      records a numbered revision
+    - `restore_card_revision(uuid)` - Rolls the live card and its links, media and
+      review links back to a revision, then records the rollback as a new revision
+
+  4. Security
+    - Enable RLS on both tables; drafts are private to the card owner (and org managers)
+      so unpublished edits never reach the public API
+    - Functions run as the caller, so the existing card policies still apply
+*/
+
+-- Create card_drafts table
+CREATE TABLE IF NOT EXISTS card_drafts (
+  card_id uuid PRIMARY KEY REFERENCES business_cards(id) ON DELETE CASCADE,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create card_revisions table
+CREATE TABLE IF NOT EXISTS card_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_id uuid REFERENCES business_cards(id) ON DELETE CASCADE NOT NULL,
+  revision_number integer NOT NULL,
+  card jsonb NOT NULL,
+  social_links jsonb DEFAULT '[]'::jsonb NOT NULL,
+  media_items jsonb DEFAULT '[]'::jsonb NOT NULL,
+  review_links jsonb DEFAULT '[]'::jsonb NOT NULL,
+  note text,
+  published_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(card_id, revision_number)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_cards' AND column_name = 'published_at'
+  ) THEN
+    ALTER TABLE business_cards ADD COLUMN published_at timestamptz;
+  END IF;
+END $$;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_card_revisions_card_id ON card_revisions(card_id, revision_number DESC);
+
+-- Enable Row Level Security
+ALTER TABLE card_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE card_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Card drafts policies
+CREATE POLICY "Users can manage drafts of own cards"
+  ON card_drafts
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = card_drafts.card_id
+      AND (
+        business_cards.user_id = auth.uid()
+        OR (business_cards.organization_id IS NOT NULL AND is_org_manager(business_cards.organization_id))
+      )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = card_drafts.card_id
+      AND (
+        business_cards.user_id = auth.uid()
+        OR (business_cards.organization_id IS NOT NULL AND is_org_manager(business_cards.organization_id))
+      )
+    )
+  );
+
+-- Card revisions policies
+CREATE POLICY "Users can read revisions of own cards"
+  ON card_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = card_revisions.card_id
+      AND (
+        business_cards.user_id = auth.uid()
+        OR (business_cards.organization_id IS NOT NULL AND is_org_manager(business_cards.organization_id))
+      )
+    )
+  );
+
+CREATE POLICY "Users can record revisions of own cards"
+  ON card_revisions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = card_revisions.card_id
+      AND (
+        business_cards.user_id = auth.uid()
+        OR (business_cards.organization_id IS NOT NULL AND is_org_manager(business_cards.organization_id))
+      )
+    )
+  );
+
+CREATE TRIGGER update_card_drafts_updated_at
+  BEFORE UPDATE ON card_drafts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Copy the editable card fields from a jsonb document onto the live row
+CREATE OR REPLACE FUNCTION apply_card_fields(p_card_id uuid, p_fields jsonb)
+RETURNS void AS $$
+DECLARE
+  src business_cards;
+BEGIN
+  -- Fields missing from the document keep their live values
+  SELECT * INTO src
+  FROM jsonb_populate_record(
+    NULL::business_cards,
+    (SELECT to_jsonb(bc) FROM business_cards bc WHERE bc.id = p_card_id) || p_fields
+  );
+
+  UPDATE business_cards
+  SET
+    title = src.title,
+    company = src.company,
+    position = src.position,
+    phone = src.phone,
+    email = src.email,
+    website = src.website,
+    avatar_url = src.avatar_url,
+    bio = src.bio,
+    whatsapp = src.whatsapp,
+    address = src.address,
+    map_link = src.map_link,
+    theme = src.theme,
+    shape = src.shape,
+    layout = src.layout,
+    -- A document without a slug never clears the card's URL
+    slug = COALESCE(src.slug, slug)
+  WHERE id = p_card_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replace the social links, media and review links present in a jsonb document; lists
+-- missing from it are left alone. Items always land on p_card_id, and columns an item
+-- leaves out get their defaults.
+CREATE OR REPLACE FUNCTION apply_card_collections(p_card_id uuid, p_collections jsonb)
+RETURNS void AS $$
+BEGIN
+  IF jsonb_typeof(p_collections->'social_links') = 'array' THEN
+    DELETE FROM social_links WHERE card_id = p_card_id;
+    INSERT INTO social_links
+    SELECT link.*
+    FROM jsonb_array_elements(p_collections->'social_links') WITH ORDINALITY AS item(data, position),
+    jsonb_populate_record(
+      NULL::social_links,
+      jsonb_build_object(
+        'id', gen_random_uuid(),
+        'display_order', item.position - 1,
+        'is_active', true,
+        'is_auto_synced', false,
+        'created_at', now()
+      ) || item.data || jsonb_build_object('card_id', p_card_id)
+    ) AS link;
+  END IF;
+
+  IF jsonb_typeof(p_collections->'media_items') = 'array' THEN
+    DELETE FROM media_items WHERE card_id = p_card_id;
+    INSERT INTO media_items
+    SELECT media.*
+    FROM jsonb_array_elements(p_collections->'media_items') WITH ORDINALITY AS item(data, position),
+    jsonb_populate_record(
+      NULL::media_items,
+      jsonb_build_object(
+        'id', gen_random_uuid(),
+        'display_order', item.position - 1,
+        'is_active', true,
+        'created_at', now(),
+        'updated_at', now()
+      ) || item.data || jsonb_build_object('card_id', p_card_id)
+    ) AS media;
+  END IF;
+
+  IF jsonb_typeof(p_collections->'review_links') = 'array' THEN
+    DELETE FROM review_links WHERE card_id = p_card_id;
+    INSERT INTO review_links
+    SELECT review.*
+    FROM jsonb_array_elements(p_collections->'review_links') AS item(data),
+    jsonb_populate_record(
+      NULL::review_links,
+      jsonb_build_object(
+        'id', gen_random_uuid(),
+        'is_active', true,
+        'created_at', now(),
+        'updated_at', now()
+      ) || item.data || jsonb_build_object('card_id', p_card_id)
+    ) AS review;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Publish the draft (if any) and snapshot the live card
+CREATE OR REPLACE FUNCTION publish_card(p_card_id uuid, p_note text DEFAULT NULL)
+RETURNS card_revisions AS $$
+DECLARE
+  draft_data jsonb;
+  next_number integer;
+  revision card_revisions;
+BEGIN
+  -- Lock the card so concurrent publishes get distinct revision numbers
+  PERFORM 1 FROM business_cards WHERE id = p_card_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Card not found';
+  END IF;
+
+  SELECT data INTO draft_data FROM card_drafts WHERE card_id = p_card_id;
+  IF draft_data IS NOT NULL THEN
+    PERFORM apply_card_fields(p_card_id, draft_data);
+    PERFORM apply_card_collections(p_card_id, draft_data);
+    DELETE FROM card_drafts WHERE card_id = p_card_id;
+  END IF;
+
+  UPDATE business_cards
+  SET is_published = true, published_at = now()
+  WHERE id = p_card_id;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO next_number
+  FROM card_revisions
+  WHERE card_id = p_card_id;
+
+  INSERT INTO card_revisions (card_id, revision_number, card, social_links, media_items, review_links, note, published_by)
+  SELECT
+    p_card_id,
+    next_number,
+    to_jsonb(bc) - 'view_count',
+    COALESCE((SELECT jsonb_agg(to_jsonb(sl) ORDER BY sl.display_order) FROM social_links sl WHERE sl.card_id = p_card_id), '[]'::jsonb),
+    COALESCE((SELECT jsonb_agg(to_jsonb(mi) ORDER BY mi.display_order) FROM media_items mi WHERE mi.card_id = p_card_id), '[]'::jsonb),
+    COALESCE((SELECT jsonb_agg(to_jsonb(rl) ORDER BY rl.created_at) FROM review_links rl WHERE rl.card_id = p_card_id), '[]'::jsonb),
+    p_note,
+    auth.uid()
+  FROM business_cards bc
+  WHERE bc.id = p_card_id
+  RETURNING * INTO revision;
+
+  RETURN revision;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Roll the live card back to a revision
+CREATE OR REPLACE FUNCTION restore_card_revision(p_revision_id uuid)
+RETURNS card_revisions AS $$
+DECLARE
+  source card_revisions;
+BEGIN
+  SELECT * INTO source FROM card_revisions WHERE id = p_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM apply_card_fields(source.card_id, source.card);
+  PERFORM apply_card_collections(
+    source.card_id,
+    jsonb_build_object(
+      'social_links', source.social_links,
+      'media_items', source.media_items,
+      'review_links', source.review_links
+    )
+  );
+
+  -- A pending draft would otherwise be published on top of the restored version
+  DELETE FROM card_drafts WHERE card_id = source.card_id;
+
+  RETURN publish_card(source.card_id, 'Restored revision ' || source.revision_number);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION apply_card_collections(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION publish_card(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_card_revision(uuid) TO authenticated;
@@ -0,0 +1,164 @@
+/*
+  # Scheduled Publishing and Card Expiry
+
+  1. Changes
+    - `business_cards.publish_at` - Optional time a published card goes live
+    - `business_cards.expire_at` - Optional time a published card stops being public
+    - A published card is live only inside its publish_at / expire_at window
+
+  2. New Functions
+    - `is_card_live(boolean, timestamptz, timestamptz)` - The live-window check shared by
+      policies and functions
+    - `get_card_availability(text)` - Tells the public page whether a slug belongs to a
+      card that is scheduled or has expired, without exposing its contents
+
+  3. Security
+    - The anonymous read policy on business_cards now requires the card to be live; the
+      social link, media, review and event policies follow because they look the card up
+      through that policy
+    - `record_card_view` only counts views of live cards
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_cards' AND column_name = 'publish_at'
+  ) THEN
+    ALTER TABLE business_cards ADD COLUMN publish_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_cards' AND column_name = 'expire_at'
+  ) THEN
+    ALTER TABLE business_cards ADD COLUMN expire_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'business_cards' AND constraint_name = 'business_cards_schedule_check'
+  ) THEN
+    ALTER TABLE business_cards
+      ADD CONSTRAINT business_cards_schedule_check
+      CHECK (publish_at IS NULL OR expire_at IS NULL OR expire_at > publish_at);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_business_cards_publish_at ON business_cards(publish_at) WHERE publish_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_business_cards_expire_at ON business_cards(expire_at) WHERE expire_at IS NOT NULL;
+
+-- Published and inside the optional schedule window
+CREATE OR REPLACE FUNCTION is_card_live(p_is_published boolean, p_publish_at timestamptz, p_expire_at timestamptz)
+RETURNS boolean AS $$
+  SELECT COALESCE(p_is_published, false)
+    AND (p_publish_at IS NULL OR p_publish_at <= now())
+    AND (p_expire_at IS NULL OR p_expire_at > now());
+$$ LANGUAGE sql STABLE;
+
+DROP POLICY IF EXISTS "Anyone can read published cards" ON business_cards;
+CREATE POLICY "Anyone can read published cards"
+  ON business_cards
+  FOR SELECT
+  TO anon
+  USING (is_card_live(is_published, publish_at, expire_at));
+
+-- Status of a card that the public page could not load
+CREATE OR REPLACE FUNCTION get_card_availability(p_slug text)
+RETURNS jsonb AS $$
+DECLARE
+  card_row business_cards;
+BEGIN
+  SELECT * INTO card_row FROM business_cards WHERE slug = p_slug;
+
+  IF NOT FOUND OR NOT card_row.is_published THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF card_row.publish_at IS NOT NULL AND card_row.publish_at > now() THEN
+    RETURN jsonb_build_object('status', 'scheduled', 'publish_at', card_row.publish_at);
+  END IF;
+
+  IF card_row.expire_at IS NOT NULL AND card_row.expire_at <= now() THEN
+    RETURN jsonb_build_object('status', 'expired', 'expire_at', card_row.expire_at);
+  END IF;
+
+  RETURN jsonb_build_object('status', 'live');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_card_availability(text) TO anon, authenticated;
+
+-- Views only count while the card is live
+CREATE OR REPLACE FUNCTION record_card_view(
+  p_card_id uuid,
+  p_session_id text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL,
+  p_referrer text DEFAULT NULL,
+  p_device_type text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  dedupe_minutes integer;
+  new_view_count integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM business_cards
+    WHERE id = p_card_id AND is_card_live(is_published, publish_at, expire_at)
+  ) THEN
+    RETURN jsonb_build_object('counted', false, 'reason', 'not_found');
+  END IF;
+
+  -- Judge the browser by the User-Agent header it sent, not the one it reports
+  p_user_agent := COALESCE(
+    NULLIF(current_setting('request.headers', true), '')::jsonb->>'user-agent',
+    p_user_agent
+  );
+
+  IF is_bot_user_agent(p_user_agent) THEN
+    RETURN jsonb_build_object('counted', false, 'reason', 'bot');
+  END IF;
+
+  -- Every visitor has a session id; without one repeat views could not be told apart
+  p_session_id := NULLIF(left(trim(COALESCE(p_session_id, '')), 100), '');
+  IF p_session_id IS NULL THEN
+    RETURN jsonb_build_object('counted', false, 'reason', 'invalid');
+  END IF;
+
+  dedupe_minutes := COALESCE(
+    (SELECT (value #>> '{}')::integer FROM system_settings WHERE key = 'view_dedupe_minutes'),
+    30
+  );
+
+  IF dedupe_minutes > 0 THEN
+    -- Serialize concurrent views from the same session so only one passes the check
+    PERFORM pg_advisory_xact_lock(hashtext(p_card_id::text || ':' || p_session_id));
+
+    IF EXISTS (
+      SELECT 1 FROM card_views
+      WHERE card_id = p_card_id
+      AND session_id = p_session_id
+      AND viewed_at > now() - make_interval(mins => dedupe_minutes)
+    ) THEN
+      RETURN jsonb_build_object('counted', false, 'reason', 'duplicate');
+    END IF;
+  END IF;
+
+  UPDATE business_cards
+  SET view_count = COALESCE(view_count, 0) + 1
+  WHERE id = p_card_id
+  RETURNING view_count INTO new_view_count;
+
+  INSERT INTO card_views (card_id, user_agent, referrer, device_type, session_id)
+  VALUES (p_card_id, p_user_agent, p_referrer, p_device_type, p_session_id);
+
+  INSERT INTO card_analytics (card_id, user_agent, referrer, device_type)
+  VALUES (p_card_id, p_user_agent, p_referrer, p_device_type);
+
+  INSERT INTO card_events (card_id, event_type, session_id, referrer, user_agent, device_type)
+  VALUES (p_card_id, 'view', p_session_id, p_referrer, p_user_agent, p_device_type);
+
+  RETURN jsonb_build_object('counted', true, 'view_count', new_view_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
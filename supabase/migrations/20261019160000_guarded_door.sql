@@ -0,0 +1,413 @@
+/*
+  # Card Visibility Modes
+
+  1. Changes
+    - `business_cards.visibility` - One of:
+      - `public` - Anyone with the link; search engines may index it
+      - `unlisted` - Anyone with the link; the page asks search engines not to index it
+      - `password` - Visitors must enter a passcode before any card data is returned
+      - `organization` - Only signed-in active members of the card's organization
+
+  2. New Tables
+    - `card_passcodes` - bcrypt hash of a card's passcode; no policies, so it is only
+      reachable through the functions below
+    - `card_unlock_attempts` - Wrong passcodes per card, session and IP, for the lockout
+    - `card_unlock_tokens` - Hashes of the short-lived tokens a correct passcode returns
+
+  3. New Functions
+    - `request_client_ip()` - The caller's IP from the API gateway's forwarded headers
+    - `set_card_passcode(uuid, text)` - Owner or org manager sets or clears the passcode
+    - `card_has_passcode(uuid)` - Whether a passcode is set, for the card editor
+    - `unlock_card(text, text, text)` - Returns the card with its social links, media and
+      review links, plus an unlock token, when the passcode matches. Too many wrong
+      passcodes from a session or IP, or for the card as a whole, lock it for a while
+    - `open_unlocked_card(text, text)` - The same card content for a valid unlock token, so
+      the page can reload without asking for (or storing) the passcode again
+    - `record_card_event(...)` - The only way visitors record card events; it checks the
+      card itself, so protected and organization-only cards are tracked too
+    - `get_card_availability(text)` - Now also reports `locked` and `organization` cards
+
+  4. Security
+    - Anonymous visitors can only read public and unlisted cards; social links, media,
+      review links and events follow because they look the card up through that policy
+    - Active organization members can read organization-only cards and their content
+    - Passcodes are at least 6 characters; unlock tokens last 12 hours
+    - Visitors no longer insert into card_events directly
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_cards' AND column_name = 'visibility'
+  ) THEN
+    ALTER TABLE business_cards
+      ADD COLUMN visibility text DEFAULT 'public' NOT NULL
+      CHECK (visibility IN ('public', 'unlisted', 'password', 'organization'));
+  END IF;
+END $$;
+
+-- Create card_passcodes table
+CREATE TABLE IF NOT EXISTS card_passcodes (
+  card_id uuid PRIMARY KEY REFERENCES business_cards(id) ON DELETE CASCADE,
+  passcode_hash text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create card_unlock_attempts table
+CREATE TABLE IF NOT EXISTS card_unlock_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_id uuid REFERENCES business_cards(id) ON DELETE CASCADE NOT NULL,
+  session_id text,
+  ip text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create card_unlock_tokens table
+CREATE TABLE IF NOT EXISTS card_unlock_tokens (
+  token_hash text PRIMARY KEY,
+  card_id uuid REFERENCES business_cards(id) ON DELETE CASCADE NOT NULL,
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_unlock_attempts_card ON card_unlock_attempts(card_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_card_unlock_tokens_card ON card_unlock_tokens(card_id, expires_at);
+
+-- Enable Row Level Security (no policies: hashes never leave the database)
+ALTER TABLE card_passcodes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE card_unlock_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE card_unlock_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Business cards policies
+DROP POLICY IF EXISTS "Anyone can read published cards" ON business_cards;
+CREATE POLICY "Anyone can read published cards"
+  ON business_cards
+  FOR SELECT
+  TO anon
+  USING (
+    is_card_live(is_published, publish_at, expire_at)
+    AND visibility IN ('public', 'unlisted')
+  );
+
+CREATE POLICY "Organization members can read organization cards"
+  ON business_cards
+  FOR SELECT
+  TO authenticated
+  USING (
+    visibility = 'organization'
+    AND is_card_live(is_published, publish_at, expire_at)
+    AND organization_id IS NOT NULL
+    AND is_org_member(organization_id)
+  );
+
+CREATE POLICY "Organization members can read organization card social links"
+  ON social_links
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = social_links.card_id
+      AND business_cards.visibility = 'organization'
+      AND is_card_live(business_cards.is_published, business_cards.publish_at, business_cards.expire_at)
+      AND business_cards.organization_id IS NOT NULL
+      AND is_org_member(business_cards.organization_id)
+    )
+  );
+
+CREATE POLICY "Organization members can read organization card media"
+  ON media_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_active = true AND
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = media_items.card_id
+      AND business_cards.visibility = 'organization'
+      AND is_card_live(business_cards.is_published, business_cards.publish_at, business_cards.expire_at)
+      AND business_cards.organization_id IS NOT NULL
+      AND is_org_member(business_cards.organization_id)
+    )
+  );
+
+CREATE POLICY "Organization members can read organization card review links"
+  ON review_links
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_active = true AND
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = review_links.card_id
+      AND business_cards.visibility = 'organization'
+      AND is_card_live(business_cards.is_published, business_cards.publish_at, business_cards.expire_at)
+      AND business_cards.organization_id IS NOT NULL
+      AND is_org_member(business_cards.organization_id)
+    )
+  );
+
+-- Owners and organization managers may change a card's passcode
+CREATE OR REPLACE FUNCTION can_manage_card(p_card_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM business_cards
+    WHERE id = p_card_id
+    AND (
+      user_id = auth.uid()
+      OR (organization_id IS NOT NULL AND is_org_manager(organization_id))
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_card_passcode(p_card_id uuid, p_passcode text)
+RETURNS boolean AS $$
+BEGIN
+  IF NOT can_manage_card(p_card_id) THEN
+    RAISE EXCEPTION 'Not allowed to change this card';
+  END IF;
+
+  IF p_passcode IS NULL OR p_passcode = '' THEN
+    DELETE FROM card_passcodes WHERE card_id = p_card_id;
+    RETURN false;
+  END IF;
+
+  IF length(p_passcode) < 6 THEN
+    RAISE EXCEPTION 'Passcode must be at least 6 characters';
+  END IF;
+
+  INSERT INTO card_passcodes (card_id, passcode_hash, updated_at)
+  VALUES (p_card_id, crypt(p_passcode, gen_salt('bf')), now())
+  ON CONFLICT (card_id) DO UPDATE
+  SET passcode_hash = EXCLUDED.passcode_hash, updated_at = now();
+
+  -- A new passcode signs out everyone who unlocked the card with the old one
+  DELETE FROM card_unlock_tokens WHERE card_id = p_card_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION card_has_passcode(p_card_id uuid)
+RETURNS boolean AS $$
+  SELECT can_manage_card(p_card_id)
+    AND EXISTS (SELECT 1 FROM card_passcodes WHERE card_id = p_card_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_card_passcode(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION card_has_passcode(uuid) TO authenticated;
+
+-- Caller IP as forwarded by the API gateway; null outside of an API request
+CREATE OR REPLACE FUNCTION request_client_ip()
+RETURNS text AS $$
+  SELECT NULLIF(trim(split_part(
+    COALESCE(
+      current_setting('request.headers', true)::jsonb->>'cf-connecting-ip',
+      current_setting('request.headers', true)::jsonb->>'x-forwarded-for',
+      current_setting('request.headers', true)::jsonb->>'x-real-ip',
+      ''
+    ),
+    ',',
+    1
+  )), '');
+$$ LANGUAGE sql STABLE;
+
+-- A password-protected card with its visible social links, media and review links
+CREATE OR REPLACE FUNCTION unlocked_card_content(card_row business_cards)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'card', to_jsonb(card_row),
+    'social_links', COALESCE((
+      SELECT jsonb_agg(to_jsonb(sl) ORDER BY sl.display_order)
+      FROM social_links sl
+      WHERE sl.card_id = card_row.id AND sl.is_active = true
+    ), '[]'::jsonb),
+    'media_items', COALESCE((
+      SELECT jsonb_agg(to_jsonb(mi) ORDER BY mi.display_order)
+      FROM media_items mi
+      WHERE mi.card_id = card_row.id AND mi.is_active = true
+    ), '[]'::jsonb),
+    'review_links', COALESCE((
+      SELECT jsonb_agg(to_jsonb(rl) ORDER BY rl.created_at DESC)
+      FROM review_links rl
+      WHERE rl.card_id = card_row.id AND rl.is_active = true
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Passcode check for password-protected cards. Returns null for unknown cards, a reason
+-- when the passcode is wrong or the card is locked out, and the card with an unlock
+-- token when it matches.
+CREATE OR REPLACE FUNCTION unlock_card(p_slug text, p_passcode text, p_session_id text DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  -- Wrong passcodes allowed per lockout window from one session, one IP and in total
+  session_limit CONSTANT integer := 5;
+  ip_limit CONSTANT integer := 10;
+  card_limit CONSTANT integer := 50;
+  lockout_window CONSTANT interval := interval '15 minutes';
+  card_row business_cards;
+  stored_hash text;
+  client_ip text := request_client_ip();
+  token text;
+  token_expires_at timestamptz := now() + interval '12 hours';
+BEGIN
+  SELECT * INTO card_row
+  FROM business_cards
+  WHERE slug = p_slug
+  AND visibility = 'password'
+  AND is_card_live(is_published, publish_at, expire_at);
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  p_session_id := NULLIF(left(p_session_id, 100), '');
+
+  -- Serialize attempts per card so concurrent guesses cannot slip past the limits
+  PERFORM pg_advisory_xact_lock(hashtext('unlock:' || card_row.id::text));
+
+  DELETE FROM card_unlock_attempts
+  WHERE card_id = card_row.id AND created_at <= now() - lockout_window;
+
+  IF (
+    SELECT count(*) FROM card_unlock_attempts WHERE card_id = card_row.id
+  ) >= card_limit
+  OR (
+    p_session_id IS NOT NULL
+    AND (SELECT count(*) FROM card_unlock_attempts WHERE card_id = card_row.id AND session_id = p_session_id) >= session_limit
+  )
+  OR (
+    client_ip IS NOT NULL
+    AND (SELECT count(*) FROM card_unlock_attempts WHERE card_id = card_row.id AND ip = client_ip) >= ip_limit
+  ) THEN
+    RETURN jsonb_build_object('unlocked', false, 'reason', 'locked');
+  END IF;
+
+  SELECT passcode_hash INTO stored_hash FROM card_passcodes WHERE card_id = card_row.id;
+
+  IF stored_hash IS NULL OR p_passcode IS NULL OR crypt(p_passcode, stored_hash) <> stored_hash THEN
+    INSERT INTO card_unlock_attempts (card_id, session_id, ip)
+    VALUES (card_row.id, p_session_id, client_ip);
+    RETURN jsonb_build_object('unlocked', false, 'reason', 'incorrect');
+  END IF;
+
+  DELETE FROM card_unlock_tokens WHERE card_id = card_row.id AND expires_at <= now();
+
+  token := encode(gen_random_bytes(32), 'hex');
+  INSERT INTO card_unlock_tokens (token_hash, card_id, expires_at)
+  VALUES (encode(digest(token, 'sha256'), 'hex'), card_row.id, token_expires_at);
+
+  RETURN unlocked_card_content(card_row) || jsonb_build_object(
+    'unlocked', true,
+    'unlock_token', token,
+    'expires_at', token_expires_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Card content for a token from unlock_card; null once the token expired or the
+-- passcode changed
+CREATE OR REPLACE FUNCTION open_unlocked_card(p_slug text, p_unlock_token text)
+RETURNS jsonb AS $$
+DECLARE
+  card_row business_cards;
+BEGIN
+  SELECT bc.* INTO card_row
+  FROM business_cards bc
+  JOIN card_unlock_tokens t ON t.card_id = bc.id
+  WHERE bc.slug = p_slug
+  AND bc.visibility = 'password'
+  AND is_card_live(bc.is_published, bc.publish_at, bc.expire_at)
+  AND t.token_hash = encode(digest(COALESCE(p_unlock_token, ''), 'sha256'), 'hex')
+  AND t.expires_at > now();
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN unlocked_card_content(card_row);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION unlocked_card_content(business_cards) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION unlock_card(text, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION open_unlocked_card(text, text) TO anon, authenticated;
+
+-- Visitor events go through a function that checks the card itself, because the insert
+-- policy only saw cards the visitor can read (not passcode or organization-only cards)
+DROP POLICY IF EXISTS "Anyone can record events for published cards" ON card_events;
+
+CREATE OR REPLACE FUNCTION record_card_event(
+  p_card_id uuid,
+  p_event_type text,
+  p_target text DEFAULT NULL,
+  p_session_id text DEFAULT NULL,
+  p_referrer text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL,
+  p_device_type text DEFAULT NULL
+)
+RETURNS boolean AS $$
+BEGIN
+  -- Views are only counted by record_card_view, which deduplicates them
+  IF p_event_type = 'view' THEN
+    RETURN false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM business_cards
+    WHERE id = p_card_id AND is_card_live(is_published, publish_at, expire_at)
+  ) OR is_bot_user_agent(p_user_agent) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO card_events (card_id, event_type, target, session_id, referrer, user_agent, device_type)
+  VALUES (
+    p_card_id,
+    p_event_type,
+    left(p_target, 200),
+    left(p_session_id, 100),
+    left(p_referrer, 2000),
+    left(p_user_agent, 500),
+    left(p_device_type, 20)
+  );
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_card_event(uuid, text, text, text, text, text, text) TO anon, authenticated;
+
+-- Status of a card that the public page could not load
+CREATE OR REPLACE FUNCTION get_card_availability(p_slug text)
+RETURNS jsonb AS $$
+DECLARE
+  card_row business_cards;
+BEGIN
+  SELECT * INTO card_row FROM business_cards WHERE slug = p_slug;
+
+  IF NOT FOUND OR NOT card_row.is_published THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF card_row.publish_at IS NOT NULL AND card_row.publish_at > now() THEN
+    RETURN jsonb_build_object('status', 'scheduled', 'publish_at', card_row.publish_at);
+  END IF;
+
+  IF card_row.expire_at IS NOT NULL AND card_row.expire_at <= now() THEN
+    RETURN jsonb_build_object('status', 'expired', 'expire_at', card_row.expire_at);
+  END IF;
+
+  IF card_row.visibility = 'password' THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF card_row.visibility = 'organization' THEN
+    RETURN jsonb_build_object('status', 'organization');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'live');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,361 @@
+/*
+  # Lead Capture and Notifications
+
+  1. Changes
+    - `business_cards.lead_capture_enabled` - Shows the "Exchange contact" form on the card
+    - `business_cards.lead_form_fields` - Extra fields the owner asks for, as
+      `[{ id, label, type: text | textarea | select, required, options }]`
+
+  2. New Tables
+    - `leads` - Contact details visitors leave on a card, with a status and private notes
+    - `notifications` - In-app notifications for a user (new leads for now)
+
+  3. New Functions
+    - `card_accepts_visitor(business_cards, text)` - Whether the caller may reach a card:
+      a valid unlock token for passcode cards, membership for organization-only cards
+    - `submit_lead(...)` - The only way visitors create leads: validates the form against
+      the card's configuration and visibility, and rate limits submissions per session,
+      per IP and per card
+    - `notify_new_lead()` - Notifies the card owner when a lead arrives
+
+  4. Security
+    - Enable RLS on both tables
+    - Card owners and organization managers read and work their cards' leads; admins can read all
+    - Users read and update their own notifications; notifications are only created by triggers
+    - Rate limits come from system_settings (`lead_session_limit_per_hour`,
+      `lead_ip_limit_per_hour`, `lead_card_limit_per_hour`); submissions without a
+      session id are refused
+    - Only a hash of the visitor's IP is kept on the lead
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_cards' AND column_name = 'lead_capture_enabled'
+  ) THEN
+    ALTER TABLE business_cards ADD COLUMN lead_capture_enabled boolean DEFAULT false NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_cards' AND column_name = 'lead_form_fields'
+  ) THEN
+    ALTER TABLE business_cards ADD COLUMN lead_form_fields jsonb DEFAULT '[]'::jsonb NOT NULL;
+  END IF;
+END $$;
+
+-- Create leads table
+CREATE TABLE IF NOT EXISTS leads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_id uuid REFERENCES business_cards(id) ON DELETE CASCADE NOT NULL,
+  owner_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  email text,
+  phone text,
+  company text,
+  note text,
+  custom_fields jsonb DEFAULT '{}'::jsonb NOT NULL,
+  status text DEFAULT 'new' NOT NULL CHECK (status IN ('new', 'contacted', 'qualified', 'won', 'lost')),
+  notes text,
+  source text DEFAULT 'link' NOT NULL CHECK (source IN ('link', 'qr', 'nfc')),
+  session_id text,
+  ip_hash text,
+  referrer text,
+  user_agent text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text,
+  metadata jsonb DEFAULT '{}'::jsonb NOT NULL,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_leads_card_id ON leads(card_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_owner_id ON leads(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_session ON leads(card_id, session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_leads_ip_hash ON leads(card_id, ip_hash, created_at);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Leads policies (inserts go through submit_lead)
+CREATE POLICY "Users can read leads for own cards"
+  ON leads
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = leads.card_id
+      AND (
+        business_cards.user_id = auth.uid()
+        OR (business_cards.organization_id IS NOT NULL AND is_org_manager(business_cards.organization_id))
+      )
+    )
+  );
+
+CREATE POLICY "Users can update leads for own cards"
+  ON leads
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = leads.card_id
+      AND (
+        business_cards.user_id = auth.uid()
+        OR (business_cards.organization_id IS NOT NULL AND is_org_manager(business_cards.organization_id))
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete leads for own cards"
+  ON leads
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = leads.card_id
+      AND (
+        business_cards.user_id = auth.uid()
+        OR (business_cards.organization_id IS NOT NULL AND is_org_manager(business_cards.organization_id))
+      )
+    )
+  );
+
+CREATE POLICY "Admins can read all leads"
+  ON leads
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Notifications policies
+CREATE POLICY "Users can read own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_leads_updated_at
+  BEFORE UPDATE ON leads
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Passcode and organization-only cards only take visitor input from people who can see them
+CREATE OR REPLACE FUNCTION card_accepts_visitor(card_row business_cards, p_unlock_token text)
+RETURNS boolean AS $$
+  SELECT CASE card_row.visibility
+    WHEN 'password' THEN EXISTS (
+      SELECT 1 FROM card_unlock_tokens
+      WHERE card_id = card_row.id
+      AND token_hash = encode(digest(COALESCE(p_unlock_token, ''), 'sha256'), 'hex')
+      AND expires_at > now()
+    )
+    WHEN 'organization' THEN card_row.organization_id IS NOT NULL AND is_org_member(card_row.organization_id)
+    ELSE true
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION card_accepts_visitor(business_cards, text) FROM PUBLIC, anon, authenticated;
+
+-- Visitor lead submission with validation and rate limiting
+CREATE OR REPLACE FUNCTION submit_lead(
+  p_card_id uuid,
+  p_name text,
+  p_email text DEFAULT NULL,
+  p_phone text DEFAULT NULL,
+  p_company text DEFAULT NULL,
+  p_note text DEFAULT NULL,
+  p_custom_fields jsonb DEFAULT '{}'::jsonb,
+  p_session_id text DEFAULT NULL,
+  p_source text DEFAULT 'link',
+  p_referrer text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL,
+  p_unlock_token text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  card_row business_cards;
+  field jsonb;
+  clean_fields jsonb;
+  session_limit integer;
+  ip_limit integer;
+  card_limit integer;
+  client_ip_hash text;
+BEGIN
+  SELECT * INTO card_row
+  FROM business_cards
+  WHERE id = p_card_id
+  AND lead_capture_enabled = true
+  AND is_card_live(is_published, publish_at, expire_at);
+
+  IF NOT FOUND OR NOT card_accepts_visitor(card_row, p_unlock_token) THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'not_found');
+  END IF;
+
+  -- Every visitor has a session id; without one the per-session limit would not apply
+  p_session_id := NULLIF(left(trim(COALESCE(p_session_id, '')), 100), '');
+  IF p_session_id IS NULL THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'invalid', 'message', 'Please reload the page and try again');
+  END IF;
+
+  p_name := left(trim(COALESCE(p_name, '')), 200);
+  p_email := NULLIF(left(trim(COALESCE(p_email, '')), 320), '');
+  p_phone := NULLIF(left(trim(COALESCE(p_phone, '')), 50), '');
+
+  IF p_name = '' OR (p_email IS NULL AND p_phone IS NULL) THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'invalid', 'message', 'Name and an email or phone number are required');
+  END IF;
+
+  IF p_email IS NOT NULL AND p_email !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'invalid', 'message', 'Email address is not valid');
+  END IF;
+
+  -- Keep only the fields this card asks for, and enforce required ones
+  clean_fields := '{}'::jsonb;
+  FOR field IN SELECT * FROM jsonb_array_elements(card_row.lead_form_fields) LOOP
+    IF COALESCE((field->>'required')::boolean, false)
+      AND COALESCE(trim(p_custom_fields->>(field->>'id')), '') = '' THEN
+      RETURN jsonb_build_object('accepted', false, 'reason', 'invalid', 'message', (field->>'label') || ' is required');
+    END IF;
+
+    IF COALESCE(trim(p_custom_fields->>(field->>'id')), '') <> '' THEN
+      clean_fields := clean_fields || jsonb_build_object(field->>'id', left(p_custom_fields->>(field->>'id'), 2000));
+    END IF;
+  END LOOP;
+
+  session_limit := COALESCE(
+    (SELECT (value #>> '{}')::integer FROM system_settings WHERE key = 'lead_session_limit_per_hour'),
+    3
+  );
+  ip_limit := COALESCE(
+    (SELECT (value #>> '{}')::integer FROM system_settings WHERE key = 'lead_ip_limit_per_hour'),
+    10
+  );
+  card_limit := COALESCE(
+    (SELECT (value #>> '{}')::integer FROM system_settings WHERE key = 'lead_card_limit_per_hour'),
+    30
+  );
+
+  -- Session ids come from the visitor and can be rotated; the IP cannot
+  client_ip_hash := encode(digest(request_client_ip(), 'sha256'), 'hex');
+
+  -- Serialize submissions per card so concurrent requests cannot slip past the limits
+  PERFORM pg_advisory_xact_lock(hashtext('lead:' || p_card_id::text));
+
+  IF (
+    SELECT count(*) FROM leads
+    WHERE card_id = p_card_id
+    AND session_id = p_session_id
+    AND created_at > now() - interval '1 hour'
+  ) >= session_limit THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'rate_limited');
+  END IF;
+
+  IF client_ip_hash IS NOT NULL AND (
+    SELECT count(*) FROM leads
+    WHERE card_id = p_card_id
+    AND ip_hash = client_ip_hash
+    AND created_at > now() - interval '1 hour'
+  ) >= ip_limit THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'rate_limited');
+  END IF;
+
+  IF (
+    SELECT count(*) FROM leads
+    WHERE card_id = p_card_id
+    AND created_at > now() - interval '1 hour'
+  ) >= card_limit THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'rate_limited');
+  END IF;
+
+  INSERT INTO leads (card_id, owner_id, name, email, phone, company, note, custom_fields, source, session_id, ip_hash, referrer, user_agent)
+  VALUES (
+    p_card_id,
+    card_row.user_id,
+    p_name,
+    p_email,
+    p_phone,
+    NULLIF(left(trim(COALESCE(p_company, '')), 200), ''),
+    NULLIF(left(trim(COALESCE(p_note, '')), 2000), ''),
+    clean_fields,
+    CASE WHEN p_source IN ('link', 'qr', 'nfc') THEN p_source ELSE 'link' END,
+    p_session_id,
+    client_ip_hash,
+    p_referrer,
+    p_user_agent
+  );
+
+  RETURN jsonb_build_object('accepted', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION submit_lead(uuid, text, text, text, text, text, jsonb, text, text, text, text, text) TO anon, authenticated;
+
+-- Tell the card owner about a new lead
+CREATE OR REPLACE FUNCTION notify_new_lead()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.owner_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, body, metadata)
+    SELECT
+      NEW.owner_id,
+      'lead.created',
+      'New lead from ' || NEW.name,
+      'Left their details on ' || COALESCE(NULLIF(business_cards.title, ''), 'your card'),
+      jsonb_build_object('lead_id', NEW.id, 'card_id', NEW.card_id)
+    FROM business_cards
+    WHERE business_cards.id = NEW.card_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_on_new_lead ON leads;
+CREATE TRIGGER notify_on_new_lead
+  AFTER INSERT ON leads
+  FOR EACH ROW EXECUTE FUNCTION notify_new_lead();
+
+-- Push new notifications to open dashboards
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'notifications'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
+
+-- Default rate limits
+INSERT INTO system_settings (key, value, description) VALUES
+  ('lead_session_limit_per_hour', '3', 'Lead form submissions allowed per visitor session and card each hour'),
+  ('lead_ip_limit_per_hour', '10', 'Lead form submissions allowed per visitor IP address and card each hour'),
+  ('lead_card_limit_per_hour', '30', 'Lead form submissions a single card accepts each hour')
+ON CONFLICT (key) DO NOTHING;
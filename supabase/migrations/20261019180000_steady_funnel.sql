@@ -0,0 +1,184 @@
+/*
+  # Lead Pipeline, Notes Timeline and Follow-up Reminders
+
+  1. New Tables
+    - `lead_notes` - Timeline entries for a lead: notes written by the team (`note`) and
+      automatic entries when the lead moves stage (`stage`)
+    - `lead_reminders` - Follow-ups with a due date, completed when done
+
+  2. Changes
+    - The single `leads.notes` text is moved into `lead_notes` and the column dropped
+
+  3. New Functions
+    - `log_lead_stage_change()` - Adds a timeline entry whenever a lead's status changes
+    - `notify_due_lead_reminders()` - Creates a notification for each of the caller's
+      reminders that has come due; the dashboard calls it when it loads notifications
+
+  4. Security
+    - Enable RLS on both tables
+    - Whoever can see a lead (card owner, organization managers) can read and add to its
+      timeline and reminders; notes can only be edited or deleted by their author
+*/
+
+-- Create lead_notes table
+CREATE TABLE IF NOT EXISTS lead_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid REFERENCES leads(id) ON DELETE CASCADE NOT NULL,
+  author_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  kind text DEFAULT 'note' NOT NULL CHECK (kind IN ('note', 'stage')),
+  body text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create lead_reminders table
+CREATE TABLE IF NOT EXISTS lead_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid REFERENCES leads(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  due_at timestamptz NOT NULL,
+  note text,
+  completed_at timestamptz,
+  notified_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_lead_notes_lead_id ON lead_notes(lead_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_reminders_lead_id ON lead_reminders(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_reminders_due ON lead_reminders(user_id, due_at) WHERE completed_at IS NULL;
+
+-- Move existing notes into the timeline
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'notes'
+  ) THEN
+    INSERT INTO lead_notes (lead_id, author_id, kind, body, created_at)
+    SELECT id, owner_id, 'note', notes, updated_at
+    FROM leads
+    WHERE notes IS NOT NULL AND trim(notes) <> '';
+
+    ALTER TABLE leads DROP COLUMN notes;
+  END IF;
+END $$;
+
+-- Enable Row Level Security
+ALTER TABLE lead_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Lead notes policies (the leads policies decide who can see the lead)
+CREATE POLICY "Users can read notes on visible leads"
+  ON lead_notes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_notes.lead_id)
+  );
+
+CREATE POLICY "Users can add notes to visible leads"
+  ON lead_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND kind = 'note'
+    AND EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_notes.lead_id)
+  );
+
+CREATE POLICY "Users can update own notes"
+  ON lead_notes
+  FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid() AND kind = 'note');
+
+CREATE POLICY "Users can delete own notes"
+  ON lead_notes
+  FOR DELETE
+  TO authenticated
+  USING (author_id = auth.uid() AND kind = 'note');
+
+-- Lead reminders policies
+CREATE POLICY "Users can read reminders on visible leads"
+  ON lead_reminders
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_reminders.lead_id)
+  );
+
+CREATE POLICY "Users can add reminders to visible leads"
+  ON lead_reminders
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_reminders.lead_id)
+  );
+
+CREATE POLICY "Users can update reminders on visible leads"
+  ON lead_reminders
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_reminders.lead_id)
+  );
+
+CREATE POLICY "Users can delete reminders on visible leads"
+  ON lead_reminders
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_reminders.lead_id)
+  );
+
+-- Record stage moves on the lead's timeline
+CREATE OR REPLACE FUNCTION log_lead_stage_change()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO lead_notes (lead_id, author_id, kind, body)
+    VALUES (NEW.id, auth.uid(), 'stage', NEW.status);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_lead_stage ON leads;
+CREATE TRIGGER log_lead_stage
+  AFTER UPDATE OF status ON leads
+  FOR EACH ROW EXECUTE FUNCTION log_lead_stage_change();
+
+-- Notify the caller about reminders that have come due, once each
+CREATE OR REPLACE FUNCTION notify_due_lead_reminders()
+RETURNS integer AS $$
+DECLARE
+  notified_count integer;
+BEGIN
+  WITH due AS (
+    UPDATE lead_reminders
+    SET notified_at = now()
+    WHERE user_id = auth.uid()
+    AND completed_at IS NULL
+    AND notified_at IS NULL
+    AND due_at <= now()
+    RETURNING id, lead_id, note
+  )
+  INSERT INTO notifications (user_id, type, title, body, metadata)
+  SELECT
+    auth.uid(),
+    'lead.reminder',
+    'Follow up with ' || leads.name,
+    due.note,
+    jsonb_build_object('lead_id', due.lead_id, 'reminder_id', due.id)
+  FROM due
+  JOIN leads ON leads.id = due.lead_id;
+
+  GET DIAGNOSTICS notified_count = ROW_COUNT;
+  RETURN notified_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notify_due_lead_reminders() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION notify_due_lead_reminders() TO authenticated;
@@ -0,0 +1,573 @@
+/*
+  # Outbound Webhooks
+
+  1. New Tables
+    - `webhook_endpoints` - URLs that receive events, either for one card (`card_id`) or for
+      every card the user owns (`card_id` null), with the events they subscribe to and the
+      secret used to sign deliveries
+    - `webhook_deliveries` - One row per event sent to an endpoint: payload, attempts,
+      last response and when the next retry is due
+
+  2. Events
+    - `card.published` - A card goes live, or a new version of it is published
+    - `card.viewed` - A counted view (deduplicated per session by record_card_view)
+    - `lead.created` - A visitor submits the exchange contact form
+    - `review_link.clicked` - A visitor opens one of the card's review links
+      (new `review_click` card event)
+    - `webhook.test` - Sent on demand from the dashboard
+
+  3. Delivery
+    - Requests are sent with pg_net as a JSON POST with these headers:
+      - `X-Webhook-Id` - Delivery id, unique per attempt series (replays get a new one)
+      - `X-Webhook-Event` - Event type
+      - `X-Webhook-Signature` - `t=<unix time>,v1=<hex HMAC-SHA256 of "<t>.<body>" with the secret>`
+    - Any 2xx response succeeds; anything else is retried after 1, 2, 4, 8 and 16 minutes
+      before the delivery is marked failed
+    - `process_webhook_deliveries()` records responses and sends due deliveries; it runs every
+      minute through pg_cron when that extension is enabled
+
+  4. Security
+    - Enable RLS on both tables
+    - Users manage their own endpoints; card endpoints require being able to manage the card
+    - Users read deliveries for their own endpoints; deliveries are only written by the
+      functions below
+    - `enqueue_webhook_event` and `process_webhook_deliveries` can't be called by clients,
+      so only real card activity produces signed deliveries
+    - Endpoint URLs must point at a public host: localhost, single-label and `.local` /
+      `.internal` names, and loopback, private, link-local, CGNAT and multicast addresses
+      are refused on save and again before each send. `webhooks_allow_private_targets` in
+      system_settings (default false) lifts this for local testing only. Hostnames are not
+      resolved, so a public name pointing at a private address is not caught here
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Review link clicks become a tracked card event
+ALTER TABLE card_events DROP CONSTRAINT IF EXISTS card_events_event_type_check;
+ALTER TABLE card_events ADD CONSTRAINT card_events_event_type_check CHECK (event_type IN (
+  'view',
+  'social_click',
+  'phone_click',
+  'email_click',
+  'website_click',
+  'whatsapp_click',
+  'map_click',
+  'qr_scan',
+  'vcard_save',
+  'share',
+  'review_click'
+));
+
+-- Create webhook_endpoints table
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  card_id uuid REFERENCES business_cards(id) ON DELETE CASCADE,
+  url text NOT NULL CHECK (url ~* '^https?://'),
+  description text,
+  events text[] DEFAULT '{}' NOT NULL,
+  secret text DEFAULT 'whsec_' || encode(extensions.gen_random_bytes(24), 'hex') NOT NULL,
+  is_active boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create webhook_deliveries table
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id uuid REFERENCES webhook_endpoints(id) ON DELETE CASCADE NOT NULL,
+  event_id uuid NOT NULL,
+  event_type text NOT NULL,
+  payload jsonb NOT NULL,
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts integer DEFAULT 0 NOT NULL,
+  next_attempt_at timestamptz DEFAULT now(),
+  last_attempt_at timestamptz,
+  request_id bigint,
+  response_status integer,
+  response_body text,
+  error text,
+  replay_of uuid REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON webhook_endpoints(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_card_id ON webhook_endpoints(card_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+-- Enable Row Level Security
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Webhook endpoints policies
+CREATE POLICY "Users can read own webhook endpoints"
+  ON webhook_endpoints
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create webhook endpoints"
+  ON webhook_endpoints
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (card_id IS NULL OR can_manage_card(card_id))
+  );
+
+CREATE POLICY "Users can update own webhook endpoints"
+  ON webhook_endpoints
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (card_id IS NULL OR can_manage_card(card_id))
+  );
+
+CREATE POLICY "Users can delete own webhook endpoints"
+  ON webhook_endpoints
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Webhook deliveries policies
+CREATE POLICY "Users can read deliveries for own endpoints"
+  ON webhook_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM webhook_endpoints
+      WHERE webhook_endpoints.id = webhook_deliveries.endpoint_id
+      AND webhook_endpoints.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+  BEFORE UPDATE ON webhook_deliveries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO system_settings (key, value, description) VALUES
+  ('webhooks_allow_private_targets', 'false', 'Allow webhook URLs on localhost and private networks (local testing only)')
+ON CONFLICT (key) DO NOTHING;
+
+-- Lets the dashboard check URLs the same way the trigger below does
+CREATE OR REPLACE FUNCTION webhook_private_targets_allowed()
+RETURNS boolean AS $$
+  SELECT COALESCE(
+    (SELECT (value #>> '{}')::boolean FROM system_settings WHERE key = 'webhooks_allow_private_targets'),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Why a webhook URL can't be used, or null when it can. Deliveries are sent from the
+-- database server, so loopback, private, link-local and other non-public targets are
+-- refused unless webhooks_allow_private_targets is on.
+CREATE OR REPLACE FUNCTION webhook_url_problem(p_url text)
+RETURNS text AS $$
+DECLARE
+  host text;
+  address inet;
+BEGIN
+  IF p_url IS NULL OR p_url !~* '^https?://' THEN
+    RETURN 'Webhook URL must start with http:// or https://';
+  END IF;
+
+  host := lower(substring(p_url FROM '^[A-Za-z]+://(?:[^@/?#]*@)?(\[[^]]*\]|[^:/?#]*)'));
+  host := rtrim(trim(BOTH '[]' FROM COALESCE(host, '')), '.');
+
+  IF host = '' THEN
+    RETURN 'Webhook URL must include a host';
+  END IF;
+
+  IF webhook_private_targets_allowed() THEN
+    RETURN NULL;
+  END IF;
+
+  -- Shorthand and numeric forms (127.1, 2130706433, 0x7f.0.0.1) that HTTP clients still
+  -- resolve to an address
+  IF (host ~ '^[0-9.]+$' AND host !~ '^\d{1,3}(\.\d{1,3}){3}$') OR host ~ '(^|\.)0x' THEN
+    RETURN 'Webhook URL must use a hostname or a standard IP address';
+  END IF;
+
+  BEGIN
+    address := host::inet;
+  EXCEPTION WHEN invalid_text_representation THEN
+    address := NULL;
+  END;
+
+  IF address IS NULL THEN
+    IF host = 'localhost' OR host LIKE '%.localhost' OR host LIKE '%.local'
+      OR host LIKE '%.internal' OR position('.' IN host) = 0 THEN
+      RETURN 'Webhook URL must point to a public host';
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF address <<= ANY (ARRAY[
+    '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16',
+    '172.16.0.0/12', '192.0.0.0/24', '192.168.0.0/16', '198.18.0.0/15', '224.0.0.0/3',
+    -- IPv6 loopback, IPv4-mapped and NAT64 forms, unique local, link-local and multicast
+    '::/127', '::ffff:0:0/96', '64:ff9b::/96', 'fc00::/7', 'fe80::/10', 'ff00::/8'
+  ]::inet[]) THEN
+    RETURN 'Webhook URL must point to a public address';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Checked on save; deliveries check again in case the setting was turned off since
+CREATE OR REPLACE FUNCTION check_webhook_endpoint_url()
+RETURNS trigger AS $$
+DECLARE
+  problem text := webhook_url_problem(NEW.url);
+BEGIN
+  IF problem IS NOT NULL THEN
+    RAISE EXCEPTION '%', problem USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_webhook_endpoint_url
+  BEFORE INSERT OR UPDATE OF url ON webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION check_webhook_endpoint_url();
+
+-- Queue an event for every active endpoint subscribed to it: the card's own endpoints and
+-- the account-wide endpoints of the card owner
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(p_card_id uuid, p_event_type text, p_data jsonb)
+RETURNS integer AS $$
+DECLARE
+  event_id uuid := gen_random_uuid();
+  queued_count integer;
+BEGIN
+  INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload)
+  SELECT
+    we.id,
+    event_id,
+    p_event_type,
+    jsonb_build_object(
+      'id', event_id,
+      'type', p_event_type,
+      'created_at', now(),
+      'data', p_data
+    )
+  FROM webhook_endpoints we
+  JOIN business_cards bc ON bc.id = p_card_id
+  WHERE we.is_active = true
+  AND p_event_type = ANY(we.events)
+  AND (we.card_id = p_card_id OR (we.card_id IS NULL AND we.user_id = bc.user_id));
+
+  GET DIAGNOSTICS queued_count = ROW_COUNT;
+  RETURN queued_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- card.published: going live (editor publish, admin toggle, import) or publishing a new version
+CREATE OR REPLACE FUNCTION webhook_card_published()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.is_published AND (
+    TG_OP = 'INSERT'
+    OR NOT OLD.is_published
+    OR NEW.published_at IS DISTINCT FROM OLD.published_at
+  ) THEN
+    PERFORM enqueue_webhook_event(NEW.id, 'card.published', jsonb_build_object(
+      'card_id', NEW.id,
+      'slug', NEW.slug,
+      'title', NEW.title,
+      'visibility', NEW.visibility,
+      'published_at', COALESCE(NEW.published_at, now())
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS webhook_on_card_published ON business_cards;
+CREATE TRIGGER webhook_on_card_published
+  AFTER INSERT OR UPDATE OF is_published, published_at ON business_cards
+  FOR EACH ROW EXECUTE FUNCTION webhook_card_published();
+
+-- card.viewed and review_link.clicked come from the card event stream
+CREATE OR REPLACE FUNCTION webhook_card_event()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.event_type = 'view' THEN
+    PERFORM enqueue_webhook_event(NEW.card_id, 'card.viewed', jsonb_build_object(
+      'card_id', NEW.card_id,
+      'referrer', NEW.referrer,
+      'device_type', NEW.device_type,
+      'viewed_at', NEW.created_at
+    ));
+  ELSIF NEW.event_type = 'review_click' THEN
+    PERFORM enqueue_webhook_event(NEW.card_id, 'review_link.clicked', jsonb_build_object(
+      'card_id', NEW.card_id,
+      'review_link', NEW.target,
+      'device_type', NEW.device_type,
+      'clicked_at', NEW.created_at
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS webhook_on_card_event ON card_events;
+CREATE TRIGGER webhook_on_card_event
+  AFTER INSERT ON card_events
+  FOR EACH ROW EXECUTE FUNCTION webhook_card_event();
+
+-- lead.created
+CREATE OR REPLACE FUNCTION webhook_lead_created()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(NEW.card_id, 'lead.created', jsonb_build_object(
+    'card_id', NEW.card_id,
+    'lead', jsonb_build_object(
+      'id', NEW.id,
+      'name', NEW.name,
+      'email', NEW.email,
+      'phone', NEW.phone,
+      'company', NEW.company,
+      'note', NEW.note,
+      'custom_fields', NEW.custom_fields,
+      'source', NEW.source,
+      'created_at', NEW.created_at
+    )
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS webhook_on_lead_created ON leads;
+CREATE TRIGGER webhook_on_lead_created
+  AFTER INSERT ON leads
+  FOR EACH ROW EXECUTE FUNCTION webhook_lead_created();
+
+-- Record finished requests, then send everything that is due.
+-- Pass a user id to only touch that user's deliveries.
+CREATE OR REPLACE FUNCTION process_webhook_deliveries(p_user_id uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  delivery record;
+  has_response boolean;
+  http_status integer;
+  http_body text;
+  http_timed_out boolean;
+  http_error text;
+  sent_count integer := 0;
+  signed_at text;
+  body text;
+  url_problem text;
+  max_attempts constant integer := 6;
+BEGIN
+  -- 1. Outcomes of requests sent on earlier runs
+  FOR delivery IN
+    SELECT wd.* FROM webhook_deliveries wd
+    JOIN webhook_endpoints we ON we.id = wd.endpoint_id
+    WHERE wd.status = 'pending'
+    AND wd.request_id IS NOT NULL
+    AND (p_user_id IS NULL OR we.user_id = p_user_id)
+    FOR UPDATE OF wd SKIP LOCKED
+  LOOP
+    SELECT status_code, content, timed_out, error_msg
+    INTO http_status, http_body, http_timed_out, http_error
+    FROM net._http_response
+    WHERE id = delivery.request_id;
+
+    has_response := FOUND;
+
+    -- Still in flight, unless pg_net has long since dropped it
+    IF NOT has_response AND delivery.last_attempt_at > now() - interval '5 minutes' THEN
+      CONTINUE;
+    END IF;
+
+    IF has_response AND http_status BETWEEN 200 AND 299 THEN
+      UPDATE webhook_deliveries
+      SET status = 'succeeded',
+        request_id = NULL,
+        response_status = http_status,
+        response_body = left(http_body, 2000),
+        error = NULL
+      WHERE id = delivery.id;
+    ELSE
+      UPDATE webhook_deliveries
+      SET status = CASE WHEN delivery.attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+        request_id = NULL,
+        next_attempt_at = now() + make_interval(mins => power(2, delivery.attempts - 1)::integer),
+        response_status = CASE WHEN has_response THEN http_status END,
+        response_body = CASE WHEN has_response THEN left(http_body, 2000) END,
+        error = CASE
+          WHEN NOT has_response THEN 'No response recorded'
+          WHEN http_timed_out THEN 'Request timed out'
+          ELSE COALESCE(http_error, 'Endpoint returned HTTP ' || http_status)
+        END
+      WHERE id = delivery.id;
+    END IF;
+  END LOOP;
+
+  -- 2. Send deliveries that are due
+  FOR delivery IN
+    SELECT wd.id, wd.event_type, wd.payload, we.url, we.secret
+    FROM webhook_deliveries wd
+    JOIN webhook_endpoints we ON we.id = wd.endpoint_id
+    WHERE wd.status = 'pending'
+    AND wd.request_id IS NULL
+    AND wd.next_attempt_at <= now()
+    AND (p_user_id IS NULL OR we.user_id = p_user_id)
+    ORDER BY wd.next_attempt_at
+    LIMIT 100
+    FOR UPDATE OF wd SKIP LOCKED
+  LOOP
+    url_problem := webhook_url_problem(delivery.url);
+    IF url_problem IS NOT NULL THEN
+      UPDATE webhook_deliveries
+      SET status = 'failed',
+        attempts = attempts + 1,
+        last_attempt_at = now(),
+        error = url_problem
+      WHERE id = delivery.id;
+      CONTINUE;
+    END IF;
+
+    -- pg_net sends the jsonb body as its text form, so that is what gets signed
+    body := delivery.payload::text;
+    signed_at := extract(epoch FROM now())::bigint::text;
+
+    UPDATE webhook_deliveries
+    SET attempts = attempts + 1,
+      last_attempt_at = now(),
+      request_id = net.http_post(
+        url := delivery.url,
+        body := delivery.payload,
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'User-Agent', 'DigitalBusinessCards-Webhooks/1.0',
+          'X-Webhook-Id', delivery.id,
+          'X-Webhook-Event', delivery.event_type,
+          'X-Webhook-Signature', 't=' || signed_at || ',v1=' ||
+            encode(hmac(signed_at || '.' || body, delivery.secret, 'sha256'), 'hex')
+        ),
+        timeout_milliseconds := 5000
+      )
+    WHERE id = delivery.id;
+
+    sent_count := sent_count + 1;
+  END LOOP;
+
+  RETURN sent_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Dashboard refresh: settle and send the caller's own deliveries without waiting for cron
+CREATE OR REPLACE FUNCTION sync_webhook_deliveries()
+RETURNS integer AS $$
+  SELECT process_webhook_deliveries(auth.uid());
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Queue a webhook.test event for one endpoint and send it right away
+CREATE OR REPLACE FUNCTION send_test_webhook(p_endpoint_id uuid)
+RETURNS webhook_deliveries AS $$
+DECLARE
+  endpoint webhook_endpoints;
+  event_id uuid := gen_random_uuid();
+  delivery webhook_deliveries;
+BEGIN
+  SELECT * INTO endpoint FROM webhook_endpoints
+  WHERE id = p_endpoint_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Webhook endpoint not found';
+  END IF;
+
+  INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload)
+  VALUES (
+    endpoint.id,
+    event_id,
+    'webhook.test',
+    jsonb_build_object(
+      'id', event_id,
+      'type', 'webhook.test',
+      'created_at', now(),
+      'data', jsonb_build_object('endpoint_id', endpoint.id, 'card_id', endpoint.card_id)
+    )
+  )
+  RETURNING * INTO delivery;
+
+  PERFORM process_webhook_deliveries(auth.uid());
+  RETURN delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Send a past delivery's payload again as a new delivery (same event id, so receivers can dedupe)
+CREATE OR REPLACE FUNCTION replay_webhook_delivery(p_delivery_id uuid)
+RETURNS webhook_deliveries AS $$
+DECLARE
+  original webhook_deliveries;
+  delivery webhook_deliveries;
+BEGIN
+  SELECT wd.* INTO original
+  FROM webhook_deliveries wd
+  JOIN webhook_endpoints we ON we.id = wd.endpoint_id
+  WHERE wd.id = p_delivery_id AND we.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Webhook delivery not found';
+  END IF;
+
+  INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload, replay_of)
+  VALUES (original.endpoint_id, original.event_id, original.event_type, original.payload, original.id)
+  RETURNING * INTO delivery;
+
+  PERFORM process_webhook_deliveries(auth.uid());
+  RETURN delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Replace an endpoint's signing secret
+CREATE OR REPLACE FUNCTION rotate_webhook_secret(p_endpoint_id uuid)
+RETURNS text AS $$
+DECLARE
+  new_secret text := 'whsec_' || encode(gen_random_bytes(24), 'hex');
+BEGIN
+  UPDATE webhook_endpoints
+  SET secret = new_secret
+  WHERE id = p_endpoint_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Webhook endpoint not found';
+  END IF;
+
+  RETURN new_secret;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Internal: callable only from the triggers and functions above (and pg_cron)
+REVOKE EXECUTE ON FUNCTION enqueue_webhook_event(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_webhook_deliveries(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION webhook_url_problem(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION webhook_private_targets_allowed() TO authenticated;
+GRANT EXECUTE ON FUNCTION sync_webhook_deliveries() TO authenticated;
+GRANT EXECUTE ON FUNCTION send_test_webhook(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION replay_webhook_delivery(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION rotate_webhook_secret(uuid) TO authenticated;
+
+-- Send and retry every minute when pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('process-webhook-deliveries', '* * * * *', 'SELECT process_webhook_deliveries()');
+  END IF;
+END $$;
@@ -0,0 +1,402 @@
+/*
+  # Appointment Booking
+
+  1. Changes
+    - `business_cards.booking_enabled` - Shows the "Book a Meeting" widget on the card
+    - `business_cards.booking_availability` - When the card owner takes meetings, as
+      `{ time_zone, meeting_minutes, buffer_before_minutes, buffer_after_minutes,
+         min_notice_hours, max_days_ahead, weekly_hours: { mon: [{ start, end }], ... } }`
+      with times in `HH:MM` in the card's time zone
+
+  2. New Tables
+    - `bookings` - Meetings visitors booked on a card; cancelled bookings are kept with
+      `status = 'cancelled'`, and `sequence` counts reschedules for calendar updates
+
+  3. New Functions
+    - `booking_slot_problem(...)` - Why a meeting time can't be booked (outside the weekly
+      hours, too soon, too far ahead or clashing with another meeting), or NULL when it can
+    - `get_booking_busy_times(...)` - Start and end of the owner's confirmed meetings in a
+      range, so the card can offer free slots without exposing who booked them
+    - `book_appointment(...)` - The only way visitors create bookings: checks the slot and
+      the card's visibility, and rate limits per session and per card each day
+    - `reschedule_booking(...)` - Moves a booking to another free slot
+    - `notify_new_booking()` - Notifies the card owner when a meeting is booked
+
+  4. Security
+    - Enable RLS on bookings
+    - Card owners and organization managers read, cancel and delete their cards' bookings;
+      admins can read all. Direct updates can only cancel a booking
+    - Clashes are checked across all of the owner's cards, since they share one calendar
+    - Rate limits come from system_settings (`booking_session_limit_per_hour`,
+      `booking_card_limit_per_day`); bookings without a session id are refused
+    - `booking_slot_problem` is internal and can't be called by clients
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_cards' AND column_name = 'booking_enabled'
+  ) THEN
+    ALTER TABLE business_cards ADD COLUMN booking_enabled boolean DEFAULT false NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_cards' AND column_name = 'booking_availability'
+  ) THEN
+    ALTER TABLE business_cards ADD COLUMN booking_availability jsonb DEFAULT '{}'::jsonb NOT NULL;
+  END IF;
+END $$;
+
+-- Create bookings table
+CREATE TABLE IF NOT EXISTS bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_id uuid REFERENCES business_cards(id) ON DELETE CASCADE NOT NULL,
+  owner_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  name text NOT NULL,
+  email text NOT NULL,
+  phone text,
+  note text,
+  time_zone text,
+  status text DEFAULT 'confirmed' NOT NULL CHECK (status IN ('confirmed', 'cancelled')),
+  sequence integer DEFAULT 0 NOT NULL,
+  cancelled_at timestamptz,
+  session_id text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_bookings_card_id ON bookings(card_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_bookings_owner_time ON bookings(owner_id, starts_at) WHERE status = 'confirmed';
+CREATE INDEX IF NOT EXISTS idx_bookings_session ON bookings(card_id, session_id, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
+
+-- Bookings policies (inserts go through book_appointment, moves through reschedule_booking)
+CREATE POLICY "Users can read bookings for own cards"
+  ON bookings
+  FOR SELECT
+  TO authenticated
+  USING (can_manage_card(card_id));
+
+CREATE POLICY "Users can cancel bookings for own cards"
+  ON bookings
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_card(card_id))
+  WITH CHECK (can_manage_card(card_id) AND status = 'cancelled');
+
+-- Cancelling only touches the status; times move through reschedule_booking
+REVOKE UPDATE ON bookings FROM anon, authenticated;
+GRANT UPDATE (status, cancelled_at) ON bookings TO authenticated;
+
+CREATE POLICY "Users can delete bookings for own cards"
+  ON bookings
+  FOR DELETE
+  TO authenticated
+  USING (can_manage_card(card_id));
+
+CREATE POLICY "Admins can read all bookings"
+  ON bookings
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_bookings_updated_at
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Why a meeting can't be booked on a card at this time, or NULL when it can
+CREATE OR REPLACE FUNCTION booking_slot_problem(
+  p_card_id uuid,
+  p_starts_at timestamptz,
+  p_exclude_booking_id uuid DEFAULT NULL
+)
+RETURNS text AS $$
+DECLARE
+  card_row business_cards;
+  settings jsonb;
+  tz text;
+  meeting_length interval;
+  buffer_before interval;
+  buffer_after interval;
+  local_start timestamp;
+  local_end timestamp;
+  day_key text;
+  fits_hours boolean;
+BEGIN
+  SELECT * INTO card_row FROM business_cards WHERE id = p_card_id;
+  IF NOT FOUND THEN
+    RETURN 'This card is not taking bookings';
+  END IF;
+
+  settings := card_row.booking_availability;
+  tz := COALESCE(settings->>'time_zone', 'UTC');
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz) THEN
+    tz := 'UTC';
+  END IF;
+
+  meeting_length := make_interval(mins => COALESCE((settings->>'meeting_minutes')::integer, 30));
+  buffer_before := make_interval(mins => COALESCE((settings->>'buffer_before_minutes')::integer, 0));
+  buffer_after := make_interval(mins => COALESCE((settings->>'buffer_after_minutes')::integer, 0));
+
+  IF p_starts_at < now() + make_interval(hours => COALESCE((settings->>'min_notice_hours')::integer, 0)) THEN
+    RETURN 'That time is too soon to book';
+  END IF;
+
+  IF p_starts_at > now() + make_interval(days => COALESCE((settings->>'max_days_ahead')::integer, 30)) THEN
+    RETURN 'That time is too far ahead to book';
+  END IF;
+
+  -- Weekly hours are wall-clock times in the card's time zone
+  local_start := p_starts_at AT TIME ZONE tz;
+  local_end := (p_starts_at + meeting_length) AT TIME ZONE tz;
+  day_key := (ARRAY['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'])[extract(isodow FROM local_start)::integer];
+
+  SELECT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(settings->'weekly_hours'->day_key, '[]'::jsonb)) AS hours
+    WHERE local_start >= local_start::date + (hours->>'start')::time
+    AND local_end <= local_start::date + (hours->>'end')::time
+  ) INTO fits_hours;
+
+  IF NOT fits_hours THEN
+    RETURN 'That time is outside the available hours';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE owner_id = card_row.user_id
+    AND status = 'confirmed'
+    AND id IS DISTINCT FROM p_exclude_booking_id
+    AND tstzrange(starts_at - buffer_before, ends_at + buffer_after)
+      && tstzrange(p_starts_at - buffer_before, p_starts_at + meeting_length + buffer_after)
+  ) THEN
+    RETURN 'That time has just been booked';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal: used by book_appointment and reschedule_booking
+REVOKE EXECUTE ON FUNCTION booking_slot_problem(uuid, timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Times the card owner is already in meetings, without any details about them
+CREATE OR REPLACE FUNCTION get_booking_busy_times(
+  p_card_id uuid,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_exclude_booking_id uuid DEFAULT NULL
+)
+RETURNS TABLE (starts_at timestamptz, ends_at timestamptz) AS $$
+  SELECT bookings.starts_at, bookings.ends_at
+  FROM bookings
+  JOIN business_cards ON business_cards.id = p_card_id
+  WHERE bookings.owner_id = business_cards.user_id
+  AND business_cards.booking_enabled = true
+  AND bookings.status = 'confirmed'
+  AND bookings.id IS DISTINCT FROM p_exclude_booking_id
+  AND bookings.ends_at > p_from
+  AND bookings.starts_at < p_to
+  ORDER BY bookings.starts_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_booking_busy_times(uuid, timestamptz, timestamptz, uuid) TO anon, authenticated;
+
+-- Visitor booking with slot validation and rate limiting
+CREATE OR REPLACE FUNCTION book_appointment(
+  p_card_id uuid,
+  p_starts_at timestamptz,
+  p_name text,
+  p_email text,
+  p_phone text DEFAULT NULL,
+  p_note text DEFAULT NULL,
+  p_time_zone text DEFAULT NULL,
+  p_session_id text DEFAULT NULL,
+  p_unlock_token text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  card_row business_cards;
+  problem text;
+  session_limit integer;
+  card_limit integer;
+  new_booking bookings;
+BEGIN
+  SELECT * INTO card_row
+  FROM business_cards
+  WHERE id = p_card_id
+  AND booking_enabled = true
+  AND is_card_live(is_published, publish_at, expire_at);
+
+  IF NOT FOUND OR NOT card_accepts_visitor(card_row, p_unlock_token) THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'not_found');
+  END IF;
+
+  -- Every visitor has a session id; without one the per-session limit would not apply
+  p_session_id := NULLIF(left(trim(COALESCE(p_session_id, '')), 100), '');
+  IF p_session_id IS NULL THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'invalid', 'message', 'Please reload the page and try again');
+  END IF;
+
+  p_name := left(trim(COALESCE(p_name, '')), 200);
+  p_email := left(trim(COALESCE(p_email, '')), 320);
+
+  IF p_name = '' OR p_email = '' THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'invalid', 'message', 'Name and email are required');
+  END IF;
+
+  IF p_email !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'invalid', 'message', 'Email address is not valid');
+  END IF;
+
+  session_limit := COALESCE(
+    (SELECT (value #>> '{}')::integer FROM system_settings WHERE key = 'booking_session_limit_per_hour'),
+    3
+  );
+  card_limit := COALESCE(
+    (SELECT (value #>> '{}')::integer FROM system_settings WHERE key = 'booking_card_limit_per_day'),
+    20
+  );
+
+  -- Serialize bookings per owner so two visitors cannot take the same slot
+  PERFORM pg_advisory_xact_lock(hashtext('booking:' || card_row.user_id::text));
+
+  IF (
+    SELECT count(*) FROM bookings
+    WHERE card_id = p_card_id
+    AND session_id = p_session_id
+    AND created_at > now() - interval '1 hour'
+  ) >= session_limit THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'rate_limited');
+  END IF;
+
+  -- Session ids can be rotated, so the card also has a daily ceiling
+  IF (
+    SELECT count(*) FROM bookings
+    WHERE card_id = p_card_id
+    AND created_at > now() - interval '1 day'
+  ) >= card_limit THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'rate_limited');
+  END IF;
+
+  problem := booking_slot_problem(p_card_id, p_starts_at);
+  IF problem IS NOT NULL THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'unavailable', 'message', problem);
+  END IF;
+
+  INSERT INTO bookings (card_id, owner_id, starts_at, ends_at, name, email, phone, note, time_zone, session_id)
+  VALUES (
+    p_card_id,
+    card_row.user_id,
+    p_starts_at,
+    p_starts_at + make_interval(mins => COALESCE((card_row.booking_availability->>'meeting_minutes')::integer, 30)),
+    p_name,
+    p_email,
+    NULLIF(left(trim(COALESCE(p_phone, '')), 50), ''),
+    NULLIF(left(trim(COALESCE(p_note, '')), 2000), ''),
+    NULLIF(left(trim(COALESCE(p_time_zone, '')), 64), ''),
+    p_session_id
+  )
+  RETURNING * INTO new_booking;
+
+  RETURN jsonb_build_object(
+    'accepted', true,
+    'booking', jsonb_build_object(
+      'id', new_booking.id,
+      'starts_at', new_booking.starts_at,
+      'ends_at', new_booking.ends_at,
+      'sequence', new_booking.sequence
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION book_appointment(uuid, timestamptz, text, text, text, text, text, text, text) TO anon, authenticated;
+
+-- Move a booking to another free slot on the same card
+CREATE OR REPLACE FUNCTION reschedule_booking(p_booking_id uuid, p_starts_at timestamptz)
+RETURNS bookings AS $$
+DECLARE
+  booking bookings;
+  card_row business_cards;
+  problem text;
+BEGIN
+  SELECT * INTO booking FROM bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND OR NOT can_manage_card(booking.card_id) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Cancelled bookings cannot be rescheduled';
+  END IF;
+
+  SELECT * INTO card_row FROM business_cards WHERE id = booking.card_id;
+
+  PERFORM pg_advisory_xact_lock(hashtext('booking:' || card_row.user_id::text));
+
+  problem := booking_slot_problem(booking.card_id, p_starts_at, p_booking_id);
+  IF problem IS NOT NULL THEN
+    RAISE EXCEPTION '%', problem;
+  END IF;
+
+  UPDATE bookings
+  SET starts_at = p_starts_at,
+      ends_at = p_starts_at + make_interval(mins => COALESCE((card_row.booking_availability->>'meeting_minutes')::integer, 30)),
+      sequence = sequence + 1
+  WHERE id = p_booking_id
+  RETURNING * INTO booking;
+
+  RETURN booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION reschedule_booking(uuid, timestamptz) TO authenticated;
+
+-- Tell the card owner about a new booking
+CREATE OR REPLACE FUNCTION notify_new_booking()
+RETURNS trigger AS $$
+DECLARE
+  card_row business_cards;
+  tz text;
+BEGIN
+  IF NEW.owner_id IS NOT NULL THEN
+    SELECT * INTO card_row FROM business_cards WHERE id = NEW.card_id;
+
+    tz := COALESCE(card_row.booking_availability->>'time_zone', 'UTC');
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz) THEN
+      tz := 'UTC';
+    END IF;
+
+    INSERT INTO notifications (user_id, type, title, body, metadata)
+    VALUES (
+      NEW.owner_id,
+      'booking.created',
+      'New meeting with ' || NEW.name,
+      to_char(NEW.starts_at AT TIME ZONE tz, 'Dy DD Mon, HH24:MI') || ' on '
+        || COALESCE(NULLIF(card_row.title, ''), 'your card'),
+      jsonb_build_object('booking_id', NEW.id, 'card_id', NEW.card_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_on_new_booking ON bookings;
+CREATE TRIGGER notify_on_new_booking
+  AFTER INSERT ON bookings
+  FOR EACH ROW EXECUTE FUNCTION notify_new_booking();
+
+-- Default rate limits
+INSERT INTO system_settings (key, value, description) VALUES
+  ('booking_session_limit_per_hour', '3', 'Meetings a visitor session can book on a card each hour'),
+  ('booking_card_limit_per_day', '20', 'Meetings a single card accepts from visitors each day')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,119 @@
+/*
+  # Trackable QR Codes
+
+  1. New Tables
+    - `qr_sources` - Named places a card's QR code is printed (a flyer, a booth banner, the
+      printed card), each with a short `code` used in its `/q/<code>` redirect link
+
+  2. Changes
+    - `card_events.qr_source_id` - The source a `qr_scan` event came from; null for scans of
+      the card's own QR code, and kept as null when the source is deleted
+
+  3. New Functions
+    - `record_qr_scan(...)` - Resolves a source code to its card's slug for the redirect and
+      records the scan, skipping bots and cards that are not live
+
+  4. Security
+    - Enable RLS on qr_sources
+    - Card owners and organization managers manage their cards' sources; admins can read all
+    - Visitors never read sources directly; they only go through record_qr_scan
+*/
+
+-- Create qr_sources table
+CREATE TABLE IF NOT EXISTS qr_sources (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_id uuid REFERENCES business_cards(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  code text UNIQUE DEFAULT encode(extensions.gen_random_bytes(4), 'hex') NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'card_events' AND column_name = 'qr_source_id'
+  ) THEN
+    ALTER TABLE card_events ADD COLUMN qr_source_id uuid REFERENCES qr_sources(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_qr_sources_card_id ON qr_sources(card_id);
+CREATE INDEX IF NOT EXISTS idx_card_events_qr_source ON card_events(qr_source_id) WHERE qr_source_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE qr_sources ENABLE ROW LEVEL SECURITY;
+
+-- QR sources policies
+CREATE POLICY "Users can read QR sources for own cards"
+  ON qr_sources
+  FOR SELECT
+  TO authenticated
+  USING (can_manage_card(card_id));
+
+CREATE POLICY "Users can create QR sources for own cards"
+  ON qr_sources
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_card(card_id));
+
+CREATE POLICY "Users can update QR sources for own cards"
+  ON qr_sources
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_card(card_id))
+  WITH CHECK (can_manage_card(card_id));
+
+CREATE POLICY "Users can delete QR sources for own cards"
+  ON qr_sources
+  FOR DELETE
+  TO authenticated
+  USING (can_manage_card(card_id));
+
+CREATE POLICY "Admins can read all QR sources"
+  ON qr_sources
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_qr_sources_updated_at
+  BEFORE UPDATE ON qr_sources
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Resolve a scanned source code to its card and record the scan
+CREATE OR REPLACE FUNCTION record_qr_scan(
+  p_code text,
+  p_session_id text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL,
+  p_referrer text DEFAULT NULL,
+  p_device_type text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  source_row qr_sources;
+  card_row business_cards;
+BEGIN
+  SELECT * INTO source_row FROM qr_sources WHERE code = lower(trim(p_code));
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('found', false);
+  END IF;
+
+  SELECT * INTO card_row FROM business_cards WHERE id = source_row.card_id AND is_published = true;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('found', false);
+  END IF;
+
+  -- The card page explains scheduled and expired cards; only live cards count scans
+  IF is_card_live(card_row.is_published, card_row.publish_at, card_row.expire_at)
+    AND NOT is_bot_user_agent(p_user_agent) THEN
+    INSERT INTO card_events (card_id, event_type, qr_source_id, session_id, referrer, user_agent, device_type)
+    VALUES (card_row.id, 'qr_scan', source_row.id, p_session_id, p_referrer, p_user_agent, p_device_type);
+  END IF;
+
+  RETURN jsonb_build_object('found', true, 'slug', card_row.slug);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_qr_scan(text, text, text, text, text) TO anon, authenticated;
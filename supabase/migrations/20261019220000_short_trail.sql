@@ -0,0 +1,254 @@
+/*
+  # Short Links with UTM Tagging
+
+  1. New Tables
+    - `short_links` - Short `/s/<code>` links to a card, with a generated or custom code,
+      an optional label and the UTM parameters added when the link is opened
+
+  2. Changes
+    - `card_analytics.short_link_id` - The short link a view came through, if any
+    - `card_analytics.utm_source`, `utm_medium`, `utm_campaign`, `utm_term`, `utm_content` -
+      UTM parameters the card page was opened with, from a short link or any tagged URL
+
+  3. New Functions
+    - `generate_short_link_code()` - Random 6 character code without look-alike characters
+    - `record_short_link_click(...)` - Counts a click and returns where to send the visitor:
+      the card's current slug and the link's UTM parameters
+    - `record_card_view(...)` - Now also takes the short link and UTM parameters and stores
+      them, with the referrer, on the view's card_analytics row
+
+  4. Security
+    - Enable RLS on short_links
+    - Card owners and organization managers manage their cards' links; admins can read all
+    - Visitors never read links directly; they only go through record_short_link_click
+*/
+
+-- Short codes skip 0/o, 1/l/i so they can be read out and typed
+CREATE OR REPLACE FUNCTION generate_short_link_code()
+RETURNS text AS $$
+DECLARE
+  alphabet text := '23456789abcdefghjkmnpqrstuvwxyz';
+  new_code text;
+BEGIN
+  LOOP
+    new_code := '';
+    FOR i IN 1..6 LOOP
+      new_code := new_code || substr(alphabet, 1 + floor(random() * length(alphabet))::integer, 1);
+    END LOOP;
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM short_links WHERE code = new_code);
+  END LOOP;
+
+  RETURN new_code;
+END;
+$$ LANGUAGE plpgsql VOLATILE SET search_path = public;
+
+-- Create short_links table
+CREATE TABLE IF NOT EXISTS short_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_id uuid REFERENCES business_cards(id) ON DELETE CASCADE NOT NULL,
+  code text UNIQUE DEFAULT generate_short_link_code() NOT NULL CHECK (
+    length(code) BETWEEN 3 AND 40
+    AND code ~ '^[a-z0-9]+(-[a-z0-9]+)*$'
+  ),
+  label text,
+  utm_source text,
+  utm_medium text,
+  utm_campaign text,
+  utm_term text,
+  utm_content text,
+  click_count integer DEFAULT 0 NOT NULL,
+  last_clicked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'card_analytics' AND column_name = 'short_link_id'
+  ) THEN
+    ALTER TABLE card_analytics ADD COLUMN short_link_id uuid REFERENCES short_links(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'card_analytics' AND column_name = 'utm_source'
+  ) THEN
+    ALTER TABLE card_analytics ADD COLUMN utm_source text;
+    ALTER TABLE card_analytics ADD COLUMN utm_medium text;
+    ALTER TABLE card_analytics ADD COLUMN utm_campaign text;
+    ALTER TABLE card_analytics ADD COLUMN utm_term text;
+    ALTER TABLE card_analytics ADD COLUMN utm_content text;
+  END IF;
+END $$;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_short_links_card_id ON short_links(card_id);
+CREATE INDEX IF NOT EXISTS idx_card_analytics_short_link ON card_analytics(short_link_id) WHERE short_link_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE short_links ENABLE ROW LEVEL SECURITY;
+
+-- Short links policies (click counts are only written by record_short_link_click)
+CREATE POLICY "Users can read short links for own cards"
+  ON short_links
+  FOR SELECT
+  TO authenticated
+  USING (can_manage_card(card_id));
+
+CREATE POLICY "Users can create short links for own cards"
+  ON short_links
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_card(card_id) AND click_count = 0);
+
+CREATE POLICY "Users can delete short links for own cards"
+  ON short_links
+  FOR DELETE
+  TO authenticated
+  USING (can_manage_card(card_id));
+
+CREATE POLICY "Admins can read all short links"
+  ON short_links
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Count a click on a short link and return the card and UTM parameters to redirect to
+CREATE OR REPLACE FUNCTION record_short_link_click(
+  p_code text,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  link_row short_links;
+  card_row business_cards;
+BEGIN
+  SELECT * INTO link_row FROM short_links WHERE code = lower(trim(p_code));
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('found', false);
+  END IF;
+
+  SELECT * INTO card_row FROM business_cards WHERE id = link_row.card_id AND is_published = true;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('found', false);
+  END IF;
+
+  -- The card page explains scheduled and expired cards; only live cards count clicks
+  IF is_card_live(card_row.is_published, card_row.publish_at, card_row.expire_at)
+    AND NOT is_bot_user_agent(p_user_agent) THEN
+    UPDATE short_links
+    SET click_count = click_count + 1, last_clicked_at = now()
+    WHERE id = link_row.id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'found', true,
+    'slug', card_row.slug,
+    'short_link_id', link_row.id,
+    'utm', jsonb_strip_nulls(jsonb_build_object(
+      'utm_source', link_row.utm_source,
+      'utm_medium', link_row.utm_medium,
+      'utm_campaign', link_row.utm_campaign,
+      'utm_term', link_row.utm_term,
+      'utm_content', link_row.utm_content
+    ))
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_short_link_click(text, text) TO anon, authenticated;
+
+-- Views now carry the short link and UTM parameters they arrived with
+DROP FUNCTION IF EXISTS record_card_view(uuid, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION record_card_view(
+  p_card_id uuid,
+  p_session_id text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL,
+  p_referrer text DEFAULT NULL,
+  p_device_type text DEFAULT NULL,
+  p_short_link_id uuid DEFAULT NULL,
+  p_utm jsonb DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  dedupe_minutes integer;
+  new_view_count integer;
+  link_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM business_cards
+    WHERE id = p_card_id AND is_card_live(is_published, publish_at, expire_at)
+  ) THEN
+    RETURN jsonb_build_object('counted', false, 'reason', 'not_found');
+  END IF;
+
+  -- Judge the browser by the User-Agent header it sent, not the one it reports
+  p_user_agent := COALESCE(
+    NULLIF(current_setting('request.headers', true), '')::jsonb->>'user-agent',
+    p_user_agent
+  );
+
+  IF is_bot_user_agent(p_user_agent) THEN
+    RETURN jsonb_build_object('counted', false, 'reason', 'bot');
+  END IF;
+
+  -- Every visitor has a session id; without one repeat views could not be told apart
+  p_session_id := NULLIF(left(trim(COALESCE(p_session_id, '')), 100), '');
+  IF p_session_id IS NULL THEN
+    RETURN jsonb_build_object('counted', false, 'reason', 'invalid');
+  END IF;
+
+  dedupe_minutes := COALESCE(
+    (SELECT (value #>> '{}')::integer FROM system_settings WHERE key = 'view_dedupe_minutes'),
+    30
+  );
+
+  IF dedupe_minutes > 0 THEN
+    -- Serialize concurrent views from the same session so only one passes the check
+    PERFORM pg_advisory_xact_lock(hashtext(p_card_id::text || ':' || p_session_id));
+
+    IF EXISTS (
+      SELECT 1 FROM card_views
+      WHERE card_id = p_card_id
+      AND session_id = p_session_id
+      AND viewed_at > now() - make_interval(mins => dedupe_minutes)
+    ) THEN
+      RETURN jsonb_build_object('counted', false, 'reason', 'duplicate');
+    END IF;
+  END IF;
+
+  -- Ignore link ids that belong to another card
+  SELECT id INTO link_id FROM short_links WHERE id = p_short_link_id AND card_id = p_card_id;
+
+  UPDATE business_cards
+  SET view_count = COALESCE(view_count, 0) + 1
+  WHERE id = p_card_id
+  RETURNING view_count INTO new_view_count;
+
+  INSERT INTO card_views (card_id, user_agent, referrer, device_type, session_id)
+  VALUES (p_card_id, p_user_agent, p_referrer, p_device_type, p_session_id);
+
+  INSERT INTO card_analytics (
+    card_id, user_agent, referrer, device_type, short_link_id,
+    utm_source, utm_medium, utm_campaign, utm_term, utm_content
+  )
+  VALUES (
+    p_card_id, p_user_agent, p_referrer, p_device_type, link_id,
+    left(p_utm->>'utm_source', 200),
+    left(p_utm->>'utm_medium', 200),
+    left(p_utm->>'utm_campaign', 200),
+    left(p_utm->>'utm_term', 200),
+    left(p_utm->>'utm_content', 200)
+  );
+
+  INSERT INTO card_events (card_id, event_type, session_id, referrer, user_agent, device_type)
+  VALUES (p_card_id, 'view', p_session_id, p_referrer, p_user_agent, p_device_type);
+
+  RETURN jsonb_build_object('counted', true, 'view_count', new_view_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_card_view(uuid, text, text, text, text, uuid, jsonb) TO anon, authenticated;
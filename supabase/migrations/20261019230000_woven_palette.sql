@@ -0,0 +1,60 @@
+/*
+  # Saved Themes
+
+  1. New Tables
+    - `saved_themes` - Themes a user built in the card editor's theme builder and saved under
+      a name, to reuse on any of their cards. `theme` holds the same JSON as
+      `business_cards.theme`: the base colors plus the optional accent and muted colors,
+      background (solid, gradient, image or pattern), button style, corner radius, shadow,
+      appearance (light, dark or auto) and dark variant colors
+
+  2. Security
+    - Enable RLS on saved_themes
+    - Users read, create, rename and delete only their own themes
+*/
+
+-- Create saved_themes table
+CREATE TABLE IF NOT EXISTS saved_themes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  theme jsonb NOT NULL CHECK (jsonb_typeof(theme) = 'object'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_saved_themes_user_id ON saved_themes(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE saved_themes ENABLE ROW LEVEL SECURITY;
+
+-- Saved themes policies
+CREATE POLICY "Users can read own saved themes"
+  ON saved_themes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create saved themes"
+  ON saved_themes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own saved themes"
+  ON saved_themes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own saved themes"
+  ON saved_themes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_themes_updated_at
+  BEFORE UPDATE ON saved_themes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,80 @@
+/*
+  # Card Template Gallery
+
+  1. Changes
+    - `card_templates.shape` - The card shape a template applies, alongside its theme and layout
+    - `card_templates.sort_order` - Position in the gallery, lowest first; existing templates
+      keep their creation order
+    - `card_templates.updated_at` - Kept current by trigger
+
+  2. Security
+    - Admins can read every template, including inactive ones, and create, edit, reorder and
+      delete templates
+    - Everyone else still reads active templates only
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'card_templates' AND column_name = 'shape'
+  ) THEN
+    ALTER TABLE card_templates ADD COLUMN shape text DEFAULT 'rectangle' NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'card_templates' AND column_name = 'sort_order'
+  ) THEN
+    ALTER TABLE card_templates ADD COLUMN sort_order integer DEFAULT 0 NOT NULL;
+
+    UPDATE card_templates
+    SET sort_order = ordered.position
+    FROM (
+      SELECT id, row_number() OVER (ORDER BY created_at, name) AS position
+      FROM card_templates
+    ) AS ordered
+    WHERE card_templates.id = ordered.id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'card_templates' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE card_templates ADD COLUMN updated_at timestamptz DEFAULT now();
+  END IF;
+END $$;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_card_templates_sort_order ON card_templates(sort_order);
+
+-- Card templates policies
+CREATE POLICY "Admins can read all templates"
+  ON card_templates
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can create templates"
+  ON card_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update templates"
+  ON card_templates
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete templates"
+  ON card_templates
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+DROP TRIGGER IF EXISTS update_card_templates_updated_at ON card_templates;
+CREATE TRIGGER update_card_templates_updated_at
+  BEFORE UPDATE ON card_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,409 @@
+/*
+  # Subscription Plans and Entitlements
+
+  1. New Tables
+    - `subscription_plans` - What each tier (free, pro, business) includes: cards, media items
+      per card, premium templates, analytics retention, custom domains and lead capture.
+      A null limit means unlimited.
+
+  2. Changes
+    - `profiles.subscription_tier` must name a plan
+    - `profiles.entitlement_overrides` - Per-user limits set by admins, replacing the plan's
+    - `business_cards.template_id` - The gallery template a card was created from
+
+  3. New Functions
+    - `get_entitlements(user_id)` - The user's plan limits merged with their overrides
+      (server-side only)
+    - `get_my_entitlements()` - The signed-in user's entitlements, for the app
+    - `analytics_visible_since(user_id)` - Start of the analytics window the user's plan keeps
+    - `enforce_card_entitlements()` - Card count, lead capture and premium templates
+      (by template_id, or a theme with a premium template's colours)
+    - `enforce_media_entitlements()` - Media items per card
+    - `disable_unentitled_features()` - Turns lead capture off when a plan no longer includes it
+
+  4. Security
+    - Everyone can read plans; only admins edit them
+    - Only admins (or the service role) change a profile's tier and overrides
+    - Card owners and organization managers read card events within the retention window only;
+      owners' card views and analytics rows are limited to the same window
+    - Limit errors are raised as `plan_limit:<entitlement>` so the app can offer an upgrade
+
+  5. Notes
+    - Existing cards and media over a limit are kept; only new ones are refused
+    - Lead capture is switched off on existing cards whose owner's plan does not include it
+    - `custom_domains` is recorded for the custom domain feature; nothing enforces it yet
+    - The unused `max_cards_per_user` system setting is removed in favour of plan limits
+    - Premium themes are matched on their four base colours; a copy with any colour changed
+      is treated as the user's own theme
+    - `max_file_size_mb` in system_settings sets the avatars bucket's size limit and is
+      readable through `get_max_upload_size_mb()` so the app can check files before upload
+*/
+
+CREATE TABLE IF NOT EXISTS subscription_plans (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  sort_order integer DEFAULT 0 NOT NULL,
+  max_cards integer CHECK (max_cards >= 0),
+  max_media_items integer CHECK (max_media_items >= 0),
+  premium_templates boolean DEFAULT false NOT NULL,
+  analytics_retention_days integer CHECK (analytics_retention_days > 0),
+  custom_domains integer DEFAULT 0 NOT NULL CHECK (custom_domains >= 0),
+  lead_capture boolean DEFAULT false NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO subscription_plans (id, name, description, sort_order, max_cards, max_media_items, premium_templates, analytics_retention_days, custom_domains, lead_capture) VALUES
+  ('free', 'Free', 'A card to get started', 1, 2, 3, false, 30, 0, false),
+  ('pro', 'Pro', 'For professionals who network every day', 2, 10, 20, true, 365, 1, true),
+  ('business', 'Business', 'For teams with a card for everyone', 3, NULL, NULL, true, NULL, 5, true)
+ON CONFLICT (id) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'entitlement_overrides'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN entitlement_overrides jsonb DEFAULT '{}'::jsonb NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_cards' AND column_name = 'template_id'
+  ) THEN
+    ALTER TABLE business_cards ADD COLUMN template_id uuid REFERENCES card_templates(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'profiles' AND constraint_name = 'profiles_subscription_tier_fkey'
+  ) THEN
+    UPDATE profiles SET subscription_tier = 'free'
+    WHERE subscription_tier IS NULL
+    OR subscription_tier NOT IN (SELECT id FROM subscription_plans);
+
+    ALTER TABLE profiles ALTER COLUMN subscription_tier SET NOT NULL;
+    ALTER TABLE profiles
+      ADD CONSTRAINT profiles_subscription_tier_fkey
+      FOREIGN KEY (subscription_tier) REFERENCES subscription_plans(id) ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_profiles_subscription_tier ON profiles(subscription_tier);
+CREATE INDEX IF NOT EXISTS idx_media_items_card_id ON media_items(card_id);
+
+-- Enable RLS
+ALTER TABLE subscription_plans ENABLE ROW LEVEL SECURITY;
+
+-- Subscription plans policies
+CREATE POLICY "Anyone can read plans"
+  ON subscription_plans
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update plans"
+  ON subscription_plans
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_subscription_plans_updated_at
+  BEFORE UPDATE ON subscription_plans
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Users may edit their own profile, but never their role or plan
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS trigger AS $$
+BEGIN
+  -- auth.uid() is null for the service role and the SQL editor
+  IF auth.uid() IS NULL OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'user';
+    NEW.subscription_tier := 'free';
+    NEW.entitlement_overrides := '{}'::jsonb;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only administrators can change profile roles';
+  ELSIF NEW.subscription_tier IS DISTINCT FROM OLD.subscription_tier
+    OR NEW.entitlement_overrides IS DISTINCT FROM OLD.entitlement_overrides THEN
+    RAISE EXCEPTION 'Only administrators can change subscription plans';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The user's plan, with any admin overrides on top; users without a profile get the free plan
+CREATE OR REPLACE FUNCTION get_entitlements(p_user_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'tier', plan.id,
+    'max_cards', plan.max_cards,
+    'max_media_items', plan.max_media_items,
+    'premium_templates', plan.premium_templates,
+    'analytics_retention_days', plan.analytics_retention_days,
+    'custom_domains', plan.custom_domains,
+    'lead_capture', plan.lead_capture
+  ) || COALESCE(profiles.entitlement_overrides, '{}'::jsonb)
+  FROM subscription_plans plan
+  LEFT JOIN profiles ON profiles.id = p_user_id
+  WHERE plan.id = COALESCE(profiles.subscription_tier, 'free');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Clients read only their own entitlements; overrides are private to the user and admins
+CREATE OR REPLACE FUNCTION get_my_entitlements()
+RETURNS jsonb AS $$
+  SELECT get_entitlements(auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_entitlements(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_my_entitlements() TO authenticated;
+
+-- Older card events fall outside the window; unlimited retention sees everything
+CREATE OR REPLACE FUNCTION analytics_visible_since(p_user_id uuid)
+RETURNS timestamptz AS $$
+  SELECT COALESCE(
+    now() - make_interval(days => (get_entitlements(p_user_id)->>'analytics_retention_days')::integer),
+    '-infinity'::timestamptz
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION analytics_visible_since(uuid) TO authenticated;
+
+-- Whether a card theme uses the colours of a premium template (and of no free one).
+-- Colours are compared because the editor normalizes the rest of a template's theme.
+CREATE OR REPLACE FUNCTION theme_matches_premium_template(p_theme jsonb)
+RETURNS boolean AS $$
+  WITH matching AS (
+    SELECT is_premium FROM card_templates
+    WHERE upper(theme->>'primary') = upper(p_theme->>'primary')
+    AND upper(theme->>'secondary') = upper(p_theme->>'secondary')
+    AND upper(theme->>'background') = upper(p_theme->>'background')
+    AND upper(theme->>'text') = upper(p_theme->>'text')
+  )
+  SELECT EXISTS (SELECT 1 FROM matching WHERE is_premium)
+    AND NOT EXISTS (SELECT 1 FROM matching WHERE NOT COALESCE(is_premium, false));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Limits checked against the card owner's plan whenever a card is created or changed
+CREATE OR REPLACE FUNCTION enforce_card_entitlements()
+RETURNS trigger AS $$
+DECLARE
+  entitlements jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  entitlements := get_entitlements(NEW.user_id);
+
+  IF TG_OP = 'INSERT' AND entitlements->>'max_cards' IS NOT NULL THEN
+    -- Serialize card creation per user so concurrent inserts cannot slip past the limit
+    PERFORM pg_advisory_xact_lock(hashtext('cards:' || NEW.user_id::text));
+
+    IF (SELECT count(*) FROM business_cards WHERE user_id = NEW.user_id) >= (entitlements->>'max_cards')::integer THEN
+      RAISE EXCEPTION 'plan_limit:max_cards'
+        USING HINT = format('Your plan includes %s cards', entitlements->>'max_cards');
+    END IF;
+  END IF;
+
+  IF NEW.lead_capture_enabled
+    AND (TG_OP = 'INSERT' OR NOT OLD.lead_capture_enabled)
+    AND NOT COALESCE((entitlements->>'lead_capture')::boolean, false)
+  THEN
+    RAISE EXCEPTION 'plan_limit:lead_capture'
+      USING HINT = 'Your plan does not include lead capture';
+  END IF;
+
+  IF NEW.template_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.template_id IS DISTINCT FROM OLD.template_id)
+    AND NOT COALESCE((entitlements->>'premium_templates')::boolean, false)
+    AND EXISTS (SELECT 1 FROM card_templates WHERE id = NEW.template_id AND is_premium = true)
+  THEN
+    RAISE EXCEPTION 'plan_limit:premium_templates'
+      USING HINT = 'Your plan does not include premium templates';
+  END IF;
+
+  -- A premium template's palette copied into the theme without going through template_id
+  IF (TG_OP = 'INSERT' OR NEW.theme IS DISTINCT FROM OLD.theme)
+    AND NOT COALESCE((entitlements->>'premium_templates')::boolean, false)
+    AND theme_matches_premium_template(NEW.theme)
+  THEN
+    RAISE EXCEPTION 'plan_limit:premium_templates'
+      USING HINT = 'Your plan does not include premium templates';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_business_cards_entitlements ON business_cards;
+CREATE TRIGGER enforce_business_cards_entitlements
+  BEFORE INSERT OR UPDATE ON business_cards
+  FOR EACH ROW EXECUTE FUNCTION enforce_card_entitlements();
+
+CREATE OR REPLACE FUNCTION enforce_media_entitlements()
+RETURNS trigger AS $$
+DECLARE
+  media_limit integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT (get_entitlements(user_id)->>'max_media_items')::integer INTO media_limit
+  FROM business_cards
+  WHERE id = NEW.card_id;
+
+  IF media_limit IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('media:' || NEW.card_id::text));
+
+  IF (SELECT count(*) FROM media_items WHERE card_id = NEW.card_id) >= media_limit THEN
+    RAISE EXCEPTION 'plan_limit:max_media_items'
+      USING HINT = format('Your plan includes %s media items per card', media_limit);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_media_items_entitlements ON media_items;
+CREATE TRIGGER enforce_media_items_entitlements
+  BEFORE INSERT ON media_items
+  FOR EACH ROW EXECUTE FUNCTION enforce_media_entitlements();
+
+-- A plan change (or an edit to a plan) switches off lead capture for cards that lost it,
+-- so their public forms disappear and submit_lead refuses new leads
+CREATE OR REPLACE FUNCTION disable_unentitled_features()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE business_cards
+  SET lead_capture_enabled = false
+  WHERE lead_capture_enabled = true
+  AND (
+    (TG_TABLE_NAME = 'profiles' AND user_id = NEW.id)
+    OR (TG_TABLE_NAME = 'subscription_plans' AND user_id IN (
+      SELECT id FROM profiles WHERE subscription_tier = NEW.id
+    ))
+  )
+  AND NOT COALESCE((get_entitlements(user_id)->>'lead_capture')::boolean, false);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS disable_profiles_unentitled_features ON profiles;
+CREATE TRIGGER disable_profiles_unentitled_features
+  AFTER UPDATE OF subscription_tier, entitlement_overrides ON profiles
+  FOR EACH ROW EXECUTE FUNCTION disable_unentitled_features();
+
+DROP TRIGGER IF EXISTS disable_plans_unentitled_features ON subscription_plans;
+CREATE TRIGGER disable_plans_unentitled_features
+  AFTER UPDATE OF lead_capture ON subscription_plans
+  FOR EACH ROW EXECUTE FUNCTION disable_unentitled_features();
+
+UPDATE business_cards
+SET lead_capture_enabled = false
+WHERE lead_capture_enabled = true
+AND NOT COALESCE((get_entitlements(user_id)->>'lead_capture')::boolean, false);
+
+-- Card events policies: analytics only go back as far as the owner's plan keeps them
+DROP POLICY IF EXISTS "Users can read events for own cards" ON card_events;
+CREATE POLICY "Users can read events for own cards"
+  ON card_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = card_events.card_id
+      AND business_cards.user_id = auth.uid()
+      AND card_events.created_at >= analytics_visible_since(business_cards.user_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Managers can read organization card events" ON card_events;
+CREATE POLICY "Managers can read organization card events"
+  ON card_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = card_events.card_id
+      AND business_cards.organization_id IS NOT NULL
+      AND is_org_manager(business_cards.organization_id)
+      AND card_events.created_at >= analytics_visible_since(business_cards.user_id)
+    )
+  );
+
+-- Views and analytics rows are limited to the same window as card events
+DROP POLICY IF EXISTS "Users can read analytics for own cards" ON card_analytics;
+CREATE POLICY "Users can read analytics for own cards"
+  ON card_analytics
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = card_analytics.card_id
+      AND business_cards.user_id = auth.uid()
+      AND card_analytics.viewed_at >= analytics_visible_since(business_cards.user_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read views for own cards" ON card_views;
+CREATE POLICY "Users can read views for own cards"
+  ON card_views
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM business_cards
+      WHERE business_cards.id = card_views.card_id
+      AND business_cards.user_id = auth.uid()
+      AND card_views.viewed_at >= analytics_visible_since(business_cards.user_id)
+    )
+  );
+
+DELETE FROM system_settings WHERE key = 'max_cards_per_user';
+
+-- Upload size: the admin setting drives the avatars bucket limit, so storage enforces it too
+CREATE OR REPLACE FUNCTION get_max_upload_size_mb()
+RETURNS integer AS $$
+  SELECT COALESCE(
+    (SELECT (value #>> '{}')::integer FROM system_settings WHERE key = 'max_file_size_mb'),
+    5
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_max_upload_size_mb() TO authenticated;
+
+CREATE OR REPLACE FUNCTION sync_upload_size_limit()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE storage.buckets
+  SET file_size_limit = get_max_upload_size_mb()::bigint * 1024 * 1024
+  WHERE id = 'avatars';
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_system_settings_upload_limit ON system_settings;
+CREATE TRIGGER sync_system_settings_upload_limit
+  AFTER INSERT OR UPDATE OR DELETE ON system_settings
+  FOR EACH STATEMENT EXECUTE FUNCTION sync_upload_size_limit();
+
+UPDATE storage.buckets
+SET file_size_limit = get_max_upload_size_mb()::bigint * 1024 * 1024
+WHERE id = 'avatars';
@@ -0,0 +1,326 @@
+/*
+  # Billing
+
+  1. New Tables
+    - `billing_subscriptions` - A user's paid subscription at the payment provider: plan,
+      status, renewal date, scheduled cancellation and grace period
+    - `billing_invoices` - Invoices the provider reported for the user
+    - `billing_events` - Provider events already applied, so redelivered webhooks are ignored
+
+  2. Changes
+    - `subscription_plans.price_cents`, `currency` - Monthly price; plans without a price or
+      with a price of 0 cannot be bought online
+    - `billing_grace_period_days` system setting - How long a failed renewal keeps the paid
+      plan before the account moves to Free (default 7)
+
+  3. New Functions
+    - `apply_billing_event(...)` - Records a provider event, normalized by api/_lib/billing.js,
+      and sets `profiles.subscription_tier` to match the subscription
+    - `expire_billing_subscriptions()` - Ends subscriptions whose grace period or cancelled
+      term is over and moves their owners to Free; runs hourly through pg_cron when that
+      extension is enabled
+
+  4. Security
+    - Enable RLS on all three tables
+    - Users read their own subscription and invoices; admins read everything
+    - Only the service role (the api/billing functions) writes; the functions above are not
+      granted to signed-in users
+
+  5. Notes
+    - Subscriptions are always monthly
+    - A failed renewal marks the subscription past due; it keeps its plan until the grace
+      period ends, and a successful payment before then makes it active again
+    - Changing `subscription_tier` by hand still works; the next billing event for the user
+      sets it back to what the subscription pays for
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'subscription_plans' AND column_name = 'price_cents'
+  ) THEN
+    ALTER TABLE subscription_plans ADD COLUMN price_cents integer CHECK (price_cents >= 0);
+    ALTER TABLE subscription_plans ADD COLUMN currency text DEFAULT 'usd' NOT NULL;
+
+    UPDATE subscription_plans SET price_cents = CASE id
+      WHEN 'free' THEN 0
+      WHEN 'pro' THEN 900
+      WHEN 'business' THEN 2900
+    END;
+  END IF;
+END $$;
+
+-- Create billing_subscriptions table
+CREATE TABLE IF NOT EXISTS billing_subscriptions (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  customer_id text NOT NULL,
+  subscription_id text NOT NULL,
+  plan_id text REFERENCES subscription_plans(id) NOT NULL,
+  status text NOT NULL CHECK (status IN ('active', 'past_due', 'canceled')),
+  current_period_end timestamptz,
+  cancel_at_period_end boolean DEFAULT false NOT NULL,
+  grace_period_ends_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (provider, subscription_id)
+);
+
+-- Create billing_invoices table
+CREATE TABLE IF NOT EXISTS billing_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  provider text NOT NULL,
+  invoice_id text NOT NULL,
+  plan_id text REFERENCES subscription_plans(id),
+  amount_cents integer NOT NULL CHECK (amount_cents >= 0),
+  currency text NOT NULL,
+  status text NOT NULL CHECK (status IN ('paid', 'open', 'void')),
+  invoice_url text,
+  period_start timestamptz,
+  period_end timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (provider, invoice_id)
+);
+
+-- Create billing_events table
+CREATE TABLE IF NOT EXISTS billing_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL,
+  event_id text NOT NULL,
+  event_type text NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  payload jsonb,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (provider, event_id)
+);
+
+INSERT INTO system_settings (key, value, description) VALUES
+  ('billing_grace_period_days', '7', 'Days a failed renewal keeps the paid plan')
+ON CONFLICT (key) DO NOTHING;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_billing_invoices_user_id ON billing_invoices(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_billing_events_user_id ON billing_events(user_id);
+
+-- Enable RLS
+ALTER TABLE billing_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE billing_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE billing_events ENABLE ROW LEVEL SECURITY;
+
+-- Billing subscriptions policies
+CREATE POLICY "Users can read own subscription"
+  ON billing_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all subscriptions"
+  ON billing_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Billing invoices policies
+CREATE POLICY "Users can read own invoices"
+  ON billing_invoices
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all invoices"
+  ON billing_invoices
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Billing events policies
+CREATE POLICY "Admins can read billing events"
+  ON billing_events
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_billing_subscriptions_updated_at
+  BEFORE UPDATE ON billing_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The plan a subscription pays for while it is active or in its grace period, Free after
+CREATE OR REPLACE FUNCTION sync_billing_tier(p_user_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE profiles
+  SET subscription_tier = CASE
+    WHEN billing_subscriptions.status IN ('active', 'past_due') THEN billing_subscriptions.plan_id
+    ELSE 'free'
+  END
+  FROM billing_subscriptions
+  WHERE billing_subscriptions.user_id = profiles.id
+  AND profiles.id = p_user_id
+  AND profiles.subscription_tier IS DISTINCT FROM CASE
+    WHEN billing_subscriptions.status IN ('active', 'past_due') THEN billing_subscriptions.plan_id
+    ELSE 'free'
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+/*
+  Apply one provider event. `p_subscription` is the subscription as the provider now has it
+  (customer_id, subscription_id, plan_id, status, current_period_end, cancel_at_period_end);
+  `p_invoice` is an invoice to record (invoice_id, plan_id, amount_cents, currency, status,
+  invoice_url, period_start, period_end). Returns false when the event was applied before.
+*/
+CREATE OR REPLACE FUNCTION apply_billing_event(
+  p_provider text,
+  p_event_id text,
+  p_event_type text,
+  p_user_id uuid,
+  p_subscription jsonb DEFAULT NULL,
+  p_invoice jsonb DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  grace_days integer;
+BEGIN
+  INSERT INTO billing_events (provider, event_id, event_type, user_id, payload)
+  VALUES (
+    p_provider,
+    p_event_id,
+    p_event_type,
+    p_user_id,
+    jsonb_build_object('subscription', p_subscription, 'invoice', p_invoice)
+  )
+  ON CONFLICT (provider, event_id) DO NOTHING;
+
+  -- Providers redeliver webhooks; each event is applied once
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF p_subscription IS NOT NULL THEN
+    INSERT INTO billing_subscriptions (
+      user_id,
+      provider,
+      customer_id,
+      subscription_id,
+      plan_id,
+      status,
+      current_period_end,
+      cancel_at_period_end
+    ) VALUES (
+      p_user_id,
+      p_provider,
+      p_subscription->>'customer_id',
+      p_subscription->>'subscription_id',
+      p_subscription->>'plan_id',
+      p_subscription->>'status',
+      (p_subscription->>'current_period_end')::timestamptz,
+      COALESCE((p_subscription->>'cancel_at_period_end')::boolean, false)
+    )
+    ON CONFLICT (user_id) DO UPDATE SET
+      provider = EXCLUDED.provider,
+      customer_id = EXCLUDED.customer_id,
+      subscription_id = EXCLUDED.subscription_id,
+      plan_id = EXCLUDED.plan_id,
+      status = EXCLUDED.status,
+      current_period_end = EXCLUDED.current_period_end,
+      cancel_at_period_end = EXCLUDED.cancel_at_period_end;
+  END IF;
+
+  IF p_invoice IS NOT NULL THEN
+    INSERT INTO billing_invoices (
+      user_id,
+      provider,
+      invoice_id,
+      plan_id,
+      amount_cents,
+      currency,
+      status,
+      invoice_url,
+      period_start,
+      period_end
+    ) VALUES (
+      p_user_id,
+      p_provider,
+      p_invoice->>'invoice_id',
+      p_invoice->>'plan_id',
+      (p_invoice->>'amount_cents')::integer,
+      p_invoice->>'currency',
+      p_invoice->>'status',
+      p_invoice->>'invoice_url',
+      (p_invoice->>'period_start')::timestamptz,
+      (p_invoice->>'period_end')::timestamptz
+    )
+    ON CONFLICT (provider, invoice_id) DO UPDATE SET
+      amount_cents = EXCLUDED.amount_cents,
+      status = EXCLUDED.status,
+      invoice_url = COALESCE(EXCLUDED.invoice_url, billing_invoices.invoice_url);
+  END IF;
+
+  IF p_event_type = 'invoice.payment_failed' THEN
+    UPDATE billing_subscriptions SET status = 'past_due'
+    WHERE user_id = p_user_id AND status = 'active';
+  ELSIF p_event_type = 'invoice.paid' THEN
+    UPDATE billing_subscriptions SET status = 'active'
+    WHERE user_id = p_user_id AND status = 'past_due';
+  END IF;
+
+  grace_days := COALESCE(
+    (SELECT (value #>> '{}')::integer FROM system_settings WHERE key = 'billing_grace_period_days'),
+    7
+  );
+
+  -- The grace period starts at the first failed renewal and ends once a payment succeeds
+  UPDATE billing_subscriptions
+  SET grace_period_ends_at = now() + make_interval(days => grace_days)
+  WHERE user_id = p_user_id AND status = 'past_due' AND grace_period_ends_at IS NULL;
+
+  UPDATE billing_subscriptions
+  SET grace_period_ends_at = NULL
+  WHERE user_id = p_user_id AND status <> 'past_due' AND grace_period_ends_at IS NOT NULL;
+
+  PERFORM sync_billing_tier(p_user_id);
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Downgrade subscriptions that were not paid within the grace period or were cancelled at
+-- the end of a term that is now over; returns how many ended
+CREATE OR REPLACE FUNCTION expire_billing_subscriptions()
+RETURNS integer AS $$
+DECLARE
+  expired_user_id uuid;
+  expired_count integer := 0;
+BEGIN
+  FOR expired_user_id IN
+    UPDATE billing_subscriptions
+    SET
+      status = 'canceled',
+      cancel_at_period_end = false,
+      grace_period_ends_at = NULL
+    WHERE (status = 'past_due' AND grace_period_ends_at <= now())
+    OR (status = 'active' AND cancel_at_period_end AND current_period_end <= now())
+    RETURNING user_id
+  LOOP
+    PERFORM sync_billing_tier(expired_user_id);
+    expired_count := expired_count + 1;
+  END LOOP;
+
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Service role only: these change what users pay for
+REVOKE EXECUTE ON FUNCTION sync_billing_tier(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_billing_event(text, text, text, uuid, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_billing_subscriptions() FROM PUBLIC, anon, authenticated;
+
+-- End lapsed subscriptions every hour when pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-billing-subscriptions', '0 * * * *', 'SELECT expire_billing_subscriptions()');
+  END IF;
+END $$;
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -7,4 +8,18 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  server: {
+    // The functions in api/ run locally through `npm run og:serve`; `npm run preview` uses this too
+    proxy: {
+      '/api': 'http://localhost:4100',
+      '/og': 'http://localhost:4100',
+    },
+  },
+  test: {
+    // Utilities import the Supabase client, which needs these to load; tests make no requests
+    env: {
+      VITE_SUPABASE_URL: 'http://localhost:54321',
+      VITE_SUPABASE_ANON_KEY: 'test-anon-key',
+    },
+  },
 });